@@ -1,47 +1,131 @@
-import { useState } from 'react';
+import { FormEvent, useState } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { httpBatchLink } from '@trpc/client';
 import { trpc } from './lib/trpc';
 
-function AppContent() {
+/**
+ * Sign in, or create an account
+ * The server answers with an HttpOnly session cookie.
+ */
+function SignInForm() {
+  const utils = trpc.useUtils();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const onSuccess = () => utils.invalidate();
+  const login = trpc.auth.login.useMutation({ onSuccess });
+  const register = trpc.auth.register.useMutation({ onSuccess });
+  const error = (mode === 'login' ? login : register).error;
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (mode === 'login') {
+      login.mutate({ email, password });
+    } else {
+      register.mutate({ name, email, password });
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="max-w-sm mx-auto bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="text-2xl font-semibold">{mode === 'login' ? 'Sign in' : 'Create account'}</h2>
+      {mode === 'register' && (
+        <input
+          className="w-full border border-gray-300 rounded-md px-3 py-2"
+          placeholder="Name"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+      )}
+      <input
+        className="w-full border border-gray-300 rounded-md px-3 py-2"
+        type="email"
+        placeholder="Email"
+        value={email}
+        onChange={(event) => setEmail(event.target.value)}
+      />
+      <input
+        className="w-full border border-gray-300 rounded-md px-3 py-2"
+        type="password"
+        placeholder="Password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+      />
+      {error && <p className="text-sm text-red-600">{error.message}</p>}
+      <button type="submit" className="w-full px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark transition-colors">
+        {mode === 'login' ? 'Sign in' : 'Create account'}
+      </button>
+      <button
+        type="button"
+        className="w-full text-sm text-gray-600"
+        onClick={() => setMode(mode === 'login' ? 'register' : 'login')}
+      >
+        {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+      </button>
+    </form>
+  );
+}
+
+function ProjectList() {
   const { data: projects, isLoading } = trpc.projects.list.useQuery();
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      <header className="bg-white shadow-sm border-b border-gray-200">
-        <div className="max-w-7xl mx-auto px-4 py-6">
-          <h1 className="text-3xl font-bold text-gray-900">CourseForge</h1>
-          <p className="text-gray-600 mt-1">Transform videos into interactive courses</p>
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-2xl font-semibold mb-4">Projects</h2>
+      
+      {isLoading ? (
+        <p className="text-gray-500">Loading projects...</p>
+      ) : projects && projects.length > 0 ? (
+        <ul className="space-y-3">
+          {projects.map((project) => (
+            <li key={project.id} className="border-l-4 border-primary pl-4 py-2">
+              <h3 className="font-medium text-lg">{project.title}</h3>
+              <p className="text-gray-600 text-sm">{project.description}</p>
+              <span className="inline-block mt-2 px-3 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                {project.status}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center py-8">
+          <p className="text-gray-500 mb-4">No projects yet</p>
+          <button className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark transition-colors">
+            Create Your First Project
+          </button>
         </div>
-      </header>
+      )}
+    </div>
+  );
+}
 
-      <main className="max-w-7xl mx-auto px-4 py-8">
-        <div className="bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-2xl font-semibold mb-4">Projects</h2>
-          
-          {isLoading ? (
-            <p className="text-gray-500">Loading projects...</p>
-          ) : projects && projects.length > 0 ? (
-            <ul className="space-y-3">
-              {projects.map((project) => (
-                <li key={project.id} className="border-l-4 border-primary pl-4 py-2">
-                  <h3 className="font-medium text-lg">{project.title}</h3>
-                  <p className="text-gray-600 text-sm">{project.description}</p>
-                  <span className="inline-block mt-2 px-3 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
-                    {project.status}
-                  </span>
-                </li>
-              ))}
-            </ul>
-          ) : (
-            <div className="text-center py-8">
-              <p className="text-gray-500 mb-4">No projects yet</p>
-              <button className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary-dark transition-colors">
-                Create Your First Project
+function AppContent() {
+  const utils = trpc.useUtils();
+  const { data: user, isLoading } = trpc.auth.me.useQuery();
+  const logout = trpc.auth.logout.useMutation({ onSuccess: () => utils.invalidate() });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">CourseForge</h1>
+            <p className="text-gray-600 mt-1">Transform videos into interactive courses</p>
+          </div>
+          {user && (
+            <div className="text-sm text-gray-600">
+              {user.name}
+              <button className="ml-3 underline" onClick={() => logout.mutate()}>
+                Sign out
               </button>
             </div>
           )}
         </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 py-8">
+        {isLoading ? null : user ? <ProjectList /> : <SignInForm />}
       </main>
     </div>
   );
@@ -53,7 +137,7 @@ function App() {
     trpc.createClient({
       links: [
         httpBatchLink({
-          url: 'http://localhost:3000/trpc',
+          url: '/trpc', // Same origin (see the dev proxy), so the session cookie is sent
         }),
       ],
     })
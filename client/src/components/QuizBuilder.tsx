@@ -4,7 +4,11 @@
  * Provides a full-featured quiz editor with:
  * - Add/edit/delete questions
  * - Add/edit/delete options
+ * - Question types: single choice, multiple response, true/false,
+ *   fill-in, matching and ordering
  * - Set correct answers
+ * - Question banks ("draw N of M") and shuffling of questions and options
+ * - Points, penalties, partial credit and weighted sections
  * - Undo/Redo with deep clone support for nested objects
  * - Drag-and-drop reordering (future enhancement)
  * 
@@ -15,31 +19,80 @@
 import { useState } from 'react';
 import { useUndoRedo } from '../hooks/useUndoRedo';
 
+type QuestionType = 'single' | 'multiple' | 'true-false' | 'fill-in' | 'matching' | 'ordering';
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Single choice',
+  multiple: 'Multiple response',
+  'true-false': 'True / False',
+  'fill-in': 'Fill in the blank',
+  matching: 'Matching',
+  ordering: 'Ordering',
+};
+
 interface QuizOption {
   id: string;
-  text: string;
+  text: string; // Matching: the prompt; fill-in: an accepted answer
+  match?: string; // Matching: the answer that belongs to the prompt
 }
 
 interface QuizQuestion {
   id: string;
+  contentId?: string; // Assigned by the server; kept so published bookmarks stay valid
+  type?: QuestionType; // Defaults to single
   question: string;
-  options: QuizOption[];
-  correctAnswer: string;
+  options: QuizOption[]; // Ordering: in the correct order
+  correctAnswer: string; // Single, true/false
+  correctAnswers?: string[]; // Multiple response
+  caseSensitive?: boolean; // Fill-in
+  bankId?: string | null; // Content id of the question's bank; none = always asked
+  sectionId?: string | null; // Content id of the question's section; none = weight 1
+  points?: number; // Defaults to 1
+  penalty?: number; // Points lost for a wrong answer
+  partialCredit?: boolean; // Multiple response, matching, ordering
   explanation: string;
 }
 
+interface QuestionBank {
+  contentId?: string; // Assigned by the server when the assessment is saved
+  title: string;
+  drawCount: number | null; // Questions drawn per attempt; null = all
+}
+
+interface QuizSection {
+  contentId?: string; // Assigned by the server when the assessment is saved
+  title: string;
+  weight: number; // Multiplies the points of the section's questions
+}
+
+interface QuizAssessment {
+  banks: QuestionBank[];
+  sections: QuizSection[];
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
 interface QuizState {
   questions: QuizQuestion[];
+  assessment: QuizAssessment;
 }
 
 interface QuizBuilderProps {
   initialQuestions?: QuizQuestion[];
-  onSave?: (questions: QuizQuestion[]) => void;
+  initialAssessment?: QuizAssessment;
+  // Save the assessment (quiz.saveAssessment) before the questions (quiz.save):
+  // questions can only be put in banks the server knows
+  onSave?: (questions: QuizQuestion[], assessment: QuizAssessment) => void;
 }
 
-export function QuizBuilder({ initialQuestions = [], onSave }: QuizBuilderProps) {
+const EMPTY_ASSESSMENT: QuizAssessment = { banks: [], sections: [], shuffleQuestions: false, shuffleOptions: false };
+
+const PARTIAL_CREDIT_TYPES: QuestionType[] = ['multiple', 'matching', 'ordering'];
+
+export function QuizBuilder({ initialQuestions = [], initialAssessment = EMPTY_ASSESSMENT, onSave }: QuizBuilderProps) {
   const { state, setState, undo, redo, canUndo, canRedo } = useUndoRedo<QuizState>({
     questions: initialQuestions,
+    assessment: initialAssessment,
   });
 
   const [editingQuestionId, setEditingQuestionId] = useState<string | null>(null);
@@ -91,6 +144,36 @@ export function QuizBuilder({ initialQuestions = [], onSave }: QuizBuilderProps)
     }));
   };
 
+  /**
+   * Change question type
+   * True/False gets its fixed options; leaving it starts from two empty ones.
+   */
+  const changeType = (id: string, type: QuestionType) => {
+    const now = Date.now();
+
+    setState((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q) => {
+        if (q.id !== id) return q;
+
+        let options = q.options;
+        if (type === 'true-false') {
+          options = [
+            { id: `opt_${now}_1`, text: 'True' },
+            { id: `opt_${now}_2`, text: 'False' },
+          ];
+        } else if ((q.type ?? 'single') === 'true-false') {
+          options = [
+            { id: `opt_${now}_1`, text: '' },
+            { id: `opt_${now}_2`, text: '' },
+          ];
+        }
+
+        return { ...q, type, options, correctAnswer: '', correctAnswers: [] };
+      }),
+    }));
+  };
+
   /**
    * Update question explanation
    */
@@ -160,6 +243,74 @@ export function QuizBuilder({ initialQuestions = [], onSave }: QuizBuilderProps)
     }));
   };
 
+  /**
+   * Update the match of a matching prompt
+   */
+  const updateMatch = (questionId: string, optionId: string, match: string) => {
+    setState((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q) =>
+        q.id === questionId
+          ? {
+              ...q,
+              options: q.options.map((opt) =>
+                opt.id === optionId ? { ...opt, match } : opt
+              ),
+            }
+          : q
+      ),
+    }));
+  };
+
+  /**
+   * Move an option up (-1) or down (1); sets the correct order of ordering questions
+   */
+  const moveOption = (questionId: string, index: number, direction: number) => {
+    setState((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q) => {
+        const target = index + direction;
+        if (q.id !== questionId || target < 0 || target >= q.options.length) return q;
+
+        const options = [...q.options];
+        [options[index], options[target]] = [options[target], options[index]];
+        return { ...q, options };
+      }),
+    }));
+  };
+
+  /**
+   * Toggle one of the correct answers of a multiple response question
+   */
+  const toggleCorrectAnswer = (questionId: string, optionId: string) => {
+    setState((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q) => {
+        if (q.id !== questionId) return q;
+
+        const correctAnswers = q.correctAnswers ?? [];
+        return {
+          ...q,
+          correctAnswers: correctAnswers.includes(optionId)
+            ? correctAnswers.filter((id) => id !== optionId)
+            : [...correctAnswers, optionId],
+        };
+      }),
+    }));
+  };
+
+  /**
+   * Set whether fill-in answers must match case
+   */
+  const setCaseSensitive = (questionId: string, caseSensitive: boolean) => {
+    setState((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q) =>
+        q.id === questionId ? { ...q, caseSensitive } : q
+      ),
+    }));
+  };
+
   /**
    * Set correct answer
    */
@@ -172,15 +323,147 @@ export function QuizBuilder({ initialQuestions = [], onSave }: QuizBuilderProps)
     }));
   };
 
+  /**
+   * Put a question in a bank (null = always asked)
+   */
+  const setQuestionBank = (questionId: string, bankId: string | null) => {
+    setState((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q) =>
+        q.id === questionId ? { ...q, bankId } : q
+      ),
+    }));
+  };
+
+  /**
+   * Add a question bank
+   */
+  const addBank = () => {
+    setState((prev) => ({
+      ...prev,
+      assessment: {
+        ...prev.assessment,
+        banks: [...prev.assessment.banks, { title: `Bank ${prev.assessment.banks.length + 1}`, drawCount: null }],
+      },
+    }));
+  };
+
+  /**
+   * Update a question bank
+   */
+  const updateBank = (index: number, changes: Partial<QuestionBank>) => {
+    setState((prev) => ({
+      ...prev,
+      assessment: {
+        ...prev.assessment,
+        banks: prev.assessment.banks.map((bank, i) => (i === index ? { ...bank, ...changes } : bank)),
+      },
+    }));
+  };
+
+  /**
+   * Delete a question bank
+   * Its questions are always asked again.
+   */
+  const deleteBank = (index: number) => {
+    setState((prev) => {
+      const removed = prev.assessment.banks[index];
+
+      return {
+        questions: prev.questions.map((q) =>
+          removed.contentId && q.bankId === removed.contentId ? { ...q, bankId: null } : q
+        ),
+        assessment: {
+          ...prev.assessment,
+          banks: prev.assessment.banks.filter((_, i) => i !== index),
+        },
+      };
+    });
+  };
+
+  /**
+   * Update a question's scoring: points, penalty, partial credit or section
+   */
+  const updateScoring = (
+    questionId: string,
+    changes: Pick<QuizQuestion, 'points' | 'penalty' | 'partialCredit' | 'sectionId'>
+  ) => {
+    setState((prev) => ({
+      ...prev,
+      questions: prev.questions.map((q) =>
+        q.id === questionId ? { ...q, ...changes } : q
+      ),
+    }));
+  };
+
+  /**
+   * Add a scoring section
+   */
+  const addSection = () => {
+    setState((prev) => ({
+      ...prev,
+      assessment: {
+        ...prev.assessment,
+        sections: [...prev.assessment.sections, { title: `Section ${prev.assessment.sections.length + 1}`, weight: 1 }],
+      },
+    }));
+  };
+
+  /**
+   * Update a scoring section
+   */
+  const updateSection = (index: number, changes: Partial<QuizSection>) => {
+    setState((prev) => ({
+      ...prev,
+      assessment: {
+        ...prev.assessment,
+        sections: prev.assessment.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)),
+      },
+    }));
+  };
+
+  /**
+   * Delete a scoring section
+   * Its questions count with weight 1 again.
+   */
+  const deleteSection = (index: number) => {
+    setState((prev) => {
+      const removed = prev.assessment.sections[index];
+
+      return {
+        questions: prev.questions.map((q) =>
+          removed.contentId && q.sectionId === removed.contentId ? { ...q, sectionId: null } : q
+        ),
+        assessment: {
+          ...prev.assessment,
+          sections: prev.assessment.sections.filter((_, i) => i !== index),
+        },
+      };
+    });
+  };
+
+  /**
+   * Turn shuffling of questions or options on or off
+   */
+  const setShuffle = (key: 'shuffleQuestions' | 'shuffleOptions', value: boolean) => {
+    setState((prev) => ({
+      ...prev,
+      assessment: { ...prev.assessment, [key]: value },
+    }));
+  };
+
   /**
    * Save quiz
    */
   const handleSave = () => {
     if (onSave) {
-      onSave(state.questions);
+      onSave(state.questions, state.assessment);
     }
   };
 
+  const savedBanks = state.assessment.banks.filter((bank) => bank.contentId);
+  const savedSections = state.assessment.sections.filter((section) => section.contentId);
+
   return (
     <div className="quiz-builder">
       {/* Toolbar */}
@@ -199,6 +482,97 @@ export function QuizBuilder({ initialQuestions = [], onSave }: QuizBuilderProps)
         </button>
       </div>
 
+      {/* Assessment */}
+      <div
+        className="assessment-settings"
+        style={{ border: '1px solid #e0e0e0', borderRadius: '8px', padding: '1rem', marginBottom: '1rem' }}
+      >
+        <h3 style={{ marginTop: 0 }}>Question Banks</h3>
+        {state.assessment.banks.map((bank, index) => (
+          <div key={bank.contentId ?? `new_${index}`} style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={bank.title}
+              onChange={(e) => updateBank(index, { title: e.target.value })}
+              placeholder="Bank title"
+              style={{ flex: 1, padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+            />
+            <label>
+              Draw{' '}
+              <input
+                type="number"
+                min={1}
+                value={bank.drawCount ?? ''}
+                onChange={(e) => updateBank(index, { drawCount: e.target.value ? Math.max(1, Number(e.target.value)) : null })}
+                placeholder="All"
+                style={{ width: '5rem', padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+              />{' '}
+              of {state.questions.filter((q) => bank.contentId && q.bankId === bank.contentId).length}
+            </label>
+            <button onClick={() => deleteBank(index)} className="btn-danger-small" style={{ fontSize: '0.8rem' }}>
+              ✕
+            </button>
+          </div>
+        ))}
+        <button onClick={addBank} className="btn-secondary" style={{ fontSize: '0.9rem' }}>
+          + Add Bank
+        </button>
+        {state.assessment.banks.some((bank) => !bank.contentId) && (
+          <p style={{ color: '#666', fontSize: '0.85rem' }}>Save the quiz to put questions in new banks.</p>
+        )}
+
+        <h3>Sections</h3>
+        {state.assessment.sections.map((section, index) => (
+          <div key={section.contentId ?? `new_${index}`} style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem', alignItems: 'center' }}>
+            <input
+              type="text"
+              value={section.title}
+              onChange={(e) => updateSection(index, { title: e.target.value })}
+              placeholder="Section title"
+              style={{ flex: 1, padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+            />
+            <label>
+              Weight ×{' '}
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={section.weight}
+                onChange={(e) => updateSection(index, { weight: Math.max(1, Math.round(Number(e.target.value)) || 1) })}
+                style={{ width: '5rem', padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+              />
+            </label>
+            <button onClick={() => deleteSection(index)} className="btn-danger-small" style={{ fontSize: '0.8rem' }}>
+              ✕
+            </button>
+          </div>
+        ))}
+        <button onClick={addSection} className="btn-secondary" style={{ fontSize: '0.9rem' }}>
+          + Add Section
+        </button>
+        {state.assessment.sections.some((section) => !section.contentId) && (
+          <p style={{ color: '#666', fontSize: '0.85rem' }}>Save the quiz to put questions in new sections.</p>
+        )}
+        <div style={{ marginTop: '0.75rem', display: 'flex', gap: '1rem' }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={state.assessment.shuffleQuestions}
+              onChange={(e) => setShuffle('shuffleQuestions', e.target.checked)}
+            />{' '}
+            Shuffle questions
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={state.assessment.shuffleOptions}
+              onChange={(e) => setShuffle('shuffleOptions', e.target.checked)}
+            />{' '}
+            Shuffle options
+          </label>
+        </div>
+      </div>
+
       {/* Questions List */}
       <div className="questions-list">
         {state.questions.length === 0 ? (
@@ -250,61 +624,215 @@ export function QuizBuilder({ initialQuestions = [], onSave }: QuizBuilderProps)
                 />
               </div>
 
-              {/* Options */}
+              {/* Type */}
               <div style={{ marginBottom: '1rem' }}>
                 <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
-                  Options:
+                  Type:
                 </label>
-                {question.options.map((option, optIndex) => (
-                  <div
-                    key={option.id}
-                    style={{
-                      display: 'flex',
-                      gap: '0.5rem',
-                      marginBottom: '0.5rem',
-                      alignItems: 'center',
-                    }}
+                <select
+                  value={question.type ?? 'single'}
+                  onChange={(e) => changeType(question.id, e.target.value as QuestionType)}
+                  style={{ padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+                >
+                  {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {QUESTION_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Bank */}
+              {savedBanks.length > 0 && (
+                <div style={{ marginBottom: '1rem' }}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
+                    Bank:
+                  </label>
+                  <select
+                    value={question.bankId ?? ''}
+                    onChange={(e) => setQuestionBank(question.id, e.target.value || null)}
+                    style={{ padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
                   >
+                    <option value="">None (always asked)</option>
+                    {savedBanks.map((bank) => (
+                      <option key={bank.contentId} value={bank.contentId}>
+                        {bank.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Scoring */}
+              <div style={{ marginBottom: '1rem', display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap' }}>
+                <label>
+                  Points{' '}
+                  <input
+                    type="number"
+                    min={0.5}
+                    step={0.5}
+                    value={question.points ?? 1}
+                    onChange={(e) => updateScoring(question.id, { points: Number(e.target.value) || 1 })}
+                    style={{ width: '5rem', padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+                  />
+                </label>
+                <label>
+                  Penalty{' '}
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    value={question.penalty ?? 0}
+                    onChange={(e) => updateScoring(question.id, { penalty: Math.max(0, Number(e.target.value) || 0) })}
+                    style={{ width: '5rem', padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+                  />
+                </label>
+                {PARTIAL_CREDIT_TYPES.includes(question.type ?? 'single') && (
+                  <label>
                     <input
-                      type="radio"
-                      name={`correct_${question.id}`}
-                      checked={question.correctAnswer === option.id}
-                      onChange={() => setCorrectAnswer(question.id, option.id)}
-                      style={{ cursor: 'pointer' }}
-                    />
-                    <span style={{ minWidth: '20px', fontWeight: 500 }}>
-                      {String.fromCharCode(65 + optIndex)}.
-                    </span>
-                    <input
-                      type="text"
-                      value={option.text}
-                      onChange={(e) => updateOption(question.id, option.id, e.target.value)}
-                      placeholder={`Option ${String.fromCharCode(65 + optIndex)}`}
+                      type="checkbox"
+                      checked={question.partialCredit ?? false}
+                      onChange={(e) => updateScoring(question.id, { partialCredit: e.target.checked })}
+                    />{' '}
+                    Partial credit
+                  </label>
+                )}
+                {savedSections.length > 0 && (
+                  <label>
+                    Section{' '}
+                    <select
+                      value={question.sectionId ?? ''}
+                      onChange={(e) => updateScoring(question.id, { sectionId: e.target.value || null })}
+                      style={{ padding: '0.5rem', border: '1px solid #ddd', borderRadius: '4px' }}
+                    >
+                      <option value="">None (weight 1)</option>
+                      {savedSections.map((section) => (
+                        <option key={section.contentId} value={section.contentId}>
+                          {section.title} (×{section.weight})
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              {/* Options */}
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 500 }}>
+                  {optionsLabel(question.type ?? 'single')}
+                </label>
+                {question.options.map((option, optIndex) => {
+                  const type = question.type ?? 'single';
+                  const letter = String.fromCharCode(65 + optIndex);
+
+                  return (
+                    <div
+                      key={option.id}
                       style={{
-                        flex: 1,
-                        padding: '0.5rem',
-                        border: '1px solid #ddd',
-                        borderRadius: '4px',
+                        display: 'flex',
+                        gap: '0.5rem',
+                        marginBottom: '0.5rem',
+                        alignItems: 'center',
                       }}
-                    />
-                    {question.options.length > 2 && (
-                      <button
-                        onClick={() => deleteOption(question.id, option.id)}
-                        className="btn-danger-small"
-                        style={{ fontSize: '0.8rem' }}
-                      >
-                        ✕
-                      </button>
-                    )}
-                  </div>
-                ))}
-                <button
-                  onClick={() => addOption(question.id)}
-                  className="btn-secondary"
-                  style={{ fontSize: '0.9rem', marginTop: '0.5rem' }}
-                >
-                  + Add Option
-                </button>
+                    >
+                      {(type === 'single' || type === 'true-false') && (
+                        <input
+                          type="radio"
+                          name={`correct_${question.id}`}
+                          checked={question.correctAnswer === option.id}
+                          onChange={() => setCorrectAnswer(question.id, option.id)}
+                          style={{ cursor: 'pointer' }}
+                        />
+                      )}
+                      {type === 'multiple' && (
+                        <input
+                          type="checkbox"
+                          checked={(question.correctAnswers ?? []).includes(option.id)}
+                          onChange={() => toggleCorrectAnswer(question.id, option.id)}
+                          style={{ cursor: 'pointer' }}
+                        />
+                      )}
+                      <span style={{ minWidth: '20px', fontWeight: 500 }}>
+                        {type === 'fill-in' || type === 'ordering' ? `${optIndex + 1}.` : `${letter}.`}
+                      </span>
+                      <input
+                        type="text"
+                        value={option.text}
+                        onChange={(e) => updateOption(question.id, option.id, e.target.value)}
+                        placeholder={optionPlaceholder(type, optIndex)}
+                        readOnly={type === 'true-false'}
+                        style={{
+                          flex: 1,
+                          padding: '0.5rem',
+                          border: '1px solid #ddd',
+                          borderRadius: '4px',
+                        }}
+                      />
+                      {type === 'matching' && (
+                        <input
+                          type="text"
+                          value={option.match ?? ''}
+                          onChange={(e) => updateMatch(question.id, option.id, e.target.value)}
+                          placeholder={`Match ${optIndex + 1}`}
+                          style={{
+                            flex: 1,
+                            padding: '0.5rem',
+                            border: '1px solid #ddd',
+                            borderRadius: '4px',
+                          }}
+                        />
+                      )}
+                      {type === 'ordering' && (
+                        <>
+                          <button
+                            onClick={() => moveOption(question.id, optIndex, -1)}
+                            disabled={optIndex === 0}
+                            className="btn-secondary"
+                            style={{ fontSize: '0.8rem' }}
+                          >
+                            ↑
+                          </button>
+                          <button
+                            onClick={() => moveOption(question.id, optIndex, 1)}
+                            disabled={optIndex === question.options.length - 1}
+                            className="btn-secondary"
+                            style={{ fontSize: '0.8rem' }}
+                          >
+                            ↓
+                          </button>
+                        </>
+                      )}
+                      {type !== 'true-false' && question.options.length > (type === 'fill-in' ? 1 : 2) && (
+                        <button
+                          onClick={() => deleteOption(question.id, option.id)}
+                          className="btn-danger-small"
+                          style={{ fontSize: '0.8rem' }}
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+                {question.type !== 'true-false' && (
+                  <button
+                    onClick={() => addOption(question.id)}
+                    className="btn-secondary"
+                    style={{ fontSize: '0.9rem', marginTop: '0.5rem' }}
+                  >
+                    {question.type === 'fill-in' ? '+ Add Accepted Answer' : '+ Add Option'}
+                  </button>
+                )}
+                {question.type === 'fill-in' && (
+                  <label style={{ display: 'block', marginTop: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={question.caseSensitive ?? false}
+                      onChange={(e) => setCaseSensitive(question.id, e.target.checked)}
+                    />{' '}
+                    Case sensitive
+                  </label>
+                )}
               </div>
 
               {/* Explanation */}
@@ -352,6 +880,37 @@ export function QuizBuilder({ initialQuestions = [], onSave }: QuizBuilderProps)
   );
 }
 
+/**
+ * Heading above the options of a question type
+ */
+function optionsLabel(type: QuestionType): string {
+  switch (type) {
+    case 'multiple':
+      return 'Options (check every correct one):';
+    case 'fill-in':
+      return 'Accepted answers:';
+    case 'matching':
+      return 'Pairs (prompt and its match):';
+    case 'ordering':
+      return 'Items (in the correct order):';
+    default:
+      return 'Options:';
+  }
+}
+
+function optionPlaceholder(type: QuestionType, index: number): string {
+  switch (type) {
+    case 'fill-in':
+      return `Accepted answer ${index + 1}`;
+    case 'matching':
+      return `Prompt ${index + 1}`;
+    case 'ordering':
+      return `Item ${index + 1}`;
+    default:
+      return `Option ${String.fromCharCode(65 + index)}`;
+  }
+}
+
 /**
  * VERIFICATION TEST:
  * 
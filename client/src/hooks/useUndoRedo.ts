@@ -80,6 +80,9 @@ export function useUndoRedo<T>(
   const historyRef = useRef<T[]>([deepClone(initialState)]);
   const currentIndexRef = useRef<number>(0);
 
+  // Re-renders after history-only changes, which leave state untouched
+  const [, setHistoryVersion] = useState(0);
+
   /**
    * Set state with history tracking
    * CRITICAL: Deep clones the state to preserve nested objects
@@ -157,6 +160,7 @@ export function useUndoRedo<T>(
     const currentState = deepClone(state);
     historyRef.current = [currentState];
     currentIndexRef.current = 0;
+    setHistoryVersion((version) => version + 1);
   }, [state]);
 
   return {
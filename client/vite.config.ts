@@ -17,6 +17,18 @@ export default defineConfig({
         target: 'http://localhost:3000',
         changeOrigin: true,
       },
+      '/exports': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
+      '/xapi': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
+      '/preview': {
+        target: 'http://localhost:3000',
+        changeOrigin: true,
+      },
     },
   },
 });
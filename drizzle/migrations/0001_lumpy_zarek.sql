@@ -0,0 +1,2 @@
+ALTER TABLE `transcripts` ADD `format` text DEFAULT 'text' NOT NULL;--> statement-breakpoint
+ALTER TABLE `transcripts` ADD `cues` text;
\ No newline at end of file
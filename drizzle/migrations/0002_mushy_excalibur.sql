@@ -0,0 +1,14 @@
+CREATE TABLE `export_jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`progress` integer DEFAULT 0 NOT NULL,
+	`version` text NOT NULL,
+	`options` text NOT NULL,
+	`filename` text,
+	`file_size` integer,
+	`error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`completed_at` integer,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
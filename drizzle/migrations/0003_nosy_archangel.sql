@@ -0,0 +1,25 @@
+CREATE TABLE `xapi_documents` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`type` text NOT NULL,
+	`activity_id` text NOT NULL,
+	`agent` text,
+	`registration` text,
+	`document_id` text NOT NULL,
+	`content_type` text NOT NULL,
+	`content` text NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `xapi_statements` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`statement_id` text NOT NULL,
+	`project_id` integer,
+	`registration` text,
+	`verb` text NOT NULL,
+	`activity_id` text,
+	`statement` text NOT NULL,
+	`stored_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `xapi_statements_statement_id_unique` ON `xapi_statements` (`statement_id`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE `scorm_preview_states` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`export_job_id` integer NOT NULL,
+	`sco_id` text NOT NULL,
+	`cmi` text NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`export_job_id`) REFERENCES `export_jobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
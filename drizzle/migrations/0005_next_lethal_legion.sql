@@ -0,0 +1,4 @@
+ALTER TABLE `lessons` ADD `content_id` text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE `quiz_questions` ADD `content_id` text DEFAULT '' NOT NULL;--> statement-breakpoint
+UPDATE `lessons` SET `content_id` = lower(hex(randomblob(4))) WHERE `content_id` = '';--> statement-breakpoint
+UPDATE `quiz_questions` SET `content_id` = lower(hex(randomblob(4))) WHERE `content_id` = '';
@@ -0,0 +1,2 @@
+ALTER TABLE `quiz_questions` ADD `type` text DEFAULT 'single' NOT NULL;--> statement-breakpoint
+ALTER TABLE `quiz_questions` ADD `settings` text;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `quiz_sections` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`content_id` text NOT NULL,
+	`title` text NOT NULL,
+	`weight` integer DEFAULT 1 NOT NULL,
+	`sort_order` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `quiz_questions` ADD `section_id` text;
\ No newline at end of file
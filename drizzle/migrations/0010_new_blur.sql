@@ -0,0 +1,21 @@
+CREATE TABLE `memberships` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`organization_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`role` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`organization_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `memberships_organization_user_unique` ON `memberships` (`organization_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `organizations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `organization_id` integer REFERENCES organizations(id);--> statement-breakpoint
+INSERT INTO `organizations` (`id`, `name`) SELECT `id`, `name` || '''s workspace' FROM `users`;--> statement-breakpoint
+INSERT INTO `memberships` (`organization_id`, `user_id`, `role`) SELECT `id`, `id`, 'admin' FROM `users`;--> statement-breakpoint
+UPDATE `projects` SET `organization_id` = `owner_id` WHERE `owner_id` IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `project_snapshots` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`project_id` integer NOT NULL,
+	`number` integer NOT NULL,
+	`reason` text NOT NULL,
+	`label` text,
+	`document` text NOT NULL,
+	`content_hash` text NOT NULL,
+	`created_by` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`created_by`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `export_jobs` ADD `snapshot_id` integer REFERENCES project_snapshots(id);
\ No newline at end of file
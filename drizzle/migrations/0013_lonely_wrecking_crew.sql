@@ -0,0 +1,12 @@
+CREATE TABLE `audit_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`organization_id` integer,
+	`user_id` integer,
+	`path` text NOT NULL,
+	`project_id` integer,
+	`entity_ids` text NOT NULL,
+	`input` text,
+	`result` text NOT NULL,
+	`error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
@@ -1,14 +1,36 @@
 import { router } from './trpc.js';
+import { authRouter } from '../routers/auth.js';
+import { organizationsRouter } from '../routers/organizations.js';
 import { projectsRouter } from '../routers/projects.js';
 import { scormRouter } from '../routers/scorm.js';
+import { lessonsRouter } from '../routers/lessons.js';
+import { quizRouter } from '../routers/quiz.js';
+import { transcriptsRouter } from '../routers/transcripts.js';
+import { metaRouter } from '../routers/meta.js';
+import { coursesRouter } from '../routers/courses.js';
+import { xapiRouter } from '../routers/xapi.js';
+import { workflowRouter } from '../routers/workflow.js';
+import { snapshotsRouter } from '../routers/snapshots.js';
+import { auditRouter } from '../routers/audit.js';
 
 /**
  * Main application router
  * Combines all feature routers
  */
 export const appRouter = router({
+  auth: authRouter,
+  organizations: organizationsRouter,
   projects: projectsRouter,
   scorm: scormRouter,
+  lessons: lessonsRouter,
+  quiz: quizRouter,
+  transcripts: transcriptsRouter,
+  meta: metaRouter,
+  courses: coursesRouter,
+  xapi: xapiRouter,
+  workflow: workflowRouter,
+  snapshots: snapshotsRouter,
+  audit: auditRouter,
 });
 
 export type AppRouter = typeof appRouter;
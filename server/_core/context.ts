@@ -1,16 +1,23 @@
 import { inferAsyncReturnType } from '@trpc/server';
 import { CreateExpressContextOptions } from '@trpc/server/adapters/express';
 import { db } from '../db/index.js';
+import { AuthService } from '../services/auth.js';
 
 /**
  * Create context for tRPC
- * This is called for every request
+ * This is called for every request; `user` is the signed-in account
+ * (session cookie or bearer token), or null.
  */
-export const createContext = ({ req, res }: CreateExpressContextOptions) => {
+export const createContext = async ({ req, res }: CreateExpressContextOptions) => {
+  const sessionToken = AuthService.tokenFromRequest(req);
+  const user = await AuthService.resolveSession(db, sessionToken);
+
   return {
     db,
     req,
     res,
+    user,
+    sessionToken: user ? sessionToken : null,
   };
 };
 
@@ -0,0 +1,114 @@
+import { and, eq, getTableColumns } from 'drizzle-orm';
+import type { Database } from '../db/index.js';
+import { exportJobs, memberships, projects } from '../db/schema.js';
+import { OrganizationService, Permission, Role } from '../services/organizations.js';
+
+/**
+ * Load a project of a workspace or fail
+ * Shared by every project-scoped router. Projects of other workspaces are
+ * reported as not found, so ids cannot be probed.
+ */
+export async function requireProject(db: Database, projectId: number, organizationId: number) {
+  const result = await db
+    .select()
+    .from(projects)
+    .where(and(eq(projects.id, projectId), eq(projects.organizationId, organizationId)))
+    .limit(1);
+
+  if (!result[0]) {
+    throw new Error('Project not found');
+  }
+
+  return result[0];
+}
+
+/**
+ * Load a project of a workspace whose content may be changed, or fail
+ * Only drafts can be edited (see ProjectWorkflow); others must be reopened.
+ */
+export async function requireEditableProject(db: Database, projectId: number, organizationId: number) {
+  const project = await requireProject(db, projectId, organizationId);
+
+  if (project.status !== 'draft') {
+    throw new Error(`Project is ${project.status.replace('_', ' ')}; reopen it as a draft to edit it`);
+  }
+
+  return project;
+}
+
+/**
+ * Load an export job of a workspace's project, or null
+ */
+export async function findExportJob(db: Database, jobId: number, organizationId: number) {
+  const result = await db
+    .select(getTableColumns(exportJobs))
+    .from(exportJobs)
+    .innerJoin(projects, eq(projects.id, exportJobs.projectId))
+    .where(and(eq(exportJobs.id, jobId), eq(projects.organizationId, organizationId)))
+    .limit(1);
+
+  return result[0] || null;
+}
+
+/**
+ * Load an export job of a workspace's project or fail
+ */
+export async function requireExportJob(db: Database, jobId: number, organizationId: number) {
+  const job = await findExportJob(db, jobId, organizationId);
+
+  if (!job) {
+    throw new Error(`Export job ${jobId} not found`);
+  }
+
+  return job;
+}
+
+/**
+ * Load an export job for a user with a permission in its project's
+ * organization, whichever workspace they are acting in, or null
+ * Used by the plain HTTP routes (downloads, preview), which have no
+ * workspace header.
+ */
+export async function findPermittedExportJob(db: Database, jobId: number, userId: number, permission: Permission) {
+  const result = await db
+    .select({ ...getTableColumns(exportJobs), role: memberships.role })
+    .from(exportJobs)
+    .innerJoin(projects, eq(projects.id, exportJobs.projectId))
+    .innerJoin(
+      memberships,
+      and(eq(memberships.organizationId, projects.organizationId), eq(memberships.userId, userId))
+    )
+    .where(eq(exportJobs.id, jobId))
+    .limit(1);
+
+  if (!result[0] || !OrganizationService.can(result[0].role as Role, permission)) {
+    return null;
+  }
+
+  const { role: _role, ...job } = result[0];
+  return job;
+}
+
+/**
+ * Load a project for a user with a permission in its organization,
+ * whichever workspace they are acting in, or null
+ * Used by the plain HTTP routes (the LRS fetch URL).
+ */
+export async function findPermittedProject(db: Database, projectId: number, userId: number, permission: Permission) {
+  const result = await db
+    .select({ ...getTableColumns(projects), role: memberships.role })
+    .from(projects)
+    .innerJoin(
+      memberships,
+      and(eq(memberships.organizationId, projects.organizationId), eq(memberships.userId, userId))
+    )
+    .where(eq(projects.id, projectId))
+    .limit(1);
+
+  if (!result[0] || !OrganizationService.can(result[0].role as Role, permission)) {
+    return null;
+  }
+
+  const { role: _role, ...project } = result[0];
+  return project;
+}
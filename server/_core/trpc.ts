@@ -1,13 +1,119 @@
-import { initTRPC } from '@trpc/server';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { Context } from './context.js';
+import { AuditService } from '../services/audit.js';
+import { AuthService, AuthUser } from '../services/auth.js';
+import { OrganizationService, Permission } from '../services/organizations.js';
 
 /**
  * Initialize tRPC with context
  */
 const t = initTRPC.context<Context>().create();
 
+/**
+ * Mutations that run without a session but act on the account of the
+ * email in their input
+ */
+const ACCOUNT_PATHS = ['auth.register', 'auth.login'];
+
+/**
+ * Account a mutation acted for: the signed-in user, or for sign-in and
+ * registration the account of the input email, if there is one
+ */
+async function actorOf(ctx: Context, path: string, input: unknown): Promise<AuthUser | null> {
+  if (ctx.user) {
+    return ctx.user;
+  }
+
+  const email = input && typeof input === 'object' ? (input as { email?: unknown }).email : undefined;
+
+  return ACCOUNT_PATHS.includes(path) && typeof email === 'string'
+    ? await AuthService.findByEmail(ctx.db, email)
+    : null;
+}
+
+/**
+ * Record every mutation in the audit log (see AuditService)
+ * Runs outside the other middleware, so rejected calls are logged too. A
+ * failure to write the entry is reported but does not fail the call.
+ */
+const audited = t.procedure.use(async ({ ctx, path, type, getRawInput, next }) => {
+  const result = await next();
+
+  if (type !== 'mutation') {
+    return result;
+  }
+
+  try {
+    const input = await getRawInput().catch(() => undefined);
+    const actor = await actorOf(ctx, path, input);
+    const workspace = actor
+      ? await OrganizationService.resolve(ctx.db, actor.id, OrganizationService.workspaceIdFromRequest(ctx.req))
+      : null;
+
+    await AuditService.record(ctx.db, {
+      organizationId: workspace?.id ?? null,
+      userId: actor?.id ?? null,
+      path,
+      input,
+      output: result.ok ? result.data : null,
+      error: result.ok ? null : { code: result.error.code, message: result.error.message },
+    });
+  } catch (error) {
+    console.error(`Failed to write the audit entry for ${path}:`, error);
+  }
+
+  return result;
+});
+
 /**
  * Export reusable router and procedure helpers
  */
 export const router = t.router;
-export const publicProcedure = t.procedure;
+export const publicProcedure = audited;
+
+/**
+ * Procedure for signed-in users
+ * ctx.user is non-null inside.
+ */
+export const protectedProcedure = audited.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Sign in required' });
+  }
+
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+/**
+ * Procedure acting in the caller's workspace
+ * ctx.workspace is the organization of the X-Organization-Id header (or
+ * the user's oldest membership) with the user's role in it; projects must
+ * still be checked with requireProject (see guards.ts).
+ */
+export const workspaceProcedure = protectedProcedure.use(async ({ ctx, next }) => {
+  const workspace = await OrganizationService.resolve(
+    ctx.db,
+    ctx.user.id,
+    OrganizationService.workspaceIdFromRequest(ctx.req)
+  );
+
+  if (!workspace) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Not a member of this workspace' });
+  }
+
+  return next({ ctx: { ...ctx, workspace } });
+});
+
+/**
+ * Workspace procedure for roles with a permission (see ROLE_PERMISSIONS)
+ */
+export const roleProcedure = (permission: Permission) =>
+  workspaceProcedure.use(({ ctx, next }) => {
+    if (!OrganizationService.can(ctx.workspace.role, permission)) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: `The ${ctx.workspace.role} role does not have the ${permission} permission`,
+      });
+    }
+
+    return next();
+  });
@@ -0,0 +1,45 @@
+/**
+ * Content ID Helpers
+ *
+ * Lessons and quiz questions carry a stable content id that survives
+ * edits, reordering and re-saves (which replace rows). Exported packages
+ * use it to find a learner's bookmark again after a course is republished.
+ */
+
+import { randomBytes } from 'crypto';
+
+/**
+ * Content ids are short and safe inside suspend_data and manifests
+ */
+export const CONTENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,16}$/;
+
+export const CONTENT_ID_MAX_LENGTH = 16;
+
+/**
+ * New random content id (8 hex characters)
+ */
+export function newContentId(): string {
+  return randomBytes(4).toString('hex');
+}
+
+/**
+ * Content ids for a list about to be saved
+ * Keeps the ids items already have; missing, malformed and repeated ids
+ * (e.g. a duplicated question) get a fresh one.
+ */
+export function assignContentIds(items: Array<{ contentId?: string | null }>): string[] {
+  const used = new Set<string>();
+
+  return items.map((item) => {
+    let contentId = item.contentId;
+
+    if (!contentId || !CONTENT_ID_PATTERN.test(contentId) || used.has(contentId)) {
+      do {
+        contentId = newContentId();
+      } while (used.has(contentId));
+    }
+
+    used.add(contentId);
+    return contentId;
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Database Transactions - Test Suite
+ *
+ * Verifies that SQLite transactions sharing the one connection run one at
+ * a time and roll back independently.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db, withTransaction } from './index.js';
+import { projects } from './schema.js';
+
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function titlesLike(prefix: string) {
+  const rows = await db.select({ title: projects.title }).from(projects).orderBy(projects.id);
+  return rows.map((row) => row.title).filter((title) => title.startsWith(prefix));
+}
+
+describe('withTransaction', () => {
+  it('runs concurrent transactions one after the other', async () => {
+    const steps: string[] = [];
+
+    const transaction = (name: string) =>
+      withTransaction(db, async (tx) => {
+        steps.push(`${name} begin`);
+        await nextTick();
+        await tx.insert(projects).values({ title: `queued ${name}` });
+        steps.push(`${name} commit`);
+        return name;
+      });
+
+    expect(await Promise.all([transaction('a'), transaction('b')])).toEqual(['a', 'b']);
+    expect(steps).toEqual(['a begin', 'a commit', 'b begin', 'b commit']);
+    expect(await titlesLike('queued')).toEqual(['queued a', 'queued b']);
+  });
+
+  it('rolls back a failed transaction without touching the next one', async () => {
+    const failing = withTransaction(db, async (tx) => {
+      await tx.insert(projects).values({ title: 'rollback lost' });
+      await nextTick();
+      throw new Error('work failed');
+    });
+    const succeeding = withTransaction(db, async (tx) => {
+      await tx.insert(projects).values({ title: 'rollback kept' });
+    });
+
+    await expect(failing).rejects.toThrow('work failed');
+    await succeeding;
+
+    expect(await titlesLike('rollback')).toEqual(['rollback kept']);
+  });
+
+  it('runs nested work inside the outer transaction', async () => {
+    await expect(
+      withTransaction(db, async (tx) => {
+        await tx.insert(projects).values({ title: 'nested outer' });
+        await withTransaction(tx, async (inner) => {
+          await inner.update(projects).set({ title: 'nested inner' }).where(eq(projects.title, 'nested outer'));
+        });
+        throw new Error('outer failed');
+      })
+    ).rejects.toThrow('outer failed');
+
+    expect(await titlesLike('nested')).toEqual([]);
+  });
+});
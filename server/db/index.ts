@@ -7,8 +7,10 @@
  * Controlled by NODE_ENV environment variable
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { drizzle as drizzleSQLite } from 'drizzle-orm/better-sqlite3';
 import { drizzle as drizzleMySQL } from 'drizzle-orm/mysql2';
+import { sql } from 'drizzle-orm';
 import * as schema from './schema.js';
 
 const NODE_ENV = process.env.NODE_ENV || 'development';
@@ -60,8 +62,63 @@ if (NODE_ENV === 'production') {
   console.log('✅ Database: SQLite connection established');
 }
 
+/**
+ * SQLite transactions waiting for the shared connection, in call order
+ */
+let sqliteQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Set while a unit of work runs inside a SQLite transaction
+ */
+const sqliteTransaction = new AsyncLocalStorage<true>();
+
+/**
+ * Run a unit of work atomically on either driver
+ *
+ * - MySQL: delegates to drizzle's async transaction API
+ * - SQLite: better-sqlite3 transactions are synchronous and cannot span
+ *   an await, so BEGIN/COMMIT/ROLLBACK are issued on the connection
+ *   directly. There is only one connection, so transactions are queued
+ *   and run one at a time; work nested in a transaction joins it.
+ */
+async function withTransaction<T>(
+  database: Database,
+  work: (tx: Database) => Promise<T>
+): Promise<T> {
+  if (NODE_ENV === 'production') {
+    const mysqlDb = database as unknown as ReturnType<typeof drizzleMySQL>;
+    return mysqlDb.transaction((tx) => work(tx as unknown as Database));
+  }
+
+  if (sqliteTransaction.getStore()) {
+    return await work(database);
+  }
+
+  const sqliteDb = database as unknown as ReturnType<typeof drizzleSQLite>;
+
+  const run = () =>
+    sqliteTransaction.run(true, async () => {
+      sqliteDb.run(sql`BEGIN`);
+
+      try {
+        const result = await work(database);
+        sqliteDb.run(sql`COMMIT`);
+        return result;
+      } catch (error) {
+        sqliteDb.run(sql`ROLLBACK`);
+        throw error;
+      }
+    });
+
+  const next = sqliteQueue.then(run, run);
+  sqliteQueue = next.catch(() => {});
+  return await next;
+}
+
+export type Database = typeof db;
+
 // Export database instance
-export { db };
+export { db, withTransaction };
 
 // Export schema for type inference
 export * from './schema.js';
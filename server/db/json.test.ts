@@ -0,0 +1,35 @@
+/**
+ * JSON Column Helpers - Test Suite
+ *
+ * Verifies that values written on either driver read back the same.
+ */
+
+import { parseJsonArray, parseJsonObject } from './json.js';
+
+async function loadFor(nodeEnv: string) {
+  vi.resetModules();
+  vi.stubEnv('NODE_ENV', nodeEnv);
+  return await import('./json.js');
+}
+
+describe('toJsonColumn', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('leaves values to the SQLite driver', async () => {
+    const { toJsonColumn } = await loadFor('development');
+    const options = ['A', 'B'];
+
+    expect(toJsonColumn(options)).toBe(options);
+  });
+
+  it('writes JSON text on MySQL that the readers parse back', async () => {
+    const { toJsonColumn } = await loadFor('production');
+
+    expect(toJsonColumn(['A', 'B'])).toBe('["A","B"]');
+    expect(parseJsonArray(toJsonColumn(['A', 'B']))).toEqual(['A', 'B']);
+    expect(parseJsonObject(toJsonColumn({ points: 2 }))).toEqual({ points: 2 });
+    expect(toJsonColumn(null)).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * JSON Column Helpers
+ *
+ * JSON columns come back parsed on SQLite (`mode: 'json'`) but as raw
+ * strings on MySQL, where they are plain TEXT. Readers go through these
+ * helpers so both drivers yield the same shape, and writers go through
+ * toJsonColumn so both drivers store the same text.
+ */
+
+const isProduction = (process.env.NODE_ENV || 'development') === 'production';
+
+/**
+ * Value to write to a JSON column
+ * SQLite serializes `mode: 'json'` columns itself; on MySQL the JSON text
+ * is written. null stays null.
+ */
+export function toJsonColumn<T>(value: T): T | string {
+  if (value === null || value === undefined || !isProduction) {
+    return value;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Read a JSON array column
+ * Returns an empty array for null or malformed values
+ */
+export function parseJsonArray<T = string>(value: unknown): T[] {
+  if (Array.isArray(value)) {
+    return value as T[];
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Read a JSON object column
+ * Returns null for null, malformed or non-object values
+ */
+export function parseJsonObject<T = Record<string, unknown>>(value: unknown): T | null {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value as T;
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as T) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
@@ -8,8 +8,8 @@
  * The schema is defined using conditional table definitions based on NODE_ENV
  */
 
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
-import { mysqlTable, varchar, int, text as mysqlText, timestamp } from 'drizzle-orm/mysql-core';
+import { sqliteTable, text, integer, uniqueIndex } from 'drizzle-orm/sqlite-core';
+import { mysqlTable, varchar, int, text as mysqlText, timestamp, boolean, uniqueIndex as mysqlUniqueIndex } from 'drizzle-orm/mysql-core';
 import { sql } from 'drizzle-orm';
 
 const NODE_ENV = process.env.NODE_ENV || 'development';
@@ -20,6 +20,120 @@ const isProduction = NODE_ENV === 'production';
  */
 const createTable = isProduction ? mysqlTable : sqliteTable;
 
+/**
+ * Users Table
+ * Local accounts; passwords are stored as scrypt hashes (see AuthService)
+ */
+export const users = isProduction
+  ? mysqlTable('users', {
+      id: int('id').primaryKey().autoincrement(),
+      email: varchar('email', { length: 255 }).notNull().unique(),
+      name: varchar('name', { length: 255 }).notNull(),
+      passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('users', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      email: text('email').notNull().unique(), // Lowercased
+      name: text('name').notNull(),
+      passwordHash: text('password_hash').notNull(),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * Sessions Table
+ * Signed-in sessions; only a SHA-256 hash of the token is stored
+ */
+export const sessions = isProduction
+  ? mysqlTable('sessions', {
+      id: int('id').primaryKey().autoincrement(),
+      userId: int('user_id')
+        .notNull()
+        .references(() => users.id, { onDelete: 'cascade' }),
+      tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+      expiresAt: timestamp('expires_at').notNull(),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('sessions', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      userId: integer('user_id')
+        .notNull()
+        .references(() => users.id, { onDelete: 'cascade' }),
+      tokenHash: text('token_hash').notNull().unique(),
+      expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * Organizations Table
+ * Shared workspaces; every project belongs to one
+ */
+export const organizations = isProduction
+  ? mysqlTable('organizations', {
+      id: int('id').primaryKey().autoincrement(),
+      name: varchar('name', { length: 255 }).notNull(),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('organizations', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      name: text('name').notNull(),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * Memberships Table
+ * A user's role in an organization (see ROLE_PERMISSIONS)
+ */
+export const memberships = isProduction
+  ? mysqlTable(
+      'memberships',
+      {
+        id: int('id').primaryKey().autoincrement(),
+        organizationId: int('organization_id')
+          .notNull()
+          .references(() => organizations.id, { onDelete: 'cascade' }),
+        userId: int('user_id')
+          .notNull()
+          .references(() => users.id, { onDelete: 'cascade' }),
+        role: varchar('role', { length: 20 }).notNull(),
+        createdAt: timestamp('created_at').defaultNow().notNull(),
+      },
+      (table) => ({
+        organizationUser: mysqlUniqueIndex('memberships_organization_user_unique').on(
+          table.organizationId,
+          table.userId
+        ),
+      })
+    )
+  : sqliteTable(
+      'memberships',
+      {
+        id: integer('id').primaryKey({ autoIncrement: true }),
+        organizationId: integer('organization_id')
+          .notNull()
+          .references(() => organizations.id, { onDelete: 'cascade' }),
+        userId: integer('user_id')
+          .notNull()
+          .references(() => users.id, { onDelete: 'cascade' }),
+        role: text('role', { enum: ['admin', 'author', 'reviewer', 'viewer'] }).notNull(),
+        createdAt: integer('created_at', { mode: 'timestamp' })
+          .default(sql`(unixepoch())`)
+          .notNull(),
+      },
+      (table) => ({
+        organizationUser: uniqueIndex('memberships_organization_user_unique').on(
+          table.organizationId,
+          table.userId
+        ),
+      })
+    );
+
 /**
  * Projects Table
  * Represents a course project (one video = one project)
@@ -27,6 +141,8 @@ const createTable = isProduction ? mysqlTable : sqliteTable;
 export const projects = isProduction
   ? mysqlTable('projects', {
       id: int('id').primaryKey().autoincrement(),
+      organizationId: int('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+      ownerId: int('owner_id').references(() => users.id, { onDelete: 'set null' }),
       title: varchar('title', { length: 255 }).notNull(),
       description: mysqlText('description'),
       videoUrl: varchar('video_url', { length: 512 }),
@@ -37,11 +153,13 @@ export const projects = isProduction
     })
   : sqliteTable('projects', {
       id: integer('id').primaryKey({ autoIncrement: true }),
+      organizationId: integer('organization_id').references(() => organizations.id, { onDelete: 'cascade' }), // null = created before accounts
+      ownerId: integer('owner_id').references(() => users.id, { onDelete: 'set null' }), // Creator
       title: text('title').notNull(),
       description: text('description'),
       videoUrl: text('video_url'),
       thumbnailUrl: text('thumbnail_url'),
-      status: text('status', { enum: ['draft', 'processing', 'ready', 'published'] })
+      status: text('status', { enum: ['draft', 'in_review', 'approved', 'published', 'archived'] }) // See ProjectWorkflow
         .default('draft')
         .notNull(),
       createdAt: integer('created_at', { mode: 'timestamp' })
@@ -52,6 +170,39 @@ export const projects = isProduction
         .notNull(),
     });
 
+/**
+ * Workflow Events Table
+ * Audit trail of project status changes: who moved what when, with
+ * reviewer comments (see ProjectWorkflow)
+ */
+export const workflowEvents = isProduction
+  ? mysqlTable('workflow_events', {
+      id: int('id').primaryKey().autoincrement(),
+      projectId: int('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      userId: int('user_id').references(() => users.id, { onDelete: 'set null' }),
+      action: varchar('action', { length: 20 }).notNull(),
+      fromStatus: varchar('from_status', { length: 20 }).notNull(),
+      toStatus: varchar('to_status', { length: 20 }).notNull(),
+      comment: mysqlText('comment'),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('workflow_events', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      projectId: integer('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      userId: integer('user_id').references(() => users.id, { onDelete: 'set null' }), // null = account deleted
+      action: text('action').notNull(),
+      fromStatus: text('from_status').notNull(),
+      toStatus: text('to_status').notNull(),
+      comment: text('comment'),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
 /**
  * Lessons Table
  * Represents individual slides/lessons within a project
@@ -63,6 +214,7 @@ export const lessons = isProduction
         .notNull()
         .references(() => projects.id, { onDelete: 'cascade' }),
       slideId: int('slide_id').notNull(),
+      contentId: varchar('content_id', { length: 16 }).notNull().default(''),
       timestampStart: varchar('timestamp_start', { length: 20 }).notNull(),
       contentSummary: mysqlText('content_summary').notNull(),
       imagePrompt: mysqlText('image_prompt').notNull(),
@@ -77,6 +229,7 @@ export const lessons = isProduction
         .notNull()
         .references(() => projects.id, { onDelete: 'cascade' }),
       slideId: integer('slide_id').notNull(),
+      contentId: text('content_id').notNull().default(''), // Stable across edits
       timestampStart: text('timestamp_start').notNull(),
       contentSummary: text('content_summary').notNull(),
       imagePrompt: text('image_prompt').notNull(),
@@ -100,6 +253,8 @@ export const transcripts = isProduction
         .references(() => projects.id, { onDelete: 'cascade' }),
       rawText: mysqlText('raw_text').notNull(),
       source: varchar('source', { length: 20 }).notNull(),
+      format: varchar('format', { length: 10 }).default('text').notNull(),
+      cues: mysqlText('cues'), // JSON array of timed cues
       createdAt: timestamp('created_at').defaultNow().notNull(),
     })
   : sqliteTable('transcripts', {
@@ -109,6 +264,10 @@ export const transcripts = isProduction
         .references(() => projects.id, { onDelete: 'cascade' }),
       rawText: text('raw_text').notNull(),
       source: text('source', { enum: ['manual', 'youtube', 'gemini'] }).notNull(),
+      format: text('format', { enum: ['vtt', 'srt', 'text'] })
+        .default('text')
+        .notNull(),
+      cues: text('cues', { mode: 'json' }), // JSON array of timed cues
       createdAt: integer('created_at', { mode: 'timestamp' })
         .default(sql`(unixepoch())`)
         .notNull(),
@@ -124,9 +283,14 @@ export const quizQuestions = isProduction
       projectId: int('project_id')
         .notNull()
         .references(() => projects.id, { onDelete: 'cascade' }),
+      contentId: varchar('content_id', { length: 16 }).notNull().default(''),
+      type: varchar('type', { length: 20 }).notNull().default('single'),
       question: mysqlText('question').notNull(),
       options: mysqlText('options').notNull(), // JSON array of strings
-      correctAnswer: varchar('correct_answer', { length: 10 }).notNull(),
+      correctAnswer: mysqlText('correct_answer').notNull(),
+      settings: mysqlText('settings'), // JSON object of scoring and type-specific settings
+      bankId: varchar('bank_id', { length: 16 }),
+      sectionId: varchar('section_id', { length: 16 }),
       explanation: mysqlText('explanation').notNull(),
       sortOrder: int('sort_order').notNull(),
       createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -136,9 +300,14 @@ export const quizQuestions = isProduction
       projectId: integer('project_id')
         .notNull()
         .references(() => projects.id, { onDelete: 'cascade' }),
+      contentId: text('content_id').notNull().default(''), // Stable across edits
+      type: text('type').notNull().default('single'), // See QUESTION_TYPES
       question: text('question').notNull(),
       options: text('options', { mode: 'json' }).notNull(), // JSON array of strings
       correctAnswer: text('correct_answer').notNull(),
+      settings: text('settings', { mode: 'json' }), // JSON object of scoring and type-specific settings
+      bankId: text('bank_id'), // Content id of the question bank; null = always asked
+      sectionId: text('section_id'), // Content id of the scoring section; null = weight 1
       explanation: text('explanation').notNull(),
       sortOrder: integer('sort_order').notNull(),
       createdAt: integer('created_at', { mode: 'timestamp' })
@@ -146,6 +315,94 @@ export const quizQuestions = isProduction
         .notNull(),
     });
 
+/**
+ * Question Banks Table
+ * Pools of quiz questions an attempt draws from ("draw N of M")
+ * Questions refer to a bank by its content id, which survives re-saves.
+ */
+export const questionBanks = isProduction
+  ? mysqlTable('question_banks', {
+      id: int('id').primaryKey().autoincrement(),
+      projectId: int('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      contentId: varchar('content_id', { length: 16 }).notNull(),
+      title: varchar('title', { length: 255 }).notNull(),
+      drawCount: int('draw_count'),
+      sortOrder: int('sort_order').notNull(),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('question_banks', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      projectId: integer('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      contentId: text('content_id').notNull(),
+      title: text('title').notNull(),
+      drawCount: integer('draw_count'), // Questions drawn per attempt; null = all
+      sortOrder: integer('sort_order').notNull(),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * Quiz Sections Table
+ * Groups of quiz questions scored with their own weight
+ * Questions refer to a section by its content id, like banks.
+ */
+export const quizSections = isProduction
+  ? mysqlTable('quiz_sections', {
+      id: int('id').primaryKey().autoincrement(),
+      projectId: int('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      contentId: varchar('content_id', { length: 16 }).notNull(),
+      title: varchar('title', { length: 255 }).notNull(),
+      weight: int('weight').notNull().default(1),
+      sortOrder: int('sort_order').notNull(),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('quiz_sections', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      projectId: integer('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      contentId: text('content_id').notNull(),
+      title: text('title').notNull(),
+      weight: integer('weight').notNull().default(1), // Multiplies the points of the section's questions
+      sortOrder: integer('sort_order').notNull(),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * Quiz Settings Table
+ * Per-project randomization of assessment attempts
+ */
+export const quizSettings = isProduction
+  ? mysqlTable('quiz_settings', {
+      id: int('id').primaryKey().autoincrement(),
+      projectId: int('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      shuffleQuestions: boolean('shuffle_questions').default(false).notNull(),
+      shuffleOptions: boolean('shuffle_options').default(false).notNull(),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('quiz_settings', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      projectId: integer('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      shuffleQuestions: integer('shuffle_questions', { mode: 'boolean' }).default(false).notNull(),
+      shuffleOptions: integer('shuffle_options', { mode: 'boolean' }).default(false).notNull(),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
 /**
  * Course Metadata Table
  * Learning objectives, tags, and other metadata
@@ -171,3 +428,197 @@ export const courseMeta = isProduction
         .default(sql`(unixepoch())`)
         .notNull(),
     });
+
+/**
+ * Project Snapshots Table
+ * Immutable copies of a course (see SnapshotService), taken on publish,
+ * for every export and on demand
+ */
+export const projectSnapshots = isProduction
+  ? mysqlTable('project_snapshots', {
+      id: int('id').primaryKey().autoincrement(),
+      projectId: int('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      number: int('number').notNull(),
+      reason: varchar('reason', { length: 20 }).notNull(),
+      label: varchar('label', { length: 255 }),
+      document: mysqlText('document').notNull(), // JSON course document
+      contentHash: varchar('content_hash', { length: 64 }).notNull(),
+      createdBy: int('created_by').references(() => users.id, { onDelete: 'set null' }),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('project_snapshots', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      projectId: integer('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      number: integer('number').notNull(), // 1, 2, ... per project
+      reason: text('reason', { enum: ['manual', 'publish', 'export', 'restore'] }).notNull(),
+      label: text('label'),
+      document: text('document', { mode: 'json' }).notNull(), // JSON course document
+      contentHash: text('content_hash').notNull(),
+      createdBy: integer('created_by').references(() => users.id, { onDelete: 'set null' }),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * Export Jobs Table
+ * SCORM package builds, their progress and the resulting file
+ */
+export const exportJobs = isProduction
+  ? mysqlTable('export_jobs', {
+      id: int('id').primaryKey().autoincrement(),
+      projectId: int('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      snapshotId: int('snapshot_id').references(() => projectSnapshots.id, { onDelete: 'set null' }),
+      status: varchar('status', { length: 20 }).default('queued').notNull(),
+      progress: int('progress').default(0).notNull(), // Percentage (0-100)
+      version: varchar('version', { length: 10 }).notNull(),
+      options: mysqlText('options').notNull(), // JSON object
+      filename: varchar('filename', { length: 255 }),
+      fileSize: int('file_size'),
+      error: mysqlText('error'),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+      completedAt: timestamp('completed_at'),
+    })
+  : sqliteTable('export_jobs', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      projectId: integer('project_id')
+        .notNull()
+        .references(() => projects.id, { onDelete: 'cascade' }),
+      snapshotId: integer('snapshot_id').references(() => projectSnapshots.id, { onDelete: 'set null' }), // Course the package was built from
+      status: text('status', { enum: ['queued', 'running', 'completed', 'failed', 'expired'] })
+        .default('queued')
+        .notNull(),
+      progress: integer('progress').default(0).notNull(), // Percentage (0-100)
+      version: text('version').notNull(),
+      options: text('options', { mode: 'json' }).notNull(), // JSON object
+      filename: text('filename'),
+      fileSize: integer('file_size'),
+      error: text('error'),
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+      completedAt: integer('completed_at', { mode: 'timestamp' }),
+    });
+
+/**
+ * xAPI Statements Table
+ * Statements received by the built-in LRS (server/routes/xapi.ts)
+ */
+export const xapiStatements = isProduction
+  ? mysqlTable('xapi_statements', {
+      id: int('id').primaryKey().autoincrement(),
+      statementId: varchar('statement_id', { length: 36 }).notNull().unique(),
+      projectId: int('project_id').references(() => projects.id, { onDelete: 'cascade' }), // From the activity IRI
+      registration: varchar('registration', { length: 36 }),
+      verb: varchar('verb', { length: 255 }).notNull(), // Verb IRI
+      activityId: varchar('activity_id', { length: 512 }), // Object IRI when the object is an activity
+      statement: mysqlText('statement').notNull(), // Full statement JSON as stored
+      storedAt: timestamp('stored_at').defaultNow().notNull(),
+    })
+  : sqliteTable('xapi_statements', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      statementId: text('statement_id').notNull().unique(),
+      projectId: integer('project_id').references(() => projects.id, { onDelete: 'cascade' }), // From the activity IRI
+      registration: text('registration'),
+      verb: text('verb').notNull(), // Verb IRI
+      activityId: text('activity_id'), // Object IRI when the object is an activity
+      statement: text('statement', { mode: 'json' }).notNull(), // Full statement JSON as stored
+      storedAt: integer('stored_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * xAPI Documents Table
+ * State and activity profile documents held by the built-in LRS
+ */
+export const xapiDocuments = isProduction
+  ? mysqlTable('xapi_documents', {
+      id: int('id').primaryKey().autoincrement(),
+      type: varchar('type', { length: 20 }).notNull(), // 'state' | 'activity-profile'
+      activityId: varchar('activity_id', { length: 512 }).notNull(),
+      agent: varchar('agent', { length: 512 }), // Agent identifier, state documents only
+      registration: varchar('registration', { length: 36 }),
+      documentId: varchar('document_id', { length: 255 }).notNull(), // stateId or profileId
+      contentType: varchar('content_type', { length: 100 }).notNull(),
+      content: mysqlText('content').notNull(),
+      updatedAt: timestamp('updated_at').defaultNow().onUpdateNow().notNull(),
+    })
+  : sqliteTable('xapi_documents', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      type: text('type', { enum: ['state', 'activity-profile'] }).notNull(),
+      activityId: text('activity_id').notNull(),
+      agent: text('agent'), // Agent identifier, state documents only
+      registration: text('registration'),
+      documentId: text('document_id').notNull(), // stateId or profileId
+      contentType: text('content_type').notNull(),
+      content: text('content').notNull(),
+      updatedAt: integer('updated_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * SCORM Preview States Table
+ * CMI data the test harness LMS keeps per export job and SCO
+ */
+export const scormPreviewStates = isProduction
+  ? mysqlTable('scorm_preview_states', {
+      id: int('id').primaryKey().autoincrement(),
+      exportJobId: int('export_job_id')
+        .notNull()
+        .references(() => exportJobs.id, { onDelete: 'cascade' }),
+      scoId: varchar('sco_id', { length: 255 }).notNull(), // Manifest item identifier
+      cmi: mysqlText('cmi').notNull(), // JSON object of element name -> value
+      updatedAt: timestamp('updated_at').defaultNow().onUpdateNow().notNull(),
+    })
+  : sqliteTable('scorm_preview_states', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      exportJobId: integer('export_job_id')
+        .notNull()
+        .references(() => exportJobs.id, { onDelete: 'cascade' }),
+      scoId: text('sco_id').notNull(), // Manifest item identifier
+      cmi: text('cmi', { mode: 'json' }).notNull(), // JSON object of element name -> value
+      updatedAt: integer('updated_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
+
+/**
+ * Audit Log Table
+ * Append-only record of every API mutation (see AuditService). Ids are
+ * plain columns, not foreign keys, so entries outlive what they describe.
+ */
+export const auditLog = isProduction
+  ? mysqlTable('audit_log', {
+      id: int('id').primaryKey().autoincrement(),
+      organizationId: int('organization_id'), // Workspace acted in, null when signed out
+      userId: int('user_id'), // Actor, null when signed out
+      path: varchar('path', { length: 100 }).notNull(), // Procedure path, e.g. 'scorm.generatePackage'
+      projectId: int('project_id'),
+      entityIds: mysqlText('entity_ids').notNull(), // JSON object of name -> id
+      input: mysqlText('input'), // JSON input summary
+      result: varchar('result', { length: 10 }).notNull(),
+      error: mysqlText('error'),
+      createdAt: timestamp('created_at').defaultNow().notNull(),
+    })
+  : sqliteTable('audit_log', {
+      id: integer('id').primaryKey({ autoIncrement: true }),
+      organizationId: integer('organization_id'), // Workspace acted in, null when signed out
+      userId: integer('user_id'), // Actor, null when signed out
+      path: text('path').notNull(), // Procedure path, e.g. 'scorm.generatePackage'
+      projectId: integer('project_id'),
+      entityIds: text('entity_ids', { mode: 'json' }).notNull(), // JSON object of name -> id
+      input: text('input', { mode: 'json' }), // JSON input summary
+      result: text('result', { enum: ['success', 'error'] }).notNull(),
+      error: text('error'), // TRPC error code and message
+      createdAt: integer('created_at', { mode: 'timestamp' })
+        .default(sql`(unixepoch())`)
+        .notNull(),
+    });
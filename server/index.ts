@@ -3,19 +3,62 @@ import cors from 'cors';
 import { createExpressMiddleware } from '@trpc/server/adapters/express';
 import { appRouter } from './_core/app.js';
 import { createContext } from './_core/context.js';
+import { findPermittedExportJob } from './_core/guards.js';
+import { db } from './db/index.js';
+import { AuthService } from './services/auth.js';
+import { ExportJobRunner } from './services/export-jobs.js';
+import { handle } from './routes/handle.js';
+import { LRS_ENABLED, xapiRoutes } from './routes/xapi.js';
+import { previewRoutes } from './routes/preview.js';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '10mb' })); // transcript uploads
 
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// SCORM package downloads, for members allowed to export
+app.get(
+  '/exports/:jobId/download',
+  handle(async (req, res) => {
+    const user = await AuthService.resolveSession(db, AuthService.tokenFromRequest(req));
+
+    if (!user) {
+      res.status(401).json({ error: 'Sign in required' });
+      return;
+    }
+
+    const job = await findPermittedExportJob(db, Number(req.params.jobId), user.id, 'export');
+    const filePath = job ? ExportJobRunner.filePath(job) : null;
+
+    if (!job || !filePath) {
+      res.status(404).json({ error: 'Export not found or not finished' });
+      return;
+    }
+
+    res.type('application/zip');
+    res.download(filePath, job.filename!, (error) => {
+      if (error && !res.headersSent) {
+        res.status(410).json({ error: 'Export file is no longer available' });
+      }
+    });
+  })
+);
+
+// SCORM test harness for finished exports, for members of the project's organization
+app.use('/preview', previewRoutes);
+
+// Built-in LRS for cmi5 exports
+if (LRS_ENABLED) {
+  app.use('/xapi', xapiRoutes);
+}
+
 // tRPC middleware
 app.use(
   '/trpc',
@@ -25,6 +68,10 @@ app.use(
   })
 );
 
+// Fail exports interrupted by a restart and prune old packages
+await ExportJobRunner.recover(db);
+await ExportJobRunner.applyRetention(db);
+
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 CourseForge server running on http://localhost:${PORT}`);
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { AuditService } from '../services/audit.js';
+
+export const auditRouter = router({
+  /**
+   * Audit log of the workspace, newest first
+   * Page through older entries by passing the last id as beforeId.
+   */
+  list: roleProcedure('manage')
+    .input(
+      z
+        .object({
+          userId: z.number().optional(),
+          projectId: z.number().optional(),
+          path: z.string().max(100).optional(), // 'scorm.generatePackage', or 'scorm.' for a whole router
+          result: z.enum(['success', 'error']).optional(),
+          since: z.coerce.date().optional(),
+          until: z.coerce.date().optional(),
+          beforeId: z.number().int().positive().optional(),
+          limit: z.number().int().min(1).max(500).default(100),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      return await AuditService.list(ctx.db, ctx.workspace.id, input);
+    }),
+});
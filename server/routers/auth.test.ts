@@ -0,0 +1,52 @@
+/**
+ * Auth Router - Test Suite
+ *
+ * Verifies that registration and sign-in, which run without a session,
+ * are logged in the audit log of the account's workspace.
+ */
+
+import { isNull } from 'drizzle-orm';
+import { appRouter } from '../_core/app.js';
+import type { Context } from '../_core/context.js';
+import { db } from '../db/index.js';
+import { auditLog } from '../db/schema.js';
+import { AuditService } from '../services/audit.js';
+import { OrganizationService } from '../services/organizations.js';
+
+const { auth } = appRouter.createCaller({
+  db,
+  req: { headers: {} },
+  res: { cookie: () => undefined },
+  user: null,
+  sessionToken: null,
+} as unknown as Context);
+
+describe('auth audit entries', () => {
+  it('records registration and sign-in in the account workspace', async () => {
+    const { user } = await auth.register({
+      email: 'Audit@Example.com',
+      name: 'Audit',
+      password: 'correct horse',
+    });
+    await expect(auth.login({ email: 'audit@example.com', password: 'wrong horse' })).rejects.toThrow();
+    await auth.login({ email: 'AUDIT@example.com', password: 'correct horse' });
+
+    const [workspace] = await OrganizationService.listForUser(db, user.id);
+    const entries = await AuditService.list(db, workspace.id, { path: 'auth.' });
+
+    expect(entries.map((entry) => [entry.path, entry.result, entry.userId])).toEqual([
+      ['auth.login', 'success', user.id],
+      ['auth.login', 'error', user.id],
+      ['auth.register', 'success', user.id],
+    ]);
+  });
+
+  it('leaves sign-in attempts for unknown emails outside every workspace', async () => {
+    await expect(auth.login({ email: 'nobody@example.com', password: 'whatever' })).rejects.toThrow();
+
+    const entries = await db.select().from(auditLog).where(isNull(auditLog.userId));
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ path: 'auth.login', result: 'error', organizationId: null });
+  });
+});
@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import type { Response } from 'express';
+import { router, publicProcedure, protectedProcedure } from '../_core/trpc.js';
+import { AuthService, AuthSession, MIN_PASSWORD_LENGTH, SESSION_COOKIE } from '../services/auth.js';
+
+const credentialsSchema = z.object({
+  email: z.string().email().max(255),
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(200),
+});
+
+/**
+ * Send the session token as an HttpOnly cookie for the web client
+ * API clients use the returned token as a bearer token instead.
+ */
+function setSessionCookie(res: Response, session: AuthSession) {
+  res.cookie(SESSION_COOKIE, session.token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    expires: session.expiresAt,
+    path: '/',
+  });
+}
+
+export const authRouter = router({
+  /**
+   * Create an account and sign in
+   */
+  register: publicProcedure
+    .input(credentialsSchema.extend({ name: z.string().min(1).max(255) }))
+    .mutation(async ({ ctx, input }) => {
+      const user = await AuthService.register(ctx.db, input);
+      const session = await AuthService.createSession(ctx.db, user);
+
+      setSessionCookie(ctx.res, session);
+      return session;
+    }),
+
+  /**
+   * Sign in with email and password
+   */
+  login: publicProcedure
+    .input(credentialsSchema.extend({ password: z.string().min(1).max(200) }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await AuthService.login(ctx.db, input.email, input.password);
+
+      setSessionCookie(ctx.res, session);
+      return session;
+    }),
+
+  /**
+   * End the current session
+   */
+  logout: protectedProcedure.mutation(async ({ ctx }) => {
+    if (ctx.sessionToken) {
+      await AuthService.logout(ctx.db, ctx.sessionToken);
+    }
+
+    ctx.res.clearCookie(SESSION_COOKIE, { path: '/' });
+    return { success: true };
+  }),
+
+  /**
+   * The signed-in user, or null
+   */
+  me: publicProcedure.query(({ ctx }) => ctx.user),
+});
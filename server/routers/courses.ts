@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireProject } from '../_core/guards.js';
+import { CourseDocumentService, courseDocumentSchema } from '../services/course-document.js';
+
+export const coursesRouter = router({
+  /**
+   * Get a full course as one versioned JSON document
+   */
+  getFull: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await CourseDocumentService.load(ctx.db, input.projectId);
+    }),
+
+  /**
+   * Recreate a course from a document as a new draft project in the
+   * caller's workspace
+   */
+  import: roleProcedure('edit')
+    .input(
+      z.object({
+        document: courseDocumentSchema,
+        title: z.string().min(1).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const projectId = await CourseDocumentService.import(ctx.db, input.document, {
+        title: input.title,
+        organizationId: ctx.workspace.id,
+        ownerId: ctx.user.id,
+      });
+      return { projectId };
+    }),
+});
@@ -0,0 +1,96 @@
+/**
+ * Lessons Router - Test Suite
+ *
+ * Verifies reordering and bulk replacement against the database: the
+ * order a client sends must list every lesson of the project exactly once.
+ */
+
+import type { Context } from '../_core/context.js';
+import { db } from '../db/index.js';
+import { projects, users } from '../db/schema.js';
+import { OrganizationService } from '../services/organizations.js';
+import { lessonsRouter } from './lessons.js';
+
+const [owner] = await db
+  .insert(users)
+  .values({ email: 'lessons-owner@example.com', name: 'Owner', passwordHash: '' })
+  .returning();
+const workspace = await OrganizationService.create(db, 'Lessons', owner.id);
+
+const lessons = lessonsRouter.createCaller({
+  db,
+  req: { headers: {} },
+  res: {},
+  user: { id: owner.id, email: owner.email, name: owner.name },
+  sessionToken: null,
+} as Context);
+
+async function projectWithLessons(summaries: string[]) {
+  const [project] = await db
+    .insert(projects)
+    .values({ title: 'Safety', ownerId: owner.id, organizationId: workspace.id })
+    .returning();
+
+  for (const contentSummary of summaries) {
+    await lessons.create({ projectId: project.id, timestampStart: '00:00', contentSummary, imagePrompt: '' });
+  }
+
+  const rows = await lessons.list({ projectId: project.id });
+  return { projectId: project.id, ids: rows.map((lesson) => lesson.id) };
+}
+
+async function summaries(projectId: number) {
+  return (await lessons.list({ projectId })).map((lesson) => lesson.contentSummary);
+}
+
+describe('lessons.reorder', () => {
+  it('rewrites the playback order', async () => {
+    const { projectId, ids } = await projectWithLessons(['Intro', 'Hazards', 'Summary']);
+
+    await lessons.reorder({ projectId, lessonIds: [ids[2], ids[0], ids[1]] });
+
+    expect(await summaries(projectId)).toEqual(['Summary', 'Intro', 'Hazards']);
+  });
+
+  it('rejects duplicate, foreign and missing lessons and keeps the order', async () => {
+    const { projectId, ids } = await projectWithLessons(['Intro', 'Hazards']);
+    const other = await projectWithLessons(['Elsewhere']);
+    const message = 'lessonIds must contain every lesson of the project exactly once';
+
+    await expect(lessons.reorder({ projectId, lessonIds: [ids[0], ids[0]] })).rejects.toThrow(message);
+    await expect(lessons.reorder({ projectId, lessonIds: [ids[1], other.ids[0]] })).rejects.toThrow(message);
+    await expect(lessons.reorder({ projectId, lessonIds: [ids[1]] })).rejects.toThrow(message);
+    await expect(
+      lessons.reorder({ projectId, lessonIds: [ids[1], ids[0], other.ids[0]] })
+    ).rejects.toThrow(message);
+
+    expect(await summaries(projectId)).toEqual(['Intro', 'Hazards']);
+    expect(await summaries(other.projectId)).toEqual(['Elsewhere']);
+  });
+});
+
+describe('lessons.replaceAll', () => {
+  it('replaces the lessons of one project in array order', async () => {
+    const { projectId } = await projectWithLessons(['Old intro', 'Old summary']);
+    const other = await projectWithLessons(['Elsewhere']);
+
+    const saved = await lessons.replaceAll({
+      projectId,
+      lessons: [
+        { timestampStart: '00:00', contentSummary: 'Welcome', imagePrompt: '' },
+        { timestampStart: '01:30', contentSummary: 'Equipment', imagePrompt: '', slideId: 7 },
+      ],
+    });
+
+    expect(saved.map((lesson) => [lesson.slideId, lesson.sortOrder])).toEqual([
+      [1, 0],
+      [7, 1],
+    ]);
+    expect(await summaries(projectId)).toEqual(['Welcome', 'Equipment']);
+    expect(await summaries(other.projectId)).toEqual(['Elsewhere']);
+  });
+
+  it('fails for an unknown project', async () => {
+    await expect(lessons.replaceAll({ projectId: 9999, lessons: [] })).rejects.toThrow('Project not found');
+  });
+});
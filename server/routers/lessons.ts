@@ -0,0 +1,287 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireEditableProject, requireProject } from '../_core/guards.js';
+import { assignContentIds, CONTENT_ID_PATTERN, newContentId } from '../db/content-id.js';
+import { Database, withTransaction } from '../db/index.js';
+import { parseJsonArray } from '../db/json.js';
+import { lessons, projects, transcripts } from '../db/schema.js';
+import { and, desc, eq, getTableColumns, max } from 'drizzle-orm';
+import { SegmentationEngine } from '../services/segmentation.js';
+import { TranscriptCue } from '../services/transcripts.js';
+
+/**
+ * Timestamp into the source video: MM:SS or HH:MM:SS
+ */
+const timestampSchema = z
+  .string()
+  .regex(/^(\d{1,2}:)?\d{1,2}:\d{2}$/, 'Timestamp must be MM:SS or HH:MM:SS');
+
+/**
+ * Editable lesson fields
+ */
+const lessonInputSchema = z.object({
+  contentId: z.string().regex(CONTENT_ID_PATTERN).optional(), // Kept when passed back in replaceAll
+  slideId: z.number().int().positive().optional(),
+  timestampStart: timestampSchema,
+  contentSummary: z.string().min(1),
+  imagePrompt: z.string(),
+  imageUrl: z.string().nullable().optional(),
+  visualReasoning: z.string().nullable().optional(),
+});
+
+type LessonInput = z.infer<typeof lessonInputSchema>;
+
+/**
+ * Replace every lesson of a project; array order becomes playback order
+ * Lessons passed with their contentId keep it, so learner bookmarks in
+ * published packages still find them.
+ */
+async function replaceLessons(db: Database, projectId: number, inputs: LessonInput[]) {
+  return await withTransaction(db, async (tx) => {
+    await tx.delete(lessons).where(eq(lessons.projectId, projectId));
+
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    const contentIds = assignContentIds(inputs);
+
+    return await tx
+      .insert(lessons)
+      .values(
+        inputs.map((lesson, index) => ({
+          projectId,
+          contentId: contentIds[index],
+          slideId: lesson.slideId ?? index + 1,
+          timestampStart: lesson.timestampStart,
+          contentSummary: lesson.contentSummary,
+          imagePrompt: lesson.imagePrompt,
+          imageUrl: lesson.imageUrl,
+          visualReasoning: lesson.visualReasoning,
+          sortOrder: index,
+        }))
+      )
+      .returning();
+  });
+}
+
+/**
+ * Load a lesson of a workspace's project or fail
+ */
+async function requireLesson(db: Database, lessonId: number, organizationId: number) {
+  const result = await db
+    .select(getTableColumns(lessons))
+    .from(lessons)
+    .innerJoin(projects, eq(projects.id, lessons.projectId))
+    .where(and(eq(lessons.id, lessonId), eq(projects.organizationId, organizationId)))
+    .limit(1);
+
+  if (!result[0]) {
+    throw new Error('Lesson not found');
+  }
+
+  return result[0];
+}
+
+export const lessonsRouter = router({
+  /**
+   * List lessons of a project in playback order
+   */
+  list: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      return await ctx.db
+        .select()
+        .from(lessons)
+        .where(eq(lessons.projectId, input.projectId))
+        .orderBy(lessons.sortOrder);
+    }),
+
+  /**
+   * Append a lesson to the end of a project
+   */
+  create: roleProcedure('edit')
+    .input(lessonInputSchema.extend({ projectId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const current = await ctx.db
+        .select({
+          maxSortOrder: max(lessons.sortOrder),
+          maxSlideId: max(lessons.slideId),
+        })
+        .from(lessons)
+        .where(eq(lessons.projectId, input.projectId));
+
+      const result = await ctx.db
+        .insert(lessons)
+        .values({
+          projectId: input.projectId,
+          contentId: newContentId(),
+          slideId: input.slideId ?? (current[0]?.maxSlideId ?? 0) + 1,
+          timestampStart: input.timestampStart,
+          contentSummary: input.contentSummary,
+          imagePrompt: input.imagePrompt,
+          imageUrl: input.imageUrl,
+          visualReasoning: input.visualReasoning,
+          sortOrder: (current[0]?.maxSortOrder ?? -1) + 1,
+        })
+        .returning();
+      return result[0];
+    }),
+
+  /**
+   * Update lesson content
+   */
+  update: roleProcedure('edit')
+    .input(lessonInputSchema.omit({ contentId: true }).partial().extend({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input;
+      const lesson = await requireLesson(ctx.db, id, ctx.workspace.id);
+      await requireEditableProject(ctx.db, lesson.projectId, ctx.workspace.id);
+
+      const result = await ctx.db
+        .update(lessons)
+        .set(data)
+        .where(eq(lessons.id, id))
+        .returning();
+
+      return result[0];
+    }),
+
+  /**
+   * Delete a lesson
+   */
+  delete: roleProcedure('edit')
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const lesson = await requireLesson(ctx.db, input.id, ctx.workspace.id);
+      await requireEditableProject(ctx.db, lesson.projectId, ctx.workspace.id);
+      await ctx.db.delete(lessons).where(eq(lessons.id, input.id));
+      return { success: true };
+    }),
+
+  /**
+   * Reorder lessons
+   * lessonIds must list every lesson of the project exactly once;
+   * sortOrder is rewritten to match the given order.
+   */
+  reorder: roleProcedure('edit')
+    .input(
+      z.object({
+        projectId: z.number(),
+        lessonIds: z.array(z.number()),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      return await withTransaction(ctx.db, async (tx) => {
+        const existing = await tx
+          .select({ id: lessons.id })
+          .from(lessons)
+          .where(eq(lessons.projectId, input.projectId));
+
+        const existingIds = new Set(existing.map((lesson) => lesson.id));
+        const requestedIds = new Set(input.lessonIds);
+
+        if (
+          requestedIds.size !== input.lessonIds.length ||
+          requestedIds.size !== existingIds.size ||
+          input.lessonIds.some((id) => !existingIds.has(id))
+        ) {
+          throw new Error(
+            'lessonIds must contain every lesson of the project exactly once'
+          );
+        }
+
+        for (const [index, id] of input.lessonIds.entries()) {
+          await tx.update(lessons).set({ sortOrder: index }).where(eq(lessons.id, id));
+        }
+
+        return await tx
+          .select()
+          .from(lessons)
+          .where(eq(lessons.projectId, input.projectId))
+          .orderBy(lessons.sortOrder);
+      });
+    }),
+
+  /**
+   * Replace all lessons of a project in one go
+   * Used when regenerating slides; array order becomes playback order.
+   */
+  replaceAll: roleProcedure('edit')
+    .input(
+      z.object({
+        projectId: z.number(),
+        lessons: z.array(lessonInputSchema),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await replaceLessons(ctx.db, input.projectId, input.lessons);
+    }),
+
+  /**
+   * Draft lessons from a stored transcript
+   * Runs offline with the heuristic provider unless another is named.
+   * With dryRun the drafts are returned without touching existing lessons.
+   */
+  generateFromTranscript: roleProcedure('edit')
+    .input(
+      z.object({
+        projectId: z.number(),
+        transcriptId: z.number().optional(),
+        provider: z.string().default('heuristic'),
+        dryRun: z.boolean().default(false),
+        options: z
+          .object({
+            targetSlideSeconds: z.number().positive(),
+            minSlideSeconds: z.number().min(0),
+            maxSlideSeconds: z.number().positive(),
+            pauseSeconds: z.number().positive(),
+            topicShiftThreshold: z.number().min(0).max(1),
+            windowCues: z.number().int().positive(),
+          })
+          .partial()
+          .optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const candidates = await ctx.db
+        .select()
+        .from(transcripts)
+        .where(eq(transcripts.projectId, input.projectId))
+        .orderBy(desc(transcripts.createdAt), desc(transcripts.id));
+
+      const transcript = input.transcriptId
+        ? candidates.find((row) => row.id === input.transcriptId)
+        : candidates[0];
+
+      if (!transcript) {
+        throw new Error('Transcript not found');
+      }
+
+      const drafts = await SegmentationEngine.segment(
+        parseJsonArray<TranscriptCue>(transcript.cues),
+        input.options,
+        input.provider
+      );
+
+      if (drafts.length === 0) {
+        throw new Error('Transcript has no cues to segment');
+      }
+
+      if (input.dryRun) {
+        return { transcriptId: transcript.id, saved: false, lessons: drafts };
+      }
+
+      const saved = await replaceLessons(ctx.db, input.projectId, drafts);
+      return { transcriptId: transcript.id, saved: true, lessons: saved };
+    }),
+});
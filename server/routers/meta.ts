@@ -0,0 +1,93 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireEditableProject, requireProject } from '../_core/guards.js';
+import { parseJsonArray, toJsonColumn } from '../db/json.js';
+import { courseMeta, projects } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { CourseMetaNormalizer, MAX_TAG_LENGTH } from '../services/metadata.js';
+
+export const metaRouter = router({
+  /**
+   * Get course metadata for a project
+   * Projects without a metadata row get empty lists.
+   */
+  get: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const result = await ctx.db
+        .select()
+        .from(courseMeta)
+        .where(eq(courseMeta.projectId, input.projectId))
+        .limit(1);
+
+      return {
+        projectId: input.projectId,
+        learningObjectives: parseJsonArray(result[0]?.learningObjectives),
+        tags: parseJsonArray(result[0]?.tags),
+      };
+    }),
+
+  /**
+   * Create or update course metadata
+   * Omitted fields keep their stored value.
+   */
+  upsert: roleProcedure('edit')
+    .input(
+      z.object({
+        projectId: z.number(),
+        learningObjectives: z.array(z.string().max(500)).max(50).optional(),
+        tags: z.array(z.string().max(MAX_TAG_LENGTH)).max(30).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const existing = await ctx.db
+        .select()
+        .from(courseMeta)
+        .where(eq(courseMeta.projectId, input.projectId))
+        .limit(1);
+
+      const learningObjectives = CourseMetaNormalizer.normalizeObjectives(
+        input.learningObjectives ?? parseJsonArray(existing[0]?.learningObjectives)
+      );
+      const tags = CourseMetaNormalizer.normalizeTags(
+        input.tags ?? parseJsonArray(existing[0]?.tags)
+      );
+
+      const values = { learningObjectives: toJsonColumn(learningObjectives), tags: toJsonColumn(tags) };
+
+      if (existing[0]) {
+        await ctx.db.update(courseMeta).set(values).where(eq(courseMeta.id, existing[0].id));
+      } else {
+        await ctx.db.insert(courseMeta).values({ projectId: input.projectId, ...values });
+      }
+
+      return { projectId: input.projectId, learningObjectives, tags };
+    }),
+
+  /**
+   * Tags in use in the caller's workspace with the number of projects
+   * carrying each
+   */
+  listTags: roleProcedure('view').query(async ({ ctx }) => {
+    const rows = await ctx.db
+      .select({ tags: courseMeta.tags })
+      .from(courseMeta)
+      .innerJoin(projects, eq(projects.id, courseMeta.projectId))
+      .where(eq(projects.organizationId, ctx.workspace.id));
+    const counts = new Map<string, number>();
+
+    for (const row of rows) {
+      for (const tag of parseJsonArray(row.tags)) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }),
+});
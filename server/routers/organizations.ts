@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { router, protectedProcedure, roleProcedure, workspaceProcedure } from '../_core/trpc.js';
+import { withTransaction } from '../db/index.js';
+import { OrganizationService, ROLES } from '../services/organizations.js';
+
+export const organizationsRouter = router({
+  /**
+   * Organizations the signed-in user belongs to, with their role in each
+   * Pass an id as the X-Organization-Id header to act in that workspace.
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await OrganizationService.listForUser(ctx.db, ctx.user.id);
+  }),
+
+  /**
+   * The workspace this request acts in
+   */
+  current: workspaceProcedure.query(({ ctx }) => ctx.workspace),
+
+  /**
+   * Create an organization with the signed-in user as its admin
+   */
+  create: protectedProcedure
+    .input(z.object({ name: z.string().min(1).max(255) }))
+    .mutation(async ({ ctx, input }) => {
+      return await withTransaction(ctx.db, (tx) => OrganizationService.create(tx, input.name, ctx.user.id));
+    }),
+
+  /**
+   * Members of the caller's workspace
+   */
+  members: roleProcedure('view').query(async ({ ctx }) => {
+    return await OrganizationService.members(ctx.db, ctx.workspace.id);
+  }),
+
+  /**
+   * Add a registered user to the caller's workspace
+   */
+  addMember: roleProcedure('manage')
+    .input(z.object({ email: z.string().email(), role: z.enum(ROLES) }))
+    .mutation(async ({ ctx, input }) => {
+      return await OrganizationService.addMember(ctx.db, ctx.workspace.id, input.email, input.role);
+    }),
+
+  /**
+   * Change a member's role
+   * The last admin cannot be demoted.
+   */
+  setRole: roleProcedure('manage')
+    .input(z.object({ userId: z.number(), role: z.enum(ROLES) }))
+    .mutation(async ({ ctx, input }) => {
+      await OrganizationService.setRole(ctx.db, ctx.workspace.id, input.userId, input.role);
+      return { success: true };
+    }),
+
+  /**
+   * Remove a member from the caller's workspace
+   * The last admin cannot be removed.
+   */
+  removeMember: roleProcedure('manage')
+    .input(z.object({ userId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await OrganizationService.removeMember(ctx.db, ctx.workspace.id, input.userId);
+      return { success: true };
+    }),
+});
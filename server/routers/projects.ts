@@ -1,34 +1,55 @@
 import { z } from 'zod';
-import { router, publicProcedure } from '../_core/trpc.js';
-import { projects } from '../db/schema.js';
-import { eq } from 'drizzle-orm';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireEditableProject, requireProject } from '../_core/guards.js';
+import { parseJsonArray } from '../db/json.js';
+import { projects, courseMeta } from '../db/schema.js';
+import { and, eq } from 'drizzle-orm';
+import { CourseMetaNormalizer } from '../services/metadata.js';
 
 export const projectsRouter = router({
   /**
-   * List all projects
+   * List the projects of the caller's workspace
+   * Optionally only those tagged with `tag` (matched after normalization)
    */
-  list: publicProcedure.query(async ({ ctx }) => {
-    return await ctx.db.select().from(projects).orderBy(projects.updatedAt);
-  }),
+  list: roleProcedure('view')
+    .input(z.object({ tag: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const inWorkspace = eq(projects.organizationId, ctx.workspace.id);
+
+      if (!input?.tag) {
+        return await ctx.db.select().from(projects).where(inWorkspace).orderBy(projects.updatedAt);
+      }
+
+      const tag = CourseMetaNormalizer.normalizeTag(input.tag);
+      const rows = await ctx.db
+        .select({ project: projects, tags: courseMeta.tags })
+        .from(projects)
+        .innerJoin(courseMeta, eq(courseMeta.projectId, projects.id))
+        .where(inWorkspace)
+        .orderBy(projects.updatedAt);
+
+      return rows.filter((row) => parseJsonArray(row.tags).includes(tag)).map((row) => row.project);
+    }),
 
   /**
    * Get a single project by ID
+   * Returns null for projects of other workspaces.
    */
-  getById: publicProcedure
+  getById: roleProcedure('view')
     .input(z.object({ id: z.number() }))
     .query(async ({ ctx, input }) => {
       const result = await ctx.db
         .select()
         .from(projects)
-        .where(eq(projects.id, input.id))
+        .where(and(eq(projects.id, input.id), eq(projects.organizationId, ctx.workspace.id)))
         .limit(1);
       return result[0] || null;
     }),
 
   /**
-   * Create a new project
+   * Create a new project in the caller's workspace
    */
-  create: publicProcedure
+  create: roleProcedure('edit')
     .input(
       z.object({
         title: z.string().min(1),
@@ -40,6 +61,8 @@ export const projectsRouter = router({
       const result = await ctx.db
         .insert(projects)
         .values({
+          organizationId: ctx.workspace.id,
+          ownerId: ctx.user.id,
           title: input.title,
           description: input.description,
           videoUrl: input.videoUrl,
@@ -51,18 +74,20 @@ export const projectsRouter = router({
 
   /**
    * Update project
+   * Drafts only; status changes go through the workflow router.
    */
-  update: publicProcedure
+  update: roleProcedure('edit')
     .input(
       z.object({
         id: z.number(),
         title: z.string().optional(),
         description: z.string().optional(),
-        status: z.enum(['draft', 'processing', 'ready', 'published']).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const { id, ...data } = input;
+      await requireEditableProject(ctx.db, id, ctx.workspace.id);
+
       const result = await ctx.db
         .update(projects)
         .set({ ...data, updatedAt: new Date() })
@@ -73,11 +98,21 @@ export const projectsRouter = router({
 
   /**
    * Delete project
+   * Admins only, as it removes the project for the whole workspace. Only
+   * drafts can be deleted: deleting removes the workflow history, so
+   * published projects are archived instead and the others reopened first.
    */
-  delete: publicProcedure
+  delete: roleProcedure('manage')
     .input(z.object({ id: z.number() }))
     .mutation(async ({ ctx, input }) => {
-      await ctx.db.delete(projects).where(eq(projects.id, input.id));
+      const project = await requireProject(ctx.db, input.id, ctx.workspace.id);
+
+      if (project.status !== 'draft') {
+        const instead = project.status === 'published' ? 'archive it instead' : 'reopen it as a draft first';
+        throw new Error(`Project is ${project.status.replace('_', ' ')}; only drafts can be deleted, ${instead}`);
+      }
+
+      await ctx.db.delete(projects).where(and(eq(projects.id, input.id), eq(projects.status, 'draft')));
       return { success: true };
     }),
 });
@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireEditableProject, requireProject } from '../_core/guards.js';
+import { assignContentIds, CONTENT_ID_PATTERN } from '../db/content-id.js';
+import { withTransaction } from '../db/index.js';
+import { toJsonColumn } from '../db/json.js';
+import { quizQuestions } from '../db/schema.js';
+import { eq } from 'drizzle-orm';
+import { MAX_QUIZ_OPTIONS, QUESTION_TYPES, QuizMapper } from '../services/quiz.js';
+import { QuizAssessmentService } from '../services/quiz-assessment.js';
+
+/**
+ * QuizBuilder question shape
+ */
+const builderQuestionSchema = z.object({
+  id: z.string(),
+  contentId: z.string().regex(CONTENT_ID_PATTERN).optional(),
+  type: z.enum(QUESTION_TYPES).default('single'),
+  bankId: z.string().regex(CONTENT_ID_PATTERN).nullable().optional(),
+  sectionId: z.string().regex(CONTENT_ID_PATTERN).nullable().optional(),
+  question: z.string().min(1),
+  options: z
+    .array(z.object({ id: z.string(), text: z.string().min(1), match: z.string().optional() }))
+    .min(1)
+    .max(MAX_QUIZ_OPTIONS),
+  correctAnswer: z.string(), // Empty for types that use correctAnswers or the option order
+  correctAnswers: z.array(z.string()).optional(),
+  caseSensitive: z.boolean().optional(),
+  points: z.number().positive().max(1000).optional(),
+  penalty: z.number().min(0).max(1000).optional(),
+  partialCredit: z.boolean().optional(),
+  explanation: z.string(),
+});
+
+/**
+ * Question banks, scoring sections and randomization of attempts
+ */
+const assessmentSchema = z.object({
+  banks: z
+    .array(
+      z.object({
+        contentId: z.string().regex(CONTENT_ID_PATTERN).optional(),
+        title: z.string().min(1).max(255),
+        drawCount: z.number().int().min(1).nullable(),
+      })
+    )
+    .max(50),
+  sections: z
+    .array(
+      z.object({
+        contentId: z.string().regex(CONTENT_ID_PATTERN).optional(),
+        title: z.string().min(1).max(255),
+        weight: z.number().int().min(1).max(100),
+      })
+    )
+    .max(50)
+    .default([]),
+  shuffleQuestions: z.boolean(),
+  shuffleOptions: z.boolean(),
+});
+
+export const quizRouter = router({
+  /**
+   * Get a project's quiz in QuizBuilder format
+   */
+  get: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const rows = await ctx.db
+        .select()
+        .from(quizQuestions)
+        .where(eq(quizQuestions.projectId, input.projectId))
+        .orderBy(quizQuestions.sortOrder);
+
+      return rows.map((row) => QuizMapper.toBuilder(row));
+    }),
+
+  /**
+   * Save the full quiz from QuizBuilder
+   * Replaces all stored questions; array order becomes quiz order.
+   * Questions sent with their contentId keep it across saves.
+   * Returns the saved quiz so the editor can reload stable ids.
+   */
+  save: roleProcedure('edit')
+    .input(
+      z.object({
+        projectId: z.number(),
+        questions: z.array(builderQuestionSchema),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const stored = input.questions.map((question, index) =>
+        QuizMapper.toStored(question, index)
+      );
+      const contentIds = assignContentIds(input.questions);
+
+      const bankIds = await QuizAssessmentService.bankIds(
+        ctx.db,
+        input.projectId,
+        stored.flatMap((question) => (question.bankId ? [question.bankId] : []))
+      );
+      const sectionIds = await QuizAssessmentService.sectionIds(
+        ctx.db,
+        input.projectId,
+        stored.flatMap((question) => (question.sectionId ? [question.sectionId] : []))
+      );
+      stored.forEach((question, index) => {
+        if (question.bankId && !bankIds.has(question.bankId)) {
+          throw new Error(`Question ${index + 1} is in an unknown question bank`);
+        }
+        if (question.sectionId && !sectionIds.has(question.sectionId)) {
+          throw new Error(`Question ${index + 1} is in an unknown section`);
+        }
+      });
+
+      const rows = await withTransaction(ctx.db, async (tx) => {
+        await tx.delete(quizQuestions).where(eq(quizQuestions.projectId, input.projectId));
+
+        if (stored.length === 0) {
+          return [];
+        }
+
+        return await tx
+          .insert(quizQuestions)
+          .values(
+            stored.map((question, index) => ({
+              ...question,
+              options: toJsonColumn(question.options),
+              settings: toJsonColumn(question.settings),
+              projectId: input.projectId,
+              contentId: contentIds[index],
+            }))
+          )
+          .returning();
+      });
+
+      return rows.map((row) => QuizMapper.toBuilder(row));
+    }),
+
+  /**
+   * Get a project's question banks, sections and randomization settings
+   */
+  getAssessment: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await QuizAssessmentService.load(ctx.db, input.projectId);
+    }),
+
+  /**
+   * Save question banks, sections and randomization settings
+   * Replaces all banks and sections; those sent with their contentId keep
+   * their questions, questions of banks left out are always asked and
+   * questions of sections left out get weight 1.
+   */
+  saveAssessment: roleProcedure('edit')
+    .input(assessmentSchema.extend({ projectId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      await withTransaction(ctx.db, (tx) => QuizAssessmentService.write(tx, input.projectId, input));
+
+      return await QuizAssessmentService.load(ctx.db, input.projectId);
+    }),
+
+  /**
+   * Delete a project's quiz
+   */
+  delete: roleProcedure('edit')
+    .input(z.object({ projectId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+      await ctx.db.delete(quizQuestions).where(eq(quizQuestions.projectId, input.projectId));
+      return { success: true };
+    }),
+});
@@ -1,169 +1,202 @@
 import { z } from 'zod';
-import { router, publicProcedure } from '../_core/trpc.js';
-import { projects, lessons, quizQuestions, courseMeta } from '../db/schema.js';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { findExportJob, requireExportJob, requireProject } from '../_core/guards.js';
+import { lessons, quizQuestions } from '../db/schema.js';
+import { parseJsonArray } from '../db/json.js';
 import { eq } from 'drizzle-orm';
-import {
-  SCORMVersion,
-  SCORMConfig,
-  SCORMPackageGenerator,
-  SuspendDataManager,
-} from '../services/scorm.js';
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { QuizMapper } from '../services/quiz.js';
+import { SuspendDataManager } from '../services/scorm.js';
+import { ExportJobRunner } from '../services/export-jobs.js';
+import { ScormPreviewService } from '../services/scorm-preview.js';
+import { PackageVersion, ScormPackageValidator } from '../services/scorm-validator.js';
+
+/**
+ * SCORM 2004 sequencing rules (ignored for SCORM 1.2 and cmi5)
+ */
+const sequencingSchema = z.object({
+  controlMode: z
+    .object({
+      choice: z.boolean().optional(),
+      choiceExit: z.boolean().optional(),
+      flow: z.boolean().optional(),
+      forwardOnly: z.boolean().optional(),
+    })
+    .optional(),
+  rollupRules: z
+    .array(
+      z.object({
+        childActivitySet: z.enum(['all', 'any', 'none', 'atLeastCount', 'atLeastPercent']),
+        minimumCount: z.number().int().min(0).optional(),
+        minimumPercent: z.number().min(0).max(1).optional(),
+        conditionCombination: z.enum(['all', 'any']).optional(),
+        conditions: z
+          .array(
+            z.object({
+              condition: z.enum([
+                'satisfied',
+                'objectiveStatusKnown',
+                'objectiveMeasureKnown',
+                'completed',
+                'activityProgressKnown',
+                'attempted',
+                'attemptLimitExceeded',
+              ]),
+              not: z.boolean().optional(),
+            })
+          )
+          .min(1),
+        action: z.enum(['satisfied', 'notSatisfied', 'completed', 'incomplete']),
+      })
+    )
+    .optional(),
+  attemptLimit: z.number().int().min(1).optional(),
+  lockAssessmentUntilLessonsComplete: z.boolean().optional(),
+});
+
+/**
+ * Export options shared by the blocking and background export procedures
+ */
+const exportInputSchema = z.object({
+  projectId: z.number(),
+  version: z.enum(['1.2', '2004', 'cmi5']).default('1.2'),
+  passingScore: z.number().min(0).max(100).default(70),
+  masteryScore: z.number().min(0).max(100).default(80),
+  packaging: z.enum(['single', 'multi']).default('single'),
+  sequencing: sequencingSchema.optional(),
+});
 
 export const scormRouter = router({
   /**
    * Generate SCORM package for a project
+   * Runs an export job and waits for it to finish.
    */
-  generatePackage: publicProcedure
-    .input(
-      z.object({
-        projectId: z.number(),
-        version: z.enum(['1.2', '2004']).default('1.2'),
-        passingScore: z.number().min(0).max(100).default(70),
-        masteryScore: z.number().min(0).max(100).default(80),
-      })
-    )
+  generatePackage: roleProcedure('export')
+    .input(exportInputSchema)
     .mutation(async ({ ctx, input }) => {
-      // Fetch project data
-      const project = await ctx.db
-        .select()
-        .from(projects)
-        .where(eq(projects.id, input.projectId))
-        .limit(1);
-
-      if (!project[0]) {
-        throw new Error('Project not found');
-      }
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const { job, finished } = await ExportJobRunner.enqueue(
+        ctx.db,
+        input.projectId,
+        {
+          version: input.version,
+          passingScore: input.passingScore,
+          masteryScore: input.masteryScore,
+          packaging: input.packaging,
+          sequencing: input.sequencing,
+        },
+        ctx.user.id
+      );
 
-      // Fetch lessons
-      const projectLessons = await ctx.db
-        .select()
-        .from(lessons)
-        .where(eq(lessons.projectId, input.projectId))
-        .orderBy(lessons.sortOrder);
+      const result = await finished;
+      const done = await ExportJobRunner.get(ctx.db, job.id);
 
-      // Fetch quiz questions
-      const quiz = await ctx.db
-        .select()
-        .from(quizQuestions)
-        .where(eq(quizQuestions.projectId, input.projectId))
-        .orderBy(quizQuestions.sortOrder);
+      if (!result || !done) {
+        throw new Error(done?.error || 'Export failed');
+      }
 
-      // Fetch course metadata
-      const meta = await ctx.db
-        .select()
-        .from(courseMeta)
-        .where(eq(courseMeta.projectId, input.projectId))
-        .limit(1);
-
-      // Prepare course data for player
-      const courseData = {
-        title: project[0].title,
-        description: project[0].description,
-        lessons: projectLessons.map((lesson) => ({
-          id: lesson.id,
-          slideId: lesson.slideId,
-          timestampStart: lesson.timestampStart,
-          contentSummary: lesson.contentSummary,
-          imageUrl: lesson.imageUrl,
-          visualReasoning: lesson.visualReasoning,
-        })),
-        quiz: quiz.map((q) => ({
-          question: q.question,
-          options: q.options as string[],
-          correctAnswer: q.correctAnswer,
-          explanation: q.explanation,
-        })),
-        meta: meta[0]
-          ? {
-              learningObjectives: meta[0].learningObjectives as string[],
-              tags: meta[0].tags as string[],
-            }
-          : null,
+      return {
+        success: true,
+        jobId: job.id,
+        snapshotId: done.snapshotId,
+        filename: result.filename,
+        downloadUrl: ExportJobRunner.toStatus(done).downloadUrl,
+        suspendDataSize: result.suspendDataSize,
+        suspendDataLimit: 4096,
+        validation: result.validation,
       };
+    }),
 
-      // Validate suspend data size (simulate worst case)
-      const testSuspendData = {
-        l: projectLessons.length - 1,
-        t: Math.floor(Date.now() / 1000),
-        q: quiz.reduce((acc, q, idx) => {
-          acc[`q${idx}`] = 'D'; // Worst case: all answers
-          return acc;
-        }, {} as Record<string, string>),
-      };
+  /**
+   * Start a SCORM export in the background
+   * Poll getExportJob for progress; download from the returned URL when done.
+   */
+  startExport: roleProcedure('export')
+    .input(exportInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const { job } = await ExportJobRunner.enqueue(
+        ctx.db,
+        input.projectId,
+        {
+          version: input.version,
+          passingScore: input.passingScore,
+          masteryScore: input.masteryScore,
+          packaging: input.packaging,
+          sequencing: input.sequencing,
+        },
+        ctx.user.id
+      );
 
-      if (!SuspendDataManager.validate(testSuspendData)) {
-        throw new Error(
-          `Suspend data exceeds SCORM 1.2 limit. Current size: ${SuspendDataManager.getSize(
-            testSuspendData
-          )} characters. Consider reducing quiz questions.`
-        );
-      }
+      return ExportJobRunner.toStatus(job);
+    }),
 
-      // Load HTML template
-      const templatePath = path.join(
-        __dirname,
-        '../services/scorm-player-template.html'
-      );
-      let htmlTemplate = await fs.readFile(templatePath, 'utf-8');
-
-      // Replace placeholders
-      htmlTemplate = htmlTemplate
-        .replace(/\{\{COURSE_TITLE\}\}/g, project[0].title)
-        .replace(/\{\{COURSE_DATA\}\}/g, JSON.stringify(courseData))
-        .replace(/\{\{PASSING_SCORE\}\}/g, input.passingScore.toString())
-        .replace(/\{\{HAS_QUIZ\}\}/g, quiz.length > 0 ? 'true' : 'false');
-
-      // Create SCORM config
-      const scormConfig: SCORMConfig = {
-        version:
-          input.version === '1.2' ? SCORMVersion.SCORM_1_2 : SCORMVersion.SCORM_2004,
-        courseTitle: project[0].title,
-        courseDescription: project[0].description || '',
-        passingScore: input.passingScore,
-        masteryScore: input.masteryScore,
-      };
+  /**
+   * Get status and progress of an export job
+   */
+  getExportJob: roleProcedure('view')
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const job = await findExportJob(ctx.db, input.jobId, ctx.workspace.id);
+      return job ? ExportJobRunner.toStatus(job) : null;
+    }),
 
-      // Generate package
-      const outputDir = path.join(process.cwd(), 'exports');
-      await fs.mkdir(outputDir, { recursive: true });
+  /**
+   * List past exports of a project, newest first
+   */
+  listExports: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
 
-      const timestamp = Date.now();
-      const filename = `${project[0].title.replace(/[^a-z0-9]/gi, '_')}_${timestamp}.zip`;
-      const outputPath = path.join(outputDir, filename);
+      const jobs = await ExportJobRunner.listForProject(ctx.db, input.projectId);
+      return jobs.map((job) => ExportJobRunner.toStatus(job));
+    }),
 
-      await SCORMPackageGenerator.createPackage(
-        scormConfig,
-        htmlTemplate,
-        outputPath
-      );
+  /**
+   * Open a finished SCORM export in the test harness LMS
+   * Returns the harness URL and the SCOs it can launch.
+   */
+  openPreview: roleProcedure('view')
+    .input(z.object({ jobId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireExportJob(ctx.db, input.jobId, ctx.workspace.id);
 
-      // Update project status
-      await ctx.db
-        .update(projects)
-        .set({ status: 'published', updatedAt: new Date() })
-        .where(eq(projects.id, input.projectId));
+      const { manifest } = await ScormPreviewService.open(ctx.db, input.jobId);
 
       return {
-        success: true,
-        filename,
-        path: outputPath,
-        suspendDataSize: SuspendDataManager.getSize(testSuspendData),
-        suspendDataLimit: 4096,
+        url: `/preview/${input.jobId}/`,
+        version: manifest.version,
+        items: manifest.items.map((item) => ({ identifier: item.identifier, title: item.title })),
       };
     }),
 
+  /**
+   * Check a finished export against the SCORM / cmi5 packaging rules
+   * Returns the report with every issue found; errors make it invalid.
+   */
+  validatePackage: roleProcedure('view')
+    .input(z.object({ jobId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const job = await findExportJob(ctx.db, input.jobId, ctx.workspace.id);
+      const filePath = job ? ExportJobRunner.filePath(job) : null;
+
+      if (!job || !filePath) {
+        throw new Error(`Export job ${input.jobId} has no finished package`);
+      }
+
+      return ScormPackageValidator.validateFile(filePath, job.version as PackageVersion);
+    }),
+
   /**
    * Validate suspend data size for a project
    */
-  validateSuspendData: publicProcedure
+  validateSuspendData: roleProcedure('view')
     .input(z.object({ projectId: z.number() }))
     .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
       // Fetch lessons count
       const projectLessons = await ctx.db
         .select()
@@ -177,14 +210,14 @@ export const scormRouter = router({
         .where(eq(quizQuestions.projectId, input.projectId));
 
       // Simulate worst-case suspend data
-      const testSuspendData = {
-        l: projectLessons.length - 1,
-        t: Math.floor(Date.now() / 1000),
-        q: quiz.reduce((acc, q, idx) => {
-          acc[`q${idx}`] = 'D';
-          return acc;
-        }, {} as Record<string, string>),
-      };
+      const testSuspendData = SuspendDataManager.worstCase(
+        projectLessons.length,
+        quiz.map((q) => ({
+          type: QuizMapper.typeOf(q.type),
+          options: parseJsonArray(q.options),
+          correctAnswer: q.correctAnswer,
+        }))
+      );
 
       const size = SuspendDataManager.getSize(testSuspendData);
       const isValid = SuspendDataManager.validate(testSuspendData);
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireEditableProject, requireProject } from '../_core/guards.js';
+import { CourseDocumentService } from '../services/course-document.js';
+import { SnapshotService } from '../services/snapshots.js';
+
+export const snapshotsRouter = router({
+  /**
+   * Snapshots of a project, newest first (without their documents)
+   */
+  list: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await SnapshotService.list(ctx.db, input.projectId);
+    }),
+
+  /**
+   * A snapshot with its course document
+   */
+  get: roleProcedure('view')
+    .input(z.object({ projectId: z.number(), snapshotId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await SnapshotService.get(ctx.db, input.projectId, input.snapshotId);
+    }),
+
+  /**
+   * Take a snapshot of the current course
+   */
+  create: roleProcedure('edit')
+    .input(z.object({ projectId: z.number(), label: z.string().max(255).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await SnapshotService.create(ctx.db, input.projectId, {
+        reason: 'manual',
+        label: input.label,
+        userId: ctx.user.id,
+      });
+    }),
+
+  /**
+   * Added, removed and edited slides and questions between two snapshots
+   * Without toSnapshotId, compares with the current course.
+   */
+  diff: roleProcedure('view')
+    .input(
+      z.object({
+        projectId: z.number(),
+        fromSnapshotId: z.number(),
+        toSnapshotId: z.number().optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const from = await SnapshotService.get(ctx.db, input.projectId, input.fromSnapshotId);
+      const to = input.toSnapshotId
+        ? (await SnapshotService.get(ctx.db, input.projectId, input.toSnapshotId)).document
+        : await CourseDocumentService.load(ctx.db, input.projectId);
+
+      return SnapshotService.diff(from.document, to);
+    }),
+
+  /**
+   * Put the course back to a snapshot
+   * Drafts only. The current course is snapshotted first; its summary is
+   * returned so the restore can be undone.
+   */
+  restore: roleProcedure('edit')
+    .input(z.object({ projectId: z.number(), snapshotId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await SnapshotService.restore(ctx.db, input.projectId, input.snapshotId, ctx.user.id);
+    }),
+});
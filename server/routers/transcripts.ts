@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireEditableProject, requireProject } from '../_core/guards.js';
+import type { Database } from '../db/index.js';
+import { parseJsonArray, toJsonColumn } from '../db/json.js';
+import { projects, transcripts, lessons } from '../db/schema.js';
+import { and, desc, eq, getTableColumns } from 'drizzle-orm';
+import { TranscriptCue, TranscriptParser } from '../services/transcripts.js';
+
+/**
+ * Load a transcript of a workspace's project, or null
+ */
+async function findTranscript(db: Database, transcriptId: number, organizationId: number) {
+  const result = await db
+    .select(getTableColumns(transcripts))
+    .from(transcripts)
+    .innerJoin(projects, eq(projects.id, transcripts.projectId))
+    .where(and(eq(transcripts.id, transcriptId), eq(projects.organizationId, organizationId)))
+    .limit(1);
+
+  return result[0] || null;
+}
+
+export const transcriptsRouter = router({
+  /**
+   * List transcripts of a project, newest first
+   */
+  list: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const rows = await ctx.db
+        .select()
+        .from(transcripts)
+        .where(eq(transcripts.projectId, input.projectId))
+        .orderBy(desc(transcripts.createdAt), desc(transcripts.id));
+
+      return rows.map((row) => ({ ...row, cues: parseJsonArray<TranscriptCue>(row.cues) }));
+    }),
+
+  /**
+   * Get a single transcript with its cues
+   */
+  getById: roleProcedure('view')
+    .input(z.object({ id: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const transcript = await findTranscript(ctx.db, input.id, ctx.workspace.id);
+
+      if (!transcript) {
+        return null;
+      }
+
+      return { ...transcript, cues: parseJsonArray<TranscriptCue>(transcript.cues) };
+    }),
+
+  /**
+   * Upload a transcript file (WebVTT, SRT or plain text)
+   * Stores the original content alongside the normalized cues.
+   */
+  upload: roleProcedure('edit')
+    .input(
+      z.object({
+        projectId: z.number(),
+        content: z.string().min(1),
+        source: z.enum(['manual', 'youtube', 'gemini']).default('manual'),
+        format: z.enum(['auto', 'vtt', 'srt', 'text']).default('auto'),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await requireEditableProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const parsed = TranscriptParser.parse(
+        input.content,
+        input.format === 'auto' ? undefined : input.format
+      );
+
+      if (parsed.cues.length === 0) {
+        throw new Error(`No cues found in ${parsed.format} transcript`);
+      }
+
+      const result = await ctx.db
+        .insert(transcripts)
+        .values({
+          projectId: input.projectId,
+          rawText: input.content,
+          source: input.source,
+          format: parsed.format,
+          cues: toJsonColumn(parsed.cues),
+        })
+        .returning();
+
+      return { ...result[0], cues: parsed.cues };
+    }),
+
+  /**
+   * Delete a transcript
+   */
+  delete: roleProcedure('edit')
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const transcript = await findTranscript(ctx.db, input.id, ctx.workspace.id);
+
+      if (!transcript) {
+        throw new Error('Transcript not found');
+      }
+
+      await requireEditableProject(ctx.db, transcript.projectId, ctx.workspace.id);
+
+      await ctx.db.delete(transcripts).where(eq(transcripts.id, input.id));
+      return { success: true };
+    }),
+
+  /**
+   * Check lesson timestamps against a transcript's cue timeline
+   * Uses the latest transcript unless one is given. Plain text
+   * transcripts only have estimated timings, so nothing is checked.
+   */
+  validateLessonTimestamps: roleProcedure('view')
+    .input(z.object({ projectId: z.number(), transcriptId: z.number().optional() }))
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+
+      const candidates = await ctx.db
+        .select()
+        .from(transcripts)
+        .where(eq(transcripts.projectId, input.projectId))
+        .orderBy(desc(transcripts.createdAt), desc(transcripts.id));
+
+      const transcript = input.transcriptId
+        ? candidates.find((row) => row.id === input.transcriptId)
+        : candidates[0];
+
+      if (!transcript) {
+        throw new Error('Transcript not found');
+      }
+
+      const cues = parseJsonArray<TranscriptCue>(transcript.cues);
+
+      if (transcript.format === 'text' || cues.length === 0) {
+        return { transcriptId: transcript.id, checked: false, duration: null, issues: [] };
+      }
+
+      const duration = cues[cues.length - 1].end;
+
+      const projectLessons = await ctx.db
+        .select()
+        .from(lessons)
+        .where(eq(lessons.projectId, input.projectId))
+        .orderBy(lessons.sortOrder);
+
+      const issues: Array<{ lessonId: number; timestampStart: string; message: string }> = [];
+      let previousStart = -1;
+
+      for (const lesson of projectLessons) {
+        const start = TranscriptParser.parseTimestamp(lesson.timestampStart);
+
+        if (Number.isNaN(start)) {
+          issues.push({
+            lessonId: lesson.id,
+            timestampStart: lesson.timestampStart,
+            message: 'Timestamp is not in MM:SS or HH:MM:SS format',
+          });
+          continue;
+        }
+
+        if (start > duration) {
+          issues.push({
+            lessonId: lesson.id,
+            timestampStart: lesson.timestampStart,
+            message: `Timestamp is after the end of the transcript (${TranscriptParser.formatTimestamp(duration)})`,
+          });
+        } else if (start < previousStart) {
+          issues.push({
+            lessonId: lesson.id,
+            timestampStart: lesson.timestampStart,
+            message: 'Timestamp is earlier than the previous lesson',
+          });
+        }
+
+        previousStart = start;
+      }
+
+      return { transcriptId: transcript.id, checked: true, duration, issues };
+    }),
+});
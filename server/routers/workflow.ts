@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireProject } from '../_core/guards.js';
+import { ProjectWorkflow, WORKFLOW_TRANSITIONS, WorkflowAction } from '../services/workflow.js';
+
+const transitionInput = z.object({
+  projectId: z.number(),
+  comment: z.string().max(5000).optional(),
+});
+
+/**
+ * Procedure moving a project through the workflow
+ * Allowed for the roles with the action's permission; apply checks the
+ * permission needed from the project's current status.
+ */
+const transition = (action: WorkflowAction) =>
+  roleProcedure(WORKFLOW_TRANSITIONS[action].permission)
+    .input(transitionInput)
+    .mutation(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await ProjectWorkflow.apply(
+        ctx.db,
+        input.projectId,
+        action,
+        { userId: ctx.user.id, role: ctx.workspace.role },
+        input.comment
+      );
+    });
+
+export const workflowRouter = router({
+  /**
+   * Current status, the actions the caller can take and the history,
+   * newest first
+   */
+  get: roleProcedure('view')
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const project = await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      const submittedBy = project.status === 'in_review' ? await ProjectWorkflow.submitter(ctx.db, input.projectId) : null;
+
+      return {
+        status: project.status,
+        actions: ProjectWorkflow.actionsFrom(project.status).filter(
+          (action) =>
+            ProjectWorkflow.allows(ctx.workspace.role, action, project.status) &&
+            (action !== 'approve' || submittedBy !== ctx.user.id)
+        ),
+        history: await ProjectWorkflow.history(ctx.db, input.projectId),
+      };
+    }),
+
+  /**
+   * Send a draft for review
+   */
+  submit: transition('submit'),
+
+  /**
+   * Sign off a project in review
+   */
+  approve: transition('approve'),
+
+  /**
+   * Send a project in review back to draft; the comment is required
+   */
+  reject: transition('reject'),
+
+  /**
+   * Publish an approved project
+   */
+  publish: transition('publish'),
+
+  /**
+   * Retire a published project
+   */
+  archive: transition('archive'),
+
+  /**
+   * Bring a project back to draft to edit it; approval has to be given again
+   * Authors can take back a project in review; reopening one that was
+   * approved, published or archived is for admins.
+   */
+  reopen: transition('reopen'),
+});
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { router, roleProcedure } from '../_core/trpc.js';
+import { requireProject } from '../_core/guards.js';
+import { XapiStatementStore } from '../services/xapi-store.js';
+
+export const xapiRouter = router({
+  /**
+   * Statements the built-in LRS received for a project, newest first
+   * Use it to check what an exported cmi5 course actually sent.
+   */
+  listStatements: roleProcedure('view')
+    .input(
+      z.object({
+        projectId: z.number(),
+        verb: z.string().optional(), // Verb IRI
+        registration: z.string().optional(),
+        limit: z.number().int().min(1).max(500).default(100),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      await requireProject(ctx.db, input.projectId, ctx.workspace.id);
+      return await XapiStatementStore.query(ctx.db, input);
+    }),
+});
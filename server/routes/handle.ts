@@ -0,0 +1,13 @@
+import { NextFunction, Request, Response } from 'express';
+
+type Handler = (req: Request, res: Response) => Promise<void>;
+
+/**
+ * Forward async errors of a route handler to Express's error handlers
+ * Without it a rejected handler never answers and the request hangs.
+ */
+export const handle =
+  (handler: Handler) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res).catch(next);
+  };
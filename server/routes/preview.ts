@@ -0,0 +1,155 @@
+/**
+ * SCORM Preview Routes
+ * Test harness LMS for finished exports
+ *
+ * Mounted at /preview:
+ * - GET    /:jobId/                 harness page (table of contents, SCO frame, API trace)
+ * - GET    /:jobId/content/:token/* files of the unpacked package, HTML pages with the harness injected
+ * - PUT    /:jobId/state/:scoId     CMI data committed by a SCO
+ * - DELETE /:jobId/state            reset learner data for the preview
+ *
+ * Only members of the exported project's organization can use a preview;
+ * the browser sends the session cookie with every request of the harness
+ * page. Package files are requested from the sandboxed frame without the
+ * cookie, so they need the content token the harness page was rendered
+ * with instead.
+ */
+
+import express, { NextFunction, Request, Response } from 'express';
+import { findPermittedExportJob } from '../_core/guards.js';
+import { db } from '../db/index.js';
+import { AuthService } from '../services/auth.js';
+import { HarnessCMIData } from '../services/scorm-harness.js';
+import { ScormPreviewService } from '../services/scorm-preview.js';
+import { handle } from './handle.js';
+
+/**
+ * Package content is course author input, so it runs in an opaque origin
+ * and cannot reach the app's cookies or API (the harness frame has the
+ * same sandbox)
+ */
+const CONTENT_SECURITY_POLICY = 'sandbox allow-scripts allow-forms allow-popups allow-modals';
+
+export const previewRoutes = express.Router();
+
+previewRoutes.use('/:jobId', (req, res, next) => {
+  if (req.path.startsWith('/content/')) {
+    next();
+    return;
+  }
+
+  AuthService.resolveSession(db, AuthService.tokenFromRequest(req))
+    .then(async (user) => {
+      if (!user) {
+        res.status(401).type('text').send('Preview unavailable: sign in required');
+        return;
+      }
+
+      const jobId = jobIdOf(req);
+      if (!(await findPermittedExportJob(db, jobId, user.id, 'view'))) {
+        throw new Error(`Export job ${jobId} not found`);
+      }
+
+      next();
+    })
+    .catch(next);
+});
+
+/**
+ * Harness page
+ * Relative URLs in the page rely on the trailing slash.
+ */
+previewRoutes.get(
+  '/:jobId',
+  handle(async (req, res) => {
+    if (!req.originalUrl.split('?')[0].endsWith('/')) {
+      res.redirect(301, `${req.baseUrl}/${req.params.jobId}/`);
+      return;
+    }
+
+    res.type('html').send(await ScormPreviewService.renderHarness(db, jobIdOf(req)));
+  })
+);
+
+/**
+ * Package files, unpacked on first use
+ */
+previewRoutes.use(
+  '/:jobId/content/:token',
+  handle(async (req, res) => {
+    const jobId = jobIdOf(req);
+
+    if (!ScormPreviewService.verifyContentToken(jobId, req.params.token)) {
+      res.status(403).type('text').send('Preview unavailable: reload the harness page');
+      return;
+    }
+
+    await ScormPreviewService.open(db, jobId);
+    res.setHeader('Content-Security-Policy', CONTENT_SECURITY_POLICY);
+
+    if (req.method === 'GET' && /\.html?$/i.test(req.path)) {
+      const page = await ScormPreviewService.readPage(jobId, decodeURIComponent(req.path));
+
+      if (page !== null) {
+        res.type('html').send(page);
+        return;
+      }
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      express.static(ScormPreviewService.directory(jobId), { index: false, fallthrough: true })(
+        req,
+        res,
+        (error?: unknown) => (error ? reject(error) : resolve())
+      );
+    });
+
+    if (!res.headersSent) {
+      res.status(404).json({ error: 'File not found in package' });
+    }
+  })
+);
+
+previewRoutes.put(
+  '/:jobId/state/:scoId',
+  handle(async (req, res) => {
+    const cmi = req.body?.cmi;
+
+    if (!cmi || typeof cmi !== 'object' || Array.isArray(cmi)) {
+      res.status(400).json({ error: 'Body must be { cmi: { element: value } }' });
+      return;
+    }
+
+    const values = Object.fromEntries(
+      Object.entries(cmi as Record<string, unknown>).map(([key, value]) => [key, String(value)])
+    ) as HarnessCMIData;
+
+    const jobId = jobIdOf(req);
+    await ScormPreviewService.open(db, jobId);
+    await ScormPreviewService.saveState(db, jobId, req.params.scoId, values);
+    res.status(204).end();
+  })
+);
+
+previewRoutes.delete(
+  '/:jobId/state',
+  handle(async (req, res) => {
+    await ScormPreviewService.resetStates(db, jobIdOf(req));
+    res.status(204).end();
+  })
+);
+
+previewRoutes.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+  const message = error instanceof Error ? error.message : String(error);
+  res.status(404).type('text').send(`Preview unavailable: ${message}`);
+});
+
+function jobIdOf(req: Request): number {
+  const jobId = Number(req.params.jobId);
+
+  if (!Number.isInteger(jobId) || jobId <= 0) {
+    throw new Error(`Invalid export job id: ${req.params.jobId}`);
+  }
+
+  return jobId;
+}
@@ -0,0 +1,340 @@
+/**
+ * Built-in Learning Record Store
+ * Minimal xAPI endpoint for developing and testing cmi5 exports offline
+ *
+ * Mounted at /xapi. Supports statements (POST/PUT/GET), state and activity
+ * profile documents, and a cmi5 fetch URL for local launches. Every request
+ * except /about and /fetch needs basic auth: a launch token from /fetch,
+ * which only reaches the launched course, or LRS_USERNAME/LRS_PASSWORD
+ * when both are set (there are no defaults). /fetch itself needs the
+ * session of a member who can view the course.
+ * Enabled by default outside production; set LRS_ENABLED to override.
+ */
+
+import crypto from 'crypto';
+import express, { NextFunction, Request, Response } from 'express';
+import { findPermittedProject } from '../_core/guards.js';
+import { db } from '../db/index.js';
+import { AuthService } from '../services/auth.js';
+import {
+  DocumentKey,
+  XAPI_VERSION,
+  XapiDocumentStore,
+  XapiLaunchScope,
+  XapiLaunchTokens,
+  XapiRequestError,
+  XapiStatementStore,
+} from '../services/xapi-store.js';
+import { handle } from './handle.js';
+
+export const LRS_ENABLED = process.env.LRS_ENABLED
+  ? process.env.LRS_ENABLED === 'true'
+  : process.env.NODE_ENV !== 'production';
+
+const LRS_USERNAME = process.env.LRS_USERNAME || '';
+const LRS_PASSWORD = process.env.LRS_PASSWORD || '';
+
+export const xapiRoutes = express.Router();
+
+// Non-JSON document bodies (JSON is already parsed by the app)
+xapiRoutes.use(express.text({ type: () => true, limit: '1mb' }));
+
+xapiRoutes.use((req, res, next) => {
+  res.setHeader('X-Experience-API-Version', XAPI_VERSION);
+  next();
+});
+
+/**
+ * LRS version info (no auth, no version header needed)
+ */
+xapiRoutes.get('/about', (req, res) => {
+  res.json({ version: [XAPI_VERSION] });
+});
+
+/**
+ * cmi5 fetch URL: /xapi/fetch?projectId=<id>&registration=<uuid>
+ * Hands out a short-lived token for one launch of a course (see
+ * XapiLaunchTokens). Without a registration the token covers every
+ * registration of the course. Only members who can view the course get one.
+ */
+xapiRoutes.post(
+  '/fetch',
+  handle(async (req, res) => {
+    const user = await AuthService.resolveSession(db, AuthService.tokenFromRequest(req));
+
+    if (!user) {
+      res.status(401).json({ error: 'Sign in required' });
+      return;
+    }
+
+    const projectId = Number(req.query.projectId);
+    const project = Number.isInteger(projectId)
+      ? await findPermittedProject(db, projectId, user.id, 'view')
+      : null;
+
+    if (!project) {
+      res.status(404).json({ error: 'Project not found' });
+      return;
+    }
+
+    const registration = optional(req.query.registration) ?? null;
+    res.json({ 'auth-token': XapiLaunchTokens.issue({ projectId, registration }) });
+  })
+);
+
+// Version header and basic auth for everything below
+xapiRoutes.use((req, res, next) => {
+  const version = req.header('X-Experience-API-Version');
+
+  if (!version || !/^1\.0(\.\d+)?$/.test(version)) {
+    res.status(400).json({ error: 'X-Experience-API-Version header must be 1.0.x' });
+    return;
+  }
+
+  const credentials = authenticate(req.header('Authorization'));
+
+  if (!credentials) {
+    res.setHeader('WWW-Authenticate', 'Basic realm="CourseForge LRS"');
+    res.status(401).json({ error: 'Invalid LRS credentials' });
+    return;
+  }
+
+  res.locals.account = credentials.account;
+  res.locals.launch = credentials.launch;
+  next();
+});
+
+/**
+ * Store one statement or a batch
+ */
+xapiRoutes.post(
+  '/statements',
+  handle(async (req, res) => {
+    const batch = Array.isArray(req.body) ? req.body : [req.body];
+    const ids = await XapiStatementStore.save(db, batch, authority(res), launchOf(res));
+    res.json(ids);
+  })
+);
+
+/**
+ * Store a statement under a client-chosen id
+ */
+xapiRoutes.put(
+  '/statements',
+  handle(async (req, res) => {
+    const statementId = String(req.query.statementId || '');
+
+    if (!statementId) {
+      throw new XapiRequestError('statementId parameter is required', 400);
+    }
+    if (req.body?.id && String(req.body.id).toLowerCase() !== statementId.toLowerCase()) {
+      throw new XapiRequestError('statementId parameter does not match the statement id', 400);
+    }
+
+    await XapiStatementStore.save(db, [{ ...req.body, id: statementId }], authority(res), launchOf(res));
+    res.status(204).end();
+  })
+);
+
+/**
+ * Get one statement by id, or query statements
+ */
+xapiRoutes.get(
+  '/statements',
+  handle(async (req, res) => {
+    res.setHeader('X-Experience-API-Consistent-Through', new Date().toISOString());
+
+    if (req.query.statementId) {
+      const statement = await XapiStatementStore.get(db, String(req.query.statementId), launchOf(res));
+
+      if (!statement) {
+        res.status(404).json({ error: 'Statement not found' });
+        return;
+      }
+
+      res.json(statement);
+      return;
+    }
+
+    const rows = await XapiStatementStore.query(
+      db,
+      {
+        verb: optional(req.query.verb),
+        activity: optional(req.query.activity),
+        registration: optional(req.query.registration),
+        since: optionalDate(req.query.since),
+        until: optionalDate(req.query.until),
+        limit: Number(req.query.limit) || undefined,
+        ascending: req.query.ascending === 'true',
+      },
+      launchOf(res)
+    );
+
+    res.json({ statements: rows.map((row) => row.statement), more: '' });
+  })
+);
+
+/**
+ * State and activity profile documents share one implementation
+ */
+for (const [path, type, idParam] of [
+  ['/activities/state', 'state', 'stateId'],
+  ['/activities/profile', 'activity-profile', 'profileId'],
+] as const) {
+  const scopeOf = (req: Request): Omit<DocumentKey, 'documentId'> => {
+    const activityId = optional(req.query.activityId);
+
+    if (!activityId) {
+      throw new XapiRequestError('activityId parameter is required', 400);
+    }
+
+    if (type === 'activity-profile') {
+      return { type, activityId };
+    }
+
+    const agent = optional(req.query.agent);
+
+    if (!agent) {
+      throw new XapiRequestError('agent parameter is required', 400);
+    }
+
+    return {
+      type,
+      activityId,
+      agent: XapiDocumentStore.agentKey(agent),
+      registration: optional(req.query.registration) ?? null,
+    };
+  };
+
+  const keyOf = (req: Request): DocumentKey => {
+    const documentId = optional(req.query[idParam]);
+
+    if (!documentId) {
+      throw new XapiRequestError(`${idParam} parameter is required`, 400);
+    }
+
+    return { ...scopeOf(req), documentId };
+  };
+
+  xapiRoutes.get(
+    path,
+    handle(async (req, res) => {
+      if (!req.query[idParam]) {
+        const since = optionalDate(req.query.since);
+        res.json(await XapiDocumentStore.listIds(db, scopeOf(req), since, launchOf(res)));
+        return;
+      }
+
+      const document = await XapiDocumentStore.get(db, keyOf(req), launchOf(res));
+
+      if (!document) {
+        res.status(404).end();
+        return;
+      }
+
+      res.setHeader('Last-Modified', document.updatedAt.toUTCString());
+      res.type(document.contentType).send(document.content);
+    })
+  );
+
+  xapiRoutes.put(
+    path,
+    handle(async (req, res) => {
+      const isJson = typeof req.body === 'object' && req.body !== null;
+      const content = isJson ? JSON.stringify(req.body) : String(req.body ?? '');
+      const contentType = isJson ? 'application/json' : req.header('Content-Type') || 'text/plain';
+
+      await XapiDocumentStore.put(db, keyOf(req), content, contentType, launchOf(res));
+      res.status(204).end();
+    })
+  );
+
+  xapiRoutes.post(
+    path,
+    handle(async (req, res) => {
+      await XapiDocumentStore.merge(db, keyOf(req), req.body, launchOf(res));
+      res.status(204).end();
+    })
+  );
+
+  xapiRoutes.delete(
+    path,
+    handle(async (req, res) => {
+      await XapiDocumentStore.delete(
+        db,
+        { ...scopeOf(req), documentId: optional(req.query[idParam]) },
+        launchOf(res)
+      );
+      res.status(204).end();
+    })
+  );
+}
+
+xapiRoutes.use((error: unknown, req: Request, res: Response, _next: NextFunction) => {
+  if (error instanceof XapiRequestError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+
+  console.error('LRS request failed:', error);
+  res.status(500).json({ error: 'Internal LRS error' });
+});
+
+/**
+ * Account name and launch scope of the credentials in an Authorization
+ * header, or null. The configured credentials are not limited to a launch.
+ */
+function authenticate(
+  header: string | undefined
+): { account: string; launch: XapiLaunchScope | null } | null {
+  const launch = XapiLaunchTokens.verify(header);
+
+  if (launch) {
+    return { account: `course-${launch.projectId}`, launch };
+  }
+
+  if (!LRS_USERNAME || !LRS_PASSWORD) {
+    return null;
+  }
+
+  const expected = Buffer.from(
+    `Basic ${Buffer.from(`${LRS_USERNAME}:${LRS_PASSWORD}`).toString('base64')}`
+  );
+  const given = Buffer.from(header ?? '');
+
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected)
+    ? { account: LRS_USERNAME, launch: null }
+    : null;
+}
+
+function launchOf(res: Response): XapiLaunchScope | null {
+  return res.locals.launch as XapiLaunchScope | null;
+}
+
+function authority(res: Response) {
+  return {
+    objectType: 'Agent',
+    name: 'CourseForge LRS',
+    account: { homePage: 'https://courseforge.app', name: res.locals.account as string },
+  };
+}
+
+function optional(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function optionalDate(value: unknown): Date | undefined {
+  const text = optional(value);
+
+  if (!text) {
+    return undefined;
+  }
+
+  const date = new Date(text);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new XapiRequestError(`Invalid timestamp: ${text}`, 400);
+  }
+
+  return date;
+}
@@ -0,0 +1,38 @@
+/**
+ * Adopt projects created before accounts existed
+ * Usage: pnpm projects:adopt <email>
+ *
+ * Moves every project that belongs to no workspace into the account's
+ * personal (oldest) workspace, owned by that account. Run once by an
+ * operator after the intended owner has registered.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { users } from '../db/schema.js';
+import { AuthService } from '../services/auth.js';
+import { OrganizationService } from '../services/organizations.js';
+
+const email = process.argv[2];
+
+if (!email) {
+  console.error('Usage: pnpm projects:adopt <email>');
+  process.exit(1);
+}
+
+const user = await db
+  .select({ id: users.id })
+  .from(users)
+  .where(eq(users.email, AuthService.normalizeEmail(email)))
+  .limit(1);
+const workspace = user[0] ? await OrganizationService.resolve(db, user[0].id, null) : null;
+
+if (!user[0] || !workspace) {
+  console.error(`❌ No account with a workspace for ${email}`);
+  process.exit(1);
+}
+
+const adopted = await OrganizationService.adoptUnassignedProjects(db, workspace.id, user[0].id);
+
+console.log(`✅ Moved ${adopted} project(s) into ${workspace.name}`);
+process.exit(0);
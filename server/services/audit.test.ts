@@ -0,0 +1,45 @@
+/**
+ * Audit Service - Test Suite
+ *
+ * Verifies how mutation inputs are summarized and which entity ids an
+ * entry records.
+ */
+
+import { AuditService } from './audit.js';
+
+describe('AuditService', () => {
+  it('redacts secrets and shortens long inputs', () => {
+    const summary = AuditService.summarize({
+      email: 'ana@example.com',
+      password: 'hunter22',
+      rawText: 'x'.repeat(250),
+      cues: Array.from({ length: 25 }, (_, index) => index),
+    }) as Record<string, unknown>;
+
+    expect(summary.email).toBe('ana@example.com');
+    expect(summary.password).toBe('[redacted]');
+    expect(summary.rawText).toBe(`${'x'.repeat(200)}… (250 characters)`);
+    expect(summary.cues).toHaveLength(21);
+    expect((summary.cues as unknown[])[20]).toBe('… 5 more');
+  });
+
+  it('stops at nested structures past the depth limit', () => {
+    expect(AuditService.summarize({ a: { b: { c: { d: { e: 1 } } } } })).toEqual({ a: { b: { c: { d: '{…}' } } } });
+  });
+
+  it('takes ids from the input and created ids from the result', () => {
+    expect(AuditService.entityIds({ projectId: 4, title: 'Intro' }, { id: 9, projectId: 4, slideId: 2 })).toEqual({
+      id: 9,
+      projectId: 4,
+      slideId: 2,
+    });
+    expect(AuditService.entityIds({ jobId: 3 }, null)).toEqual({ jobId: 3 });
+    expect(AuditService.entityIds(undefined, [{ id: 1 }])).toEqual({});
+  });
+
+  it('links entries to the project they touched', () => {
+    expect(AuditService.projectIdOf('lessons.create', { id: 9, projectId: 4 })).toBe(4);
+    expect(AuditService.projectIdOf('projects.update', { id: 4 })).toBe(4);
+    expect(AuditService.projectIdOf('lessons.update', { id: 9 })).toBeNull();
+  });
+});
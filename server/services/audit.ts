@@ -0,0 +1,191 @@
+/**
+ * Audit Service
+ * Append-only log of API mutations for compliance reviews
+ *
+ * Every tRPC mutation is recorded by the middleware in _core/trpc.ts,
+ * whether it succeeded or not: who made it, in which workspace, the
+ * procedure, a summary of its input, the ids it touched and the outcome.
+ * Entries are never changed or deleted; there is deliberately no API to
+ * do so.
+ */
+
+import { and, desc, eq, gte, like, lt, lte, SQL } from 'drizzle-orm';
+import { Database } from '../db/index.js';
+import { parseJsonObject, toJsonColumn } from '../db/json.js';
+import { auditLog, users } from '../db/schema.js';
+
+export type AuditResult = 'success' | 'error';
+
+export interface AuditRecord {
+  organizationId: number | null;
+  userId: number | null;
+  path: string;
+  input: unknown;
+  output: unknown; // Mutation result, only read for ids
+  error: { code: string; message: string } | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  organizationId: number | null;
+  userId: number | null;
+  userName: string | null;
+  path: string;
+  projectId: number | null;
+  entityIds: Record<string, number>;
+  input: Record<string, unknown> | null; // Summary
+  result: AuditResult;
+  error: string | null;
+  createdAt: Date;
+}
+
+export interface AuditQuery {
+  userId?: number;
+  projectId?: number;
+  path?: string; // Exact path, or a router prefix ending in '.' (e.g. 'scorm.')
+  result?: AuditResult;
+  since?: Date;
+  until?: Date;
+  beforeId?: number; // For paging: entries older than this one
+  limit?: number;
+}
+
+/**
+ * Input fields whose values are never logged
+ */
+const REDACTED_KEYS = /password|token|secret/i;
+
+/**
+ * Limits of the input summary
+ */
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 4;
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Top-level `id` and `...Id` fields of an object
+ */
+function idsOf(value: unknown): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).filter(([key, id]) => (key === 'id' || key.endsWith('Id')) && isPositiveInteger(id))
+  );
+}
+
+export class AuditService {
+  /**
+   * Shorten an input for the log
+   * Secrets are redacted, and long text and lists (transcripts, imported
+   * documents) are cut down to what identifies them.
+   */
+  static summarize(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+      return value.length > MAX_STRING_LENGTH
+        ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)`
+        : value;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (value === null || typeof value !== 'object') {
+      return value ?? null;
+    }
+    if (depth >= MAX_DEPTH) {
+      return Array.isArray(value) ? `[${value.length} items]` : '{…}';
+    }
+    if (Array.isArray(value)) {
+      const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => this.summarize(item, depth + 1));
+      return value.length > MAX_ARRAY_ITEMS ? [...items, `… ${value.length - MAX_ARRAY_ITEMS} more`] : items;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        REDACTED_KEYS.test(key) ? '[redacted]' : this.summarize(item, depth + 1),
+      ])
+    );
+  }
+
+  /**
+   * Ids a mutation touched, from its input and its result
+   * Input ids win; a created row's id comes from the result.
+   */
+  static entityIds(input: unknown, output: unknown): Record<string, number> {
+    return { ...idsOf(output), ...idsOf(input) };
+  }
+
+  /**
+   * Project a mutation touched, if any
+   */
+  static projectIdOf(path: string, entityIds: Record<string, number>): number | null {
+    if (entityIds.projectId) return entityIds.projectId;
+    if (path.startsWith('projects.') && entityIds.id) return entityIds.id;
+    return null;
+  }
+
+  /**
+   * Append an entry for a mutation
+   */
+  static async record(db: Database, record: AuditRecord): Promise<void> {
+    const entityIds = this.entityIds(record.input, record.output);
+
+    await db.insert(auditLog).values({
+      organizationId: record.organizationId,
+      userId: record.userId,
+      path: record.path,
+      projectId: this.projectIdOf(record.path, entityIds),
+      entityIds: toJsonColumn(entityIds),
+      input: record.input === undefined ? null : toJsonColumn(this.summarize(record.input)),
+      result: record.error ? 'error' : 'success',
+      error: record.error ? `${record.error.code}: ${record.error.message}` : null,
+    });
+  }
+
+  /**
+   * Entries of a workspace, newest first
+   */
+  static async list(db: Database, organizationId: number, filters: AuditQuery = {}): Promise<AuditEntry[]> {
+    const conditions: (SQL | undefined)[] = [eq(auditLog.organizationId, organizationId)];
+
+    if (filters.userId !== undefined) conditions.push(eq(auditLog.userId, filters.userId));
+    if (filters.projectId !== undefined) conditions.push(eq(auditLog.projectId, filters.projectId));
+    if (filters.path) {
+      conditions.push(
+        filters.path.endsWith('.') ? like(auditLog.path, `${filters.path}%`) : eq(auditLog.path, filters.path)
+      );
+    }
+    if (filters.result) conditions.push(eq(auditLog.result, filters.result));
+    if (filters.since) conditions.push(gte(auditLog.createdAt, filters.since));
+    if (filters.until) conditions.push(lte(auditLog.createdAt, filters.until));
+    if (filters.beforeId !== undefined) conditions.push(lt(auditLog.id, filters.beforeId));
+
+    const rows = await db
+      .select({ entry: auditLog, userName: users.name })
+      .from(auditLog)
+      .leftJoin(users, eq(users.id, auditLog.userId))
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.id))
+      .limit(Math.min(filters.limit || 100, 500));
+
+    return rows.map(({ entry, userName }) => ({
+      id: entry.id,
+      organizationId: entry.organizationId,
+      userId: entry.userId,
+      userName,
+      path: entry.path,
+      projectId: entry.projectId,
+      entityIds: parseJsonObject<Record<string, number>>(entry.entityIds) ?? {},
+      input: parseJsonObject(entry.input),
+      result: entry.result as AuditResult,
+      error: entry.error,
+      createdAt: entry.createdAt,
+    }));
+  }
+}
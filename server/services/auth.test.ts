@@ -0,0 +1,32 @@
+/**
+ * Auth Service - Test Suite
+ *
+ * Verifies password hashing and reading the session token of a request.
+ */
+
+import { AuthService, SESSION_COOKIE } from './auth.js';
+
+describe('AuthService', () => {
+  it('verifies passwords against their salted hash', async () => {
+    const hash = await AuthService.hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(hash).not.toBe(await AuthService.hashPassword('correct horse'));
+    expect(await AuthService.verifyPassword('correct horse', hash)).toBe(true);
+    expect(await AuthService.verifyPassword('correct horse!', hash)).toBe(false);
+    expect(await AuthService.verifyPassword('correct horse', 'plain')).toBe(false);
+  });
+
+  it('reads the session token from a bearer header or the cookie', () => {
+    expect(AuthService.tokenFromRequest({ headers: { authorization: 'Bearer abc-123' } })).toBe('abc-123');
+    expect(
+      AuthService.tokenFromRequest({ headers: { cookie: `theme=dark; ${SESSION_COOKIE}=xyz%3D` } })
+    ).toBe('xyz=');
+    expect(AuthService.tokenFromRequest({ headers: { authorization: 'Basic abc' } })).toBeNull();
+    expect(AuthService.tokenFromRequest({ headers: {} })).toBeNull();
+  });
+
+  it('normalizes emails', () => {
+    expect(AuthService.normalizeEmail('  Ada@Example.COM ')).toBe('ada@example.com');
+  });
+});
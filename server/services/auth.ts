@@ -0,0 +1,229 @@
+/**
+ * Auth Service
+ * Local accounts, password hashing and sessions
+ *
+ * Passwords are hashed with scrypt and a random salt. Signing in creates a
+ * session whose random token is sent back as an HttpOnly cookie and in the
+ * response body (for API clients, as "Authorization: Bearer <token>");
+ * only a SHA-256 hash of the token is stored. createContext resolves the
+ * token of every request to the signed-in user.
+ *
+ * Every account gets a personal workspace (see OrganizationService).
+ * Projects created before accounts existed belong to no workspace until
+ * an operator hands them to an account with `pnpm projects:adopt`.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+import { and, eq, gt, lte } from 'drizzle-orm';
+import { Database, withTransaction } from '../db/index.js';
+import { sessions, users } from '../db/schema.js';
+import { OrganizationService } from './organizations.js';
+
+/**
+ * Days a session stays valid after signing in
+ */
+export const SESSION_TTL_DAYS = Number(process.env.SESSION_TTL_DAYS || 30);
+
+export const SESSION_COOKIE = 'courseforge_session';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * scrypt cost parameters; stored with each hash so they can be raised later
+ */
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+/**
+ * Account as exposed to clients and procedures (no password hash)
+ */
+export interface AuthUser {
+  id: number;
+  email: string;
+  name: string;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  token: string;
+  expiresAt: Date;
+}
+
+function deriveKey(password: string, salt: Buffer, n: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N: n, r, p, maxmem: 256 * n * r }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toAuthUser(row: { id: number; email: string; name: string }): AuthUser {
+  return { id: row.id, email: row.email, name: row.name };
+}
+
+export class AuthService {
+  /**
+   * Hash a password as "scrypt$N$r$p$salt$key" (salt and key base64)
+   */
+  static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const key = await deriveKey(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P);
+
+    return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), key.toString('base64')].join('$');
+  }
+
+  /**
+   * Check a password against a stored hash (constant time)
+   */
+  static async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, n, r, p, salt, key] = stored.split('$');
+
+    if (scheme !== 'scrypt' || !salt || !key) {
+      return false;
+    }
+
+    const expected = Buffer.from(key, 'base64');
+    const actual = await deriveKey(password, Buffer.from(salt, 'base64'), Number(n), Number(r), Number(p));
+
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  /**
+   * Emails are compared lowercased and trimmed
+   */
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Account registered with an email, or null
+   */
+  static async findByEmail(db: Database, email: string): Promise<AuthUser | null> {
+    const result = await db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(eq(users.email, this.normalizeEmail(email)))
+      .limit(1);
+
+    return result[0] ? toAuthUser(result[0]) : null;
+  }
+
+  /**
+   * Create an account and its personal workspace
+   * @throws Error if the email is already registered
+   */
+  static async register(
+    db: Database,
+    input: { email: string; name: string; password: string }
+  ): Promise<AuthUser> {
+    const email = this.normalizeEmail(input.email);
+    const passwordHash = await this.hashPassword(input.password);
+
+    return await withTransaction(db, async (tx) => {
+      const existing = await tx.select({ id: users.id }).from(users).where(eq(users.email, email)).limit(1);
+
+      if (existing[0]) {
+        throw new Error('An account with this email already exists');
+      }
+
+      const result = await tx.insert(users).values({ email, name: input.name, passwordHash }).returning();
+      const user = result[0];
+      await OrganizationService.create(tx, `${input.name}'s workspace`, user.id);
+
+      return toAuthUser(user);
+    });
+  }
+
+  /**
+   * Check credentials and start a session
+   * @throws Error with the same message for an unknown email and a wrong password
+   */
+  static async login(db: Database, email: string, password: string): Promise<AuthSession> {
+    const result = await db
+      .select()
+      .from(users)
+      .where(eq(users.email, this.normalizeEmail(email)))
+      .limit(1);
+    const user = result[0];
+
+    let valid = false;
+    if (user) {
+      valid = await this.verifyPassword(password, user.passwordHash);
+    } else {
+      // Same work for unknown emails, so response times do not reveal accounts
+      await this.hashPassword(password);
+    }
+
+    if (!user || !valid) {
+      throw new Error('Invalid email or password');
+    }
+
+    return await this.createSession(db, toAuthUser(user));
+  }
+
+  /**
+   * Start a session for a user
+   */
+  static async createSession(db: Database, user: AuthUser, now = new Date()): Promise<AuthSession> {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+    // Drop this user's expired sessions while we are here
+    await db.delete(sessions).where(and(eq(sessions.userId, user.id), lte(sessions.expiresAt, now)));
+    await db.insert(sessions).values({ userId: user.id, tokenHash: hashToken(token), expiresAt });
+
+    return { user, token, expiresAt };
+  }
+
+  /**
+   * User of a session token, or null if it is unknown or expired
+   */
+  static async resolveSession(db: Database, token: string | null, now = new Date()): Promise<AuthUser | null> {
+    if (!token) {
+      return null;
+    }
+
+    const result = await db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(sessions)
+      .innerJoin(users, eq(users.id, sessions.userId))
+      .where(and(eq(sessions.tokenHash, hashToken(token)), gt(sessions.expiresAt, now)))
+      .limit(1);
+
+    return result[0] ? toAuthUser(result[0]) : null;
+  }
+
+  /**
+   * End a session
+   */
+  static async logout(db: Database, token: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.tokenHash, hashToken(token)));
+  }
+
+  /**
+   * Session token of a request: "Authorization: Bearer <token>" or the session cookie
+   */
+  static tokenFromRequest(req: Pick<Request, 'headers'>): string | null {
+    const authorization = req.headers.authorization;
+
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim() || null;
+    }
+
+    for (const part of (req.headers.cookie ?? '').split(';')) {
+      const [name, ...value] = part.trim().split('=');
+      if (name === SESSION_COOKIE) {
+        return decodeURIComponent(value.join('=')) || null;
+      }
+    }
+
+    return null;
+  }
+}
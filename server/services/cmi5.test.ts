@@ -0,0 +1,55 @@
+/**
+ * CMI5PackageGenerator - Test Suite
+ *
+ * Verifies the cmi5.xml course structure and that the generated
+ * runtime is valid JavaScript exposing the player's API functions.
+ */
+
+import { CMI5PackageGenerator, CMI5Runtime } from './cmi5.js';
+import { SCORMConfig, SCORMVersion, SCOPage } from './scorm.js';
+
+const config: SCORMConfig = {
+  version: SCORMVersion.CMI5,
+  courseTitle: 'Fire <Safety>',
+  courseDescription: '',
+  passingScore: 70,
+  masteryScore: 75,
+};
+
+const pages: SCOPage[] = [
+  { identifier: 'LESSON-1', title: 'Lesson 1: Exits', href: 'lesson-1.html', html: '', assessment: false },
+  { identifier: 'ASSESSMENT', title: 'Final Assessment', href: 'assessment.html', html: '', assessment: true },
+];
+
+describe('CMI5PackageGenerator', () => {
+  it('writes one AU per page with move-on criteria', () => {
+    const xml = CMI5PackageGenerator.generateCourseStructure(
+      config,
+      pages,
+      'https://example.com/xapi/courses/7'
+    );
+
+    expect(xml).toContain('<course id="https://example.com/xapi/courses/7">');
+    expect(xml).toContain('<langstring lang="en-US">Fire &lt;Safety&gt;</langstring>');
+    expect(xml).toContain(
+      '<au id="https://example.com/xapi/courses/7/au/lesson-1" moveOn="Completed" launchMethod="AnyWindow">'
+    );
+    expect(xml).toContain('moveOn="CompletedAndPassed" masteryScore="0.75"');
+    expect(xml).toContain('<url>assessment.html</url>');
+  });
+
+  it('generates a runtime with the same functions as the SCORM wrappers', () => {
+    const runtime = CMI5Runtime.generate();
+    const exported = new Function(
+      'window',
+      `${runtime}; return { initializeSCORM, getSuspendData, setSuspendData, setScore, setCompletionStatus, commitData, finishSCORM, reportProgress, recordInteraction };`
+    )({ addEventListener: () => {}, location: { search: '' } });
+
+    for (const fn of Object.values(exported)) {
+      expect(typeof fn).toBe('function');
+    }
+
+    // Without launch parameters the runtime stays inert
+    expect(exported.initializeSCORM()).toBe(false);
+  });
+});
@@ -0,0 +1,489 @@
+/**
+ * cmi5 Package Service
+ * Packages the player as cmi5 assignable units that report to an LRS
+ *
+ * A cmi5 package replaces imsmanifest.xml with cmi5.xml and the SCORM API
+ * wrapper with cmi5.js. The runtime exposes the same functions as the SCORM
+ * wrappers (getSuspendData, setScore, setCompletionStatus, finishSCORM, ...)
+ * so the player template works unchanged, and sends xAPI statements to the
+ * endpoint given in the launch URL instead.
+ */
+
+import AdmZip from 'adm-zip';
+import { PackageAsset } from './scorm-assets.js';
+import { SCORMConfig, SCOPage } from './scorm.js';
+import { QuizDrawRuntime } from './quiz-draw.js';
+import { QuizRulesRuntime } from './quiz-rules.js';
+import { QuizScoringRuntime } from './quiz-scoring.js';
+import { SuspendCodecRuntime } from './suspend-codec.js';
+
+/**
+ * Base IRI for course and AU activity ids
+ */
+export const XAPI_ACTIVITY_BASE = (
+  process.env.XAPI_ACTIVITY_BASE || 'https://courseforge.app/xapi'
+).replace(/\/+$/, '');
+
+/**
+ * cmi5 Runtime Generator
+ * Generates the JavaScript that talks to the LRS
+ */
+export class CMI5Runtime {
+  /**
+   * Generate cmi5.js
+   * Statements sent: initialized, progressed (per slide), answered (per
+   * question), passed/failed, completed and terminated. "launched" is
+   * recorded by the LMS when it launches the AU; an AU must not send it.
+   */
+  static generate(): string {
+    return `${SuspendCodecRuntime.generate()}
+${QuizRulesRuntime.generate()}
+${QuizDrawRuntime.generate()}
+${QuizScoringRuntime.generate()}
+// cmi5 Runtime (xAPI)
+var cmi5 = null;
+var sessionTimer = null;
+
+var CMI5_CATEGORY = "https://w3id.org/xapi/cmi5/context/categories/cmi5";
+var MOVEON_CATEGORY = "https://w3id.org/xapi/cmi5/context/categories/moveon";
+var PROGRESS_EXTENSION = "https://w3id.org/xapi/cmi5/result/extensions/progress";
+var INTERACTION_TYPE = "http://adlnet.gov/expapi/activities/cmi.interaction";
+var SUSPEND_STATE_ID = "suspendData";
+
+var VERBS = {
+  initialized: "http://adlnet.gov/expapi/verbs/initialized",
+  progressed: "http://adlnet.gov/expapi/verbs/progressed",
+  answered: "http://adlnet.gov/expapi/verbs/answered",
+  passed: "http://adlnet.gov/expapi/verbs/passed",
+  failed: "http://adlnet.gov/expapi/verbs/failed",
+  completed: "http://adlnet.gov/expapi/verbs/completed",
+  terminated: "http://adlnet.gov/expapi/verbs/terminated"
+};
+
+function getLaunchParameters() {
+  var params = {};
+  var pairs = window.location.search.substring(1).split("&");
+
+  for (var i = 0; i < pairs.length; i++) {
+    var index = pairs[i].indexOf("=");
+    if (index <= 0) continue;
+
+    var key = decodeURIComponent(pairs[i].substring(0, index));
+    params[key] = decodeURIComponent(pairs[i].substring(index + 1).replace(/\\+/g, " "));
+  }
+
+  return params;
+}
+
+function createUUID() {
+  if (window.crypto && window.crypto.randomUUID) {
+    return window.crypto.randomUUID();
+  }
+
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, function(c) {
+    var r = Math.random() * 16 | 0;
+    return (c === "x" ? r : (r & 0x3 | 0x8)).toString(16);
+  });
+}
+
+function lrsRequest(method, path, body, async) {
+  var xhr = new XMLHttpRequest();
+
+  xhr.open(method, cmi5.endpoint + path, async === true);
+  xhr.setRequestHeader("Authorization", cmi5.auth);
+  xhr.setRequestHeader("X-Experience-API-Version", "1.0.3");
+
+  if (body !== undefined) {
+    xhr.setRequestHeader("Content-Type", "application/json");
+  }
+
+  xhr.send(body === undefined ? null : JSON.stringify(body));
+
+  return xhr;
+}
+
+// During page unload XHRs are cancelled, so use keepalive fetch instead
+function lrsSend(method, path, body) {
+  if (cmi5.unloading && window.fetch) {
+    window.fetch(cmi5.endpoint + path, {
+      method: method,
+      keepalive: true,
+      headers: {
+        "Authorization": cmi5.auth,
+        "X-Experience-API-Version": "1.0.3",
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify(body)
+    });
+    return true;
+  }
+
+  lrsRequest(method, path, body, true);
+  return true;
+}
+
+function stateQuery(stateId) {
+  return "activities/state?activityId=" + encodeURIComponent(cmi5.activityId) +
+    "&agent=" + encodeURIComponent(JSON.stringify(cmi5.actor)) +
+    "&registration=" + encodeURIComponent(cmi5.registration) +
+    "&stateId=" + encodeURIComponent(stateId);
+}
+
+function initializeSCORM() {
+  var params = getLaunchParameters();
+
+  if (!params.endpoint || !params.fetch || !params.actor || !params.registration || !params.activityId) {
+    console.error("cmi5 launch parameters not found");
+    return false;
+  }
+
+  try {
+    // The fetch URL hands out the auth token exactly once
+    var fetchRequest = new XMLHttpRequest();
+    fetchRequest.open("POST", params.fetch, false);
+    fetchRequest.send(null);
+
+    var token = JSON.parse(fetchRequest.responseText)["auth-token"];
+
+    cmi5 = {
+      endpoint: params.endpoint.replace(/\\/?$/, "/"),
+      auth: "Basic " + token,
+      actor: JSON.parse(params.actor),
+      registration: params.registration,
+      activityId: params.activityId,
+      launchData: {},
+      lastProgress: -1,
+      completed: false,
+      terminated: false,
+      unloading: false
+    };
+
+    var launchData = lrsRequest("GET", stateQuery("LMS.LaunchData"));
+
+    if (launchData.status === 200) {
+      cmi5.launchData = JSON.parse(launchData.responseText);
+    }
+  } catch (e) {
+    console.error("cmi5 initialization failed:", e);
+    cmi5 = null;
+    return false;
+  }
+
+  sessionTimer = Date.now();
+  sendStatement("initialized", { cmi5: true });
+
+  return true;
+}
+
+// Browse and Review launches must not change the learner's status
+function isNormalLaunch() {
+  return !cmi5.launchData.launchMode || cmi5.launchData.launchMode === "Normal";
+}
+
+function getDuration() {
+  var seconds = sessionTimer ? (Date.now() - sessionTimer) / 1000 : 0;
+  return "PT" + seconds.toFixed(2) + "S";
+}
+
+function buildStatement(verb, options) {
+  var context = JSON.parse(JSON.stringify(cmi5.launchData.contextTemplate || {}));
+
+  context.registration = cmi5.registration;
+  context.contextActivities = context.contextActivities || {};
+
+  if (options.cmi5) {
+    var category = context.contextActivities.category || [];
+    category.push({ id: CMI5_CATEGORY });
+    if (options.moveOn) category.push({ id: MOVEON_CATEGORY });
+    context.contextActivities.category = category;
+  }
+
+  if (options.object) {
+    context.contextActivities.parent = [{ id: cmi5.activityId, objectType: "Activity" }];
+  }
+
+  var statement = {
+    id: createUUID(),
+    timestamp: new Date().toISOString(),
+    actor: cmi5.actor,
+    verb: { id: VERBS[verb], display: { "en-US": verb } },
+    object: options.object || { id: cmi5.activityId, objectType: "Activity" },
+    context: context
+  };
+
+  if (options.result) {
+    statement.result = options.result;
+  }
+
+  return statement;
+}
+
+function sendStatement(verb, options) {
+  if (!cmi5 || cmi5.terminated) return false;
+
+  var statement = buildStatement(verb, options || {});
+
+  return lrsSend("PUT", "statements?statementId=" + encodeURIComponent(statement.id), statement);
+}
+
+function getSuspendData() {
+  if (!cmi5) return null;
+
+  try {
+    var response = lrsRequest("GET", stateQuery(SUSPEND_STATE_ID));
+
+    if (response.status !== 200 || !response.responseText) return null;
+
+    // The State API keeps the bookmark object as JSON; the codec reads every version of it
+    return SuspendCodec.decode(response.responseText);
+  } catch (e) {
+    console.error("Failed to load suspend data:", e);
+    return null;
+  }
+}
+
+function setSuspendData(data) {
+  if (!cmi5) return false;
+
+  return lrsSend("PUT", stateQuery(SUSPEND_STATE_ID), data);
+}
+
+// score is a QuizScoring result, sent with passed/failed
+function setScore(score) {
+  if (!cmi5) return false;
+
+  cmi5.score = score;
+
+  return true;
+}
+
+function setCompletionStatus(status, score, passingScore) {
+  if (!cmi5 || !isNormalLaunch()) return false;
+
+  var duration = getDuration();
+
+  if (score !== null && score !== undefined) {
+    // The LMS mastery score overrides the one built into the package
+    var mastery = cmi5.launchData.masteryScore;
+    var passed = mastery !== undefined ? score / 100 >= mastery : score >= passingScore;
+
+    sendStatement(passed ? "passed" : "failed", {
+      cmi5: true,
+      moveOn: true,
+      result: {
+        score: cmi5.score
+          ? { scaled: cmi5.score.scaled, raw: cmi5.score.raw, min: cmi5.score.min, max: cmi5.score.max }
+          : { scaled: score / 100, raw: score, min: 0, max: 100 },
+        success: passed,
+        duration: duration
+      }
+    });
+  }
+
+  if (!cmi5.completed) {
+    cmi5.completed = true;
+    sendStatement("completed", {
+      cmi5: true,
+      moveOn: true,
+      result: { completion: true, duration: duration }
+    });
+  }
+
+  return true;
+}
+
+// Called by the player each time a slide is shown
+function reportProgress(slideIndex, slideCount) {
+  if (!cmi5 || slideIndex === cmi5.lastProgress) return false;
+
+  cmi5.lastProgress = slideIndex;
+
+  var result = { extensions: {} };
+  result.extensions[PROGRESS_EXTENSION] = Math.round(((slideIndex + 1) / slideCount) * 100);
+
+  return sendStatement("progressed", { result: result });
+}
+
+// Called by the player for each question when the quiz is submitted
+// timing.latency is the time taken to answer (ms), when known
+function recordInteraction(questionIndex, question, response, correct, timing) {
+  if (!cmi5) return false;
+
+  var interactionType = QuizRules.interactionType(question);
+  var definition = {
+    type: INTERACTION_TYPE,
+    description: { "en-US": question.question },
+    interactionType: interactionType,
+    correctResponsesPattern: QuizRules.correctPatterns(question, "2004")
+  };
+
+  if (interactionType === "choice" || interactionType === "sequencing") {
+    definition.choices = describeOptions(question.options, function(i) {
+      return String.fromCharCode(65 + i);
+    });
+  } else if (interactionType === "matching") {
+    definition.source = describeOptions(question.prompts || [], function(i) {
+      return String(i + 1);
+    });
+    definition.target = describeOptions(question.options, function(i) {
+      return String.fromCharCode(65 + i);
+    });
+  }
+
+  var result = { response: QuizRules.formatResponse(question, response, "2004"), success: correct };
+
+  if (timing && timing.latency >= 0) {
+    result.duration = "PT" + (timing.latency / 1000).toFixed(2) + "S";
+  }
+
+  return sendStatement("answered", {
+    object: {
+      id: cmi5.activityId + "/questions/" + (questionIndex + 1),
+      objectType: "Activity",
+      definition: definition
+    },
+    result: result
+  });
+}
+
+function describeOptions(texts, idOf) {
+  var components = [];
+
+  for (var i = 0; i < texts.length; i++) {
+    components.push({ id: idOf(i), description: { "en-US": texts[i] } });
+  }
+
+  return components;
+}
+
+function getSessionTime() {
+  return getDuration();
+}
+
+function commitData() {
+  // Statements are sent immediately; there is nothing to commit
+  return !!cmi5;
+}
+
+function finishSCORM() {
+  if (!cmi5 || cmi5.terminated) return false;
+
+  sendStatement("terminated", {
+    cmi5: true,
+    result: { duration: getDuration() }
+  });
+
+  cmi5.terminated = true;
+
+  if (cmi5.launchData.returnURL && !cmi5.unloading) {
+    window.location.href = cmi5.launchData.returnURL;
+  }
+
+  return true;
+}
+
+// Initialize on load
+window.addEventListener("load", function() {
+  initializeSCORM();
+});
+
+// Handle page unload
+window.addEventListener("beforeunload", function() {
+  if (!cmi5) return;
+
+  cmi5.unloading = true;
+  finishSCORM();
+});
+`;
+  }
+}
+
+/**
+ * cmi5 Package Generator
+ */
+export class CMI5PackageGenerator {
+  /**
+   * Generate cmi5.xml with one AU per page
+   * AUs with a quiz move on when completed and passed, others when completed.
+   */
+  static generateCourseStructure(config: SCORMConfig, pages: SCOPage[], courseIri: string): string {
+    const description = config.courseDescription || config.courseTitle;
+
+    const aus = pages
+      .map((page) => {
+        const attributes = page.assessment
+          ? `moveOn="CompletedAndPassed" masteryScore="${(config.masteryScore / 100).toFixed(2)}"`
+          : 'moveOn="Completed"';
+
+        return `  <au id="${escapeXml(`${courseIri}/au/${page.identifier.toLowerCase()}`)}" ${attributes} launchMethod="AnyWindow">
+    <title>
+      <langstring lang="en-US">${escapeXml(page.title)}</langstring>
+    </title>
+    <description>
+      <langstring lang="en-US">${escapeXml(page.title)}</langstring>
+    </description>
+    <url>${escapeXml(page.href)}</url>
+  </au>`;
+      })
+      .join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+  <course id="${escapeXml(courseIri)}">
+    <title>
+      <langstring lang="en-US">${escapeXml(config.courseTitle)}</langstring>
+    </title>
+    <description>
+      <langstring lang="en-US">${escapeXml(description)}</langstring>
+    </description>
+  </course>
+${aus}
+</courseStructure>`;
+  }
+
+  /**
+   * Create cmi5 package ZIP
+   */
+  static async createPackage(
+    config: SCORMConfig,
+    pages: SCOPage[],
+    courseIri: string,
+    outputPath: string,
+    assets: PackageAsset[] = []
+  ): Promise<void> {
+    if (pages.length === 0) {
+      throw new Error('A cmi5 package needs at least one AU');
+    }
+
+    const zip = new AdmZip();
+
+    zip.addFile(
+      'cmi5.xml',
+      Buffer.from(this.generateCourseStructure(config, pages, courseIri), 'utf-8')
+    );
+    zip.addFile('cmi5.js', Buffer.from(CMI5Runtime.generate(), 'utf-8'));
+
+    for (const page of pages) {
+      zip.addFile(page.href, Buffer.from(page.html, 'utf-8'));
+    }
+
+    for (const asset of assets) {
+      zip.addFile(asset.href, asset.data);
+    }
+
+    // Write ZIP file
+    zip.writeZip(outputPath);
+  }
+}
+
+/**
+ * Escape XML special characters
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,82 @@
+/**
+ * CourseDocumentService - Test Suite
+ *
+ * Verifies that a course exported with load (courses.getFull) and
+ * imported again comes back as an equal course in a new project.
+ */
+
+import { db } from '../db/index.js';
+import { toJsonColumn } from '../db/json.js';
+import { courseMeta, lessons, projects, quizQuestions, transcripts } from '../db/schema.js';
+import { CourseDocument, CourseDocumentService } from './course-document.js';
+
+async function createCourse(): Promise<number> {
+  const [project] = await db
+    .insert(projects)
+    .values({ title: 'Fire Safety', description: 'Annual refresher', videoUrl: 'https://example.com/fire.mp4' })
+    .returning();
+
+  await db.insert(lessons).values([
+    { projectId: project.id, contentId: 'exits', slideId: 1, timestampStart: '00:00', contentSummary: 'Exits', imagePrompt: 'Exit sign', sortOrder: 0 },
+    { projectId: project.id, contentId: 'extinguish', slideId: 2, timestampStart: '01:10', contentSummary: 'Extinguishers', imagePrompt: 'Red cylinder', imageUrl: '/img/2.png', sortOrder: 1 },
+  ]);
+
+  await db.insert(quizQuestions).values([
+    { projectId: project.id, contentId: 'q-exit', question: 'Which exit?', options: toJsonColumn(['Nearest', 'Main']), correctAnswer: 'A', explanation: 'Closest is safest', sortOrder: 0 },
+    { projectId: project.id, contentId: 'q-pass', question: 'PASS means?', options: toJsonColumn(['Pull, aim, squeeze, sweep', 'Push']), correctAnswer: 'A', explanation: '', sortOrder: 1 },
+  ]);
+
+  await db.insert(courseMeta).values({
+    projectId: project.id,
+    learningObjectives: toJsonColumn(['Find the nearest exit']),
+    tags: toJsonColumn(['safety', 'fire']),
+  });
+
+  await db.insert(transcripts).values({
+    projectId: project.id,
+    rawText: 'Find the exit.',
+    source: 'manual',
+    format: 'text',
+    cues: toJsonColumn([{ start: 0, end: 5, text: 'Find the exit.' }]),
+  });
+
+  return project.id;
+}
+
+/**
+ * The parts of a document that describe the course, without row ids
+ */
+function content(document: CourseDocument) {
+  const { id: _projectId, ...project } = document.project;
+
+  return {
+    project,
+    lessons: document.lessons.map(({ id: _id, ...lesson }) => lesson),
+    quiz: document.quiz.map(({ id: _id, ...question }) => question),
+    meta: document.meta,
+    transcripts: document.transcripts.map(({ id: _id, ...transcript }) => transcript),
+  };
+}
+
+describe('CourseDocumentService', () => {
+  it('should round-trip a course through load and import', async () => {
+    const sourceId = await createCourse();
+    const exported = await CourseDocumentService.load(db, sourceId);
+
+    const importedId = await CourseDocumentService.import(db, exported);
+    const imported = await CourseDocumentService.load(db, importedId);
+
+    expect(importedId).not.toBe(sourceId);
+    expect(exported.lessons).toHaveLength(2);
+    expect(exported.quiz).toHaveLength(2);
+    expect(content(imported)).toEqual(content(exported));
+  });
+
+  it('should use the title override for the new project', async () => {
+    const exported = await CourseDocumentService.load(db, await createCourse());
+
+    const importedId = await CourseDocumentService.import(db, exported, { title: 'Fire Safety (copy)' });
+
+    expect((await CourseDocumentService.load(db, importedId)).project.title).toBe('Fire Safety (copy)');
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Course Document Service
+ * Versioned JSON representation of a full course
+ *
+ * One document holds a project with its lessons, quiz (with its question
+ * banks, scoring sections and randomization settings), metadata and
+ * transcripts. It is what
+ * `courses.getFull` returns, what `courses.import` accepts, and what course
+ * fixtures checked into git contain. Row ids are
+ * included for reference but ignored on import, so documents move freely
+ * between SQLite and MySQL databases.
+ */
+
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { Database, withTransaction } from '../db/index.js';
+import { assignContentIds, CONTENT_ID_PATTERN } from '../db/content-id.js';
+import { parseJsonArray, parseJsonObject, toJsonColumn } from '../db/json.js';
+import { projects, lessons, quizQuestions, courseMeta, transcripts } from '../db/schema.js';
+import { QUESTION_TYPES, QuizMapper, QuizQuestionSettings } from './quiz.js';
+import { CourseMetaNormalizer } from './metadata.js';
+import { DEFAULT_QUIZ_ASSESSMENT, QuizAssessmentService } from './quiz-assessment.js';
+import { TranscriptCue } from './transcripts.js';
+
+export const COURSE_DOCUMENT_FORMAT = 'courseforge.course';
+export const COURSE_DOCUMENT_VERSION = 1;
+
+const cueSchema = z.object({
+  start: z.number(),
+  end: z.number(),
+  text: z.string(),
+});
+
+export const courseDocumentSchema = z.object({
+  format: z.literal(COURSE_DOCUMENT_FORMAT),
+  version: z
+    .number()
+    .int()
+    .refine((version) => version === COURSE_DOCUMENT_VERSION, {
+      message: `Unsupported course document version (expected ${COURSE_DOCUMENT_VERSION})`,
+    }),
+  exportedAt: z.string(),
+  project: z.object({
+    id: z.number().optional(),
+    title: z.string().min(1),
+    description: z.string().nullable(),
+    videoUrl: z.string().nullable(),
+    thumbnailUrl: z.string().nullable(),
+    status: z.string(),
+  }),
+  lessons: z.array(
+    z.object({
+      id: z.number().optional(),
+      contentId: z.string().regex(CONTENT_ID_PATTERN).optional(),
+      slideId: z.number().int(),
+      timestampStart: z.string(),
+      contentSummary: z.string(),
+      imagePrompt: z.string(),
+      imageUrl: z.string().nullable(),
+      visualReasoning: z.string().nullable(),
+    })
+  ),
+  quiz: z.array(
+    z.object({
+      id: z.number().optional(),
+      contentId: z.string().regex(CONTENT_ID_PATTERN).optional(),
+      type: z.enum(QUESTION_TYPES).default('single'),
+      bankId: z.string().regex(CONTENT_ID_PATTERN).nullable().default(null),
+      sectionId: z.string().regex(CONTENT_ID_PATTERN).nullable().default(null),
+      question: z.string(),
+      options: z.array(z.string()),
+      correctAnswer: z.string(),
+      settings: z
+        .object({
+          points: z.number().positive().optional(),
+          penalty: z.number().min(0).optional(),
+          partialCredit: z.boolean().optional(),
+          caseSensitive: z.boolean().optional(),
+          prompts: z.array(z.string()).optional(),
+        })
+        .nullable()
+        .default(null),
+      explanation: z.string(),
+    })
+  ),
+  assessment: z
+    .object({
+      banks: z.array(
+        z.object({
+          contentId: z.string().regex(CONTENT_ID_PATTERN).optional(),
+          title: z.string(),
+          drawCount: z.number().int().min(1).nullable(),
+        })
+      ),
+      sections: z
+        .array(
+          z.object({
+            contentId: z.string().regex(CONTENT_ID_PATTERN).optional(),
+            title: z.string(),
+            weight: z.number().int().min(1),
+          })
+        )
+        .default([]),
+      shuffleQuestions: z.boolean(),
+      shuffleOptions: z.boolean(),
+    })
+    .default(DEFAULT_QUIZ_ASSESSMENT),
+  meta: z
+    .object({
+      learningObjectives: z.array(z.string()),
+      tags: z.array(z.string()),
+    })
+    .nullable(),
+  transcripts: z.array(
+    z.object({
+      id: z.number().optional(),
+      rawText: z.string(),
+      source: z.enum(['manual', 'youtube', 'gemini']),
+      format: z.enum(['vtt', 'srt', 'text']),
+      cues: z.array(cueSchema),
+    })
+  ),
+});
+
+export type CourseDocument = z.infer<typeof courseDocumentSchema>;
+
+export class CourseDocumentService {
+  /**
+   * Load a project and everything attached to it
+   * @throws Error if the project does not exist
+   */
+  static async load(db: Database, projectId: number): Promise<CourseDocument> {
+    const project = await db.select().from(projects).where(eq(projects.id, projectId)).limit(1);
+
+    if (!project[0]) {
+      throw new Error('Project not found');
+    }
+
+    const projectLessons = await db
+      .select()
+      .from(lessons)
+      .where(eq(lessons.projectId, projectId))
+      .orderBy(lessons.sortOrder);
+
+    const quiz = await db
+      .select()
+      .from(quizQuestions)
+      .where(eq(quizQuestions.projectId, projectId))
+      .orderBy(quizQuestions.sortOrder);
+
+    const assessment = await QuizAssessmentService.load(db, projectId);
+
+    const meta = await db
+      .select()
+      .from(courseMeta)
+      .where(eq(courseMeta.projectId, projectId))
+      .limit(1);
+
+    const projectTranscripts = await db
+      .select()
+      .from(transcripts)
+      .where(eq(transcripts.projectId, projectId))
+      .orderBy(transcripts.id);
+
+    return {
+      format: COURSE_DOCUMENT_FORMAT,
+      version: COURSE_DOCUMENT_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        id: project[0].id,
+        title: project[0].title,
+        description: project[0].description,
+        videoUrl: project[0].videoUrl,
+        thumbnailUrl: project[0].thumbnailUrl,
+        status: project[0].status,
+      },
+      lessons: projectLessons.map((lesson) => ({
+        id: lesson.id,
+        contentId: lesson.contentId,
+        slideId: lesson.slideId,
+        timestampStart: lesson.timestampStart,
+        contentSummary: lesson.contentSummary,
+        imagePrompt: lesson.imagePrompt,
+        imageUrl: lesson.imageUrl,
+        visualReasoning: lesson.visualReasoning,
+      })),
+      quiz: quiz.map((q) => ({
+        id: q.id,
+        contentId: q.contentId,
+        type: QuizMapper.typeOf(q.type),
+        question: q.question,
+        options: parseJsonArray(q.options),
+        correctAnswer: q.correctAnswer,
+        settings: parseJsonObject<QuizQuestionSettings>(q.settings),
+        bankId: q.bankId,
+        sectionId: q.sectionId,
+        explanation: q.explanation,
+      })),
+      assessment,
+      meta: meta[0]
+        ? {
+            learningObjectives: parseJsonArray(meta[0].learningObjectives),
+            tags: parseJsonArray(meta[0].tags),
+          }
+        : null,
+      transcripts: projectTranscripts.map((transcript) => ({
+        id: transcript.id,
+        rawText: transcript.rawText,
+        source: transcript.source as 'manual' | 'youtube' | 'gemini',
+        format: transcript.format as 'vtt' | 'srt' | 'text',
+        cues: parseJsonArray<TranscriptCue>(transcript.cues),
+      })),
+    };
+  }
+
+  /**
+   * Recreate a course from a document as a new draft project
+   * Runs in a single transaction: either everything is created or nothing.
+   * Questions are checked and normalized like those saved from the quiz
+   * editor, and metadata like that saved with meta.upsert.
+   * The new project belongs to overrides.organizationId.
+   * @returns Id of the new project
+   * @throws Error if a question is invalid
+   */
+  static async import(
+    db: Database,
+    document: CourseDocument,
+    overrides: { title?: string; organizationId?: number; ownerId?: number } = {}
+  ): Promise<number> {
+    return await withTransaction(db, async (tx) => {
+      const created = await tx
+        .insert(projects)
+        .values({
+          organizationId: overrides.organizationId,
+          ownerId: overrides.ownerId,
+          title: overrides.title ?? document.project.title,
+          description: document.project.description,
+          videoUrl: document.project.videoUrl,
+          thumbnailUrl: document.project.thumbnailUrl,
+          status: 'draft',
+        })
+        .returning();
+
+      const projectId = created[0].id;
+      await this.insertContent(tx, projectId, document);
+
+      return projectId;
+    });
+  }
+
+  /**
+   * Replace a project's details, lessons, quiz and metadata with those of
+   * a document; transcripts are kept and the status is left alone
+   * Lessons and questions keep the document's content ids. Does not open
+   * a transaction; callers pass one in.
+   */
+  static async replaceContent(tx: Database, projectId: number, document: CourseDocument): Promise<void> {
+    await tx
+      .update(projects)
+      .set({
+        title: document.project.title,
+        description: document.project.description,
+        videoUrl: document.project.videoUrl,
+        thumbnailUrl: document.project.thumbnailUrl,
+        updatedAt: new Date(),
+      })
+      .where(eq(projects.id, projectId));
+
+    await tx.delete(lessons).where(eq(lessons.projectId, projectId));
+    await tx.delete(quizQuestions).where(eq(quizQuestions.projectId, projectId));
+    await tx.delete(courseMeta).where(eq(courseMeta.projectId, projectId));
+
+    await this.insertContent(tx, projectId, { ...document, transcripts: [] });
+  }
+
+  /**
+   * Insert the lessons, quiz, assessment, metadata and transcripts of a
+   * document into an empty project
+   */
+  private static async insertContent(tx: Database, projectId: number, document: CourseDocument): Promise<void> {
+    if (document.lessons.length > 0) {
+      const contentIds = assignContentIds(document.lessons);
+
+      await tx.insert(lessons).values(
+        document.lessons.map((lesson, index) => ({
+          projectId,
+          contentId: contentIds[index],
+          slideId: lesson.slideId,
+          timestampStart: lesson.timestampStart,
+          contentSummary: lesson.contentSummary,
+          imagePrompt: lesson.imagePrompt,
+          imageUrl: lesson.imageUrl,
+          visualReasoning: lesson.visualReasoning,
+          sortOrder: index,
+        }))
+      );
+    }
+
+    if (document.quiz.length > 0) {
+      const contentIds = assignContentIds(document.quiz);
+      const questions = document.quiz.map((q, index) => QuizMapper.normalizeStored(q, index));
+
+      await tx.insert(quizQuestions).values(
+        questions.map((q, index) => ({
+          ...q,
+          projectId,
+          contentId: contentIds[index],
+          options: toJsonColumn(q.options),
+          settings: toJsonColumn(q.settings),
+        }))
+      );
+    }
+
+    // After the quiz, so questions of banks and sections missing from the document are released
+    await QuizAssessmentService.write(tx, projectId, document.assessment);
+
+    if (document.meta) {
+      await tx.insert(courseMeta).values({
+        projectId,
+        learningObjectives: toJsonColumn(CourseMetaNormalizer.normalizeObjectives(document.meta.learningObjectives)),
+        tags: toJsonColumn(CourseMetaNormalizer.normalizeTags(document.meta.tags)),
+      });
+    }
+
+    if (document.transcripts.length > 0) {
+      await tx.insert(transcripts).values(
+        document.transcripts.map((transcript) => ({
+          projectId,
+          rawText: transcript.rawText,
+          source: transcript.source,
+          format: transcript.format,
+          cues: toJsonColumn(transcript.cues),
+        }))
+      );
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * ExportJobRunner - Test Suite
+ *
+ * Verifies the retention policy, the cleanup of files no job references
+ * and the recovery of jobs interrupted by a restart. Packages are plain
+ * files in the temporary EXPORTS_DIR set up by server/test-setup.ts.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { eq } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { exportJobs, projects } from '../db/schema.js';
+import { EXPORT_MAX_PER_PROJECT, EXPORT_RETENTION_DAYS, ExportJob, ExportJobRunner } from './export-jobs.js';
+import { EXPORTS_DIR, PREVIEW_DIR } from './scorm-export.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-03-01T12:00:00Z');
+
+async function createProject(): Promise<number> {
+  const [project] = await db.insert(projects).values({ title: 'Retention' }).returning();
+  return project.id;
+}
+
+/**
+ * A job row plus, for completed jobs, its package file
+ */
+async function createJob(projectId: number, status: ExportJob['status'], createdAt: Date) {
+  const filename = `package_${projectId}_${createdAt.getTime()}.zip`;
+  const completed = status === 'completed';
+
+  const [job] = await db
+    .insert(exportJobs)
+    .values({
+      projectId,
+      status,
+      version: '1.2',
+      options: JSON.stringify({ version: '1.2', passingScore: 80, masteryScore: 80 }),
+      filename: completed ? filename : null,
+      createdAt,
+    })
+    .returning();
+
+  if (completed) {
+    await fs.mkdir(EXPORTS_DIR, { recursive: true });
+    await fs.writeFile(path.join(EXPORTS_DIR, filename), 'zip');
+  }
+
+  return job;
+}
+
+async function statusOf(jobId: number) {
+  return (await ExportJobRunner.get(db, jobId))?.status;
+}
+
+async function exists(filePath: string) {
+  return fs.access(filePath).then(
+    () => true,
+    () => false
+  );
+}
+
+async function writeOrphan(name: string, ageMs: number) {
+  const filePath = path.join(EXPORTS_DIR, name);
+  const modified = new Date(now.getTime() - ageMs);
+
+  await fs.mkdir(EXPORTS_DIR, { recursive: true });
+  await fs.writeFile(filePath, 'zip');
+  await fs.utimes(filePath, modified, modified);
+
+  return filePath;
+}
+
+describe('ExportJobRunner', () => {
+  beforeEach(async () => {
+    await db.delete(exportJobs);
+    await fs.rm(EXPORTS_DIR, { recursive: true, force: true });
+  });
+
+  describe('applyRetention', () => {
+    it('should keep only the newest packages of each project', async () => {
+      const projectId = await createProject();
+      const jobs = [];
+
+      for (let index = 0; index < EXPORT_MAX_PER_PROJECT + 2; index++) {
+        jobs.push(await createJob(projectId, 'completed', new Date(now.getTime() - (index + 1) * 60_000)));
+      }
+
+      expect(await ExportJobRunner.applyRetention(db, now)).toBe(2);
+
+      const expired = jobs.slice(EXPORT_MAX_PER_PROJECT);
+      for (const job of expired) {
+        expect(await statusOf(job.id)).toBe('expired');
+        expect(await exists(path.join(EXPORTS_DIR, job.filename!))).toBe(false);
+      }
+
+      for (const job of jobs.slice(0, EXPORT_MAX_PER_PROJECT)) {
+        expect(await statusOf(job.id)).toBe('completed');
+        expect(await exists(ExportJobRunner.filePath(job)!)).toBe(true);
+      }
+    });
+
+    it('should count the limit per project', async () => {
+      const first = await createProject();
+      const second = await createProject();
+
+      for (let index = 0; index < EXPORT_MAX_PER_PROJECT; index++) {
+        await createJob(first, 'completed', new Date(now.getTime() - (index + 1) * 60_000));
+      }
+      const other = await createJob(second, 'completed', new Date(now.getTime() - DAY_MS));
+
+      expect(await ExportJobRunner.applyRetention(db, now)).toBe(0);
+      expect(await statusOf(other.id)).toBe('completed');
+    });
+
+    it('should expire packages older than the retention period', async () => {
+      const projectId = await createProject();
+      const old = await createJob(projectId, 'completed', new Date(now.getTime() - (EXPORT_RETENTION_DAYS + 1) * DAY_MS));
+      const recent = await createJob(projectId, 'completed', new Date(now.getTime() - DAY_MS));
+
+      expect(await ExportJobRunner.applyRetention(db, now)).toBe(1);
+      expect(await statusOf(old.id)).toBe('expired');
+      expect(await statusOf(recent.id)).toBe('completed');
+    });
+
+    it('should remove unreferenced packages once they are past the grace period', async () => {
+      const projectId = await createProject();
+      const job = await createJob(projectId, 'completed', new Date(now.getTime() - DAY_MS));
+      const stale = await writeOrphan('stale.zip', 2 * 60 * 60 * 1000);
+      const fresh = await writeOrphan('fresh.zip', 60 * 1000);
+      const other = await writeOrphan('notes.txt', 2 * 60 * 60 * 1000);
+
+      expect(await ExportJobRunner.applyRetention(db, now)).toBe(1);
+      expect(await exists(stale)).toBe(false);
+      expect(await exists(fresh)).toBe(true);
+      expect(await exists(other)).toBe(true);
+      expect(await exists(ExportJobRunner.filePath(job)!)).toBe(true);
+    });
+
+    it('should remove stale previews of jobs that are no longer completed', async () => {
+      const projectId = await createProject();
+      const job = await createJob(projectId, 'completed', new Date(now.getTime() - DAY_MS));
+      const modified = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+
+      for (const name of [String(job.id), '9999', '9999.tmp']) {
+        await fs.mkdir(path.join(PREVIEW_DIR, name), { recursive: true });
+        await fs.utimes(path.join(PREVIEW_DIR, name), modified, modified);
+      }
+
+      expect(await ExportJobRunner.applyRetention(db, now)).toBe(2);
+      expect(await exists(path.join(PREVIEW_DIR, String(job.id)))).toBe(true);
+      expect(await exists(path.join(PREVIEW_DIR, '9999'))).toBe(false);
+      expect(await exists(path.join(PREVIEW_DIR, '9999.tmp'))).toBe(false);
+    });
+
+    it('should do nothing when the exports directory does not exist', async () => {
+      expect(await ExportJobRunner.applyRetention(db, now)).toBe(0);
+    });
+  });
+
+  describe('recover', () => {
+    it('should fail jobs that were queued or running', async () => {
+      const projectId = await createProject();
+      const queued = await createJob(projectId, 'queued', now);
+      const running = await createJob(projectId, 'running', now);
+      const completed = await createJob(projectId, 'completed', now);
+
+      await ExportJobRunner.recover(db);
+
+      for (const job of [queued, running]) {
+        const [row] = await db.select().from(exportJobs).where(eq(exportJobs.id, job.id));
+        expect(row.status).toBe('failed');
+        expect(row.error).toBe('Server restarted before the export finished');
+        expect(row.completedAt).not.toBeNull();
+      }
+      expect(await statusOf(completed.id)).toBe('completed');
+    });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Export Job Runner
+ * Runs SCORM package builds in the background with persisted progress
+ *
+ * Jobs run one at a time in this process. Each job records its status and
+ * percentage in the export_jobs table so clients can poll it, and finished
+ * packages are served by the download route in server/index.ts.
+ *
+ * The course is snapshotted when the job is created and the package is
+ * built from that snapshot, so later edits never leak into a queued export
+ * and every package can be traced back to its content.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { Database } from '../db/index.js';
+import { toJsonColumn } from '../db/json.js';
+import { exportJobs } from '../db/schema.js';
+import { SnapshotService } from './snapshots.js';
+import {
+  EXPORTS_DIR,
+  PREVIEW_DIR,
+  ScormExportOptions,
+  ScormExportResult,
+  ScormExportService,
+} from './scorm-export.js';
+
+/**
+ * Retention policy for the exports/ directory
+ * - Packages older than EXPORT_RETENTION_DAYS are deleted
+ * - Only the newest EXPORT_MAX_PER_PROJECT packages per project are kept
+ */
+export const EXPORT_RETENTION_DAYS = Number(process.env.EXPORT_RETENTION_DAYS || 30);
+export const EXPORT_MAX_PER_PROJECT = Number(process.env.EXPORT_MAX_PER_PROJECT || 10);
+
+/**
+ * Files in exports/ that no job references are only removed after this
+ * long, so a package that is still being written is never touched
+ */
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+export type ExportJob = typeof exportJobs.$inferSelect;
+
+export class ExportJobRunner {
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a queued job and start it in the background
+   * @returns The job row plus a promise that resolves when the job finishes
+   *          (with the build result, or null if it failed)
+   */
+  static async enqueue(
+    db: Database,
+    projectId: number,
+    options: ScormExportOptions,
+    userId: number | null = null
+  ): Promise<{ job: ExportJob; finished: Promise<ScormExportResult | null> }> {
+    const snapshot = await SnapshotService.create(db, projectId, { reason: 'export', userId });
+
+    const result = await db
+      .insert(exportJobs)
+      .values({
+        projectId,
+        snapshotId: snapshot.id,
+        status: 'queued',
+        progress: 0,
+        version: options.version,
+        options: toJsonColumn(options),
+      })
+      .returning();
+
+    const job = result[0];
+    const finished = this.schedule(() => this.run(db, job.id, options));
+
+    return { job, finished };
+  }
+
+  /**
+   * Chain work onto the serial queue
+   */
+  private static schedule<T>(work: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(work, work);
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  /**
+   * Build the package for a job, recording progress and outcome
+   * Never throws; failures are stored on the job. The project status is
+   * left alone (see ProjectWorkflow for publishing).
+   */
+  private static async run(
+    db: Database,
+    jobId: number,
+    options: ScormExportOptions
+  ): Promise<ScormExportResult | null> {
+    const job = await this.get(db, jobId);
+
+    if (!job || job.status !== 'queued') {
+      return null;
+    }
+
+    let result: ScormExportResult | null = null;
+
+    await db.update(exportJobs).set({ status: 'running' }).where(eq(exportJobs.id, jobId));
+
+    try {
+      if (!job.snapshotId) {
+        throw new Error('Export job has no snapshot to build from');
+      }
+
+      const snapshot = await SnapshotService.get(db, job.projectId, job.snapshotId);
+
+      result = await ScormExportService.build(job.projectId, snapshot.document, options, async (progress) => {
+        await db.update(exportJobs).set({ progress }).where(eq(exportJobs.id, jobId));
+      });
+
+      await db
+        .update(exportJobs)
+        .set({
+          status: 'completed',
+          progress: 100,
+          filename: result.filename,
+          fileSize: result.fileSize,
+          completedAt: new Date(),
+        })
+        .where(eq(exportJobs.id, jobId));
+    } catch (error) {
+      await db
+        .update(exportJobs)
+        .set({
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          completedAt: new Date(),
+        })
+        .where(eq(exportJobs.id, jobId));
+    }
+
+    try {
+      await this.applyRetention(db);
+    } catch (error) {
+      console.error('Export retention cleanup failed:', error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get a job by id
+   */
+  static async get(db: Database, jobId: number): Promise<ExportJob | null> {
+    const result = await db.select().from(exportJobs).where(eq(exportJobs.id, jobId)).limit(1);
+    return result[0] || null;
+  }
+
+  /**
+   * Past exports of a project, newest first
+   */
+  static async listForProject(db: Database, projectId: number): Promise<ExportJob[]> {
+    return await db
+      .select()
+      .from(exportJobs)
+      .where(eq(exportJobs.projectId, projectId))
+      .orderBy(desc(exportJobs.createdAt), desc(exportJobs.id));
+  }
+
+  /**
+   * Absolute path of a finished package, or null if the job has none
+   */
+  static filePath(job: ExportJob): string | null {
+    if (job.status !== 'completed' || !job.filename) {
+      return null;
+    }
+    return path.join(EXPORTS_DIR, path.basename(job.filename));
+  }
+
+  /**
+   * Client-facing view of a job (no filesystem paths)
+   */
+  static toStatus(job: ExportJob) {
+    return {
+      id: job.id,
+      projectId: job.projectId,
+      snapshotId: job.snapshotId,
+      status: job.status,
+      progress: job.progress,
+      version: job.version,
+      filename: job.filename,
+      fileSize: job.fileSize,
+      error: job.error,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      downloadUrl: job.status === 'completed' ? `/exports/${job.id}/download` : null,
+    };
+  }
+
+  /**
+   * Fail jobs that were queued or running when the server stopped
+   * Call once on startup, before new jobs are accepted.
+   */
+  static async recover(db: Database): Promise<void> {
+    await db
+      .update(exportJobs)
+      .set({
+        status: 'failed',
+        error: 'Server restarted before the export finished',
+        completedAt: new Date(),
+      })
+      .where(inArray(exportJobs.status, ['queued', 'running']));
+  }
+
+  /**
+   * Apply the retention policy to finished packages
+   * Expired jobs keep their history row but lose their file and preview.
+   * @returns Number of packages removed
+   */
+  static async applyRetention(db: Database, now = new Date()): Promise<number> {
+    const cutoff = now.getTime() - EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+    const completed = await db
+      .select()
+      .from(exportJobs)
+      .where(eq(exportJobs.status, 'completed'))
+      .orderBy(desc(exportJobs.createdAt), desc(exportJobs.id));
+
+    const keptPerProject = new Map<number, number>();
+    const expired: ExportJob[] = [];
+
+    for (const job of completed) {
+      const kept = keptPerProject.get(job.projectId) ?? 0;
+
+      if (kept >= EXPORT_MAX_PER_PROJECT || job.createdAt.getTime() < cutoff) {
+        expired.push(job);
+      } else {
+        keptPerProject.set(job.projectId, kept + 1);
+      }
+    }
+
+    for (const job of expired) {
+      const filePath = this.filePath(job);
+      if (filePath) {
+        await fs.rm(filePath, { force: true });
+      }
+      await fs.rm(path.join(PREVIEW_DIR, String(job.id)), { recursive: true, force: true });
+
+      await db
+        .update(exportJobs)
+        .set({ status: 'expired' })
+        .where(and(eq(exportJobs.id, job.id), eq(exportJobs.status, 'completed')));
+    }
+
+    return expired.length + (await this.removeOrphans(db, now));
+  }
+
+  /**
+   * Delete files in exports/ that no live job points at, and unpacked
+   * previews (including half-extracted ones) of jobs that are no longer
+   * completed
+   */
+  private static async removeOrphans(db: Database, now: Date): Promise<number> {
+    let entries: string[];
+
+    try {
+      entries = await fs.readdir(EXPORTS_DIR);
+    } catch {
+      return 0;
+    }
+
+    const live = await db
+      .select({ id: exportJobs.id, status: exportJobs.status, filename: exportJobs.filename })
+      .from(exportJobs)
+      .where(inArray(exportJobs.status, ['queued', 'running', 'completed']));
+
+    const referenced = new Set(live.map((job) => job.filename));
+    const previewed = new Set(live.filter((job) => job.status === 'completed').map((job) => String(job.id)));
+    let removed = 0;
+
+    for (const entry of entries) {
+      if (referenced.has(entry) || !entry.endsWith('.zip')) {
+        continue;
+      }
+
+      const filePath = path.join(EXPORTS_DIR, entry);
+      const stats = await fs.stat(filePath);
+
+      if (now.getTime() - stats.mtimeMs > ORPHAN_GRACE_MS) {
+        await fs.rm(filePath, { force: true });
+        removed++;
+      }
+    }
+
+    return removed + (await this.removeStalePreviews(previewed, now));
+  }
+
+  private static async removeStalePreviews(previewed: Set<string>, now: Date): Promise<number> {
+    let entries: string[];
+
+    try {
+      entries = await fs.readdir(PREVIEW_DIR);
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+
+    for (const entry of entries) {
+      if (previewed.has(entry)) {
+        continue;
+      }
+
+      const directory = path.join(PREVIEW_DIR, entry);
+      const stats = await fs.stat(directory);
+
+      if (now.getTime() - stats.mtimeMs > ORPHAN_GRACE_MS) {
+        await fs.rm(directory, { recursive: true, force: true });
+        removed++;
+      }
+    }
+
+    return removed;
+  }
+}
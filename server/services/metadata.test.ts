@@ -0,0 +1,62 @@
+/**
+ * CourseMetaNormalizer - Test Suite
+ *
+ * Verifies tags are stored in one canonical form so list filters and
+ * tag counts match regardless of how authors typed them.
+ */
+
+import { CourseMetaNormalizer, MAX_TAG_LENGTH } from './metadata.js';
+
+describe('CourseMetaNormalizer', () => {
+  describe('normalizeTags', () => {
+    it('should trim and lowercase tags', () => {
+      expect(CourseMetaNormalizer.normalizeTags(['  Safety ', 'FIRE Drill'])).toEqual([
+        'safety',
+        'fire drill',
+      ]);
+    });
+
+    it('should strip a leading hash and collapse inner whitespace', () => {
+      expect(CourseMetaNormalizer.normalizeTags(['#onboarding', ' ## first   aid '])).toEqual([
+        'onboarding',
+        'first aid',
+      ]);
+    });
+
+    it('should drop duplicates after normalization, keeping the first', () => {
+      expect(CourseMetaNormalizer.normalizeTags(['Safety', 'compliance', '#SAFETY', 'safety '])).toEqual([
+        'safety',
+        'compliance',
+      ]);
+    });
+
+    it('should drop empty tags', () => {
+      expect(CourseMetaNormalizer.normalizeTags(['', '   ', '#', 'safety'])).toEqual(['safety']);
+    });
+
+    it('should cut tags to the length cap', () => {
+      const [tag] = CourseMetaNormalizer.normalizeTags(['a'.repeat(MAX_TAG_LENGTH + 20)]);
+
+      expect(tag).toHaveLength(MAX_TAG_LENGTH);
+    });
+
+    it('should not leave trailing whitespace when the cut falls on a space', () => {
+      const tag = `${'a'.repeat(MAX_TAG_LENGTH - 1)} tail`;
+
+      expect(CourseMetaNormalizer.normalizeTag(tag)).toBe('a'.repeat(MAX_TAG_LENGTH - 1));
+    });
+  });
+
+  describe('normalizeObjectives', () => {
+    it('should keep casing but drop blanks and case-insensitive duplicates', () => {
+      expect(
+        CourseMetaNormalizer.normalizeObjectives([
+          ' Identify  fire exits ',
+          '',
+          'identify fire exits',
+          'Use an extinguisher',
+        ])
+      ).toEqual(['Identify fire exits', 'Use an extinguisher']);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Course Metadata Service
+ * Normalization rules for learning objectives and tags
+ */
+
+/**
+ * Longest tag kept after normalization
+ */
+export const MAX_TAG_LENGTH = 50;
+
+export class CourseMetaNormalizer {
+  /**
+   * Normalize tags for storage and lookup
+   * - Case folded and Unicode-normalized (NFKC)
+   * - Leading '#' and surrounding whitespace removed
+   * - Inner whitespace collapsed to a single space
+   * - Cut to MAX_TAG_LENGTH characters
+   * - Empty entries and duplicates dropped (first occurrence wins)
+   */
+  static normalizeTags(tags: string[]): string[] {
+    const result: string[] = [];
+
+    for (const tag of tags) {
+      const normalized = this.normalizeTag(tag);
+
+      if (normalized !== '' && !result.includes(normalized)) {
+        result.push(normalized);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Normalize a single tag (also used for list filters)
+   */
+  static normalizeTag(tag: string): string {
+    return tag
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/^\s*#+/, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_TAG_LENGTH)
+      .trim();
+  }
+
+  /**
+   * Normalize learning objectives
+   * Keeps the author's casing; drops blanks and case-insensitive duplicates.
+   */
+  static normalizeObjectives(objectives: string[]): string[] {
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    for (const objective of objectives) {
+      const trimmed = objective.replace(/\s+/g, ' ').trim();
+      const key = trimmed.toLowerCase();
+
+      if (trimmed !== '' && !seen.has(key)) {
+        seen.add(key);
+        result.push(trimmed);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Organization Service - Test Suite
+ *
+ * Verifies what each role may do and how the requested workspace is read.
+ */
+
+import { OrganizationService, ROLES } from './organizations.js';
+
+describe('OrganizationService', () => {
+  it('grants permissions by role', () => {
+    const allowed = (permission: Parameters<typeof OrganizationService.can>[1]) =>
+      ROLES.filter((role) => OrganizationService.can(role, permission));
+
+    expect(allowed('view')).toEqual(['admin', 'author', 'reviewer', 'viewer']);
+    expect(allowed('edit')).toEqual(['admin', 'author']);
+    expect(allowed('review')).toEqual(['admin', 'reviewer']);
+    expect(allowed('export')).toEqual(['admin']);
+    expect(allowed('publish')).toEqual(['admin']);
+    expect(allowed('manage')).toEqual(['admin']);
+  });
+
+  it('reads the workspace from the X-Organization-Id header', () => {
+    expect(OrganizationService.workspaceIdFromRequest({ headers: { 'x-organization-id': '12' } })).toBe(12);
+    expect(OrganizationService.workspaceIdFromRequest({ headers: { 'x-organization-id': 'abc' } })).toBeNull();
+    expect(OrganizationService.workspaceIdFromRequest({ headers: { 'x-organization-id': '-3' } })).toBeNull();
+    expect(OrganizationService.workspaceIdFromRequest({ headers: {} })).toBeNull();
+  });
+});
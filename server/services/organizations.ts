@@ -0,0 +1,236 @@
+/**
+ * Organization Service
+ * Shared workspaces, memberships and roles
+ *
+ * Every project belongs to an organization and every user is a member of
+ * at least one (a personal workspace is created on registration). What a
+ * member may do follows from their role:
+ * - admin: everything, including members, exports and publishing
+ * - author: view and edit content
+ * - reviewer: view, comment and approve
+ * - viewer: view and preview only
+ *
+ * Requests act in one workspace at a time: the one named by the
+ * X-Organization-Id header, or the user's oldest membership.
+ */
+
+import type { Request } from 'express';
+import { and, asc, count, eq, isNull } from 'drizzle-orm';
+import { Database } from '../db/index.js';
+import { memberships, organizations, projects, users } from '../db/schema.js';
+import { AuthService } from './auth.js';
+
+export const ROLES = ['admin', 'author', 'reviewer', 'viewer'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type Permission = 'view' | 'edit' | 'review' | 'export' | 'publish' | 'manage';
+
+/**
+ * Roles allowed each permission
+ */
+export const ROLE_PERMISSIONS: Record<Permission, readonly Role[]> = {
+  view: ROLES,
+  edit: ['admin', 'author'],
+  review: ['admin', 'reviewer'],
+  export: ['admin'],
+  publish: ['admin'],
+  manage: ['admin'],
+};
+
+export const WORKSPACE_HEADER = 'x-organization-id';
+
+/**
+ * An organization as seen by one of its members
+ */
+export interface Workspace {
+  id: number;
+  name: string;
+  role: Role;
+}
+
+export interface Member {
+  userId: number;
+  email: string;
+  name: string;
+  role: Role;
+}
+
+export class OrganizationService {
+  /**
+   * Whether a role grants a permission
+   */
+  static can(role: Role, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[permission].includes(role);
+  }
+
+  /**
+   * Create an organization with the user as its admin
+   * Does not open a transaction; callers that need one pass it in.
+   */
+  static async create(db: Database, name: string, userId: number): Promise<Workspace> {
+    const result = await db.insert(organizations).values({ name }).returning();
+    const organization = result[0];
+
+    await db.insert(memberships).values({ organizationId: organization.id, userId, role: 'admin' });
+
+    return { id: organization.id, name: organization.name, role: 'admin' };
+  }
+
+  /**
+   * Organizations a user belongs to, oldest membership first
+   */
+  static async listForUser(db: Database, userId: number): Promise<Workspace[]> {
+    const rows = await db
+      .select({ id: organizations.id, name: organizations.name, role: memberships.role })
+      .from(memberships)
+      .innerJoin(organizations, eq(organizations.id, memberships.organizationId))
+      .where(eq(memberships.userId, userId))
+      .orderBy(asc(memberships.id));
+
+    return rows.map((row) => ({ ...row, role: row.role as Role }));
+  }
+
+  /**
+   * Workspace a request acts in
+   * @returns null if the user is not a member of the requested organization
+   *          (or of any organization when none is requested)
+   */
+  static async resolve(db: Database, userId: number, organizationId: number | null): Promise<Workspace | null> {
+    const workspaces = await this.listForUser(db, userId);
+
+    if (organizationId === null) {
+      return workspaces[0] ?? null;
+    }
+
+    return workspaces.find((workspace) => workspace.id === organizationId) ?? null;
+  }
+
+  /**
+   * A user's role in an organization, or null if they are not a member
+   */
+  static async roleOf(db: Database, organizationId: number, userId: number): Promise<Role | null> {
+    const result = await db
+      .select({ role: memberships.role })
+      .from(memberships)
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.userId, userId)))
+      .limit(1);
+
+    return (result[0]?.role as Role | undefined) ?? null;
+  }
+
+  /**
+   * Members of an organization, in the order they joined
+   */
+  static async members(db: Database, organizationId: number): Promise<Member[]> {
+    const rows = await db
+      .select({ userId: users.id, email: users.email, name: users.name, role: memberships.role })
+      .from(memberships)
+      .innerJoin(users, eq(users.id, memberships.userId))
+      .where(eq(memberships.organizationId, organizationId))
+      .orderBy(asc(memberships.id));
+
+    return rows.map((row) => ({ ...row, role: row.role as Role }));
+  }
+
+  /**
+   * Add a registered user to an organization
+   * @throws Error if there is no account with the email or it is already a member
+   */
+  static async addMember(db: Database, organizationId: number, email: string, role: Role): Promise<Member> {
+    const result = await db
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(eq(users.email, AuthService.normalizeEmail(email)))
+      .limit(1);
+    const user = result[0];
+
+    if (!user) {
+      throw new Error('No account with this email');
+    }
+    if (await this.roleOf(db, organizationId, user.id)) {
+      throw new Error('User is already a member');
+    }
+
+    await db.insert(memberships).values({ organizationId, userId: user.id, role });
+
+    return { userId: user.id, email: user.email, name: user.name, role };
+  }
+
+  /**
+   * Change a member's role
+   * @throws Error if the user is not a member or is the last admin
+   */
+  static async setRole(db: Database, organizationId: number, userId: number, role: Role): Promise<void> {
+    const current = await this.roleOf(db, organizationId, userId);
+
+    if (!current) {
+      throw new Error('Member not found');
+    }
+    if (current === 'admin' && role !== 'admin') {
+      await this.requireAnotherAdmin(db, organizationId);
+    }
+
+    await db
+      .update(memberships)
+      .set({ role })
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.userId, userId)));
+  }
+
+  /**
+   * Remove a member
+   * @throws Error if the user is not a member or is the last admin
+   */
+  static async removeMember(db: Database, organizationId: number, userId: number): Promise<void> {
+    const current = await this.roleOf(db, organizationId, userId);
+
+    if (!current) {
+      throw new Error('Member not found');
+    }
+    if (current === 'admin') {
+      await this.requireAnotherAdmin(db, organizationId);
+    }
+
+    await db
+      .delete(memberships)
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.userId, userId)));
+  }
+
+  /**
+   * Move the projects that belong to no workspace (created before accounts
+   * existed) into an organization, owned by a user
+   * Only run by the projects:adopt script, never on registration.
+   * @returns Number of projects moved
+   */
+  static async adoptUnassignedProjects(db: Database, organizationId: number, ownerId: number): Promise<number> {
+    const adopted = await db
+      .update(projects)
+      .set({ organizationId, ownerId })
+      .where(isNull(projects.organizationId))
+      .returning({ id: projects.id });
+
+    return adopted.length;
+  }
+
+  /**
+   * Organization id requested with the X-Organization-Id header, or null
+   */
+  static workspaceIdFromRequest(req: Pick<Request, 'headers'>): number | null {
+    const value = Number(req.headers[WORKSPACE_HEADER]);
+    return Number.isInteger(value) && value > 0 ? value : null;
+  }
+
+  /**
+   * An organization must always keep an admin
+   */
+  private static async requireAnotherAdmin(db: Database, organizationId: number): Promise<void> {
+    const [{ value: admins }] = await db
+      .select({ value: count() })
+      .from(memberships)
+      .where(and(eq(memberships.organizationId, organizationId), eq(memberships.role, 'admin')));
+
+    if (admins <= 1) {
+      throw new Error('An organization needs at least one admin');
+    }
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Quiz Assessment Service
+ * Question banks, scoring sections and randomization settings of a
+ * project's assessment
+ *
+ * Questions join a bank through their bankId (the bank's content id).
+ * Each attempt asks every question outside a bank plus drawCount questions
+ * from each bank, optionally shuffled; see quiz-draw.ts for the draw itself.
+ *
+ * Questions join a section through their sectionId; the section's weight
+ * multiplies their points (see quiz-scoring.ts).
+ */
+
+import { and, eq, inArray, isNotNull, notInArray } from 'drizzle-orm';
+import { Database } from '../db/index.js';
+import { assignContentIds } from '../db/content-id.js';
+import { questionBanks, quizQuestions, quizSections, quizSettings } from '../db/schema.js';
+import { QuizDrawSettings } from './quiz-draw.js';
+
+export interface QuestionBank {
+  contentId?: string; // Assigned on save; send it back to keep questions in the bank
+  title: string;
+  drawCount: number | null; // Questions drawn per attempt; null = all
+}
+
+export interface QuizSection {
+  contentId?: string; // Assigned on save; send it back to keep questions in the section
+  title: string;
+  weight: number; // Multiplies the points of the section's questions
+}
+
+export interface QuizAssessment {
+  banks: QuestionBank[];
+  sections: QuizSection[];
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+/**
+ * Settings of projects that never configured their assessment
+ */
+export const DEFAULT_QUIZ_ASSESSMENT: QuizAssessment = {
+  banks: [],
+  sections: [],
+  shuffleQuestions: false,
+  shuffleOptions: false,
+};
+
+export class QuizAssessmentService {
+  /**
+   * Load a project's banks and sections (in order) and randomization settings
+   */
+  static async load(db: Database, projectId: number): Promise<QuizAssessment> {
+    const banks = await db
+      .select()
+      .from(questionBanks)
+      .where(eq(questionBanks.projectId, projectId))
+      .orderBy(questionBanks.sortOrder);
+
+    const sections = await db
+      .select()
+      .from(quizSections)
+      .where(eq(quizSections.projectId, projectId))
+      .orderBy(quizSections.sortOrder);
+
+    const settings = await db
+      .select()
+      .from(quizSettings)
+      .where(eq(quizSettings.projectId, projectId))
+      .limit(1);
+
+    return {
+      banks: banks.map((bank) => ({
+        contentId: bank.contentId,
+        title: bank.title,
+        drawCount: bank.drawCount,
+      })),
+      sections: sections.map((section) => ({
+        contentId: section.contentId,
+        title: section.title,
+        weight: section.weight,
+      })),
+      shuffleQuestions: settings[0]?.shuffleQuestions ?? false,
+      shuffleOptions: settings[0]?.shuffleOptions ?? false,
+    };
+  }
+
+  /**
+   * Replace a project's banks, sections and settings
+   * Run inside a transaction. Questions in a bank or section that is no
+   * longer listed are moved out of it (always asked, weight 1).
+   * @returns Content ids of the saved banks, in order
+   */
+  static async write(tx: Database, projectId: number, assessment: QuizAssessment): Promise<string[]> {
+    const contentIds = assignContentIds(assessment.banks);
+    const sectionIds = assignContentIds(assessment.sections);
+
+    await tx.delete(questionBanks).where(eq(questionBanks.projectId, projectId));
+
+    if (assessment.banks.length > 0) {
+      await tx.insert(questionBanks).values(
+        assessment.banks.map((bank, index) => ({
+          projectId,
+          contentId: contentIds[index],
+          title: bank.title,
+          drawCount: bank.drawCount,
+          sortOrder: index,
+        }))
+      );
+    }
+
+    await tx
+      .update(quizQuestions)
+      .set({ bankId: null })
+      .where(
+        and(
+          eq(quizQuestions.projectId, projectId),
+          isNotNull(quizQuestions.bankId),
+          contentIds.length > 0 ? notInArray(quizQuestions.bankId, contentIds) : undefined
+        )
+      );
+
+    await tx.delete(quizSections).where(eq(quizSections.projectId, projectId));
+
+    if (assessment.sections.length > 0) {
+      await tx.insert(quizSections).values(
+        assessment.sections.map((section, index) => ({
+          projectId,
+          contentId: sectionIds[index],
+          title: section.title,
+          weight: section.weight,
+          sortOrder: index,
+        }))
+      );
+    }
+
+    await tx
+      .update(quizQuestions)
+      .set({ sectionId: null })
+      .where(
+        and(
+          eq(quizQuestions.projectId, projectId),
+          isNotNull(quizQuestions.sectionId),
+          sectionIds.length > 0 ? notInArray(quizQuestions.sectionId, sectionIds) : undefined
+        )
+      );
+
+    await tx.delete(quizSettings).where(eq(quizSettings.projectId, projectId));
+    await tx.insert(quizSettings).values({
+      projectId,
+      shuffleQuestions: assessment.shuffleQuestions,
+      shuffleOptions: assessment.shuffleOptions,
+    });
+
+    return contentIds;
+  }
+
+  /**
+   * Bank content ids of a project, to check the bankId of saved questions
+   */
+  static async bankIds(db: Database, projectId: number, candidates: string[]): Promise<Set<string>> {
+    if (candidates.length === 0) {
+      return new Set();
+    }
+
+    const rows = await db
+      .select({ contentId: questionBanks.contentId })
+      .from(questionBanks)
+      .where(and(eq(questionBanks.projectId, projectId), inArray(questionBanks.contentId, candidates)));
+
+    return new Set(rows.map((row) => row.contentId));
+  }
+
+  /**
+   * Section content ids of a project, to check the sectionId of saved questions
+   */
+  static async sectionIds(db: Database, projectId: number, candidates: string[]): Promise<Set<string>> {
+    if (candidates.length === 0) {
+      return new Set();
+    }
+
+    const rows = await db
+      .select({ contentId: quizSections.contentId })
+      .from(quizSections)
+      .where(and(eq(quizSections.projectId, projectId), inArray(quizSections.contentId, candidates)));
+
+    return new Set(rows.map((row) => row.contentId));
+  }
+
+  /**
+   * Section weight of each section content id, for the player's questions
+   */
+  static sectionWeights(assessment: QuizAssessment): Map<string, number> {
+    return new Map(assessment.sections.map((section) => [section.contentId!, section.weight]));
+  }
+
+  /**
+   * Settings as the player's QuizDraw expects them
+   */
+  static toDrawSettings(assessment: QuizAssessment): QuizDrawSettings {
+    return {
+      banks: assessment.banks.map((bank) => ({ id: bank.contentId!, draw: bank.drawCount })),
+      shuffleQuestions: assessment.shuffleQuestions,
+      shuffleOptions: assessment.shuffleOptions,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Quiz Draw - Test Suite
+ *
+ * Verifies that a seed always gives the same attempt, that banks draw N of
+ * M questions, and that shuffled options keep answers checkable and
+ * reportable in the stored option letters.
+ */
+
+import { QuizDraw, QuizDrawQuestion, QuizDrawSettings } from './quiz-draw.js';
+import { QuizRules } from './quiz-rules.js';
+import { ScoreCalculator } from './scorm.js';
+
+const quiz: QuizDrawQuestion[] = [
+  { options: ['A1', 'A2', 'A3', 'A4'], correctAnswer: 'C' },
+  { options: ['B1', 'B2', 'B3'], correctAnswer: 'A', bank: 'bank-a' },
+  { options: ['C1', 'C2', 'C3'], correctAnswer: 'B', bank: 'bank-a' },
+  { options: ['D1', 'D2', 'D3'], correctAnswer: 'C', bank: 'bank-a' },
+  { type: 'multiple', options: ['E1', 'E2', 'E3', 'E4'], correctAnswer: 'A,D' },
+  {
+    type: 'matching',
+    options: ['Paris', 'Rome', 'Berlin'],
+    prompts: ['France', 'Italy', 'Germany'],
+    correctAnswer: 'A,B,C',
+  },
+];
+
+const settings: QuizDrawSettings = {
+  banks: [{ id: 'bank-a', draw: 2 }],
+  shuffleQuestions: true,
+  shuffleOptions: true,
+};
+
+describe('QuizDraw', () => {
+  it('gives the same attempt for the same seed', () => {
+    expect(QuizDraw.draw(quiz, settings, 1234)).toEqual(QuizDraw.draw(quiz, settings, 1234));
+
+    const orders = new Set(
+      [1, 2, 3, 4, 5, 6, 7, 8].map((seed) =>
+        QuizDraw.draw(quiz, settings, seed)
+          .map((question) => question.source)
+          .join()
+      )
+    );
+    expect(orders.size).toBeGreaterThan(1);
+  });
+
+  it('draws N questions of a bank and always asks questions outside a bank', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      const sources = QuizDraw.draw(quiz, settings, seed).map((question) => question.source);
+
+      expect(sources).toHaveLength(5);
+      expect(sources).toEqual(expect.arrayContaining([0, 4, 5]));
+      expect(sources.filter((source) => source >= 1 && source <= 3)).toHaveLength(2);
+    }
+
+    const all = QuizDraw.draw(quiz, { ...settings, banks: [{ id: 'bank-a', draw: null }] }, 7);
+    expect(all).toHaveLength(6);
+  });
+
+  it('keeps stored order without shuffling', () => {
+    const attempt = QuizDraw.draw(quiz, null, 99);
+
+    expect(attempt.map((question) => question.source)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(attempt.map((question) => question.correctAnswer)).toEqual(quiz.map((question) => question.correctAnswer));
+  });
+
+  it('remaps correct answers to shuffled options and back', () => {
+    for (let seed = 0; seed < 20; seed++) {
+      for (const question of QuizDraw.draw(quiz, settings, seed)) {
+        const stored = quiz[question.source];
+        const answer = question.correctAnswer; // In the letters shown
+
+        expect(QuizRules.isCorrect(question, answer)).toBe(true);
+        expect(QuizDraw.toOriginal(question, answer)).toBe(stored.correctAnswer);
+        expect(question.options.slice().sort()).toEqual(stored.options.slice().sort());
+      }
+    }
+  });
+
+  it('scores an attempt from its seed on the server', () => {
+    const attempt = QuizDraw.draw(quiz, settings, 2024);
+    const answers: Record<string, string> = {};
+    attempt.forEach((question, index) => {
+      answers[`q${index}`] = index === 0 ? '' : question.correctAnswer;
+    });
+
+    expect(ScoreCalculator.calculateAttemptScore(answers, quiz, settings, 2024)).toEqual({
+      raw: 4,
+      min: 0,
+      max: 5,
+      scaled: 0.8,
+      percent: 80,
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Quiz Draw
+ * Picks and orders the questions of one assessment attempt
+ *
+ * An attempt is defined by the course's quiz, its assessment settings and a
+ * seed. Questions in a bank are drawn ("N of M"), questions outside a bank
+ * are always asked; questions and options may then be shuffled. The same
+ * seed always gives the same attempt, so the player stores only the seed in
+ * suspend data and a resumed attempt shows the same draw.
+ *
+ * Presented questions keep the QuizRules shape with option letters and
+ * correctAnswer remapped to the shuffled positions, so answers are checked
+ * as usual. toOriginal() maps an answer back to the stored option letters
+ * for reporting.
+ *
+ * The runtime is plain ES5 so the same code ships in the player runtimes
+ * (scorm.js, cmi5.js) and is evaluated on the server for ScoreCalculator.
+ */
+
+import type { QuizRuleQuestion } from './quiz-rules.js';
+
+/**
+ * Assessment settings as the player sees them (see ScormExportService courseData)
+ */
+export interface QuizDrawSettings {
+  banks: Array<{ id: string; draw: number | null }>; // Bank content id, questions to draw (null = all)
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+}
+
+/**
+ * Question in the course quiz, optionally in a bank
+ */
+export type QuizDrawQuestion = QuizRuleQuestion & { bank?: string | null };
+
+/**
+ * Question as presented in an attempt
+ */
+export type PresentedQuestion<T extends QuizDrawQuestion = QuizDrawQuestion> = T & {
+  source: number; // Position in the course quiz
+  optionOrder: number[]; // Stored option index shown at each position
+  promptOrder?: number[]; // Matching: stored prompt index shown at each position
+};
+
+export interface QuizDrawApi {
+  newSeed(): number;
+  draw<T extends QuizDrawQuestion>(
+    quiz: T[],
+    settings: QuizDrawSettings | null | undefined,
+    seed: number
+  ): Array<PresentedQuestion<T>>;
+  toOriginal(question: PresentedQuestion, answer: string | undefined): string | undefined;
+}
+
+/**
+ * Largest seed (seeds are unsigned 32-bit integers)
+ */
+export const MAX_QUIZ_SEED = 0xffffffff;
+
+/**
+ * Quiz Draw Runtime Generator
+ */
+export class QuizDrawRuntime {
+  /**
+   * Generate the draw runtime
+   * Defines QuizDraw with newSeed(), draw(quiz, settings, seed) and
+   * toOriginal(question, answer).
+   */
+  static generate(): string {
+    return `
+// Quiz Draw
+var QuizDraw = (function() {
+  // Option shuffling changes what the learner sees only for these types
+  var SHUFFLED_TYPES = { "single": true, "multiple": true, "matching": true };
+
+  // 32-bit multiply (Math.imul is not ES5)
+  function imul(a, b) {
+    var ah = (a >>> 16) & 0xffff;
+    var al = a & 0xffff;
+    var bh = (b >>> 16) & 0xffff;
+    var bl = b & 0xffff;
+    return (al * bl + (((ah * bl + al * bh) << 16) >>> 0)) | 0;
+  }
+
+  // mulberry32: small, fast and identical in every JavaScript engine
+  function random(seed) {
+    var state = seed >>> 0;
+    return function() {
+      state = (state + 0x6d2b79f5) >>> 0;
+      var t = state;
+      t = imul(t ^ (t >>> 15), t | 1);
+      t ^= t + imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  function shuffle(list, next) {
+    for (var i = list.length - 1; i > 0; i--) {
+      var j = Math.floor(next() * (i + 1));
+      var item = list[i];
+      list[i] = list[j];
+      list[j] = item;
+    }
+    return list;
+  }
+
+  function range(length) {
+    var list = [];
+    for (var i = 0; i < length; i++) list.push(i);
+    return list;
+  }
+
+  function letter(index) {
+    return String.fromCharCode(65 + index);
+  }
+
+  function position(text) {
+    return text ? text.charCodeAt(0) - 65 : -1;
+  }
+
+  function split(answer) {
+    return answer ? String(answer).split(",") : [];
+  }
+
+  function newSeed() {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+
+  // Questions of the attempt, as positions in the course quiz
+  function pick(quiz, settings, next) {
+    var banks = (settings && settings.banks) || [];
+    var members = {};
+    var chosen = {};
+    var i;
+
+    for (i = 0; i < banks.length; i++) members[banks[i].id] = [];
+
+    for (i = 0; i < quiz.length; i++) {
+      var bank = quiz[i].bank;
+      if (bank && members[bank]) {
+        members[bank].push(i);
+      } else {
+        chosen[i] = true; // Not in a bank: always asked
+      }
+    }
+
+    for (i = 0; i < banks.length; i++) {
+      var pool = members[banks[i].id];
+      var count = banks[i].draw === null || banks[i].draw === undefined ? pool.length : banks[i].draw;
+      var drawn = shuffle(pool.slice(), next).slice(0, Math.max(0, count));
+      for (var j = 0; j < drawn.length; j++) chosen[drawn[j]] = true;
+    }
+
+    var picked = [];
+    for (i = 0; i < quiz.length; i++) {
+      if (chosen[i]) picked.push(i);
+    }
+
+    return settings && settings.shuffleQuestions ? shuffle(picked, next) : picked;
+  }
+
+  function present(question, source, shuffleOptions, next) {
+    var type = question.type || "single";
+    var optionOrder = range(question.options.length);
+    var promptOrder = type === "matching" ? range((question.prompts || []).length) : null;
+
+    if (shuffleOptions && SHUFFLED_TYPES[type]) {
+      shuffle(optionOrder, next);
+      if (promptOrder) shuffle(promptOrder, next);
+    }
+
+    // Stored option index -> position shown
+    var shownAt = [];
+    for (var i = 0; i < optionOrder.length; i++) shownAt[optionOrder[i]] = i;
+
+    var presented = {};
+    for (var key in question) {
+      if (Object.prototype.hasOwnProperty.call(question, key)) presented[key] = question[key];
+    }
+
+    presented.source = source;
+    presented.optionOrder = optionOrder;
+    presented.options = [];
+    for (i = 0; i < optionOrder.length; i++) presented.options.push(question.options[optionOrder[i]]);
+
+    var correct = split(question.correctAnswer);
+    var mapped = [];
+
+    switch (type) {
+      case "fill-in":
+        return presented;
+      case "matching":
+        presented.promptOrder = promptOrder;
+        presented.prompts = [];
+        for (i = 0; i < promptOrder.length; i++) {
+          presented.prompts.push(question.prompts[promptOrder[i]]);
+          mapped.push(letter(shownAt[position(correct[promptOrder[i]])]));
+        }
+        break;
+      case "multiple":
+        for (i = 0; i < correct.length; i++) mapped.push(letter(shownAt[position(correct[i])]));
+        mapped.sort();
+        break;
+      default:
+        for (i = 0; i < correct.length; i++) mapped.push(letter(shownAt[position(correct[i])]));
+    }
+
+    presented.correctAnswer = mapped.join(",");
+    return presented;
+  }
+
+  function draw(quiz, settings, seed) {
+    var next = random(seed);
+    var picked = pick(quiz || [], settings, next);
+    var shuffleOptions = !!(settings && settings.shuffleOptions);
+    var attempt = [];
+
+    for (var i = 0; i < picked.length; i++) {
+      attempt.push(present(quiz[picked[i]], picked[i], shuffleOptions, next));
+    }
+
+    return attempt;
+  }
+
+  // Answer in the stored option letters (and prompt order, for matching)
+  function toOriginal(question, answer) {
+    if (answer === undefined || answer === null || answer === "") return answer;
+
+    var type = question.type || "single";
+    var parts = split(answer);
+    var original = [];
+    var i;
+
+    switch (type) {
+      case "fill-in":
+        return answer;
+      case "matching":
+        for (i = 0; i < parts.length; i++) {
+          original[question.promptOrder[i]] = parts[i] ? letter(question.optionOrder[position(parts[i])]) : "";
+        }
+        for (i = 0; i < original.length; i++) {
+          if (original[i] === undefined) original[i] = "";
+        }
+        return original.join(",");
+      default:
+        for (i = 0; i < parts.length; i++) original.push(letter(question.optionOrder[position(parts[i])]));
+        if (type === "multiple") original.sort();
+        return original.join(",");
+    }
+  }
+
+  return { newSeed: newSeed, draw: draw, toOriginal: toOriginal };
+})();
+`;
+  }
+}
+
+/**
+ * The draw runtime, evaluated for use on the server
+ */
+export const QuizDraw = new Function(`${QuizDrawRuntime.generate()}; return QuizDraw;`)() as QuizDrawApi;
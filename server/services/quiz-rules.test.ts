@@ -0,0 +1,68 @@
+/**
+ * Quiz Rules - Test Suite
+ *
+ * Verifies answer checking for each question type and the responses the
+ * player reports as SCORM 1.2 / 2004 interactions.
+ */
+
+import { QuizRuleQuestion, QuizRules } from './quiz-rules.js';
+import { ScoreCalculator } from './scorm.js';
+
+const multiple: QuizRuleQuestion = { type: 'multiple', options: ['Red', 'Blue', 'Green'], correctAnswer: 'A,C' };
+const trueFalse: QuizRuleQuestion = { type: 'true-false', options: ['True', 'False'], correctAnswer: 'B' };
+const fillIn: QuizRuleQuestion = { type: 'fill-in', options: ['Lake Placid', 'Placid'], correctAnswer: 'Lake Placid' };
+const matching: QuizRuleQuestion = {
+  type: 'matching',
+  options: ['Paris', 'Rome', 'Berlin'],
+  prompts: ['France', 'Italy', 'Germany'],
+  correctAnswer: 'A,B,C',
+};
+const ordering: QuizRuleQuestion = { type: 'ordering', options: ['Plan', 'Build', 'Ship'], correctAnswer: 'A,B,C' };
+
+describe('QuizRules', () => {
+  it('checks answers by question type', () => {
+    expect(QuizRules.isCorrect({ options: ['A', 'B'], correctAnswer: 'B' }, 'B')).toBe(true);
+    expect(QuizRules.isCorrect(multiple, 'C,A')).toBe(true);
+    expect(QuizRules.isCorrect(multiple, 'A')).toBe(false);
+    expect(QuizRules.isCorrect(trueFalse, 'B')).toBe(true);
+    expect(QuizRules.isCorrect(matching, 'A,C,B')).toBe(false);
+    expect(QuizRules.isCorrect(ordering, 'A,B,C')).toBe(true);
+  });
+
+  it('matches fill-in answers ignoring case and spacing unless case matters', () => {
+    expect(QuizRules.isCorrect(fillIn, '  lake   placid ')).toBe(true);
+    expect(QuizRules.isCorrect(fillIn, 'placid')).toBe(true);
+    expect(QuizRules.isCorrect(fillIn, 'Placid Lake')).toBe(false);
+    expect(QuizRules.isCorrect({ ...fillIn, caseSensitive: true }, 'placid')).toBe(false);
+  });
+
+  it('treats partial matching and ordering answers as unanswered', () => {
+    expect(QuizRules.isAnswered(matching, 'A,,C')).toBe(false);
+    expect(QuizRules.isAnswered(matching, 'A,B,C')).toBe(true);
+    expect(QuizRules.isAnswered(ordering, 'A,B')).toBe(false);
+    expect(QuizRules.isAnswered(fillIn, '   ')).toBe(false);
+  });
+
+  it('formats interaction responses for SCORM 1.2 and 2004', () => {
+    expect(QuizRules.interactionType(ordering)).toBe('sequencing');
+    expect(QuizRules.formatResponse(multiple, 'A,C', '1.2')).toBe('a,c');
+    expect(QuizRules.formatResponse(matching, 'B,A,C', '1.2')).toBe('1.b,2.a,3.c');
+    expect(QuizRules.formatResponse(multiple, 'A,C', '2004')).toBe('A[,]C');
+    expect(QuizRules.formatResponse(trueFalse, 'A', '1.2')).toBe('t');
+    expect(QuizRules.formatResponse(trueFalse, 'B', '2004')).toBe('false');
+    expect(QuizRules.formatResponse(matching, 'B,A,C', '2004')).toBe('1[.]B[,]2[.]A[,]3[.]C');
+    expect(QuizRules.correctPatterns({ ...fillIn, caseSensitive: true }, '2004')).toEqual([
+      '{case_matters=true}Lake Placid',
+      '{case_matters=true}Placid',
+    ]);
+  });
+
+  it('scores mixed question types on the server', () => {
+    const score = ScoreCalculator.calculateScore(
+      { q0: 'B', q1: 'A,C', q2: 'placid', q3: 'C,B,A' },
+      { q0: 'B', q1: multiple, q2: fillIn, q3: ordering }
+    );
+
+    expect(score).toBe(75);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Quiz Rules
+ * Answer checking for every question type, shared by player and server
+ *
+ * Learner answers are strings, as the player keeps them in suspend data:
+ * - single, true-false: option letter ("B"; true-false options are True, False)
+ * - multiple: selected letters ("A,C")
+ * - fill-in: the text typed; options hold the accepted answers
+ * - matching: option letter chosen for each prompt, in prompt order ("C,A,B")
+ * - ordering: option letters in the order the learner put them ("B,A,C");
+ *   options are stored in the correct order
+ *
+ * The runtime is plain ES5 so the same code ships in the player runtimes
+ * (scorm.js, cmi5.js) and is evaluated on the server for ScoreCalculator.
+ */
+
+import type { QuestionType } from './quiz.js';
+
+/**
+ * Question as the player sees it (see ScormExportService courseData)
+ */
+export interface QuizRuleQuestion {
+  type?: QuestionType; // Defaults to single
+  options: string[];
+  correctAnswer: string;
+  prompts?: string[]; // Matching only
+  caseSensitive?: boolean; // Fill-in only
+}
+
+/**
+ * Notation of interaction responses: SCORM 1.2, or SCORM 2004 (also used by xAPI)
+ */
+export type InteractionNotation = '1.2' | '2004';
+
+export interface QuizRulesApi {
+  isAnswered(question: QuizRuleQuestion, answer: string | undefined): boolean;
+  isCorrect(question: QuizRuleQuestion, answer: string | undefined): boolean;
+  interactionType(question: QuizRuleQuestion): string;
+  formatResponse(question: QuizRuleQuestion, answer: string | undefined, notation: InteractionNotation): string;
+  correctPatterns(question: QuizRuleQuestion, notation: InteractionNotation): string[];
+}
+
+/**
+ * Quiz Rules Runtime Generator
+ */
+export class QuizRulesRuntime {
+  /**
+   * Generate the rules runtime
+   * Defines QuizRules with isAnswered, isCorrect, interactionType,
+   * formatResponse and correctPatterns.
+   */
+  static generate(): string {
+    return `
+// Quiz Rules
+var QuizRules = (function() {
+  var INTERACTION_TYPES = {
+    "single": "choice",
+    "multiple": "choice",
+    "true-false": "true-false",
+    "fill-in": "fill-in",
+    "matching": "matching",
+    "ordering": "sequencing"
+  };
+
+  function typeOf(question) {
+    return question.type || "single";
+  }
+
+  function split(answer) {
+    return answer ? String(answer).split(",") : [];
+  }
+
+  function normalizeText(text, caseSensitive) {
+    var normalized = String(text || "").replace(/\\s+/g, " ").replace(/^ | $/g, "");
+    return caseSensitive ? normalized : normalized.toLowerCase();
+  }
+
+  function isAnswered(question, answer) {
+    if (answer === undefined || answer === null || answer === "") return false;
+
+    var parts = split(answer);
+
+    switch (typeOf(question)) {
+      case "fill-in":
+        return normalizeText(answer, true) !== "";
+      case "matching":
+        if (parts.length !== (question.prompts || []).length) return false;
+        for (var i = 0; i < parts.length; i++) {
+          if (!parts[i]) return false;
+        }
+        return true;
+      case "ordering":
+        return parts.length === question.options.length;
+      default:
+        return true;
+    }
+  }
+
+  function isCorrect(question, answer) {
+    if (!isAnswered(question, answer)) return false;
+
+    switch (typeOf(question)) {
+      case "multiple":
+        return split(answer).sort().join(",") === split(question.correctAnswer).sort().join(",");
+      case "fill-in":
+        var given = normalizeText(answer, question.caseSensitive);
+        for (var i = 0; i < question.options.length; i++) {
+          if (normalizeText(question.options[i], question.caseSensitive) === given) return true;
+        }
+        return false;
+      default:
+        return answer === question.correctAnswer;
+    }
+  }
+
+  function interactionType(question) {
+    return INTERACTION_TYPES[typeOf(question)] || "choice";
+  }
+
+  // SCORM 1.2 choice, matching and sequencing responses are single
+  // characters a-z or 0-9, so option letters are lowercased there
+  function formatResponse(question, answer, notation) {
+    var list = notation === "1.2" ? "," : "[,]";
+    var pair = notation === "1.2" ? "." : "[.]";
+    var parts = split(notation === "1.2" ? String(answer || "").toLowerCase() : answer);
+
+    switch (typeOf(question)) {
+      case "true-false":
+        if (answer === "A") return notation === "1.2" ? "t" : "true";
+        if (answer === "B") return notation === "1.2" ? "f" : "false";
+        return "";
+      case "fill-in":
+        return String(answer || "");
+      case "matching":
+        var pairs = [];
+        for (var i = 0; i < parts.length; i++) {
+          if (parts[i]) pairs.push((i + 1) + pair + parts[i]);
+        }
+        return pairs.join(list);
+      default:
+        return parts.join(list);
+    }
+  }
+
+  function correctPatterns(question, notation) {
+    if (typeOf(question) !== "fill-in") {
+      return [formatResponse(question, question.correctAnswer, notation)];
+    }
+
+    var patterns = [];
+    for (var i = 0; i < question.options.length; i++) {
+      var prefix = notation !== "1.2" && question.caseSensitive ? "{case_matters=true}" : "";
+      patterns.push(prefix + question.options[i]);
+    }
+    return patterns;
+  }
+
+  return {
+    isAnswered: isAnswered,
+    isCorrect: isCorrect,
+    interactionType: interactionType,
+    formatResponse: formatResponse,
+    correctPatterns: correctPatterns
+  };
+})();
+`;
+  }
+}
+
+/**
+ * The rules runtime, evaluated for use on the server
+ */
+export const QuizRules = new Function(`${QuizRulesRuntime.generate()}; return QuizRules;`)() as QuizRulesApi;
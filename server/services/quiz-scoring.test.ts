@@ -0,0 +1,66 @@
+/**
+ * Quiz Scoring - Test Suite
+ *
+ * Verifies points, partial credit, penalties and section weights, and that
+ * the score range follows the configured points.
+ */
+
+import { QuizScoring, QuizScoringQuestion } from './quiz-scoring.js';
+import { ScoreCalculator } from './scorm.js';
+
+const multiple: QuizScoringQuestion = {
+  type: 'multiple',
+  options: ['Red', 'Blue', 'Green', 'Black'],
+  correctAnswer: 'A,C',
+  points: 2,
+  partialCredit: true,
+};
+const ordering: QuizScoringQuestion = {
+  type: 'ordering',
+  options: ['Plan', 'Build', 'Test', 'Ship'],
+  correctAnswer: 'A,B,C,D',
+  partialCredit: true,
+};
+const single: QuizScoringQuestion = { options: ['Yes', 'No'], correctAnswer: 'A', penalty: 0.5, weight: 3 };
+
+describe('QuizScoring', () => {
+  it('gives partial credit for multi-part questions', () => {
+    expect(QuizScoring.points(multiple, 'A,C')).toBe(2);
+    expect(QuizScoring.points(multiple, 'A')).toBe(1);
+    expect(QuizScoring.points(multiple, 'A,B')).toBe(0); // One right, one wrong
+    expect(QuizScoring.points(ordering, 'A,B,D,C')).toBe(0.5);
+    expect(QuizScoring.points({ ...ordering, partialCredit: false }, 'A,B,D,C')).toBe(0);
+  });
+
+  it('applies penalties and section weights', () => {
+    expect(QuizScoring.maxPoints(single)).toBe(3);
+    expect(QuizScoring.points(single, 'A')).toBe(3);
+    expect(QuizScoring.points(single, 'B')).toBe(-1.5);
+    expect(QuizScoring.points(single, undefined)).toBe(0); // Unanswered is not penalized
+  });
+
+  it('reports raw points within the configured range, never below 0', () => {
+    expect(QuizScoring.score([multiple, ordering, single], { q0: 'A', q1: 'A,B,C,D', q2: 'A' })).toEqual({
+      raw: 5,
+      min: 0,
+      max: 6,
+      scaled: 0.83,
+      percent: 83,
+    });
+    expect(QuizScoring.score([single, single], { q0: 'B', q1: 'B' })).toMatchObject({ raw: 0, max: 6, percent: 0 });
+    expect(QuizScoring.score([], {})).toEqual({ raw: 0, min: 0, max: 0, scaled: 0, percent: 0 });
+  });
+
+  it('matches ScoreCalculator on the server', () => {
+    const answers = { q0: 'C', q1: 'A,B,C,D' };
+
+    expect(ScoreCalculator.calculateResult(answers, [multiple, ordering, single])).toEqual({
+      raw: 2,
+      min: 0,
+      max: 6,
+      scaled: 0.33,
+      percent: 33,
+    });
+    expect(ScoreCalculator.calculateScore({ first: 'A', second: 'A,C' }, { first: 'A', second: multiple })).toBe(100);
+  });
+});
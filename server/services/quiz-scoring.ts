@@ -0,0 +1,165 @@
+/**
+ * Quiz Scoring
+ * Points, partial credit, penalties and section weights, shared by player
+ * and server
+ *
+ * Each question is worth its points (default 1) times the weight of its
+ * section (default 1):
+ * - a correct answer earns all of them
+ * - with partial credit, multiple response, matching and ordering answers
+ *   earn the share of the question they got right (see credit())
+ * - an answered question that earns nothing loses its penalty (times the
+ *   section weight); unanswered questions are never penalized
+ *
+ * The attempt's raw score is the sum, never below 0; max is what a fully
+ * correct attempt earns. percent is the rounded share of max and scaled
+ * is percent / 100, so pass/fail, the score shown and the score reported
+ * to the LMS always agree.
+ *
+ * The runtime is plain ES5 so the same code ships in the player runtimes
+ * (scorm.js, cmi5.js) and is evaluated on the server for ScoreCalculator.
+ * It uses QuizRules, which must be defined first.
+ */
+
+import { QuizRuleQuestion, QuizRulesRuntime } from './quiz-rules.js';
+
+/**
+ * Question types that can earn partial credit
+ */
+export const PARTIAL_CREDIT_TYPES = ['multiple', 'matching', 'ordering'] as const;
+
+/**
+ * Question with its scoring (see ScormExportService courseData)
+ */
+export interface QuizScoringQuestion extends QuizRuleQuestion {
+  points?: number; // Defaults to 1
+  penalty?: number; // Points lost for an answer that earns nothing; defaults to 0
+  partialCredit?: boolean;
+  weight?: number; // Weight of the question's section; defaults to 1
+}
+
+/**
+ * Score of an attempt
+ */
+export interface QuizScore {
+  raw: number; // Points earned
+  min: number; // Always 0
+  max: number; // Points of a fully correct attempt
+  scaled: number; // percent / 100
+  percent: number; // Rounded share of max (0-100)
+}
+
+export interface QuizScoringApi {
+  credit(question: QuizScoringQuestion, answer: string | undefined): number;
+  maxPoints(question: QuizScoringQuestion): number;
+  points(question: QuizScoringQuestion, answer: string | undefined): number;
+  score(questions: QuizScoringQuestion[], answers: Record<string, string | undefined>): QuizScore;
+}
+
+/**
+ * Quiz Scoring Runtime Generator
+ */
+export class QuizScoringRuntime {
+  /**
+   * Generate the scoring runtime
+   * Defines QuizScoring with credit, maxPoints, points and
+   * score(questions, answers), answers keyed "q0", "q1", ... by position.
+   */
+  static generate(): string {
+    return `
+// Quiz Scoring
+var QuizScoring = (function() {
+  var PARTIAL_CREDIT = { "multiple": true, "matching": true, "ordering": true };
+
+  function round(value) {
+    return Math.round(value * 100) / 100;
+  }
+
+  function number(value, fallback) {
+    return typeof value === "number" && isFinite(value) ? value : fallback;
+  }
+
+  function weightOf(question) {
+    return number(question.weight, 1);
+  }
+
+  function split(answer) {
+    return answer ? String(answer).split(",") : [];
+  }
+
+  // Share of positions in order (matching prompts, ordering items)
+  function inPlace(given, correct) {
+    var count = 0;
+    for (var i = 0; i < correct.length; i++) {
+      if (given[i] === correct[i]) count++;
+    }
+    return correct.length ? count / correct.length : 0;
+  }
+
+  // Share of the question answered correctly (0-1)
+  function credit(question, answer) {
+    if (QuizRules.isCorrect(question, answer)) return 1;
+
+    var type = question.type || "single";
+    if (!question.partialCredit || !PARTIAL_CREDIT[type] || !answer) return 0;
+
+    var given = split(answer);
+    var correct = split(question.correctAnswer);
+
+    if (type === "multiple") {
+      // Each correct choice earns its share, each wrong choice takes one away
+      var right = 0;
+      var wrong = 0;
+      for (var i = 0; i < given.length; i++) {
+        if (correct.indexOf(given[i]) !== -1) right++;
+        else wrong++;
+      }
+      return correct.length ? Math.max(0, (right - wrong) / correct.length) : 0;
+    }
+
+    return inPlace(given, correct);
+  }
+
+  function maxPoints(question) {
+    return round(number(question.points, 1) * weightOf(question));
+  }
+
+  // Points an answer earns (negative when penalized)
+  function points(question, answer) {
+    var share = credit(question, answer);
+    var penalty = number(question.penalty, 0);
+
+    if (share > 0) return round(share * maxPoints(question));
+    if (penalty > 0 && QuizRules.isAnswered(question, answer)) return round(-penalty * weightOf(question));
+    return 0;
+  }
+
+  function score(questions, answers) {
+    var raw = 0;
+    var max = 0;
+
+    for (var i = 0; i < questions.length; i++) {
+      raw += points(questions[i], answers && answers["q" + i]);
+      max += maxPoints(questions[i]);
+    }
+
+    raw = round(Math.max(0, raw));
+    max = round(max);
+
+    var percent = max > 0 ? Math.round((raw / max) * 100) : 0;
+
+    return { raw: raw, min: 0, max: max, scaled: percent / 100, percent: percent };
+  }
+
+  return { credit: credit, maxPoints: maxPoints, points: points, score: score };
+})();
+`;
+  }
+}
+
+/**
+ * The scoring runtime, evaluated for use on the server
+ */
+export const QuizScoring = new Function(
+  `${QuizRulesRuntime.generate()}${QuizScoringRuntime.generate()}; return QuizScoring;`
+)() as QuizScoringApi;
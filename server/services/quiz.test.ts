@@ -0,0 +1,182 @@
+/**
+ * QuizMapper - Test Suite
+ *
+ * Verifies that a QuizBuilder quiz survives a save/load round-trip
+ * and produces the letter-indexed format the SCORM player expects.
+ */
+
+import { QuizMapper, QuizBuilderQuestion } from './quiz.js';
+
+const builderQuestion: QuizBuilderQuestion = {
+  id: 'q_1700000000000',
+  question: 'Which standard limits suspend_data to 4096 characters?',
+  options: [
+    { id: 'opt_1700000000000_1', text: 'SCORM 2004' },
+    { id: 'opt_1700000000000_2', text: 'SCORM 1.2' },
+    { id: 'opt_1700000000001', text: 'xAPI' },
+  ],
+  correctAnswer: 'opt_1700000000000_2',
+  explanation: 'SCORM 1.2 defines cmi.suspend_data as CMIString4096.',
+};
+
+describe('QuizMapper', () => {
+  describe('toStored', () => {
+    it('should store options as strings and the correct answer as a letter', () => {
+      const stored = QuizMapper.toStored(builderQuestion, 0);
+
+      expect(stored.options).toEqual(['SCORM 2004', 'SCORM 1.2', 'xAPI']);
+      expect(stored.correctAnswer).toBe('B');
+      expect(stored.sortOrder).toBe(0);
+    });
+
+    it('should reject a correct answer that is not one of the options', () => {
+      expect(() =>
+        QuizMapper.toStored({ ...builderQuestion, correctAnswer: 'opt_missing' }, 2)
+      ).toThrow('Question 3 has no valid correct answer selected');
+    });
+  });
+
+  describe('toBuilder', () => {
+    it('should round-trip question content and the selected answer', () => {
+      const stored = QuizMapper.toStored(builderQuestion, 0);
+      const loaded = QuizMapper.toBuilder({ id: 7, ...stored });
+
+      expect(loaded.question).toBe(builderQuestion.question);
+      expect(loaded.explanation).toBe(builderQuestion.explanation);
+      expect(loaded.options.map((option) => option.text)).toEqual(
+        builderQuestion.options.map((option) => option.text)
+      );
+
+      const selected = loaded.options.find((option) => option.id === loaded.correctAnswer);
+      expect(selected?.text).toBe('SCORM 1.2');
+    });
+
+    it('should derive stable ids from the row id', () => {
+      const stored = QuizMapper.toStored(builderQuestion, 0);
+      const first = QuizMapper.toBuilder({ id: 7, ...stored });
+      const second = QuizMapper.toBuilder({ id: 7, ...stored });
+
+      expect(first).toEqual(second);
+      expect(first.id).toBe('q_7');
+    });
+
+    it('should parse options stored as a JSON string (MySQL)', () => {
+      const stored = QuizMapper.toStored(builderQuestion, 0);
+      const loaded = QuizMapper.toBuilder({
+        id: 7,
+        ...stored,
+        options: JSON.stringify(stored.options),
+      });
+
+      expect(loaded.options).toHaveLength(3);
+      expect(loaded.correctAnswer).toBe('opt_7_2');
+    });
+
+    it('should load rows from before question types as single choice', () => {
+      const { type, settings, ...stored } = QuizMapper.toStored(builderQuestion, 0);
+      const loaded = QuizMapper.toBuilder({ id: 7, ...stored });
+
+      expect(type).toBe('single');
+      expect(settings).toBeNull();
+      expect(loaded.type).toBe('single');
+    });
+  });
+
+  describe('question types', () => {
+    const options = [
+      { id: 'a', text: 'Plan', match: 'First' },
+      { id: 'b', text: 'Build', match: 'Second' },
+      { id: 'c', text: 'Ship', match: 'Third' },
+    ];
+    const base = { id: 'q_1', question: 'Q', options, correctAnswer: '', explanation: '' };
+
+    it('should store the correct letters of a multiple response question', () => {
+      const stored = QuizMapper.toStored({ ...base, type: 'multiple', correctAnswers: ['c', 'a'] }, 0);
+      const loaded = QuizMapper.toBuilder({ id: 3, ...stored });
+
+      expect(stored.correctAnswer).toBe('A,C');
+      expect(loaded.correctAnswers).toEqual(['opt_3_1', 'opt_3_3']);
+      expect(() => QuizMapper.toStored({ ...base, type: 'multiple', correctAnswers: [] }, 0)).toThrow(
+        'Question 1 has no valid correct answer selected'
+      );
+    });
+
+    it('should store fill-in options as trimmed accepted answers', () => {
+      const stored = QuizMapper.toStored(
+        { ...base, type: 'fill-in', options: [{ id: 'a', text: ' Placid ' }], caseSensitive: true },
+        0
+      );
+
+      expect(stored.options).toEqual(['Placid']);
+      expect(stored.settings).toEqual({ caseSensitive: true });
+      expect(QuizMapper.toBuilder({ id: 3, ...stored }).caseSensitive).toBe(true);
+    });
+
+    it('should store matches as options and prompts as settings', () => {
+      const stored = QuizMapper.toStored({ ...base, type: 'matching' }, 0);
+      const loaded = QuizMapper.toBuilder({ id: 3, ...stored });
+
+      expect(stored.options).toEqual(['First', 'Second', 'Third']);
+      expect(stored.settings).toEqual({ prompts: ['Plan', 'Build', 'Ship'] });
+      expect(stored.correctAnswer).toBe('A,B,C');
+      expect(loaded.options.map((option) => [option.text, option.match])).toEqual([
+        ['Plan', 'First'],
+        ['Build', 'Second'],
+        ['Ship', 'Third'],
+      ]);
+      expect(() =>
+        QuizMapper.toStored({ ...base, type: 'matching', options: [...options, { id: 'd', text: 'Rest' }] }, 1)
+      ).toThrow('Question 2 has a prompt without a match');
+    });
+
+    it('should require exactly two options for true/false', () => {
+      expect(() => QuizMapper.toStored({ ...base, type: 'true-false', correctAnswer: 'a' }, 0)).toThrow(
+        'Question 1 must have exactly two options (True, False)'
+      );
+    });
+
+    it('should keep scoring that differs from the defaults in settings', () => {
+      const stored = QuizMapper.toStored(
+        { ...base, type: 'matching', points: 3, penalty: 0.5, partialCredit: true, sectionId: 'part-1' },
+        0
+      );
+      const loaded = QuizMapper.toBuilder({ id: 3, ...stored });
+
+      expect(stored.settings).toEqual({ points: 3, penalty: 0.5, partialCredit: true, prompts: ['Plan', 'Build', 'Ship'] });
+      expect(stored.sectionId).toBe('part-1');
+      expect(loaded).toMatchObject({ points: 3, penalty: 0.5, partialCredit: true, sectionId: 'part-1' });
+
+      // Defaults are not stored; partial credit only applies to multi-part types
+      expect(QuizMapper.toStored({ ...base, correctAnswer: 'a', points: 1, penalty: 0, partialCredit: true }, 0).settings).toBeNull();
+    });
+  });
+
+  describe('normalizeStored', () => {
+    const stored = {
+      question: 'Q',
+      options: ['Plan', 'Build'],
+      correctAnswer: 'B',
+      settings: null,
+      bankId: null,
+      sectionId: null,
+      explanation: '',
+    };
+
+    it('should accept valid stored questions unchanged', () => {
+      expect(QuizMapper.normalizeStored({ ...stored, type: 'single' }, 0)).toEqual({ ...stored, type: 'single', sortOrder: 0 });
+      expect(QuizMapper.normalizeStored({ ...stored, type: 'multiple', correctAnswer: 'A,B' }, 0).correctAnswer).toBe('A,B');
+    });
+
+    it('should reject answers that do not reference an option', () => {
+      expect(() => QuizMapper.normalizeStored({ ...stored, correctAnswer: 'C' }, 1)).toThrow(
+        'Question 2 has no valid correct answer selected'
+      );
+      expect(() => QuizMapper.normalizeStored({ ...stored, type: 'multiple', correctAnswer: 'A,D' }, 0)).toThrow(
+        'Question 1 has no valid correct answer selected'
+      );
+      expect(() => QuizMapper.normalizeStored({ ...stored, options: ['Only'], correctAnswer: 'A' }, 0)).toThrow(
+        'Question 1 needs at least 2 options'
+      );
+    });
+  });
+});
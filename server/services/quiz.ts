@@ -0,0 +1,312 @@
+/**
+ * Quiz Mapping Service
+ * Converts between the QuizBuilder editing model and stored quiz rows
+ *
+ * - Builder: options carry ids (opt_123), correctAnswer is an option id
+ * - Storage / SCORM player: options are a plain string array and
+ *   correctAnswer is the option letter (A, B, C, ...)
+ *
+ * Question types store their answer key as follows (see quiz-rules.ts for
+ * how learner answers are checked):
+ * - single, true-false: correctAnswer is one letter
+ * - multiple: correctAnswer lists the correct letters ("A,C")
+ * - fill-in: options are the accepted answers, settings.caseSensitive
+ * - matching: options are the matches, settings.prompts the prompts they
+ *   belong to (same position); correctAnswer is "A,B,C,..."
+ * - ordering: options are in the correct order; correctAnswer is "A,B,C,..."
+ *
+ * Scoring other than the defaults (1 point, no penalty, no partial credit;
+ * see quiz-scoring.ts) is kept in settings too.
+ */
+
+import { parseJsonArray, parseJsonObject } from '../db/json.js';
+import { PARTIAL_CREDIT_TYPES } from './quiz-scoring.js';
+
+/**
+ * Option letters follow the player's String.fromCharCode(65 + index)
+ */
+export const MAX_QUIZ_OPTIONS = 26;
+
+/**
+ * Longest fill-in answer the player accepts (SCORM 1.2 CMIFeedback is 255)
+ */
+export const MAX_FILL_IN_LENGTH = 250;
+
+export const QUESTION_TYPES = ['single', 'multiple', 'true-false', 'fill-in', 'matching', 'ordering'] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+/**
+ * Scoring and type-specific settings stored next to the options
+ */
+export interface QuizQuestionSettings {
+  points?: number; // Unset = 1
+  penalty?: number; // Points lost for a wrong answer; unset = 0
+  partialCredit?: boolean; // Multiple response, matching, ordering
+  caseSensitive?: boolean; // Fill-in
+  prompts?: string[]; // Matching
+}
+
+export interface QuizBuilderOption {
+  id: string;
+  text: string;
+  match?: string; // Matching: the answer that belongs to this prompt
+}
+
+export interface QuizBuilderQuestion {
+  id: string;
+  contentId?: string; // Stable id of the stored question; send it back to keep it
+  type?: QuestionType; // Defaults to single
+  bankId?: string | null; // Content id of the question bank; unset = always asked
+  sectionId?: string | null; // Content id of the scoring section; unset = weight 1
+  question: string;
+  options: QuizBuilderOption[];
+  correctAnswer: string; // Option id (single, true-false)
+  correctAnswers?: string[]; // Option ids (multiple)
+  caseSensitive?: boolean; // Fill-in
+  points?: number; // Defaults to 1
+  penalty?: number; // Defaults to 0
+  partialCredit?: boolean; // Multiple response, matching, ordering
+  explanation: string;
+}
+
+/**
+ * Stored quiz question (without row bookkeeping columns)
+ */
+export interface StoredQuizQuestion {
+  type: QuestionType;
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  settings: QuizQuestionSettings | null;
+  bankId: string | null;
+  sectionId: string | null;
+  explanation: string;
+  sortOrder: number;
+}
+
+/**
+ * Fewest options (accepted answers, pairs, items) each type needs
+ */
+const MIN_OPTIONS: Record<QuestionType, number> = {
+  single: 2,
+  multiple: 2,
+  'true-false': 2,
+  'fill-in': 1,
+  matching: 2,
+  ordering: 2,
+};
+
+export class QuizMapper {
+  /**
+   * Letter for an option position (0 => A)
+   */
+  static indexToLetter(index: number): string {
+    return String.fromCharCode(65 + index);
+  }
+
+  /**
+   * Option position for a letter (A => 0), -1 if invalid
+   */
+  static letterToIndex(letter: string): number {
+    if (!/^[A-Z]$/.test(letter)) {
+      return -1;
+    }
+    return letter.charCodeAt(0) - 65;
+  }
+
+  /**
+   * Convert a builder question to its stored form
+   * @throws Error if the question is incomplete for its type or the
+   * correct answer does not reference one of the options
+   */
+  static toStored(question: QuizBuilderQuestion, sortOrder: number): StoredQuizQuestion {
+    const type = question.type ?? 'single';
+    const label = `Question ${sortOrder + 1}`;
+
+    if (question.options.length > MAX_QUIZ_OPTIONS) {
+      throw new Error(`${label} has ${question.options.length} options (max ${MAX_QUIZ_OPTIONS})`);
+    }
+
+    if (question.options.length < MIN_OPTIONS[type]) {
+      throw new Error(`${label} needs at least ${MIN_OPTIONS[type]} options`);
+    }
+
+    const stored = {
+      type,
+      question: question.question,
+      options: question.options.map((option) => option.text),
+      settings: this.scoringSettings(question, type),
+      bankId: question.bankId ?? null,
+      sectionId: question.sectionId ?? null,
+      explanation: question.explanation,
+      sortOrder,
+    };
+    const inOrder = question.options.map((_, index) => this.indexToLetter(index)).join(',');
+
+    switch (type) {
+      case 'single':
+      case 'true-false': {
+        if (type === 'true-false' && question.options.length !== 2) {
+          throw new Error(`${label} must have exactly two options (True, False)`);
+        }
+
+        const correctIndex = question.options.findIndex(
+          (option) => option.id === question.correctAnswer
+        );
+
+        if (correctIndex === -1) {
+          throw new Error(`${label} has no valid correct answer selected`);
+        }
+
+        return { ...stored, correctAnswer: this.indexToLetter(correctIndex) };
+      }
+
+      case 'multiple': {
+        const correct = new Set(question.correctAnswers ?? []);
+        const letters = question.options
+          .map((option, index) => (correct.has(option.id) ? this.indexToLetter(index) : null))
+          .filter((letter): letter is string => letter !== null);
+
+        if (letters.length === 0) {
+          throw new Error(`${label} has no valid correct answer selected`);
+        }
+
+        return { ...stored, correctAnswer: letters.join(',') };
+      }
+
+      case 'fill-in': {
+        const accepted = stored.options.map((text) => text.trim()).filter((text) => text !== '');
+
+        if (accepted.length === 0) {
+          throw new Error(`${label} needs at least one accepted answer`);
+        }
+        if (accepted.some((text) => text.length > MAX_FILL_IN_LENGTH)) {
+          throw new Error(`${label} has an accepted answer longer than ${MAX_FILL_IN_LENGTH} characters`);
+        }
+
+        return {
+          ...stored,
+          options: accepted,
+          correctAnswer: accepted[0],
+          settings: { ...stored.settings, caseSensitive: question.caseSensitive ?? false },
+        };
+      }
+
+      case 'matching': {
+        if (question.options.some((option) => !option.match?.trim())) {
+          throw new Error(`${label} has a prompt without a match`);
+        }
+
+        return {
+          ...stored,
+          options: question.options.map((option) => option.match!),
+          correctAnswer: inOrder,
+          settings: { ...stored.settings, prompts: question.options.map((option) => option.text) },
+        };
+      }
+
+      case 'ordering':
+        return { ...stored, correctAnswer: inOrder };
+    }
+  }
+
+  /**
+   * Check and normalize a question that is already in stored form, as in
+   * course documents, by the same rules as toStored
+   * @throws Error if the question is incomplete for its type or the
+   * correct answer does not reference its options
+   */
+  static normalizeStored(
+    question: Omit<StoredQuizQuestion, 'type' | 'sortOrder'> & { type?: string },
+    sortOrder: number
+  ): StoredQuizQuestion {
+    const type = this.typeOf(question.type);
+    const letters = question.correctAnswer.split(',');
+
+    if (type === 'multiple' && letters.some((letter) => !question.options[this.letterToIndex(letter)])) {
+      throw new Error(`Question ${sortOrder + 1} has no valid correct answer selected`);
+    }
+
+    return this.toStored(this.toBuilder({ ...question, id: sortOrder + 1, type }), sortOrder);
+  }
+
+  /**
+   * Scoring settings that differ from the defaults, or null
+   */
+  private static scoringSettings(question: QuizBuilderQuestion, type: QuestionType): QuizQuestionSettings | null {
+    const settings: QuizQuestionSettings = {};
+
+    if (question.points !== undefined && question.points !== 1) {
+      settings.points = question.points;
+    }
+    if (question.penalty) {
+      settings.penalty = question.penalty;
+    }
+    if (question.partialCredit && (PARTIAL_CREDIT_TYPES as readonly string[]).includes(type)) {
+      settings.partialCredit = true;
+    }
+
+    return Object.keys(settings).length > 0 ? settings : null;
+  }
+
+  /**
+   * Convert a stored row to the builder model
+   * Ids are derived from the row id so repeated loads are stable.
+   */
+  static toBuilder(row: {
+    id: number;
+    contentId?: string;
+    type?: string;
+    question: string;
+    options: unknown;
+    correctAnswer: string;
+    settings?: unknown;
+    bankId?: string | null;
+    sectionId?: string | null;
+    explanation: string;
+  }): QuizBuilderQuestion {
+    const type = this.typeOf(row.type);
+    const settings = parseJsonObject<QuizQuestionSettings>(row.settings) ?? {};
+    const texts = parseJsonArray<string>(row.options);
+    const prompts = settings.prompts ?? [];
+
+    const options = texts.map((text, index) => ({
+      id: `opt_${row.id}_${index + 1}`,
+      ...(type === 'matching' ? { text: prompts[index] ?? '', match: text } : { text }),
+    }));
+
+    const correctOption = options[this.letterToIndex(row.correctAnswer)];
+
+    return {
+      id: `q_${row.id}`,
+      ...(row.contentId ? { contentId: row.contentId } : {}),
+      type,
+      ...(row.bankId ? { bankId: row.bankId } : {}),
+      ...(row.sectionId ? { sectionId: row.sectionId } : {}),
+      question: row.question,
+      options,
+      correctAnswer: correctOption && (type === 'single' || type === 'true-false') ? correctOption.id : '',
+      ...(type === 'multiple'
+        ? {
+            correctAnswers: row.correctAnswer
+              .split(',')
+              .map((letter) => options[this.letterToIndex(letter)]?.id)
+              .filter((id): id is string => !!id),
+          }
+        : {}),
+      ...(type === 'fill-in' ? { caseSensitive: settings.caseSensitive ?? false } : {}),
+      ...(settings.points !== undefined ? { points: settings.points } : {}),
+      ...(settings.penalty ? { penalty: settings.penalty } : {}),
+      ...(settings.partialCredit ? { partialCredit: true } : {}),
+      explanation: row.explanation,
+    };
+  }
+
+  /**
+   * Stored type column, defaulting rows from before question types to single
+   */
+  static typeOf(value: string | null | undefined): QuestionType {
+    return QUESTION_TYPES.includes(value as QuestionType) ? (value as QuestionType) : 'single';
+  }
+}
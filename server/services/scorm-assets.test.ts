@@ -0,0 +1,64 @@
+/**
+ * ScormAssetBundler - Test Suite
+ *
+ * Verifies that lesson images are read from data URIs and local disk,
+ * stored once per content, and that remote or out-of-tree references
+ * are refused.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { ScormAssetBundler } from './scorm-assets.js';
+
+const PNG_BYTES = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+const PNG_DATA_URI = `data:image/png;base64,${PNG_BYTES.toString('base64')}`;
+
+describe('ScormAssetBundler', () => {
+  it('decodes base64 and percent-encoded data URIs', () => {
+    const png = ScormAssetBundler.decodeDataUri(PNG_DATA_URI);
+    expect(png.extension).toBe('png');
+    expect(png.data.equals(PNG_BYTES)).toBe(true);
+
+    const svg = ScormAssetBundler.decodeDataUri('data:image/svg+xml,%3Csvg%2F%3E');
+    expect(svg.extension).toBe('svg');
+    expect(svg.data.toString('utf-8')).toBe('<svg/>');
+  });
+
+  it('stores identical images once under assets/', async () => {
+    const bundler = new ScormAssetBundler();
+
+    const first = await bundler.add(PNG_DATA_URI);
+    const second = await bundler.add(PNG_DATA_URI);
+
+    expect(first).toMatch(/^assets\/[0-9a-f]{16}\.png$/);
+    expect(second).toBe(first);
+    expect(bundler.list()).toHaveLength(1);
+  });
+
+  it('rejects remote URLs and unsupported types', async () => {
+    await expect(ScormAssetBundler.load('https://cdn.example.com/slide.png')).rejects.toThrow(
+      'Remote image URLs cannot be bundled'
+    );
+    expect(() => ScormAssetBundler.decodeDataUri('data:text/html,<p>hi</p>')).toThrow(
+      'Unsupported image type'
+    );
+  });
+
+  it('resolves paths and file: URLs inside the assets root only', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'scorm-assets-'));
+    const image = path.join(root, 'slides', 'one.png');
+
+    expect(ScormAssetBundler.resolveLocalPath('slides/one.png', root)).toBe(image);
+    expect(ScormAssetBundler.resolveLocalPath(pathToFileURL(image).href, root)).toBe(image);
+    expect(() => ScormAssetBundler.resolveLocalPath('../secret.png', root)).toThrow(
+      'outside the assets directory'
+    );
+    expect(() => ScormAssetBundler.resolveLocalPath('/etc/passwd', root)).toThrow(
+      'outside the assets directory'
+    );
+
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * SCORM Asset Bundler
+ * Copies lesson images into the package so exported courses work offline
+ *
+ * Images can be given as data URIs, `file:` URLs or paths on local disk.
+ * Local files must live under ASSETS_ROOT so a lesson cannot pull arbitrary
+ * server files into a package. Remote URLs are rejected: many LMSs block
+ * them, and they break once the remote host goes away.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Directory that local image paths are resolved against
+ */
+export const ASSETS_ROOT = path.resolve(process.env.ASSETS_ROOT || process.cwd());
+
+/**
+ * Folder inside the package that holds bundled files
+ */
+export const PACKAGE_ASSETS_DIR = 'assets';
+
+/**
+ * Image types that may be bundled, by file extension
+ */
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+export interface PackageAsset {
+  href: string; // Path inside the package, e.g. assets/3f2a9c1b7d4e.png
+  data: Buffer;
+  mimeType: string;
+}
+
+export class ScormAssetBundler {
+  private assets = new Map<string, PackageAsset>();
+
+  /**
+   * Bundle one image and return its path inside the package
+   * Identical images are stored once.
+   * @throws Error if the image is remote, missing or not a supported type
+   */
+  async add(imageUrl: string): Promise<string> {
+    const { data, extension } = await ScormAssetBundler.load(imageUrl);
+
+    const hash = crypto.createHash('sha1').update(data).digest('hex').slice(0, 16);
+    const href = `${PACKAGE_ASSETS_DIR}/${hash}.${extension}`;
+
+    if (!this.assets.has(href)) {
+      this.assets.set(href, { href, data, mimeType: IMAGE_TYPES[extension] });
+    }
+
+    return href;
+  }
+
+  /**
+   * All bundled assets, in the order they were first added
+   */
+  list(): PackageAsset[] {
+    return [...this.assets.values()];
+  }
+
+  /**
+   * Read an image reference into memory
+   */
+  static async load(imageUrl: string): Promise<{ data: Buffer; extension: string }> {
+    const reference = imageUrl.trim();
+
+    if (/^data:/i.test(reference)) {
+      return this.decodeDataUri(reference);
+    }
+
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(reference) && !/^file:/i.test(reference)) {
+      throw new Error(
+        `Remote image URLs cannot be bundled: ${reference}. Download the image and reference it from local disk.`
+      );
+    }
+
+    const filePath = this.resolveLocalPath(reference);
+    const extension = this.extensionOf(filePath);
+
+    try {
+      return { data: await fs.readFile(filePath), extension };
+    } catch {
+      throw new Error(`Image not found: ${reference}`);
+    }
+  }
+
+  /**
+   * Decode a base64 or percent-encoded data URI
+   */
+  static decodeDataUri(uri: string): { data: Buffer; extension: string } {
+    const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),(.*)$/is);
+
+    if (!match) {
+      throw new Error('Malformed data URI');
+    }
+
+    const mimeType = match[1].toLowerCase();
+    const extension = Object.keys(IMAGE_TYPES).find((ext) => IMAGE_TYPES[ext] === mimeType);
+
+    if (!extension) {
+      throw new Error(`Unsupported image type in data URI: ${mimeType || 'none'}`);
+    }
+
+    const isBase64 = /;base64/i.test(match[2]);
+    const data = isBase64
+      ? Buffer.from(match[3], 'base64')
+      : Buffer.from(decodeURIComponent(match[3]), 'utf-8');
+
+    return { data, extension };
+  }
+
+  /**
+   * Map a file: URL or path to an absolute path under ASSETS_ROOT
+   */
+  static resolveLocalPath(reference: string, root = ASSETS_ROOT): string {
+    const filePath = /^file:/i.test(reference)
+      ? fileURLToPath(reference)
+      : path.resolve(root, reference);
+
+    const relative = path.relative(root, filePath);
+
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Image path is outside the assets directory: ${reference}`);
+    }
+
+    return filePath;
+  }
+
+  private static extensionOf(filePath: string): string {
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+
+    if (!IMAGE_TYPES[extension]) {
+      throw new Error(`Unsupported image type: ${path.basename(filePath)}`);
+    }
+
+    return extension;
+  }
+}
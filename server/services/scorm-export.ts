@@ -0,0 +1,373 @@
+/**
+ * SCORM Export Service
+ * Builds a SCORM package zip for a project into the exports directory
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { CMI5PackageGenerator, XAPI_ACTIVITY_BASE } from './cmi5.js';
+import { CourseDocument } from './course-document.js';
+import { MAX_FILL_IN_LENGTH } from './quiz.js';
+import { QuizAssessmentService } from './quiz-assessment.js';
+import { QuizDrawQuestion, QuizDrawSettings } from './quiz-draw.js';
+import { QuizScoringQuestion } from './quiz-scoring.js';
+import { ScormAssetBundler } from './scorm-assets.js';
+import {
+  SCORMVersion,
+  SCORMConfig,
+  SCORMPackageGenerator,
+  SCOPage,
+  SCORMSequencing,
+  SuspendDataManager,
+} from './scorm.js';
+import { ScormPackageValidator, ValidationReport } from './scorm-validator.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Where finished packages are written
+ */
+export const EXPORTS_DIR = path.join(process.cwd(), 'exports');
+
+/**
+ * Where packages are unpacked for the test harness (one directory per job)
+ */
+export const PREVIEW_DIR = path.join(EXPORTS_DIR, 'preview');
+
+/**
+ * Options chosen when requesting an export
+ */
+export interface ScormExportOptions {
+  version: '1.2' | '2004' | 'cmi5';
+  passingScore: number; // Percentage (0-100)
+  masteryScore: number; // Percentage (0-100)
+  packaging?: 'single' | 'multi'; // One SCO for the course, or one per lesson plus assessment
+  sequencing?: SCORMSequencing; // SCORM 2004 only
+}
+
+type PlayerCourseData = {
+  title: string;
+  description: string | null;
+  lessons: Array<{
+    id?: number;
+    contentId: string;
+    slideId: number;
+    timestampStart: string;
+    contentSummary: string;
+    imageUrl: string | null;
+    visualReasoning: string | null;
+  }>;
+  quiz: Array<
+    QuizDrawQuestion &
+      QuizScoringQuestion & {
+      contentId: string;
+      question: string;
+      explanation: string;
+      maxLength?: number; // Fill-in only
+    }
+  >;
+  assessment: QuizDrawSettings;
+  meta: unknown;
+};
+
+const VERSIONS: Record<ScormExportOptions['version'], SCORMVersion> = {
+  '1.2': SCORMVersion.SCORM_1_2,
+  '2004': SCORMVersion.SCORM_2004,
+  cmi5: SCORMVersion.CMI5,
+};
+
+/**
+ * Lesson item titles in the LMS table of contents are cut at this length
+ */
+const SCO_TITLE_MAX_LENGTH = 60;
+
+/**
+ * Hex characters per part of the course revision
+ */
+const REVISION_HASH_LENGTH = 6;
+
+export interface ScormExportResult {
+  filename: string;
+  outputPath: string;
+  fileSize: number;
+  suspendDataSize: number;
+  validation: ValidationReport;
+}
+
+/**
+ * Progress callback: percentage (0-100) and a short step label
+ */
+export type ExportProgressHandler = (progress: number, step: string) => Promise<void> | void;
+
+export class ScormExportService {
+  /**
+   * Build the SCORM package for a course (a project snapshot)
+   * @throws Error if suspend data would overflow or the finished package
+   * fails validation
+   */
+  static async build(
+    projectId: number,
+    course: CourseDocument,
+    options: ScormExportOptions,
+    onProgress: ExportProgressHandler = () => {}
+  ): Promise<ScormExportResult> {
+    await onProgress(10, 'Bundling images');
+
+    // Copy lesson images into the package and point lessons at the copies
+    const assets = new ScormAssetBundler();
+    const imageHrefs = new Map<number, string>();
+
+    for (const [index, lesson] of course.lessons.entries()) {
+      if (!lesson.imageUrl) {
+        continue;
+      }
+
+      try {
+        imageHrefs.set(index, await assets.add(lesson.imageUrl));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Lesson ${index + 1}: ${reason}`);
+      }
+    }
+
+    // Prepare course data for player
+    const weights = QuizAssessmentService.sectionWeights(course.assessment);
+    const courseData: PlayerCourseData = {
+      title: course.project.title,
+      description: course.project.description,
+      lessons: course.lessons.map((lesson, index) => ({
+        id: lesson.id,
+        contentId: lesson.contentId!,
+        slideId: lesson.slideId,
+        timestampStart: lesson.timestampStart,
+        contentSummary: lesson.contentSummary,
+        imageUrl: imageHrefs.get(index) ?? null,
+        visualReasoning: lesson.visualReasoning,
+      })),
+      quiz: course.quiz.map((q) => ({
+        contentId: q.contentId!,
+        type: q.type,
+        ...(q.bankId ? { bank: q.bankId } : {}),
+        question: q.question,
+        options: q.options,
+        correctAnswer: q.correctAnswer,
+        ...(q.type === 'matching' ? { prompts: q.settings?.prompts ?? [] } : {}),
+        ...(q.type === 'fill-in'
+          ? { caseSensitive: q.settings?.caseSensitive ?? false, maxLength: MAX_FILL_IN_LENGTH }
+          : {}),
+        ...(q.settings?.points !== undefined ? { points: q.settings.points } : {}),
+        ...(q.settings?.penalty ? { penalty: q.settings.penalty } : {}),
+        ...(q.settings?.partialCredit ? { partialCredit: true } : {}),
+        ...(q.sectionId && weights.has(q.sectionId) ? { weight: weights.get(q.sectionId) } : {}),
+        explanation: q.explanation,
+      })),
+      assessment: QuizAssessmentService.toDrawSettings(course.assessment),
+      meta: course.meta,
+    };
+
+    await onProgress(20, 'Validating suspend data');
+
+    // Validate suspend data size (simulate worst case)
+    // cmi5 keeps it in the LRS State API, which has no size limit.
+    const testSuspendData = SuspendDataManager.worstCase(course.lessons.length, courseData.quiz);
+
+    if (options.version !== 'cmi5' && !SuspendDataManager.validate(testSuspendData)) {
+      throw new Error(
+        `Suspend data exceeds SCORM 1.2 limit. Current size: ${SuspendDataManager.getSize(
+          testSuspendData
+        )} characters. Consider reducing quiz questions.`
+      );
+    }
+
+    await onProgress(40, 'Rendering player');
+
+    // Load HTML template
+    const templatePath = path.join(__dirname, 'scorm-player-template.html');
+    const htmlTemplate = await fs.readFile(templatePath, 'utf-8');
+
+    // One page for the whole course, or one per SCO
+    const scos =
+      options.packaging === 'multi' ? this.buildSCOPages(htmlTemplate, courseData, options) : null;
+    const html = scos ? '' : this.renderPlayer(htmlTemplate, courseData, options);
+
+    // Create SCORM config
+    const scormConfig: SCORMConfig = {
+      version: VERSIONS[options.version],
+      courseTitle: course.project.title,
+      courseDescription: course.project.description || '',
+      passingScore: options.passingScore,
+      masteryScore: options.masteryScore,
+      sequencing: options.sequencing,
+    };
+
+    await onProgress(60, 'Building package');
+
+    // Generate package
+    await fs.mkdir(EXPORTS_DIR, { recursive: true });
+
+    const timestamp = Date.now();
+    const filename = `${course.project.title.replace(/[^a-z0-9]/gi, '_')}_${timestamp}.zip`;
+    const outputPath = path.join(EXPORTS_DIR, filename);
+
+    if (options.version === 'cmi5') {
+      const pages = scos ?? [
+        {
+          identifier: 'COURSE',
+          title: course.project.title,
+          href: 'index.html',
+          html,
+          assessment: course.quiz.length > 0,
+        },
+      ];
+      const courseIri = `${XAPI_ACTIVITY_BASE}/courses/${projectId}`;
+
+      await CMI5PackageGenerator.createPackage(scormConfig, pages, courseIri, outputPath, assets.list());
+    } else if (scos) {
+      await SCORMPackageGenerator.createMultiSCOPackage(scormConfig, scos, outputPath, assets.list());
+    } else {
+      await SCORMPackageGenerator.createPackage(scormConfig, html, outputPath, assets.list());
+    }
+
+    await onProgress(90, 'Validating package');
+
+    // Never hand out a package an LMS would reject
+    const validation = ScormPackageValidator.validateFile(outputPath, options.version);
+
+    if (!validation.valid) {
+      await fs.rm(outputPath, { force: true });
+
+      const errors = validation.issues
+        .filter((issue) => issue.severity === 'error')
+        .map((issue) => (issue.location ? `${issue.location}: ${issue.message}` : issue.message));
+
+      throw new Error(`Package failed validation: ${errors.join('; ')}`);
+    }
+
+    const stats = await fs.stat(outputPath);
+
+    return {
+      filename,
+      outputPath,
+      fileSize: stats.size,
+      suspendDataSize: SuspendDataManager.getSize(testSuspendData),
+      validation,
+    };
+  }
+
+  /**
+   * One SCO per lesson, then a final assessment SCO when there is a quiz
+   * Each page is the regular player limited to its own slice of the course.
+   */
+  private static buildSCOPages(
+    template: string,
+    courseData: PlayerCourseData,
+    options: ScormExportOptions
+  ): SCOPage[] {
+    const scos: SCOPage[] = courseData.lessons.map((lesson, index) => ({
+      identifier: `LESSON-${index + 1}`,
+      title: this.lessonTitle(index, lesson.contentSummary),
+      href: `lesson-${index + 1}.html`,
+      html: this.renderPlayer(template, { ...courseData, lessons: [lesson], quiz: [] }, options),
+      assessment: false,
+    }));
+
+    if (courseData.quiz.length > 0) {
+      const intro = {
+        contentId: 'assessment',
+        slideId: courseData.lessons.length + 1,
+        timestampStart: '00:00',
+        contentSummary: 'Answer every question below to complete the assessment.',
+        imageUrl: null,
+        visualReasoning: null,
+      };
+
+      scos.push({
+        identifier: 'ASSESSMENT',
+        title: 'Final Assessment',
+        href: 'assessment.html',
+        html: this.renderPlayer(template, { ...courseData, lessons: [intro] }, options),
+        assessment: true,
+      });
+    }
+
+    if (scos.length === 0) {
+      throw new Error('Course has no lessons or quiz questions to export');
+    }
+
+    return scos;
+  }
+
+  /**
+   * Course revision stored in learner bookmarks: "<lessons>-<quiz>"
+   * The lesson part changes when slides are added, removed or reordered;
+   * the quiz part also when options or question types change, since answers
+   * are option letters, and when banks or shuffling change the draw a saved
+   * seed gives. Single-choice questions without randomization hash as they
+   * did before question types and banks, so republishing an older course
+   * keeps its bookmarks.
+   */
+  private static revision(courseData: PlayerCourseData): string {
+    const hash = (value: unknown) =>
+      createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, REVISION_HASH_LENGTH);
+
+    const questions = courseData.quiz.map((q) => {
+      const key = q.type === 'single' ? [q.contentId, q.options] : [q.contentId, q.options, q.type, q.prompts ?? null];
+      return q.bank ? [...key, q.bank] : key;
+    });
+    const { banks, shuffleQuestions, shuffleOptions } = courseData.assessment;
+    const randomized = banks.length > 0 || shuffleQuestions || shuffleOptions;
+
+    return `${hash(courseData.lessons.map((lesson) => lesson.contentId))}-${hash(
+      randomized ? [questions, courseData.assessment] : questions
+    )}`;
+  }
+
+  /**
+   * "Lesson 3: First words of the summary…"
+   */
+  private static lessonTitle(index: number, summary: string): string {
+    const text = summary.replace(/\s+/g, ' ').trim();
+
+    if (!text) {
+      return `Lesson ${index + 1}`;
+    }
+
+    const short =
+      text.length > SCO_TITLE_MAX_LENGTH
+        ? `${text.slice(0, SCO_TITLE_MAX_LENGTH).replace(/\s+\S*$/, '')}…`
+        : text;
+
+    return `Lesson ${index + 1}: ${short}`;
+  }
+
+  /**
+   * Fill the player template placeholders
+   * Replacer functions keep `$&`-style patterns in course text literal, and
+   * `<` is escaped so lesson text cannot close the data script.
+   */
+  private static renderPlayer(
+    template: string,
+    courseData: PlayerCourseData,
+    options: ScormExportOptions
+  ): string {
+    const playerData = { ...courseData, revision: this.revision(courseData) };
+
+    return template
+      .replace(/\{\{RUNTIME_SCRIPT\}\}/g, options.version === 'cmi5' ? 'cmi5.js' : 'scorm.js')
+      .replace(/\{\{COURSE_TITLE\}\}/g, () => this.escapeHtml(courseData.title))
+      .replace(/\{\{COURSE_DATA\}\}/g, () => JSON.stringify(playerData).replace(/</g, '\\u003c'))
+      .replace(/\{\{PASSING_SCORE\}\}/g, options.passingScore.toString())
+      .replace(/\{\{HAS_QUIZ\}\}/g, courseData.quiz.length > 0 ? 'true' : 'false');
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * SCORM Test Harness - Test Suite
+ *
+ * Verifies session states, data model rules and error codes of the mock
+ * SCORM 1.2 and 2004 APIs, and what the LMS stores when a session ends.
+ */
+
+import { SCORMHarnessRuntime } from './scorm-harness.js';
+
+const createHarnessAPI = new Function(
+  `${SCORMHarnessRuntime.generate()}; return createHarnessAPI;`
+)() as (version: '1.2' | '2004', options?: Record<string, unknown>) => Record<string, (...args: string[]) => string>;
+
+describe('SCORM 1.2 API', () => {
+  it('enforces session state and element access', () => {
+    const api = createHarnessAPI('1.2');
+
+    expect(api.LMSGetValue('cmi.core.lesson_status')).toBe('');
+    expect(api.LMSGetLastError()).toBe('301');
+
+    expect(api.LMSInitialize('')).toBe('true');
+    expect(api.LMSInitialize('')).toBe('false');
+    expect(api.LMSGetLastError()).toBe('101');
+
+    expect(api.LMSGetValue('cmi.core.lesson_status')).toBe('not attempted');
+    expect(api.LMSSetValue('cmi.core.student_id', 'x')).toBe('false');
+    expect(api.LMSGetLastError()).toBe('403');
+    expect(api.LMSGetValue('cmi.core.exit')).toBe('');
+    expect(api.LMSGetLastError()).toBe('404');
+    expect(api.LMSSetValue('cmi.core._children', 'x')).toBe('false');
+    expect(api.LMSGetLastError()).toBe('402');
+    expect(api.LMSGetValue('cmi.core.lesson_status._children')).toBe('');
+    expect(api.LMSGetLastError()).toBe('202');
+    expect(api.LMSGetErrorString('202')).toBe('Element cannot have children');
+  });
+
+  it('validates value types and array indices', () => {
+    const api = createHarnessAPI('1.2');
+    api.LMSInitialize('');
+
+    expect(api.LMSSetValue('cmi.core.lesson_status', 'not attempted')).toBe('false');
+    expect(api.LMSSetValue('cmi.core.score.raw', '101')).toBe('false');
+    expect(api.LMSGetLastError()).toBe('405');
+    expect(api.LMSSetValue('cmi.suspend_data', 'x'.repeat(4097))).toBe('false');
+    expect(api.LMSSetValue('cmi.core.session_time', '00:01:30.5')).toBe('true');
+
+    expect(api.LMSSetValue('cmi.interactions.1.id', 'q1')).toBe('false');
+    expect(api.LMSGetLastError()).toBe('201');
+    expect(api.LMSSetValue('cmi.interactions.0.id', 'q1')).toBe('true');
+    expect(api.LMSGetValue('cmi.interactions._count')).toBe('1');
+  });
+
+  it('applies the mastery score and resume entry when the session finishes', () => {
+    let stored: Record<string, string> = {};
+    const api = createHarnessAPI('1.2', { masteryScore: 80, onCommit: (data: Record<string, string>) => (stored = data) });
+
+    api.LMSInitialize('');
+    api.LMSSetValue('cmi.core.lesson_status', 'completed');
+    api.LMSSetValue('cmi.core.score.raw', '85');
+    api.LMSSetValue('cmi.core.session_time', '0000:01:30');
+    api.LMSSetValue('cmi.core.exit', 'suspend');
+    expect(api.LMSFinish('')).toBe('true');
+
+    expect(stored['cmi.core.lesson_status']).toBe('passed');
+    expect(stored['cmi.core.entry']).toBe('resume');
+    expect(stored['cmi.core.total_time']).toBe('0000:01:30');
+    expect(stored['cmi.core.exit']).toBeUndefined();
+
+    const resumed = createHarnessAPI('1.2', { data: stored });
+    resumed.LMSInitialize('');
+    expect(resumed.LMSGetValue('cmi.core.entry')).toBe('resume');
+    expect(resumed.LMSGetValue('cmi.core.score.raw')).toBe('85');
+  });
+});
+
+describe('SCORM 2004 API', () => {
+  it('reports state errors with the 2004 codes', () => {
+    const api = createHarnessAPI('2004');
+
+    expect(api.SetValue('cmi.location', '1')).toBe('false');
+    expect(api.GetLastError()).toBe('132');
+    expect(api.Terminate('')).toBe('false');
+    expect(api.GetLastError()).toBe('112');
+
+    api.Initialize('');
+    expect(api.GetValue('cmi.location')).toBe('');
+    expect(api.GetLastError()).toBe('403');
+    expect(api.GetValue('cmi.nothing')).toBe('');
+    expect(api.GetLastError()).toBe('401');
+    expect(api.SetValue('cmi._version', '2')).toBe('false');
+    expect(api.GetLastError()).toBe('404');
+
+    api.Terminate('');
+    expect(api.Commit('')).toBe('false');
+    expect(api.GetLastError()).toBe('143');
+    expect(api.Initialize('')).toBe('false');
+    expect(api.GetLastError()).toBe('104');
+  });
+
+  it('checks ranges, formats and interaction dependencies', () => {
+    const api = createHarnessAPI('2004');
+    api.Initialize('');
+
+    expect(api.SetValue('cmi.score.scaled', '1.5')).toBe('false');
+    expect(api.GetLastError()).toBe('407');
+    expect(api.SetValue('cmi.session_time', '00:05:00')).toBe('false');
+    expect(api.GetLastError()).toBe('406');
+    expect(api.SetValue('cmi.session_time', 'PT5M3.25S')).toBe('true');
+
+    expect(api.SetValue('cmi.interactions.0.type', 'choice')).toBe('false');
+    expect(api.GetLastError()).toBe('408');
+    expect(api.SetValue('cmi.interactions.0.id', 'q1')).toBe('true');
+    expect(api.SetValue('cmi.interactions.0.learner_response', 'a')).toBe('false');
+    expect(api.GetLastError()).toBe('408');
+    expect(api.SetValue('cmi.interactions.0.type', 'choice')).toBe('true');
+    expect(api.SetValue('cmi.interactions.0.learner_response', 'a[,]b')).toBe('true');
+    expect(api.SetValue('cmi.interactions.0.learner_response', 'a b')).toBe('false');
+    expect(api.GetLastError()).toBe('406');
+    expect(api.GetValue('cmi.interactions.0.correct_responses._count')).toBe('0');
+  });
+
+  it('traces every call and passes navigation requests on terminate', () => {
+    const trace: Array<Record<string, unknown>> = [];
+    let finished: [Record<string, string>, string] | null = null;
+
+    const api = createHarnessAPI('2004', {
+      scaledPassingScore: 0.7,
+      onTrace: (entry: Record<string, unknown>) => trace.push(entry),
+      onFinish: (data: Record<string, string>, navRequest: string) => (finished = [data, navRequest]),
+    });
+
+    api.Initialize('');
+    api.SetValue('cmi.score.scaled', '0.5');
+    api.SetValue('adl.nav.request', 'continue');
+    api.Terminate('');
+
+    expect(trace.map((entry) => entry.method)).toEqual(['Initialize', 'SetValue', 'SetValue', 'Terminate']);
+    expect(trace[1]).toMatchObject({ args: ['cmi.score.scaled', '0.5'], result: 'true', errorCode: '0' });
+    expect(finished![1]).toBe('continue');
+    expect(finished![0]['cmi.success_status']).toBe('failed');
+  });
+});
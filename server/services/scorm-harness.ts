@@ -0,0 +1,777 @@
+/**
+ * SCORM Test Harness
+ * Mock LMS run-time used to preview packages without an external LMS
+ *
+ * The generated runtime implements the SCORM 1.2 API (window.API) and the
+ * SCORM 2004 API (window.API_1484_11) as the specifications describe them:
+ * session states, data model elements with their access rules and value
+ * types, array counts and dependencies, and the standard error codes.
+ * Every call is reported through onTrace so the harness page can show it.
+ *
+ * SCOs run in a sandboxed frame with an opaque origin, so the API cannot
+ * live on the harness page: the preview routes inject the runtime and the
+ * bridge into every page of the package, and the bridge creates the API in
+ * the frame and reports to the harness page with postMessage.
+ */
+
+export type HarnessVersion = '1.2' | '2004';
+
+/**
+ * Flat CMI data as stored between sessions, keyed by element name
+ * (e.g. "cmi.core.lesson_status", "cmi.interactions.0.id")
+ */
+export type HarnessCMIData = Record<string, string>;
+
+/**
+ * Harness Runtime Generator
+ */
+export class SCORMHarnessRuntime {
+  /**
+   * Generate the harness runtime
+   * Defines createHarnessAPI(version, options), where options are:
+   * - data: stored CMI data from the previous session ({} on first launch)
+   * - learner: { id, name }
+   * - masteryScore (1.2) / scaledPassingScore (2004) from the manifest item
+   * - onCommit(data), onFinish(data, navRequest), onTrace(entry)
+   */
+  static generate(): string {
+    return `
+// SCORM Test Harness Runtime
+var HARNESS_ERRORS = {
+  "1.2": {
+    "0": "No error",
+    "101": "General exception",
+    "201": "Invalid argument error",
+    "202": "Element cannot have children",
+    "203": "Element not an array - cannot have count",
+    "301": "Not initialized",
+    "401": "Not implemented error",
+    "402": "Invalid set value, element is a keyword",
+    "403": "Element is read only",
+    "404": "Element is write only",
+    "405": "Incorrect data type"
+  },
+  "2004": {
+    "0": "No Error",
+    "101": "General Exception",
+    "102": "General Initialization Failure",
+    "103": "Already Initialized",
+    "104": "Content Instance Terminated",
+    "111": "General Termination Failure",
+    "112": "Termination Before Initialization",
+    "113": "Termination After Termination",
+    "122": "Retrieve Data Before Initialization",
+    "123": "Retrieve Data After Termination",
+    "132": "Store Data Before Initialization",
+    "133": "Store Data After Termination",
+    "142": "Commit Before Initialization",
+    "143": "Commit After Termination",
+    "201": "General Argument Error",
+    "301": "General Get Failure",
+    "351": "General Set Failure",
+    "391": "General Commit Failure",
+    "401": "Undefined Data Model Element",
+    "402": "Unimplemented Data Model Element",
+    "403": "Data Model Element Value Not Initialized",
+    "404": "Data Model Element Is Read Only",
+    "405": "Data Model Element Is Write Only",
+    "406": "Data Model Element Type Mismatch",
+    "407": "Data Model Element Value Out Of Range",
+    "408": "Data Model Dependency Not Established"
+  }
+};
+
+// Error code for each failure condition, per version
+var HARNESS_CODES = {
+  "1.2": {
+    alreadyInitialized: "101", terminated: "101",
+    terminateBeforeInit: "301", terminateAfterTerm: "101",
+    getBeforeInit: "301", getAfterTerm: "101",
+    setBeforeInit: "301", setAfterTerm: "101",
+    commitBeforeInit: "301", commitAfterTerm: "101",
+    argument: "201", getFailure: "201", setFailure: "201",
+    undefinedElement: "201", keyword: "402", noChildren: "202", notArray: "203",
+    readOnly: "403", writeOnly: "404", typeMismatch: "405", outOfRange: "405",
+    dependency: "201"
+  },
+  "2004": {
+    alreadyInitialized: "103", terminated: "104",
+    terminateBeforeInit: "112", terminateAfterTerm: "113",
+    getBeforeInit: "122", getAfterTerm: "123",
+    setBeforeInit: "132", setAfterTerm: "133",
+    commitBeforeInit: "142", commitAfterTerm: "143",
+    argument: "201", getFailure: "301", setFailure: "351",
+    undefinedElement: "401", keyword: "404", noChildren: "301", notArray: "301",
+    readOnly: "404", writeOnly: "405", typeMismatch: "406", outOfRange: "407",
+    dependency: "408", notInitialized: "403"
+  }
+};
+
+var STATUS_12 = ["passed", "completed", "failed", "incomplete", "browsed"];
+var INTERACTION_TYPES_12 = ["true-false", "choice", "fill-in", "matching", "performance", "sequencing", "likert", "numeric"];
+var COMPLETION_2004 = ["completed", "incomplete", "not attempted", "unknown"];
+var SUCCESS_2004 = ["passed", "failed", "unknown"];
+var INTERACTION_TYPES_2004 = ["true-false", "choice", "fill-in", "long-fill-in", "likert", "matching", "performance", "sequencing", "numeric", "other"];
+var NAV_REQUESTS = ["continue", "previous", "exit", "exitAll", "abandon", "abandonAll", "suspendAll", "_none_"];
+
+// Data model definitions; numeric array indices are written as "n"
+// a: access (ro, rw, wo), t: value type, plus type-specific limits
+var HARNESS_MODELS = {
+  "1.2": {
+    "cmi.core._children": { a: "ro", t: "children", children: "student_id,student_name,lesson_location,credit,lesson_status,entry,score,total_time,lesson_mode,exit,session_time" },
+    "cmi.core.student_id": { a: "ro" },
+    "cmi.core.student_name": { a: "ro" },
+    "cmi.core.lesson_location": { a: "rw", t: "string", max: 255 },
+    "cmi.core.credit": { a: "ro" },
+    "cmi.core.lesson_status": { a: "rw", t: "vocab", v: STATUS_12 },
+    "cmi.core.entry": { a: "ro" },
+    "cmi.core.score._children": { a: "ro", t: "children", children: "raw,min,max" },
+    "cmi.core.score.raw": { a: "rw", t: "decimal", min: 0, max: 100, blank: true },
+    "cmi.core.score.min": { a: "rw", t: "decimal", min: 0, max: 100, blank: true },
+    "cmi.core.score.max": { a: "rw", t: "decimal", min: 0, max: 100, blank: true },
+    "cmi.core.total_time": { a: "ro" },
+    "cmi.core.lesson_mode": { a: "ro" },
+    "cmi.core.exit": { a: "wo", t: "vocab", v: ["time-out", "suspend", "logout", ""] },
+    "cmi.core.session_time": { a: "wo", t: "timespan" },
+    "cmi.suspend_data": { a: "rw", t: "string", max: 4096 },
+    "cmi.launch_data": { a: "ro" },
+    "cmi.comments": { a: "rw", t: "string", max: 4096 },
+    "cmi.comments_from_lms": { a: "ro" },
+    "cmi.student_data._children": { a: "ro", t: "children", children: "mastery_score,max_time_allowed,time_limit_action" },
+    "cmi.student_data.mastery_score": { a: "ro" },
+    "cmi.student_data.max_time_allowed": { a: "ro" },
+    "cmi.student_data.time_limit_action": { a: "ro" },
+    "cmi.student_preference._children": { a: "ro", t: "children", children: "audio,language,speed,text" },
+    "cmi.student_preference.audio": { a: "rw", t: "integer", min: -1, max: 100 },
+    "cmi.student_preference.language": { a: "rw", t: "string", max: 255 },
+    "cmi.student_preference.speed": { a: "rw", t: "integer", min: -100, max: 100 },
+    "cmi.student_preference.text": { a: "rw", t: "integer", min: -1, max: 1 },
+    "cmi.objectives._children": { a: "ro", t: "children", children: "id,score,status" },
+    "cmi.objectives._count": { a: "ro", t: "count" },
+    "cmi.objectives.n.id": { a: "rw", t: "identifier" },
+    "cmi.objectives.n.score._children": { a: "ro", t: "children", children: "raw,min,max" },
+    "cmi.objectives.n.score.raw": { a: "rw", t: "decimal", min: 0, max: 100, blank: true },
+    "cmi.objectives.n.score.min": { a: "rw", t: "decimal", min: 0, max: 100, blank: true },
+    "cmi.objectives.n.score.max": { a: "rw", t: "decimal", min: 0, max: 100, blank: true },
+    "cmi.objectives.n.status": { a: "rw", t: "vocab", v: STATUS_12.concat(["not attempted"]) },
+    "cmi.interactions._children": { a: "ro", t: "children", children: "id,objectives,time,type,correct_responses,weighting,student_response,result,latency" },
+    "cmi.interactions._count": { a: "ro", t: "count" },
+    "cmi.interactions.n.id": { a: "wo", t: "identifier" },
+    "cmi.interactions.n.objectives._count": { a: "ro", t: "count" },
+    "cmi.interactions.n.objectives.n.id": { a: "wo", t: "identifier" },
+    "cmi.interactions.n.time": { a: "wo", t: "time" },
+    "cmi.interactions.n.type": { a: "wo", t: "vocab", v: INTERACTION_TYPES_12 },
+    "cmi.interactions.n.correct_responses._count": { a: "ro", t: "count" },
+    "cmi.interactions.n.correct_responses.n.pattern": { a: "wo", t: "string", max: 255 },
+    "cmi.interactions.n.weighting": { a: "wo", t: "decimal" },
+    "cmi.interactions.n.student_response": { a: "wo", t: "string", max: 255 },
+    "cmi.interactions.n.result": { a: "wo", t: "result", v: ["correct", "wrong", "unanticipated", "neutral"] },
+    "cmi.interactions.n.latency": { a: "wo", t: "timespan" }
+  },
+  "2004": {
+    "cmi._version": { a: "ro" },
+    "cmi.comments_from_learner._children": { a: "ro", t: "children", children: "comment,location,timestamp" },
+    "cmi.comments_from_learner._count": { a: "ro", t: "count" },
+    "cmi.comments_from_learner.n.comment": { a: "rw", t: "string", spm: 4000 },
+    "cmi.comments_from_learner.n.location": { a: "rw", t: "string", spm: 250 },
+    "cmi.comments_from_learner.n.timestamp": { a: "rw", t: "timestamp" },
+    "cmi.comments_from_lms._children": { a: "ro", t: "children", children: "comment,location,timestamp" },
+    "cmi.comments_from_lms._count": { a: "ro", t: "count" },
+    "cmi.completion_status": { a: "rw", t: "vocab", v: COMPLETION_2004 },
+    "cmi.completion_threshold": { a: "ro" },
+    "cmi.credit": { a: "ro" },
+    "cmi.entry": { a: "ro" },
+    "cmi.exit": { a: "wo", t: "vocab", v: ["time-out", "suspend", "logout", "normal", ""] },
+    "cmi.interactions._children": { a: "ro", t: "children", children: "id,type,objectives,timestamp,correct_responses,weighting,learner_response,result,latency,description" },
+    "cmi.interactions._count": { a: "ro", t: "count" },
+    "cmi.interactions.n.id": { a: "rw", t: "identifier" },
+    "cmi.interactions.n.type": { a: "rw", t: "vocab", v: INTERACTION_TYPES_2004 },
+    "cmi.interactions.n.objectives._count": { a: "ro", t: "count" },
+    "cmi.interactions.n.objectives.n.id": { a: "rw", t: "identifier" },
+    "cmi.interactions.n.timestamp": { a: "rw", t: "timestamp" },
+    "cmi.interactions.n.correct_responses._count": { a: "ro", t: "count" },
+    "cmi.interactions.n.correct_responses.n.pattern": { a: "rw", t: "response", pattern: true },
+    "cmi.interactions.n.weighting": { a: "rw", t: "real" },
+    "cmi.interactions.n.learner_response": { a: "rw", t: "response" },
+    "cmi.interactions.n.result": { a: "rw", t: "result", v: ["correct", "incorrect", "unanticipated", "neutral"] },
+    "cmi.interactions.n.latency": { a: "rw", t: "duration" },
+    "cmi.interactions.n.description": { a: "rw", t: "string", spm: 250 },
+    "cmi.launch_data": { a: "ro" },
+    "cmi.learner_id": { a: "ro" },
+    "cmi.learner_name": { a: "ro" },
+    "cmi.learner_preference._children": { a: "ro", t: "children", children: "audio_level,language,delivery_speed,audio_captioning" },
+    "cmi.learner_preference.audio_level": { a: "rw", t: "real", min: 0 },
+    "cmi.learner_preference.language": { a: "rw", t: "string", spm: 250 },
+    "cmi.learner_preference.delivery_speed": { a: "rw", t: "real", min: 0 },
+    "cmi.learner_preference.audio_captioning": { a: "rw", t: "vocab", v: ["-1", "0", "1"] },
+    "cmi.location": { a: "rw", t: "string", spm: 1000 },
+    "cmi.max_time_allowed": { a: "ro" },
+    "cmi.mode": { a: "ro" },
+    "cmi.objectives._children": { a: "ro", t: "children", children: "id,score,success_status,completion_status,progress_measure,description" },
+    "cmi.objectives._count": { a: "ro", t: "count" },
+    "cmi.objectives.n.id": { a: "rw", t: "identifier" },
+    "cmi.objectives.n.score._children": { a: "ro", t: "children", children: "scaled,raw,min,max" },
+    "cmi.objectives.n.score.scaled": { a: "rw", t: "real", min: -1, max: 1 },
+    "cmi.objectives.n.score.raw": { a: "rw", t: "real" },
+    "cmi.objectives.n.score.min": { a: "rw", t: "real" },
+    "cmi.objectives.n.score.max": { a: "rw", t: "real" },
+    "cmi.objectives.n.success_status": { a: "rw", t: "vocab", v: SUCCESS_2004 },
+    "cmi.objectives.n.completion_status": { a: "rw", t: "vocab", v: COMPLETION_2004 },
+    "cmi.objectives.n.progress_measure": { a: "rw", t: "real", min: 0, max: 1 },
+    "cmi.objectives.n.description": { a: "rw", t: "string", spm: 250 },
+    "cmi.progress_measure": { a: "rw", t: "real", min: 0, max: 1 },
+    "cmi.scaled_passing_score": { a: "ro" },
+    "cmi.score._children": { a: "ro", t: "children", children: "scaled,raw,min,max" },
+    "cmi.score.scaled": { a: "rw", t: "real", min: -1, max: 1 },
+    "cmi.score.raw": { a: "rw", t: "real" },
+    "cmi.score.min": { a: "rw", t: "real" },
+    "cmi.score.max": { a: "rw", t: "real" },
+    "cmi.session_time": { a: "wo", t: "duration" },
+    "cmi.success_status": { a: "rw", t: "vocab", v: SUCCESS_2004 },
+    "cmi.suspend_data": { a: "rw", t: "string", spm: 64000 },
+    "cmi.time_limit_action": { a: "ro" },
+    "cmi.total_time": { a: "ro" },
+    "adl.nav.request": { a: "rw", t: "nav" },
+    "adl.nav.request_valid.continue": { a: "ro" },
+    "adl.nav.request_valid.previous": { a: "ro" }
+  }
+};
+
+// Array elements whose entries must set "id" before anything else (2004)
+var ID_FIRST_ARRAYS = ["cmi.interactions", "cmi.objectives"];
+
+var DECIMAL = /^-?\\d+(\\.\\d+)?$/;
+var INTEGER = /^-?\\d+$/;
+var TIMESPAN_12 = /^\\d{2,4}:\\d{2}:\\d{2}(\\.\\d{1,2})?$/;
+var TIME_12 = /^\\d{2}:\\d{2}:\\d{2}(\\.\\d{1,2})?$/;
+var IDENTIFIER_12 = /^[^\\s]{1,255}$/;
+var DURATION = /^P(\\d+Y)?(\\d+M)?(\\d+D)?(T(\\d+H)?(\\d+M)?(\\d+(\\.\\d{1,2})?S)?)?$/;
+var TIMESTAMP = /^\\d{4}(-\\d{2}(-\\d{2}(T\\d{2}(:\\d{2}(:\\d{2}(\\.\\d{1,2})?)?)?(Z|[+-]\\d{2}(:\\d{2})?)?)?)?)?$/;
+var DELIMITER = "[,]";
+
+function createHarnessAPI(version, options) {
+  var is2004 = version === "2004";
+  var model = HARNESS_MODELS[version];
+  var codes = HARNESS_CODES[version];
+  var errors = HARNESS_ERRORS[version];
+  var state = "not initialized";
+  var lastError = { code: "0", diagnostic: "" };
+  var warning = "";
+  var data = createInitialData(version, options || {});
+  var onTrace = (options && options.onTrace) || function() {};
+
+  function succeed(result) {
+    lastError = { code: "0", diagnostic: "" };
+    return result;
+  }
+
+  function fail(condition, diagnostic, result) {
+    lastError = { code: codes[condition], diagnostic: diagnostic };
+    return result;
+  }
+
+  // "cmi.interactions.3.correct_responses.0.pattern" -> "cmi.interactions.n.correct_responses.n.pattern"
+  function normalize(element) {
+    return element.replace(/\\.\\d+(?=\\.|$)/g, ".n");
+  }
+
+  function count(arrayPath) {
+    var prefix = arrayPath + ".";
+    var size = 0;
+
+    for (var key in data) {
+      if (key.indexOf(prefix) !== 0) continue;
+      var index = key.substring(prefix.length).split(".")[0];
+      if (/^\\d+$/.test(index)) size = Math.max(size, Number(index) + 1);
+    }
+
+    return size;
+  }
+
+  function isKnownParent(path) {
+    var prefix = normalize(path) + ".";
+    for (var key in model) {
+      if (key.indexOf(prefix) === 0) return true;
+    }
+    return false;
+  }
+
+  // Check every array index in an element path against the array's count.
+  // Returns null when the indices are valid, or the failed condition.
+  function checkIndices(element, forSet) {
+    var parts = element.split(".");
+
+    for (var i = 1; i < parts.length; i++) {
+      if (!/^\\d+$/.test(parts[i])) continue;
+
+      var arrayPath = parts.slice(0, i).join(".");
+      var index = Number(parts[i]);
+      var size = count(arrayPath);
+
+      if (index > size || (index === size && !forSet)) {
+        return forSet ? "setFailure" : "getFailure";
+      }
+
+      // A new interaction or objective must be created by setting its id
+      if (is2004 && index === size && ID_FIRST_ARRAYS.indexOf(normalize(arrayPath)) !== -1) {
+        if (parts.slice(i + 1).join(".") !== "id") return "dependency";
+      }
+    }
+
+    return null;
+  }
+
+  function validate(spec, element, value) {
+    var number = Number(value);
+
+    switch (spec.t) {
+      case "string":
+        if (spec.max !== undefined && value.length > spec.max) return "typeMismatch";
+        return null;
+      case "vocab":
+        return spec.v.indexOf(value) === -1 ? "typeMismatch" : null;
+      case "decimal":
+        if (spec.blank && value === "") return null;
+        if (!DECIMAL.test(value)) return "typeMismatch";
+        return outOfRange(spec, number) ? "outOfRange" : null;
+      case "integer":
+        if (!INTEGER.test(value)) return "typeMismatch";
+        return outOfRange(spec, number) ? "outOfRange" : null;
+      case "real":
+        if (!DECIMAL.test(value)) return "typeMismatch";
+        return outOfRange(spec, number) ? "outOfRange" : null;
+      case "timespan":
+        return TIMESPAN_12.test(value) ? null : "typeMismatch";
+      case "time":
+        return TIME_12.test(value) ? null : "typeMismatch";
+      case "identifier":
+        if (is2004) return value !== "" && !/\\s/.test(value) ? null : "typeMismatch";
+        return IDENTIFIER_12.test(value) ? null : "typeMismatch";
+      case "duration":
+        return DURATION.test(value) && value !== "P" && !/T$/.test(value) ? null : "typeMismatch";
+      case "timestamp":
+        return TIMESTAMP.test(value) ? null : "typeMismatch";
+      case "result":
+        return spec.v.indexOf(value) !== -1 || DECIMAL.test(value) ? null : "typeMismatch";
+      case "nav":
+        return NAV_REQUESTS.indexOf(value) !== -1 || /^\\{target=[^}]+\\}(choice|jump)$/.test(value)
+          ? null
+          : "typeMismatch";
+      case "response":
+        return validateResponse(element, value, !!spec.pattern);
+    }
+
+    return null;
+  }
+
+  function outOfRange(spec, number) {
+    return (spec.min !== undefined && number < spec.min) || (spec.max !== undefined && number > spec.max);
+  }
+
+  // learner_response and correct_responses formats depend on the interaction type
+  function validateResponse(element, value, isPattern) {
+    var base = element.replace(/\\.(learner_response|correct_responses\\.\\d+\\.pattern)$/, "");
+    var type = data[base + ".type"];
+
+    if (type === undefined) return "dependency";
+
+    switch (type) {
+      case "true-false":
+        return value === "true" || value === "false" ? null : "typeMismatch";
+      case "choice":
+      case "sequencing":
+        return value === "" && type === "choice" ? null : everyPart(value, function(part) {
+          return part !== "" && !/\\s/.test(part);
+        });
+      case "likert":
+        return value !== "" && !/\\s/.test(value) ? null : "typeMismatch";
+      case "matching":
+        return everyPart(value, function(part) {
+          return /^[^\\s]+\\[\\.\\][^\\s]+$/.test(part);
+        });
+      case "numeric":
+        if (!isPattern) return DECIMAL.test(value) ? null : "typeMismatch";
+        return /^(-?\\d+(\\.\\d+)?)?\\[:\\](-?\\d+(\\.\\d+)?)?$/.test(value) || DECIMAL.test(value)
+          ? null
+          : "typeMismatch";
+    }
+
+    return null;
+  }
+
+  function everyPart(value, test) {
+    var parts = value.split(DELIMITER);
+    for (var i = 0; i < parts.length; i++) {
+      if (!test(parts[i])) return "typeMismatch";
+    }
+    return null;
+  }
+
+  function checkArgument(name, value) {
+    if (value !== "" && value !== undefined) {
+      return fail("argument", name + ' must be called with an empty string, got "' + value + '"', "false");
+    }
+    return null;
+  }
+
+  var api = {
+    initialize: function(parameter) {
+      var invalid = checkArgument("Initialize", parameter);
+      if (invalid) return invalid;
+      if (state === "running") return fail("alreadyInitialized", "Initialize was already called", "false");
+      if (state === "terminated") return fail("terminated", "The session was already terminated", "false");
+
+      state = "running";
+      return succeed("true");
+    },
+
+    terminate: function(parameter) {
+      var invalid = checkArgument("Terminate", parameter);
+      if (invalid) return invalid;
+      if (state === "not initialized") return fail("terminateBeforeInit", "Initialize has not been called", "false");
+      if (state === "terminated") return fail("terminateAfterTerm", "The session was already terminated", "false");
+
+      var navRequest = data["adl.nav.request"] || "_none_";
+      finishSession(version, data, options || {});
+      state = "terminated";
+
+      if (options && options.onCommit) options.onCommit(copy(data));
+      if (options && options.onFinish) options.onFinish(copy(data), navRequest);
+      return succeed("true");
+    },
+
+    getValue: function(element) {
+      if (state === "not initialized") return fail("getBeforeInit", "Initialize has not been called", "");
+      if (state === "terminated") return fail("getAfterTerm", "The session was already terminated", "");
+      if (typeof element !== "string" || element === "") {
+        return fail("getFailure", "GetValue needs a data model element", "");
+      }
+
+      var key = normalize(element);
+      var spec = model[key];
+
+      if (/\\._children$/.test(element) && !spec) {
+        var parent = element.replace(/\\._children$/, "");
+        if (model[normalize(parent)] || isKnownParent(parent)) {
+          return fail("noChildren", parent + " does not have children", "");
+        }
+        return fail("undefinedElement", element + " is not a data model element", "");
+      }
+      if (/\\._count$/.test(element) && !spec) {
+        var path = element.replace(/\\._count$/, "");
+        if (model[normalize(path)] || isKnownParent(path)) {
+          return fail("notArray", path + " is not an array", "");
+        }
+        return fail("undefinedElement", element + " is not a data model element", "");
+      }
+      if (!spec) return fail("undefinedElement", element + " is not a data model element", "");
+      if (spec.a === "wo") return fail("writeOnly", element + " is write only", "");
+
+      var indexError = checkIndices(element, false);
+      if (indexError) return fail(indexError, element + " is beyond the array's _count", "");
+
+      if (spec.t === "children") return succeed(spec.children);
+      if (spec.t === "count") return succeed(String(count(element.replace(/\\._count$/, ""))));
+
+      if (data[element] === undefined) {
+        if (is2004) return fail("notInitialized", element + " has not been set", "");
+        return succeed("");
+      }
+
+      return succeed(data[element]);
+    },
+
+    setValue: function(element, value) {
+      if (state === "not initialized") return fail("setBeforeInit", "Initialize has not been called", "false");
+      if (state === "terminated") return fail("setAfterTerm", "The session was already terminated", "false");
+      if (typeof element !== "string" || element === "") {
+        return fail("setFailure", "SetValue needs a data model element", "false");
+      }
+
+      value = value === undefined || value === null ? "" : String(value);
+
+      var key = normalize(element);
+      var spec = model[key];
+
+      if (/\\._(children|count|version)$/.test(element)) {
+        if (!spec) return fail("undefinedElement", element + " is not a data model element", "false");
+        return fail("keyword", element + " is a keyword and cannot be set", "false");
+      }
+      if (!spec) return fail("undefinedElement", element + " is not a data model element", "false");
+      if (spec.a === "ro") return fail("readOnly", element + " is read only", "false");
+
+      var indexError = checkIndices(element, true);
+      if (indexError === "dependency") {
+        return fail("dependency", "Set the id of a new array entry before " + element, "false");
+      }
+      if (indexError) return fail(indexError, element + " skips an index of the array", "false");
+
+      if (!is2004 && element === "cmi.core.lesson_status" && value === "not attempted") {
+        return fail("typeMismatch", "The SCO cannot set lesson_status to \\"not attempted\\"", "false");
+      }
+
+      var invalid = validate(spec, element, value);
+      if (invalid === "dependency") {
+        return fail("dependency", "Set the interaction type before " + element, "false");
+      }
+      if (invalid) {
+        return fail(invalid, '"' + value + '" is not a valid value for ' + element, "false");
+      }
+
+      data[element] = value;
+
+      // Longer values are not an error, but an LMS only has to keep spm characters
+      if (spec.spm !== undefined && value.length > spec.spm) {
+        warning = element + " is " + value.length + " characters; LMSs only have to store " + spec.spm;
+      }
+
+      return succeed("true");
+    },
+
+    commit: function(parameter) {
+      var invalid = checkArgument("Commit", parameter);
+      if (invalid) return invalid;
+      if (state === "not initialized") return fail("commitBeforeInit", "Initialize has not been called", "false");
+      if (state === "terminated") return fail("commitAfterTerm", "The session was already terminated", "false");
+
+      if (options && options.onCommit) options.onCommit(copy(data));
+      return succeed("true");
+    },
+
+    getLastError: function() {
+      return lastError.code;
+    },
+
+    getErrorString: function(code) {
+      return errors[String(code)] || "";
+    },
+
+    getDiagnostic: function(code) {
+      if (code === "" || code === undefined || String(code) === lastError.code) {
+        return lastError.diagnostic || errors[lastError.code] || "";
+      }
+      return errors[String(code)] || "";
+    }
+  };
+
+  var names = is2004
+    ? ["Initialize", "Terminate", "GetValue", "SetValue", "Commit", "GetLastError", "GetErrorString", "GetDiagnostic"]
+    : ["LMSInitialize", "LMSFinish", "LMSGetValue", "LMSSetValue", "LMSCommit", "LMSGetLastError", "LMSGetErrorString", "LMSGetDiagnostic"];
+  var methods = ["initialize", "terminate", "getValue", "setValue", "commit", "getLastError", "getErrorString", "getDiagnostic"];
+  var exposed = {};
+
+  methods.forEach(function(method, index) {
+    exposed[names[index]] = function() {
+      var args = Array.prototype.slice.call(arguments);
+      var result = api[method].apply(null, args);
+      var isErrorQuery = index >= 5;
+
+      onTrace({
+        time: new Date().toISOString(),
+        method: names[index],
+        args: args,
+        result: result,
+        errorCode: isErrorQuery ? null : lastError.code,
+        diagnostic: isErrorQuery || lastError.code === "0" ? "" : lastError.diagnostic,
+        warning: warning
+      });
+
+      warning = "";
+      return result;
+    };
+  });
+
+  return exposed;
+}
+
+function copy(data) {
+  var result = {};
+  for (var key in data) result[key] = data[key];
+  return result;
+}
+
+// Data the LMS provides at launch, merged over what the previous session stored
+function createInitialData(version, options) {
+  var stored = copy(options.data || {});
+  var learner = options.learner || { id: "preview", name: "Preview, Learner" };
+  var data;
+
+  if (version === "2004") {
+    data = {
+      "cmi._version": "1.0",
+      "cmi.completion_status": "unknown",
+      "cmi.success_status": "unknown",
+      "cmi.credit": "credit",
+      "cmi.entry": "ab-initio",
+      "cmi.mode": "normal",
+      "cmi.learner_id": learner.id,
+      "cmi.learner_name": learner.name,
+      "cmi.total_time": "PT0H0M0S",
+      "cmi.time_limit_action": "continue,no message",
+      "adl.nav.request": "_none_",
+      "adl.nav.request_valid.continue": "unknown",
+      "adl.nav.request_valid.previous": "unknown"
+    };
+    if (options.scaledPassingScore !== undefined && options.scaledPassingScore !== null) {
+      data["cmi.scaled_passing_score"] = String(options.scaledPassingScore);
+    }
+    delete stored["cmi.session_time"];
+    delete stored["cmi.exit"];
+    delete stored["adl.nav.request"];
+  } else {
+    data = {
+      "cmi.core.student_id": learner.id,
+      "cmi.core.student_name": learner.name,
+      "cmi.core.lesson_location": "",
+      "cmi.core.credit": "credit",
+      "cmi.core.lesson_status": "not attempted",
+      "cmi.core.entry": "ab-initio",
+      "cmi.core.total_time": "0000:00:00",
+      "cmi.core.lesson_mode": "normal",
+      "cmi.suspend_data": "",
+      "cmi.launch_data": "",
+      "cmi.comments": "",
+      "cmi.comments_from_lms": "",
+      "cmi.student_data.mastery_score": options.masteryScore !== undefined && options.masteryScore !== null
+        ? String(options.masteryScore)
+        : ""
+    };
+    delete stored["cmi.core.session_time"];
+    delete stored["cmi.core.exit"];
+  }
+
+  for (var key in stored) data[key] = stored[key];
+  return data;
+}
+
+// What the LMS does when a session ends: accumulate time, apply mastery
+// rules and decide how the next session is entered
+function finishSession(version, data, options) {
+  if (version === "2004") {
+    data["cmi.total_time"] = formatDuration(
+      parseDuration(data["cmi.total_time"]) + parseDuration(data["cmi.session_time"] || "PT0S")
+    );
+
+    var threshold = data["cmi.completion_threshold"];
+    if (threshold !== undefined && data["cmi.progress_measure"] !== undefined) {
+      data["cmi.completion_status"] = Number(data["cmi.progress_measure"]) >= Number(threshold) ? "completed" : "incomplete";
+    }
+
+    var passing = data["cmi.scaled_passing_score"];
+    if (passing !== undefined && data["cmi.score.scaled"] !== undefined) {
+      data["cmi.success_status"] = Number(data["cmi.score.scaled"]) >= Number(passing) ? "passed" : "failed";
+    }
+
+    data["cmi.entry"] = data["cmi.exit"] === "suspend" || data["adl.nav.request"] === "suspendAll" ? "resume" : "";
+    delete data["cmi.exit"];
+    delete data["cmi.session_time"];
+    delete data["adl.nav.request"];
+    return;
+  }
+
+  data["cmi.core.total_time"] = formatTimespan(
+    parseTimespan(data["cmi.core.total_time"]) + parseTimespan(data["cmi.core.session_time"] || "00:00:00")
+  );
+
+  var mastery = data["cmi.student_data.mastery_score"];
+  var raw = data["cmi.core.score.raw"];
+  if (mastery !== "" && raw !== undefined && raw !== "" && data["cmi.core.credit"] === "credit") {
+    data["cmi.core.lesson_status"] = Number(raw) >= Number(mastery) ? "passed" : "failed";
+  } else if (data["cmi.core.lesson_status"] === "not attempted") {
+    data["cmi.core.lesson_status"] = "completed";
+  }
+
+  data["cmi.core.entry"] = data["cmi.core.exit"] === "suspend" ? "resume" : "";
+  delete data["cmi.core.exit"];
+  delete data["cmi.core.session_time"];
+}
+
+function parseTimespan(value) {
+  var parts = String(value).split(":");
+  if (parts.length !== 3) return 0;
+  return Number(parts[0]) * 3600 + Number(parts[1]) * 60 + Number(parts[2]);
+}
+
+function formatTimespan(seconds) {
+  var hours = Math.floor(seconds / 3600);
+  var minutes = Math.floor((seconds % 3600) / 60);
+  var rest = Math.round((seconds % 60) * 100) / 100;
+  return String(hours).padStart(4, "0") + ":" + String(minutes).padStart(2, "0") + ":" +
+    (rest < 10 ? "0" : "") + String(rest);
+}
+
+function parseDuration(value) {
+  var match = /^P(?:(\\d+)Y)?(?:(\\d+)M)?(?:(\\d+)D)?(?:T(?:(\\d+)H)?(?:(\\d+)M)?(\\d+(?:\\.\\d+)?S)?)?$/.exec(String(value));
+  if (!match) return 0;
+
+  var part = function(index) {
+    return match[index] ? parseFloat(match[index]) : 0;
+  };
+
+  return part(1) * 31536000 + part(2) * 2592000 + part(3) * 86400 + part(4) * 3600 + part(5) * 60 + part(6);
+}
+
+function formatDuration(seconds) {
+  var hours = Math.floor(seconds / 3600);
+  var minutes = Math.floor((seconds % 3600) / 60);
+  var rest = Math.round((seconds % 60) * 100) / 100;
+  return "PT" + hours + "H" + minutes + "M" + rest + "S";
+}
+`;
+  }
+
+  /**
+   * Generate the frame side of the harness, to run after generate()
+   * Reads the launch from the page's location hash, a JSON object with
+   * version, data, learner, masteryScore, scaledPassingScore, launchId and
+   * origin (of the harness page), exposes the API on the frame window and
+   * posts { type: "scorm-harness", launchId, event, ... } messages to the
+   * harness page: "trace" (entry), "commit" (data) and "finish" (data,
+   * navRequest). Pages opened without a launch get no API.
+   */
+  static bridge(): string {
+    return `
+// SCORM Test Harness Bridge
+(function() {
+  var launch;
+
+  try {
+    launch = JSON.parse(decodeURIComponent(window.location.hash.slice(1)));
+  } catch (e) {
+    return;
+  }
+
+  if (!launch || !launch.launchId || !launch.origin || window.parent === window) return;
+
+  function post(event, message) {
+    message.type = "scorm-harness";
+    message.launchId = launch.launchId;
+    message.event = event;
+    window.parent.postMessage(message, launch.origin);
+  }
+
+  var api = createHarnessAPI(launch.version, {
+    data: launch.data,
+    learner: launch.learner,
+    masteryScore: launch.masteryScore,
+    scaledPassingScore: launch.scaledPassingScore,
+    onTrace: function(entry) {
+      post("trace", { entry: entry });
+    },
+    onCommit: function(data) {
+      post("commit", { data: data });
+    },
+    onFinish: function(data, navRequest) {
+      post("finish", { data: data, navRequest: navRequest });
+    }
+  });
+
+  if (launch.version === "2004") {
+    window.API_1484_11 = api;
+  } else {
+    window.API = api;
+  }
+})();
+`;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * ScormPreviewService - Test Suite
+ *
+ * Verifies that the harness finds every launchable SCO, with its mastery
+ * settings, in the manifests SCORMPackageGenerator writes, that package
+ * pages get the harness runtime before their own scripts, and that package
+ * files are only served under the content token of their job.
+ */
+
+import { CONTENT_TOKEN_TTL_MS, ScormPreviewService } from './scorm-preview.js';
+import { SCORMConfig, SCORMPackageGenerator, SCORMVersion, SCOPage } from './scorm.js';
+
+const config: SCORMConfig = {
+  version: SCORMVersion.SCORM_2004,
+  courseTitle: 'Fire & Safety',
+  courseDescription: '',
+  passingScore: 70,
+  masteryScore: 80,
+  sequencing: { lockAssessmentUntilLessonsComplete: true },
+};
+
+const scos: SCOPage[] = [
+  { identifier: 'LESSON-1', title: 'Lesson 1', href: 'lesson-1.html', html: '', assessment: false },
+  { identifier: 'LESSON-2', title: 'Lesson 2', href: 'lesson-2.html', html: '', assessment: false },
+  { identifier: 'ASSESSMENT', title: 'Final Assessment', href: 'assessment.html', html: '', assessment: true },
+];
+
+describe('ScormPreviewService.parseManifest', () => {
+  it('reads leaf items inside clusters of a SCORM 2004 manifest', () => {
+    const manifest = ScormPreviewService.parseManifest(
+      SCORMPackageGenerator.generateManifestSCORM2004(config, [], scos)
+    );
+
+    expect(manifest.version).toBe('2004');
+    expect(manifest.title).toBe('Fire & Safety');
+    expect(manifest.items.map((item) => [item.identifier, item.href, item.scaledPassingScore])).toEqual([
+      ['ITEM-LESSON-1', 'lesson-1.html', null],
+      ['ITEM-LESSON-2', 'lesson-2.html', null],
+      ['ITEM-ASSESSMENT', 'assessment.html', 0.7],
+    ]);
+  });
+
+  it('reads the mastery score of a SCORM 1.2 manifest', () => {
+    const manifest = ScormPreviewService.parseManifest(
+      SCORMPackageGenerator.generateManifestSCORM12({ ...config, version: SCORMVersion.SCORM_1_2 })
+    );
+
+    expect(manifest.version).toBe('1.2');
+    expect(manifest.items).toEqual([
+      {
+        identifier: 'ITEM-1',
+        title: 'Fire & Safety',
+        href: 'index.html',
+        masteryScore: 80,
+        scaledPassingScore: null,
+      },
+    ]);
+  });
+});
+
+describe('ScormPreviewService.injectHarness', () => {
+  it('adds the runtime right after the head tag', () => {
+    const page = ScormPreviewService.injectHarness(
+      '<html><head lang="en"><script src="player.js"></script></head><body></body></html>'
+    );
+
+    expect(page.indexOf('<head lang="en"><script>')).toBeGreaterThan(-1);
+    expect(page.indexOf('createHarnessAPI')).toBeLessThan(page.indexOf('player.js'));
+  });
+
+  it('keeps the runtime inside one script element', () => {
+    const page = ScormPreviewService.injectHarness('<p>No head</p>');
+
+    expect(page.startsWith('<script>')).toBe(true);
+    expect(page.match(/<\/script>/g)).toHaveLength(1);
+  });
+});
+
+describe('ScormPreviewService.readPage', () => {
+  it('does not read files outside the unpacked package', async () => {
+    expect(await ScormPreviewService.readPage(1, '/../../../package.json')).toBeNull();
+    expect(await ScormPreviewService.readPage(1, '/missing.html')).toBeNull();
+  });
+});
+
+describe('ScormPreviewService content tokens', () => {
+  it('only open the package files of their own job until they expire', () => {
+    const issuedAt = Date.now();
+    const token = ScormPreviewService.issueContentToken(7, issuedAt);
+
+    expect(ScormPreviewService.verifyContentToken(7, token, issuedAt)).toBe(true);
+    expect(ScormPreviewService.verifyContentToken(8, token, issuedAt)).toBe(false);
+    expect(ScormPreviewService.verifyContentToken(7, 'guess', issuedAt)).toBe(false);
+    expect(ScormPreviewService.verifyContentToken(7, token, issuedAt + CONTENT_TOKEN_TTL_MS)).toBe(false);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * SCORM Preview Service
+ * Unpacks finished exports and serves them in the test harness LMS
+ *
+ * Each completed export job can be opened in a harness page that hosts the
+ * package's SCOs in a sandboxed frame. Package pages are served with the
+ * harness runtime injected, which provides window.API / window.API_1484_11
+ * inside the frame (see scorm-harness.ts). CMI data committed by the SCOs
+ * is kept per job and SCO so resuming works across launches.
+ *
+ * The sandboxed frame has an opaque origin, so the browser does not send
+ * the session cookie with its requests. Package files are instead served
+ * under a content token that the harness page is rendered with.
+ */
+
+import AdmZip from 'adm-zip';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { and, eq } from 'drizzle-orm';
+import { Database } from '../db/index.js';
+import { parseJsonObject, toJsonColumn } from '../db/json.js';
+import { scormPreviewStates } from '../db/schema.js';
+import { ExportJob, ExportJobRunner } from './export-jobs.js';
+import { PREVIEW_DIR } from './scorm-export.js';
+import { HarnessCMIData, HarnessVersion, SCORMHarnessRuntime } from './scorm-harness.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * How long the package files of a rendered harness page stay reachable
+ */
+export const CONTENT_TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * A launchable item from the package manifest
+ */
+export interface PreviewItem {
+  identifier: string;
+  title: string;
+  href: string;
+  masteryScore: number | null; // SCORM 1.2 adlcp:masteryscore
+  scaledPassingScore: number | null; // SCORM 2004 minNormalizedMeasure of a satisfiedByMeasure objective
+}
+
+export interface PreviewManifest {
+  version: HarnessVersion;
+  title: string;
+  items: PreviewItem[];
+}
+
+export class ScormPreviewService {
+  private static contentTokens = new Map<string, { jobId: number; expiresAt: number }>();
+
+  /**
+   * Unpack a finished export (once) and read its manifest
+   * @throws Error if the job has no package or the package is not SCORM
+   */
+  static async open(db: Database, jobId: number): Promise<{ job: ExportJob; manifest: PreviewManifest }> {
+    const job = await ExportJobRunner.get(db, jobId);
+    const filePath = job ? ExportJobRunner.filePath(job) : null;
+
+    if (!job || !filePath) {
+      throw new Error(`Export job ${jobId} has no finished package`);
+    }
+    if (job.version === 'cmi5') {
+      throw new Error('cmi5 packages report to the built-in LRS and cannot be previewed in the SCORM harness');
+    }
+
+    const directory = this.directory(jobId);
+
+    try {
+      await fs.access(path.join(directory, 'imsmanifest.xml'));
+    } catch {
+      await this.extract(filePath, directory);
+    }
+
+    const xml = await fs.readFile(path.join(directory, 'imsmanifest.xml'), 'utf-8');
+    return { job, manifest: this.parseManifest(xml) };
+  }
+
+  /**
+   * Directory a job's package is unpacked into
+   */
+  static directory(jobId: number): string {
+    return path.join(PREVIEW_DIR, String(jobId));
+  }
+
+  /**
+   * Read the launchable items of an imsmanifest.xml
+   * Only handles the manifest shapes SCORMPackageGenerator writes.
+   * @throws Error if the manifest has no SCO items
+   */
+  static parseManifest(xml: string): PreviewManifest {
+    const version: HarnessVersion = /<schemaversion>\s*1\.2\s*<\/schemaversion>/.test(xml) ? '1.2' : '2004';
+
+    const resources = new Map<string, string>();
+    for (const match of xml.matchAll(/<resource\b([^>]*)>/g)) {
+      const identifier = this.attribute(match[1], 'identifier');
+      const href = this.attribute(match[1], 'href');
+      if (identifier && href) {
+        resources.set(identifier, href);
+      }
+    }
+
+    const items: PreviewItem[] = [];
+    // Leaf items only; clusters contain other items and launch nothing
+    for (const match of xml.matchAll(/<item\b([^>]*)>((?:(?!<item\b)[\s\S])*?)<\/item>/g)) {
+      const identifierref = this.attribute(match[1], 'identifierref');
+      const href = identifierref ? resources.get(identifierref) : undefined;
+
+      if (!href) {
+        continue;
+      }
+
+      const body = match[2];
+      const mastery = body.match(/<adlcp:masteryscore>\s*([\d.]+)\s*<\/adlcp:masteryscore>/);
+      const measure = /<imsss:primaryObjective\b[^>]*satisfiedByMeasure="true"/.test(body)
+        ? body.match(/<imsss:minNormalizedMeasure>\s*(-?[\d.]+)\s*<\/imsss:minNormalizedMeasure>/)
+        : null;
+
+      items.push({
+        identifier: this.attribute(match[1], 'identifier') ?? identifierref!,
+        title: this.unescapeXml(body.match(/<title>([\s\S]*?)<\/title>/)?.[1]?.trim() ?? identifierref!),
+        href,
+        masteryScore: mastery ? Number(mastery[1]) : null,
+        scaledPassingScore: measure ? Number(measure[1]) : null,
+      });
+    }
+
+    if (items.length === 0) {
+      throw new Error('Manifest has no launchable SCO items');
+    }
+
+    const title = xml.match(/<organization\b[^>]*>\s*<title>([\s\S]*?)<\/title>/)?.[1] ?? items[0].title;
+
+    return { version, title: this.unescapeXml(title.trim()), items };
+  }
+
+  /**
+   * Render the harness page for a job
+   */
+  static async renderHarness(db: Database, jobId: number): Promise<string> {
+    const { manifest } = await this.open(db, jobId);
+    const states = await this.loadStates(db, jobId);
+    const template = await fs.readFile(path.join(__dirname, 'scorm-harness-template.html'), 'utf-8');
+
+    const previewData = {
+      version: manifest.version,
+      items: manifest.items,
+      states,
+      learner: { id: 'preview-learner', name: 'Learner, Preview' },
+      contentUrl: `/preview/${jobId}/content/${this.issueContentToken(jobId)}/`,
+      stateUrl: `/preview/${jobId}/state/`,
+    };
+
+    return template
+      .replace(/\{\{COURSE_TITLE\}\}/g, () => this.escapeHtml(manifest.title))
+      .replace('{{HARNESS_RUNTIME}}', () => SCORMHarnessRuntime.generate())
+      .replace('{{PREVIEW_DATA}}', () => JSON.stringify(previewData).replace(/</g, '\\u003c'));
+  }
+
+  /**
+   * Issue a token for the package files of a job (kept in memory, so a
+   * restart needs the harness page reloaded)
+   */
+  static issueContentToken(jobId: number, now = Date.now()): string {
+    for (const [token, entry] of this.contentTokens) {
+      if (entry.expiresAt <= now) this.contentTokens.delete(token);
+    }
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    this.contentTokens.set(token, { jobId, expiresAt: now + CONTENT_TOKEN_TTL_MS });
+
+    return token;
+  }
+
+  /**
+   * Whether a content token was issued for a job and has not expired
+   */
+  static verifyContentToken(jobId: number, token: string, now = Date.now()): boolean {
+    const entry = this.contentTokens.get(token);
+    return !!entry && entry.jobId === jobId && entry.expiresAt > now;
+  }
+
+  /**
+   * Read an HTML page of an unpacked package with the harness injected
+   * @returns The page, or null if the package has no such file
+   */
+  static async readPage(jobId: number, relativePath: string): Promise<string | null> {
+    const directory = path.resolve(this.directory(jobId));
+    const filePath = path.join(directory, path.posix.normalize(`/${relativePath}`));
+
+    if (!filePath.startsWith(directory + path.sep)) {
+      return null;
+    }
+
+    try {
+      return this.injectHarness(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Add the harness runtime and bridge to a package page, ahead of the
+   * page's own scripts so the API exists when the SCO looks for it
+   */
+  static injectHarness(html: string): string {
+    const runtime = `${SCORMHarnessRuntime.generate()}\n${SCORMHarnessRuntime.bridge()}`.replace(/<\//g, '<\\/');
+    const script = `<script>${runtime}</script>`;
+
+    return /<head\b[^>]*>/i.test(html)
+      ? html.replace(/<head\b[^>]*>/i, (head) => head + script)
+      : script + html;
+  }
+
+  /**
+   * Stored CMI data of every SCO in a job's preview, keyed by item identifier
+   */
+  static async loadStates(db: Database, jobId: number): Promise<Record<string, HarnessCMIData>> {
+    const rows = await db
+      .select()
+      .from(scormPreviewStates)
+      .where(eq(scormPreviewStates.exportJobId, jobId));
+
+    return Object.fromEntries(
+      rows.map((row) => [row.scoId, parseJsonObject<HarnessCMIData>(row.cmi) ?? {}])
+    );
+  }
+
+  /**
+   * Store the CMI data a SCO committed
+   */
+  static async saveState(db: Database, jobId: number, scoId: string, cmi: HarnessCMIData): Promise<void> {
+    const existing = await db
+      .select({ id: scormPreviewStates.id })
+      .from(scormPreviewStates)
+      .where(and(eq(scormPreviewStates.exportJobId, jobId), eq(scormPreviewStates.scoId, scoId)))
+      .limit(1);
+
+    if (existing[0]) {
+      await db
+        .update(scormPreviewStates)
+        .set({ cmi: toJsonColumn(cmi), updatedAt: new Date() })
+        .where(eq(scormPreviewStates.id, existing[0].id));
+      return;
+    }
+
+    await db.insert(scormPreviewStates).values({ exportJobId: jobId, scoId, cmi: toJsonColumn(cmi) });
+  }
+
+  /**
+   * Forget all learner data of a job's preview
+   */
+  static async resetStates(db: Database, jobId: number): Promise<void> {
+    await db.delete(scormPreviewStates).where(eq(scormPreviewStates.exportJobId, jobId));
+  }
+
+  /**
+   * Unpack into a temporary directory and move it into place, so a
+   * half-extracted package is never served
+   */
+  private static async extract(zipPath: string, directory: string): Promise<void> {
+    const staging = `${directory}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.mkdir(path.dirname(directory), { recursive: true });
+    new AdmZip(zipPath).extractAllTo(staging, true);
+
+    try {
+      await fs.rename(staging, directory);
+    } catch (error) {
+      await fs.rm(staging, { recursive: true, force: true });
+
+      // Another request unpacked it first
+      try {
+        await fs.access(path.join(directory, 'imsmanifest.xml'));
+      } catch {
+        throw error;
+      }
+    }
+  }
+
+  private static attribute(attributes: string, name: string): string | undefined {
+    return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+  }
+
+  private static unescapeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+
+  private static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
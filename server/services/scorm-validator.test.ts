@@ -0,0 +1,143 @@
+/**
+ * ScormPackageValidator - Test Suite
+ *
+ * Verifies that packages SCORMPackageGenerator writes pass, and that
+ * broken manifests, missing files and oversized bookmarks are reported.
+ */
+
+import AdmZip from 'adm-zip';
+import { ScormPackageValidator } from './scorm-validator.js';
+import { SCORMConfig, SCORMPackageGenerator, SCORMVersion, SCOPage } from './scorm.js';
+import { parseXml, XmlParseError } from './xml.js';
+
+const config: SCORMConfig = {
+  version: SCORMVersion.SCORM_2004,
+  courseTitle: 'Fire & Safety',
+  courseDescription: '',
+  passingScore: 70,
+  masteryScore: 80,
+  sequencing: { lockAssessmentUntilLessonsComplete: true },
+};
+
+const scos: SCOPage[] = [
+  { identifier: 'LESSON-1', title: 'Lesson 1', href: 'lesson-1.html', html: '', assessment: false },
+  { identifier: 'ASSESSMENT', title: 'Final Assessment', href: 'assessment.html', html: '', assessment: true },
+];
+
+function playerPage(lessons: number, questions: number): string {
+  const courseData = {
+    lessons: Array.from({ length: lessons }, (_, index) => ({ slideId: index + 1 })),
+    quiz: Array.from({ length: questions }, () => ({ question: 'Q' })),
+  };
+  return `<script>\n    const courseData = ${JSON.stringify(courseData)};\n</script>`;
+}
+
+function packageZip(manifest: string, files: string[], html = playerPage(1, 1)): AdmZip {
+  const zip = new AdmZip();
+  zip.addFile('imsmanifest.xml', Buffer.from(manifest, 'utf-8'));
+  for (const file of files) {
+    zip.addFile(file, Buffer.from(file.endsWith('.html') ? html : '', 'utf-8'));
+  }
+  return zip;
+}
+
+function codes(zip: AdmZip, severity = 'error'): string[] {
+  return ScormPackageValidator.validateZip(zip)
+    .issues.filter((issue) => issue.severity === severity)
+    .map((issue) => issue.code);
+}
+
+describe('parseXml', () => {
+  it('builds an element tree with decoded attributes and text', () => {
+    const root = parseXml('<?xml version="1.0"?>\n<a x="1 &amp; 2"><b>t&lt;</b><![CDATA[<raw>]]></a>');
+
+    expect(root.attributes.x).toBe('1 & 2');
+    expect(root.children[0]).toMatchObject({ name: 'b', text: 't<', line: 2 });
+    expect(root.text).toBe('<raw>');
+  });
+
+  it('rejects documents that are not well-formed', () => {
+    for (const source of ['<a><b></a>', '<a x=1/>', '<a/><b/>', '<a>&nbsp;</a>', '<a x="1" x="2"/>']) {
+      expect(() => parseXml(source)).toThrow(XmlParseError);
+    }
+  });
+});
+
+describe('ScormPackageValidator', () => {
+  it('passes generated SCORM 1.2 and 2004 packages', () => {
+    const files = ['scorm.js', 'lesson-1.html', 'assessment.html'];
+
+    const scorm2004 = ScormPackageValidator.validateZip(
+      packageZip(SCORMPackageGenerator.generateManifestSCORM2004(config, [], scos), files),
+      '2004'
+    );
+    const scorm12 = ScormPackageValidator.validateZip(
+      packageZip(
+        SCORMPackageGenerator.generateManifestSCORM12({ ...config, version: SCORMVersion.SCORM_1_2 }, [], scos),
+        files
+      ),
+      '1.2'
+    );
+
+    expect(scorm2004.issues.filter((issue) => issue.severity !== 'info')).toEqual([]);
+    expect(scorm2004).toMatchObject({ valid: true, version: '2004', errorCount: 0 });
+    expect(scorm12).toMatchObject({ valid: true, version: '1.2', errorCount: 0, warningCount: 0 });
+  });
+
+  it('reports missing and orphan files', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM12(
+      { ...config, version: SCORMVersion.SCORM_1_2 },
+      ['assets/logo.png']
+    );
+    const zip = packageZip(manifest, ['index.html', 'scorm.js', 'notes.txt']);
+
+    expect(codes(zip)).toEqual(['file-missing']);
+    expect(codes(zip, 'warning')).toEqual(['file-orphan']);
+  });
+
+  it('reports duplicate identifiers, broken references and out-of-range mastery', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM12({
+      ...config,
+      version: SCORMVersion.SCORM_1_2,
+      masteryScore: 120,
+    })
+      .replace('identifier="ORG-1"', 'identifier="RES-1"')
+      .replace('default="ORG-1"', 'default="ORG-2"');
+
+    expect(codes(packageZip(manifest, ['index.html', 'scorm.js']))).toEqual([
+      'identifier-duplicate',
+      'reference-missing',
+      'mastery-range',
+    ]);
+  });
+
+  it('checks minNormalizedMeasure and sequencing vocabularies in SCORM 2004', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM2004(config, [], scos)
+      .replace(/<imsss:minNormalizedMeasure>[^<]*</, '<imsss:minNormalizedMeasure>1.5<')
+      .replace('action="disabled"', 'action="hide"');
+
+    expect(codes(packageZip(manifest, ['scorm.js', 'lesson-1.html', 'assessment.html']))).toEqual([
+      'measure-range',
+      'sequencing-value',
+    ]);
+  });
+
+  it('rejects malformed manifests and suspend data over the SCORM 1.2 limit', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM12({ ...config, version: SCORMVersion.SCORM_1_2 });
+
+    expect(codes(packageZip(manifest.replace('</organizations>', ''), ['index.html', 'scorm.js']))).toEqual([
+      'manifest-malformed',
+    ]);
+    expect(codes(packageZip(manifest, ['index.html', 'scorm.js'], playerPage(3, 5000)))).toEqual([
+      'suspend-data-limit',
+    ]);
+  });
+
+  it('flags a package that does not match the exported version', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM12({ ...config, version: SCORMVersion.SCORM_1_2 });
+    const report = ScormPackageValidator.validateZip(packageZip(manifest, ['index.html', 'scorm.js']), '2004');
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map((issue) => issue.code)).toContain('version-mismatch');
+  });
+});
@@ -0,0 +1,990 @@
+/**
+ * SCORM Package Validator
+ * Checks generated packages against the packaging rules in SCORM_COMPLIANCE.md
+ *
+ * For SCORM 1.2 and 2004 packages: imsmanifest.xml is well-formed and
+ * follows the IMS CP / ADL CAM structure for its version, every <file> is
+ * in the zip and every zip entry is listed, identifiers are unique,
+ * mastery values are in range and the worst-case suspend_data of each SCO
+ * fits the run-time limit. cmi5 packages are checked against the cmi5
+ * course structure instead.
+ */
+
+import AdmZip from 'adm-zip';
+import path from 'path';
+import { SuspendDataManager } from './scorm.js';
+import { QuizRuleQuestion } from './quiz-rules.js';
+import { childNamed, childrenNamed, parseXml, XmlElement, XmlParseError } from './xml.js';
+
+export type PackageVersion = '1.2' | '2004' | 'cmi5';
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: string; // Stable identifier, e.g. "file-missing"
+  message: string;
+  location?: string; // File, and line for manifest issues
+}
+
+export interface ValidationReport {
+  valid: boolean; // True when there are no errors
+  version: PackageVersion | null; // As detected from the package
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
+/**
+ * cmi.suspend_data limits: SCORM 1.2 CMIString4096, SCORM 2004 SPM
+ */
+export const SUSPEND_DATA_LIMITS: Record<'1.2' | '2004', number> = {
+  '1.2': 4096,
+  '2004': 64000,
+};
+
+const MANIFEST = 'imsmanifest.xml';
+const CMI5_MANIFEST = 'cmi5.xml';
+
+const NAMESPACES = {
+  '1.2': {
+    xmlns: 'http://www.imsproject.org/xsd/imscp_rootv1p1p2',
+    'xmlns:adlcp': 'http://www.adlnet.org/xsd/adlcp_rootv1p2',
+  },
+  '2004': {
+    xmlns: 'http://www.imsglobal.org/xsd/imscp_v1p1',
+    'xmlns:adlcp': 'http://www.adlnet.org/xsd/adlcp_v1p3',
+    'xmlns:imsss': 'http://www.imsglobal.org/xsd/imsss',
+    'xmlns:adlseq': 'http://www.adlnet.org/xsd/adlseq_v1p3',
+    'xmlns:adlnav': 'http://www.adlnet.org/xsd/adlnav_v1p3',
+  },
+} as const;
+
+const CMI5_NAMESPACE = 'https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd';
+
+const SCHEMA_VERSIONS_2004 = ['CAM 1.3', '2004 3rd Edition', '2004 4th Edition'];
+
+/**
+ * xs:ID values (NCName)
+ */
+const IDENTIFIER = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Children of <imsss:sequencing>, in schema order
+ */
+const SEQUENCING_ORDER = [
+  'imsss:controlMode',
+  'imsss:sequencingRules',
+  'imsss:limitConditions',
+  'imsss:auxiliaryResources',
+  'imsss:rollupRules',
+  'imsss:objectives',
+  'imsss:randomizationControls',
+  'imsss:deliveryControls',
+  'adlseq:constrainedChoiceConsiderations',
+  'adlseq:rollupConsiderations',
+  'adlseq:objectives',
+];
+
+const ROLLUP_CONDITIONS = [
+  'satisfied',
+  'objectiveStatusKnown',
+  'objectiveMeasureKnown',
+  'completed',
+  'activityProgressKnown',
+  'attempted',
+  'attemptLimitExceeded',
+  'timeLimitExceeded',
+  'outsideAvailableTimeRange',
+];
+
+const RULE_CONDITIONS = [
+  ...ROLLUP_CONDITIONS,
+  'objectiveMeasureGreaterThan',
+  'objectiveMeasureLessThan',
+  'always',
+];
+
+const RULE_ACTIONS = [
+  'skip',
+  'disabled',
+  'hiddenFromChoice',
+  'stopForwardTraversal',
+  'exit',
+  'exitParent',
+  'exitAll',
+  'retry',
+  'retryAll',
+  'continue',
+  'previous',
+];
+
+const CMI5_MOVE_ON = ['Passed', 'Completed', 'CompletedAndPassed', 'CompletedOrPassed', 'NotApplicable'];
+
+/**
+ * Collects issues while a package is checked
+ */
+class ReportBuilder {
+  readonly issues: ValidationIssue[] = [];
+
+  add(severity: ValidationSeverity, code: string, message: string, location?: string): void {
+    this.issues.push({ severity, code, message, ...(location ? { location } : {}) });
+  }
+
+  error(code: string, message: string, location?: string): void {
+    this.add('error', code, message, location);
+  }
+
+  warning(code: string, message: string, location?: string): void {
+    this.add('warning', code, message, location);
+  }
+
+  build(version: PackageVersion | null): ValidationReport {
+    const errorCount = this.issues.filter((issue) => issue.severity === 'error').length;
+
+    return {
+      valid: errorCount === 0,
+      version,
+      errorCount,
+      warningCount: this.issues.filter((issue) => issue.severity === 'warning').length,
+      issues: this.issues,
+    };
+  }
+}
+
+export class ScormPackageValidator {
+  /**
+   * Validate a package zip on disk
+   * @param expectedVersion Version the package was built for, if known
+   */
+  static validateFile(zipPath: string, expectedVersion?: PackageVersion): ValidationReport {
+    let zip: AdmZip;
+
+    try {
+      zip = new AdmZip(zipPath);
+    } catch (error) {
+      const report = new ReportBuilder();
+      const reason = error instanceof Error ? error.message : String(error);
+      report.error('zip-unreadable', `Package is not a readable zip file: ${reason}`);
+      return report.build(null);
+    }
+
+    return this.validateZip(zip, expectedVersion);
+  }
+
+  /**
+   * Validate an opened package
+   * @param expectedVersion Version the package was built for, if known
+   */
+  static validateZip(zip: AdmZip, expectedVersion?: PackageVersion): ValidationReport {
+    const report = new ReportBuilder();
+    const entries = zip
+      .getEntries()
+      .filter((entry) => !entry.isDirectory)
+      .map((entry) => entry.entryName);
+
+    for (const entry of entries) {
+      if (!this.isSafePath(entry)) {
+        report.error('file-path', `Zip entry "${entry}" points outside the package root`, entry);
+      }
+    }
+
+    const files = new Set(entries);
+    let version: PackageVersion | null = null;
+
+    if (files.has(MANIFEST)) {
+      version = this.checkScormPackage(zip, files, report);
+    } else if (files.has(CMI5_MANIFEST)) {
+      version = 'cmi5';
+      this.checkCmi5Package(zip, files, report);
+    } else {
+      report.error('manifest-missing', `Package has no ${MANIFEST} (or ${CMI5_MANIFEST}) at its root`);
+    }
+
+    if (version && expectedVersion && version !== expectedVersion) {
+      report.error(
+        'version-mismatch',
+        `Package was exported as ${this.versionLabel(expectedVersion)} but is a ${this.versionLabel(version)} package`
+      );
+    }
+
+    return report.build(version);
+  }
+
+  /**
+   * imsmanifest.xml structure, identifiers, files and suspend data
+   * @returns Detected SCORM version, or null if it cannot be determined
+   */
+  private static checkScormPackage(
+    zip: AdmZip,
+    files: Set<string>,
+    report: ReportBuilder
+  ): PackageVersion | null {
+    let root: XmlElement;
+
+    try {
+      root = parseXml(zip.readAsText(MANIFEST, 'utf8'));
+    } catch (error) {
+      if (error instanceof XmlParseError) {
+        report.error('manifest-malformed', `${MANIFEST} is not well-formed: ${error.message}`, MANIFEST);
+        return null;
+      }
+      throw error;
+    }
+
+    if (root.name !== 'manifest') {
+      report.error('manifest-structure', `Root element must be <manifest>, found <${root.name}>`, this.at(root));
+      return null;
+    }
+
+    const version = this.detectVersion(root, report);
+
+    if (!version) {
+      return null;
+    }
+
+    this.checkNamespaces(root, version, report);
+    this.checkIdentifiers(root, report);
+
+    const resources = this.checkResources(root, version, report);
+    this.checkOrganizations(root, version, resources, report);
+
+    const launchPages = this.checkFiles(root, resources, files, report);
+    this.checkSuspendData(zip, launchPages, version, report);
+
+    return version;
+  }
+
+  /**
+   * Version from metadata/schemaversion, falling back to the CP namespace
+   */
+  private static detectVersion(root: XmlElement, report: ReportBuilder): '1.2' | '2004' | null {
+    const metadata = childNamed(root, 'metadata');
+    const schema = metadata ? childNamed(metadata, 'schema')?.text.trim() : undefined;
+    const schemaVersion = metadata ? childNamed(metadata, 'schemaversion')?.text.trim() : undefined;
+
+    if (!metadata || schema === undefined || schemaVersion === undefined) {
+      report.error(
+        'manifest-structure',
+        '<metadata> must contain <schema>ADL SCORM</schema> and <schemaversion>',
+        this.at(root)
+      );
+    } else if (schema !== 'ADL SCORM') {
+      report.error('schema-version', `<schema> must be "ADL SCORM", found "${schema}"`, this.at(metadata));
+    }
+
+    if (schemaVersion === '1.2') return '1.2';
+    if (schemaVersion && SCHEMA_VERSIONS_2004.includes(schemaVersion)) return '2004';
+
+    if (schemaVersion !== undefined) {
+      report.error(
+        'schema-version',
+        `Unknown <schemaversion> "${schemaVersion}" (expected 1.2 or one of ${SCHEMA_VERSIONS_2004.join(', ')})`,
+        this.at(metadata!)
+      );
+    }
+
+    if (root.attributes.xmlns === NAMESPACES['1.2'].xmlns) return '1.2';
+    if (root.attributes.xmlns === NAMESPACES['2004'].xmlns) return '2004';
+
+    report.error('schema-version', 'Cannot tell whether the package is SCORM 1.2 or 2004', this.at(root));
+    return null;
+  }
+
+  private static checkNamespaces(root: XmlElement, version: '1.2' | '2004', report: ReportBuilder): void {
+    for (const [attribute, expected] of Object.entries(NAMESPACES[version])) {
+      const actual = root.attributes[attribute];
+
+      if (actual !== expected) {
+        report.error(
+          'namespace',
+          `${attribute} must be "${expected}" for SCORM ${version}${actual ? `, found "${actual}"` : ''}`,
+          this.at(root)
+        );
+      }
+    }
+  }
+
+  /**
+   * Manifest, organization, item and resource identifiers share one xs:ID space
+   */
+  private static checkIdentifiers(root: XmlElement, report: ReportBuilder): void {
+    const seen = new Map<string, XmlElement>();
+
+    const visit = (element: XmlElement) => {
+      if (['manifest', 'organization', 'item', 'resource'].includes(element.name)) {
+        const identifier = element.attributes.identifier;
+
+        if (identifier === undefined) {
+          report.error('identifier-missing', `<${element.name}> has no identifier`, this.at(element));
+        } else if (!IDENTIFIER.test(identifier)) {
+          report.error(
+            'identifier-invalid',
+            `Identifier "${identifier}" is not a valid xs:ID (letters, digits, "_", "-", "." and no leading digit)`,
+            this.at(element)
+          );
+        } else if (seen.has(identifier)) {
+          report.error(
+            'identifier-duplicate',
+            `Identifier "${identifier}" is also used on line ${seen.get(identifier)!.line}`,
+            this.at(element)
+          );
+        } else {
+          seen.set(identifier, element);
+        }
+      }
+
+      element.children.forEach(visit);
+    };
+
+    visit(root);
+  }
+
+  /**
+   * <resources>: types, SCO launch files and dependencies
+   * @returns Resources by identifier
+   */
+  private static checkResources(
+    root: XmlElement,
+    version: '1.2' | '2004',
+    report: ReportBuilder
+  ): Map<string, XmlElement> {
+    const container = childNamed(root, 'resources');
+    const resources = new Map<string, XmlElement>();
+    const scormTypeAttribute = version === '1.2' ? 'adlcp:scormtype' : 'adlcp:scormType';
+
+    if (!container) {
+      report.error('manifest-structure', 'Manifest has no <resources> element', this.at(root));
+      return resources;
+    }
+
+    for (const resource of childrenNamed(container, 'resource')) {
+      if (resource.attributes.identifier) {
+        resources.set(resource.attributes.identifier, resource);
+      }
+    }
+
+    for (const resource of childrenNamed(container, 'resource')) {
+      const scormType = resource.attributes[scormTypeAttribute];
+
+      if (resource.attributes.type !== 'webcontent') {
+        report.error(
+          'resource-type',
+          `Resource type must be "webcontent", found "${resource.attributes.type ?? ''}"`,
+          this.at(resource)
+        );
+      }
+
+      if (scormType !== 'sco' && scormType !== 'asset') {
+        report.error(
+          'resource-type',
+          `${scormTypeAttribute} must be "sco" or "asset"${scormType ? `, found "${scormType}"` : ''}`,
+          this.at(resource)
+        );
+      }
+
+      if (scormType === 'sco' && !resource.attributes.href) {
+        report.error('resource-href', 'SCO resources need an href to launch', this.at(resource));
+      }
+
+      for (const dependency of childrenNamed(resource, 'dependency')) {
+        const target = dependency.attributes.identifierref;
+
+        if (!target || !resources.has(target)) {
+          report.error(
+            'reference-missing',
+            `<dependency> refers to unknown resource "${target ?? ''}"`,
+            this.at(dependency)
+          );
+        }
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * <organizations>, items and their sequencing
+   */
+  private static checkOrganizations(
+    root: XmlElement,
+    version: '1.2' | '2004',
+    resources: Map<string, XmlElement>,
+    report: ReportBuilder
+  ): void {
+    const container = childNamed(root, 'organizations');
+
+    if (!container) {
+      report.error('manifest-structure', 'Manifest has no <organizations> element', this.at(root));
+      return;
+    }
+
+    const organizations = childrenNamed(container, 'organization');
+    const defaultOrganization = container.attributes.default;
+
+    if (organizations.length === 0) {
+      report.error('manifest-structure', 'SCORM packages need at least one <organization>', this.at(container));
+    }
+
+    if (
+      defaultOrganization !== undefined &&
+      !organizations.some((organization) => organization.attributes.identifier === defaultOrganization)
+    ) {
+      report.error(
+        'reference-missing',
+        `organizations default="${defaultOrganization}" does not match any organization`,
+        this.at(container)
+      );
+    } else if (defaultOrganization === undefined && organizations.length > 0) {
+      report.error('manifest-structure', '<organizations> needs a default attribute', this.at(container));
+    }
+
+    for (const organization of organizations) {
+      if (organization.children[0]?.name !== 'title') {
+        report.error('manifest-structure', '<organization> must start with a <title>', this.at(organization));
+      }
+
+      const items = childrenNamed(organization, 'item');
+
+      if (items.length === 0) {
+        report.error('manifest-structure', '<organization> has no items', this.at(organization));
+      }
+
+      items.forEach((item) => this.checkItem(item, version, resources, report));
+
+      const sequencing = childNamed(organization, 'imsss:sequencing');
+      if (version === '2004' && sequencing) {
+        this.checkSequencing(sequencing, report);
+      }
+
+      if (version === '2004') {
+        this.checkBoolean(organization, 'adlseq:objectivesGlobalToSystem', report);
+      }
+    }
+  }
+
+  private static checkItem(
+    item: XmlElement,
+    version: '1.2' | '2004',
+    resources: Map<string, XmlElement>,
+    report: ReportBuilder
+  ): void {
+    const children = childrenNamed(item, 'item');
+    const resourceRef = item.attributes.identifierref;
+
+    if (item.children[0]?.name !== 'title' || !item.children[0].text.trim()) {
+      report.error('manifest-structure', '<item> must start with a non-empty <title>', this.at(item));
+    }
+
+    if (resourceRef !== undefined) {
+      const resource = resources.get(resourceRef);
+
+      if (!resource) {
+        report.error(
+          'reference-missing',
+          `Item refers to unknown resource "${resourceRef}"`,
+          this.at(item)
+        );
+      } else if (children.length > 0) {
+        // ADL CAM: only leaf items reference resources
+        report.add(
+          version === '2004' ? 'error' : 'warning',
+          'item-structure',
+          'Items with child items must not reference a resource',
+          this.at(item)
+        );
+      }
+    } else if (children.length === 0) {
+      report.error('item-structure', 'Leaf items must reference a resource', this.at(item));
+    }
+
+    this.checkBoolean(item, 'isvisible', report);
+
+    const masteryScore = childNamed(item, 'adlcp:masteryscore');
+
+    if (masteryScore) {
+      if (version !== '1.2') {
+        report.error(
+          'manifest-structure',
+          'adlcp:masteryscore is SCORM 1.2 only; SCORM 2004 uses imsss:minNormalizedMeasure',
+          this.at(masteryScore)
+        );
+      }
+      this.checkRange(masteryScore, masteryScore.text.trim(), 0, 100, 'mastery-range', report);
+    }
+
+    const sequencing = childNamed(item, 'imsss:sequencing');
+
+    if (sequencing) {
+      if (version === '1.2') {
+        report.error('manifest-structure', 'imsss:sequencing is SCORM 2004 only', this.at(sequencing));
+      } else {
+        this.checkSequencing(sequencing, report);
+      }
+    }
+
+    children.forEach((child) => this.checkItem(child, version, resources, report));
+  }
+
+  /**
+   * Element order, vocabularies and value ranges of <imsss:sequencing>
+   */
+  private static checkSequencing(sequencing: XmlElement, report: ReportBuilder): void {
+    let lastIndex = -1;
+
+    for (const child of sequencing.children) {
+      const index = SEQUENCING_ORDER.indexOf(child.name);
+
+      if (index === -1) {
+        report.error('sequencing-structure', `Unexpected <${child.name}> in imsss:sequencing`, this.at(child));
+      } else if (index < lastIndex) {
+        report.error(
+          'sequencing-structure',
+          `<${child.name}> must come before <${SEQUENCING_ORDER[lastIndex]}>`,
+          this.at(child)
+        );
+      }
+
+      lastIndex = Math.max(lastIndex, index);
+    }
+
+    const controlMode = childNamed(sequencing, 'imsss:controlMode');
+    if (controlMode) {
+      for (const attribute of Object.keys(controlMode.attributes)) {
+        this.checkBoolean(controlMode, attribute, report);
+      }
+    }
+
+    const limitConditions = childNamed(sequencing, 'imsss:limitConditions');
+    if (limitConditions?.attributes.attemptLimit !== undefined) {
+      if (!/^\d+$/.test(limitConditions.attributes.attemptLimit)) {
+        report.error(
+          'sequencing-value',
+          `attemptLimit must be a non-negative integer, found "${limitConditions.attributes.attemptLimit}"`,
+          this.at(limitConditions)
+        );
+      }
+    }
+
+    const objectiveIds = this.checkObjectives(childNamed(sequencing, 'imsss:objectives'), report);
+
+    const sequencingRules = childNamed(sequencing, 'imsss:sequencingRules');
+    for (const rule of sequencingRules?.children ?? []) {
+      const conditions = childNamed(rule, 'imsss:ruleConditions');
+
+      this.checkVocabulary(conditions, 'conditionCombination', ['all', 'any'], report);
+
+      for (const condition of conditions?.children ?? []) {
+        this.checkVocabulary(condition, 'condition', RULE_CONDITIONS, report, true);
+        this.checkVocabulary(condition, 'operator', ['not', 'noOp'], report);
+
+        const referenced = condition.attributes.referencedObjective;
+        if (referenced !== undefined && !objectiveIds.has(referenced)) {
+          report.error(
+            'reference-missing',
+            `referencedObjective "${referenced}" is not an objective of this activity`,
+            this.at(condition)
+          );
+        }
+      }
+
+      this.checkVocabulary(childNamed(rule, 'imsss:ruleAction'), 'action', RULE_ACTIONS, report, true);
+    }
+
+    const rollupRules = childNamed(sequencing, 'imsss:rollupRules');
+    if (rollupRules) {
+      this.checkBoolean(rollupRules, 'rollupObjectiveSatisfied', report);
+      this.checkBoolean(rollupRules, 'rollupProgressCompletion', report);
+
+      if (rollupRules.attributes.objectiveMeasureWeight !== undefined) {
+        this.checkRange(rollupRules, rollupRules.attributes.objectiveMeasureWeight, 0, 1, 'sequencing-value', report);
+      }
+
+      for (const rule of childrenNamed(rollupRules, 'imsss:rollupRule')) {
+        this.checkVocabulary(
+          rule,
+          'childActivitySet',
+          ['all', 'any', 'none', 'atLeastCount', 'atLeastPercent'],
+          report
+        );
+
+        if (rule.attributes.minimumCount !== undefined && !/^\d+$/.test(rule.attributes.minimumCount)) {
+          report.error('sequencing-value', 'minimumCount must be a non-negative integer', this.at(rule));
+        }
+        if (rule.attributes.minimumPercent !== undefined) {
+          this.checkRange(rule, rule.attributes.minimumPercent, 0, 1, 'sequencing-value', report);
+        }
+
+        const conditions = childNamed(rule, 'imsss:rollupConditions');
+
+        if (!conditions || conditions.children.length === 0) {
+          report.error('sequencing-structure', 'Rollup rules need at least one rollupCondition', this.at(rule));
+        }
+
+        this.checkVocabulary(conditions, 'conditionCombination', ['all', 'any'], report);
+
+        for (const condition of conditions?.children ?? []) {
+          this.checkVocabulary(condition, 'condition', ROLLUP_CONDITIONS, report, true);
+          this.checkVocabulary(condition, 'operator', ['not', 'noOp'], report);
+        }
+
+        this.checkVocabulary(
+          childNamed(rule, 'imsss:rollupAction'),
+          'action',
+          ['satisfied', 'notSatisfied', 'completed', 'incomplete'],
+          report,
+          true
+        );
+      }
+    }
+  }
+
+  /**
+   * Objective ids, minNormalizedMeasure ranges and global objective maps
+   * @returns Ids of the activity's objectives
+   */
+  private static checkObjectives(objectives: XmlElement | undefined, report: ReportBuilder): Set<string> {
+    const ids = new Set<string>();
+
+    if (!objectives) {
+      return ids;
+    }
+
+    const primary = childrenNamed(objectives, 'imsss:primaryObjective');
+
+    if (primary.length !== 1) {
+      report.error('sequencing-structure', '<imsss:objectives> needs exactly one primaryObjective', this.at(objectives));
+    }
+
+    for (const objective of objectives.children) {
+      const id = objective.attributes.objectiveID;
+      const isPrimary = objective.name === 'imsss:primaryObjective';
+
+      if (id === undefined) {
+        // The primary objective may omit its id unless it maps to a global objective
+        if (!isPrimary || childNamed(objective, 'imsss:mapInfo')) {
+          report.error('sequencing-structure', 'Objective needs an objectiveID', this.at(objective));
+        }
+      } else if (ids.has(id)) {
+        report.error('identifier-duplicate', `Objective id "${id}" is used twice in one activity`, this.at(objective));
+      } else {
+        ids.add(id);
+      }
+
+      this.checkBoolean(objective, 'satisfiedByMeasure', report);
+
+      const measure = childNamed(objective, 'imsss:minNormalizedMeasure');
+      if (measure) {
+        this.checkRange(measure, measure.text.trim(), -1, 1, 'measure-range', report);
+      }
+
+      for (const mapInfo of childrenNamed(objective, 'imsss:mapInfo')) {
+        if (!mapInfo.attributes.targetObjectiveID) {
+          report.error('sequencing-structure', 'mapInfo needs a targetObjectiveID', this.at(mapInfo));
+        }
+
+        for (const attribute of [
+          'readSatisfiedStatus',
+          'readNormalizedMeasure',
+          'writeSatisfiedStatus',
+          'writeNormalizedMeasure',
+        ]) {
+          this.checkBoolean(mapInfo, attribute, report);
+        }
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Listed files exist, zip entries are listed, launch pages are present
+   * @returns Launch pages of the SCO resources, as zip entry names
+   */
+  private static checkFiles(
+    root: XmlElement,
+    resources: Map<string, XmlElement>,
+    files: Set<string>,
+    report: ReportBuilder
+  ): string[] {
+    const listed = new Set<string>([MANIFEST]);
+    const launchPages: string[] = [];
+    const manifestBase = root.attributes['xml:base'] ?? '';
+    const resourcesBase = childNamed(root, 'resources')?.attributes['xml:base'] ?? '';
+
+    const resolve = (resource: XmlElement, href: string, element: XmlElement): string | null => {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+        return null; // External URL
+      }
+
+      const relative = `${manifestBase}${resourcesBase}${resource.attributes['xml:base'] ?? ''}${href}`;
+      let decoded: string;
+
+      try {
+        decoded = decodeURIComponent(relative.split(/[?#]/)[0]);
+      } catch {
+        report.error('file-path', `"${href}" is not a valid URL path`, this.at(element));
+        return null;
+      }
+
+      if (!this.isSafePath(decoded)) {
+        report.error('file-path', `"${href}" points outside the package root`, this.at(element));
+        return null;
+      }
+
+      return path.posix.normalize(decoded);
+    };
+
+    for (const resource of resources.values()) {
+      for (const file of childrenNamed(resource, 'file')) {
+        const href = file.attributes.href;
+
+        if (!href) {
+          report.error('manifest-structure', '<file> needs an href', this.at(file));
+          continue;
+        }
+
+        const entry = resolve(resource, href, file);
+
+        if (entry === null) continue;
+        listed.add(entry);
+
+        if (!files.has(entry)) {
+          report.error('file-missing', `"${href}" is listed in the manifest but not in the package`, this.at(file));
+        }
+      }
+
+      const href = resource.attributes.href;
+      const entry = href ? resolve(resource, href, resource) : null;
+
+      if (entry !== null) {
+        if (!files.has(entry)) {
+          report.error('file-missing', `Launch file "${href}" is not in the package`, this.at(resource));
+        } else if (!childrenNamed(resource, 'file').some((file) => resolve(resource, file.attributes.href ?? '', file) === entry)) {
+          report.warning('file-unlisted', `Launch file "${href}" should also be listed as a <file>`, this.at(resource));
+        }
+
+        if (resource.attributes['adlcp:scormtype'] === 'sco' || resource.attributes['adlcp:scormType'] === 'sco') {
+          launchPages.push(entry);
+        }
+      }
+    }
+
+    for (const entry of files) {
+      // Schema files may ship at the root without being listed
+      if (!listed.has(entry) && !/^[^/]+\.(xsd|dtd)$/i.test(entry)) {
+        report.warning('file-orphan', `"${entry}" is in the package but not listed by any resource`, entry);
+      }
+    }
+
+    return launchPages;
+  }
+
+  /**
+   * Worst-case bookmark of each SCO against the run-time limit
+   * Lesson and question counts come from the course data embedded in the page.
+   */
+  private static checkSuspendData(
+    zip: AdmZip,
+    launchPages: string[],
+    version: '1.2' | '2004',
+    report: ReportBuilder
+  ): void {
+    const limit = SUSPEND_DATA_LIMITS[version];
+
+    for (const page of new Set(launchPages)) {
+      const html = zip.getEntry(page) ? zip.readAsText(page, 'utf8') : '';
+      const match = html.match(/const courseData = (\{.*\});/);
+      let courseData: { lessons?: unknown[]; quiz?: Array<Partial<QuizRuleQuestion>> } | null = null;
+
+      try {
+        courseData = match ? JSON.parse(match[1]) : null;
+      } catch {
+        courseData = null;
+      }
+
+      if (!courseData) {
+        if (html) {
+          report.warning('suspend-data-unknown', 'Could not read the course data to size suspend_data', page);
+        }
+        continue;
+      }
+
+      const size = SuspendDataManager.getSize(
+        SuspendDataManager.worstCase(
+          courseData.lessons?.length ?? 0,
+          (courseData.quiz ?? []).map((q) => ({
+            type: q.type,
+            options: Array.isArray(q.options) ? q.options : [],
+            correctAnswer: '',
+          }))
+        )
+      );
+
+      if (size > limit) {
+        report.error(
+          'suspend-data-limit',
+          `Worst-case suspend_data is ${size} characters; SCORM ${version} allows ${limit}`,
+          page
+        );
+      } else {
+        report.add('info', 'suspend-data-size', `Worst-case suspend_data is ${size} of ${limit} characters`, page);
+      }
+    }
+  }
+
+  /**
+   * cmi5.xml structure, AU ids, launch URLs and mastery scores
+   */
+  private static checkCmi5Package(zip: AdmZip, files: Set<string>, report: ReportBuilder): void {
+    let root: XmlElement;
+
+    try {
+      root = parseXml(zip.readAsText(CMI5_MANIFEST, 'utf8'));
+    } catch (error) {
+      if (error instanceof XmlParseError) {
+        report.error('manifest-malformed', `${CMI5_MANIFEST} is not well-formed: ${error.message}`, CMI5_MANIFEST);
+        return;
+      }
+      throw error;
+    }
+
+    const at = (element: XmlElement) => `${CMI5_MANIFEST}:${element.line}`;
+
+    if (root.name !== 'courseStructure') {
+      report.error('manifest-structure', `Root element must be <courseStructure>, found <${root.name}>`, at(root));
+      return;
+    }
+
+    if (root.attributes.xmlns !== CMI5_NAMESPACE) {
+      report.error('namespace', `xmlns must be "${CMI5_NAMESPACE}"`, at(root));
+    }
+
+    const course = childNamed(root, 'course');
+    if (!course?.attributes.id) {
+      report.error('manifest-structure', 'cmi5.xml needs a <course> with an id', at(root));
+    }
+
+    const ids = new Map<string, number>();
+    if (course?.attributes.id) ids.set(course.attributes.id, course.line);
+
+    const aus: XmlElement[] = [];
+    const collect = (element: XmlElement) => {
+      for (const child of element.children) {
+        if (child.name === 'au') aus.push(child);
+        if (child.name === 'block') collect(child);
+      }
+    };
+    collect(root);
+
+    if (aus.length === 0) {
+      report.error('manifest-structure', 'cmi5.xml has no <au> elements', at(root));
+    }
+
+    for (const au of aus) {
+      const id = au.attributes.id;
+
+      if (!id) {
+        report.error('identifier-missing', '<au> has no id', at(au));
+      } else if (ids.has(id)) {
+        report.error('identifier-duplicate', `Id "${id}" is also used on line ${ids.get(id)}`, at(au));
+      } else {
+        ids.set(id, au.line);
+      }
+
+      this.checkVocabulary(au, 'moveOn', CMI5_MOVE_ON, report, false, at);
+      this.checkVocabulary(au, 'launchMethod', ['AnyWindow', 'OwnWindow'], report, false, at);
+
+      if (au.attributes.masteryScore !== undefined) {
+        this.checkRange(au, au.attributes.masteryScore, 0, 1, 'mastery-range', report, at);
+      }
+
+      const url = childNamed(au, 'url')?.text.trim();
+
+      if (!url) {
+        report.error('manifest-structure', '<au> needs a <url>', at(au));
+      } else if (!/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+        const entry = decodeURIComponent(url.split(/[?#]/)[0]);
+
+        if (!this.isSafePath(entry)) {
+          report.error('file-path', `AU url "${url}" points outside the package root`, at(au));
+        } else if (!files.has(path.posix.normalize(entry))) {
+          report.error('file-missing', `AU url "${url}" is not in the package`, at(au));
+        }
+      }
+    }
+  }
+
+  private static checkBoolean(element: XmlElement, attribute: string, report: ReportBuilder): void {
+    const value = element.attributes[attribute];
+
+    if (value !== undefined && value !== 'true' && value !== 'false') {
+      report.error('sequencing-value', `${attribute} must be "true" or "false", found "${value}"`, this.at(element));
+    }
+  }
+
+  private static checkVocabulary(
+    element: XmlElement | undefined,
+    attribute: string,
+    allowed: string[],
+    report: ReportBuilder,
+    required = false,
+    at: (element: XmlElement) => string = (target) => this.at(target)
+  ): void {
+    if (!element) {
+      return;
+    }
+
+    const value = element.attributes[attribute];
+
+    if (value === undefined) {
+      if (required) {
+        report.error('manifest-structure', `<${element.name}> needs a ${attribute} attribute`, at(element));
+      }
+      return;
+    }
+
+    if (!allowed.includes(value)) {
+      report.error(
+        'sequencing-value',
+        `${attribute}="${value}" is not one of ${allowed.join(', ')}`,
+        at(element)
+      );
+    }
+  }
+
+  private static checkRange(
+    element: XmlElement,
+    value: string,
+    min: number,
+    max: number,
+    code: string,
+    report: ReportBuilder,
+    at: (element: XmlElement) => string = (target) => this.at(target)
+  ): void {
+    const number = Number(value);
+
+    if (value === '' || !/^-?\d+(\.\d+)?$/.test(value) || number < min || number > max) {
+      report.error(code, `<${element.name}> value "${value}" must be a number from ${min} to ${max}`, at(element));
+    }
+  }
+
+  /**
+   * Relative path that stays inside the package root
+   */
+  private static isSafePath(entry: string): boolean {
+    if (entry.includes('\\') || entry.startsWith('/') || /^[a-z]:/i.test(entry)) {
+      return false;
+    }
+
+    return !path.posix.normalize(entry).startsWith('../') && path.posix.normalize(entry) !== '..';
+  }
+
+  private static at(element: XmlElement): string {
+    return `${MANIFEST}:${element.line}`;
+  }
+
+  private static versionLabel(version: PackageVersion): string {
+    return version === 'cmi5' ? 'cmi5' : `SCORM ${version}`;
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * SCORMPackageGenerator - Test Suite
+ *
+ * Verifies the organization tree, resources and SCORM 2004
+ * sequencing rules written to imsmanifest.xml, and the interactions the
+ * API wrappers report.
+ */
+
+import { SCORMAPIWrapper, SCORMConfig, SCORMPackageGenerator, SCORMVersion, SCOPage } from './scorm.js';
+import { SCORMHarnessRuntime } from './scorm-harness.js';
+
+const config: SCORMConfig = {
+  version: SCORMVersion.SCORM_1_2,
+  courseTitle: 'Safety & Compliance',
+  courseDescription: '',
+  passingScore: 70,
+  masteryScore: 80,
+};
+
+const scos: SCOPage[] = [
+  { identifier: 'LESSON-1', title: 'Lesson 1: Intro', href: 'lesson-1.html', html: '', assessment: false },
+  { identifier: 'LESSON-2', title: 'Lesson 2: <Tools>', href: 'lesson-2.html', html: '', assessment: false },
+  { identifier: 'ASSESSMENT', title: 'Final Assessment', href: 'assessment.html', html: '', assessment: true },
+];
+
+describe('SCORMPackageGenerator', () => {
+  it('keeps a single index.html item when no SCOs are given', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM12(config, ['assets/a.png']);
+
+    expect(manifest).toContain('<item identifier="ITEM-1" identifierref="RES-1">');
+    expect(manifest).toContain('<file href="index.html"/>');
+    expect(manifest).toContain('<file href="assets/a.png"/>');
+    expect(manifest).toContain('<title>Safety &amp; Compliance</title>');
+  });
+
+  it('writes one item and SCO resource per page for SCORM 1.2', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM12(config, ['assets/a.png'], scos);
+
+    expect(manifest.match(/<item /g)).toHaveLength(3);
+    expect(manifest.match(/adlcp:scormtype="sco"/g)).toHaveLength(3);
+    expect(manifest.match(/<dependency identifierref="RES-SHARED"\/>/g)).toHaveLength(3);
+    expect(manifest).toContain('<title>Lesson 2: &lt;Tools&gt;</title>');
+    expect(manifest).not.toContain('index.html');
+
+    // Only the assessment carries the mastery score
+    expect(manifest.match(/<adlcp:masteryscore>80<\/adlcp:masteryscore>/g)).toHaveLength(1);
+    expect(manifest.indexOf('masteryscore')).toBeGreaterThan(manifest.indexOf('ITEM-ASSESSMENT'));
+
+    // Shared assets live in one asset resource
+    expect(manifest).toMatch(
+      /<resource identifier="RES-SHARED" type="webcontent" adlcp:scormtype="asset">\s*<file href="scorm.js"\/>\s*<file href="assets\/a.png"\/>/
+    );
+  });
+
+  it('puts the primary objective on the assessment item for SCORM 2004', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM2004(
+      { ...config, version: SCORMVersion.SCORM_2004 },
+      [],
+      scos
+    );
+
+    expect(manifest.match(/adlcp:scormType="sco"/g)).toHaveLength(3);
+    expect(manifest).toContain('adlcp:scormType="asset"');
+    expect(manifest.match(/<imsss:primaryObjective /g)).toHaveLength(1);
+    expect(manifest.indexOf('imsss:primaryObjective')).toBeGreaterThan(
+      manifest.indexOf('ITEM-ASSESSMENT')
+    );
+  });
+
+  it('writes control mode, rollup rules and attempt limits from the config', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM2004({
+      ...config,
+      version: SCORMVersion.SCORM_2004,
+      sequencing: {
+        controlMode: { choice: false, flow: true, forwardOnly: true },
+        rollupRules: [
+          {
+            childActivitySet: 'atLeastPercent',
+            minimumPercent: 0.5,
+            conditions: [{ condition: 'completed' }],
+            action: 'completed',
+          },
+        ],
+        attemptLimit: 3,
+      },
+    });
+
+    expect(manifest).toContain('<imsss:controlMode choice="false" flow="true" forwardOnly="true"/>');
+    expect(manifest).toContain(
+      '<imsss:rollupRule childActivitySet="atLeastPercent" minimumPercent="0.5000">'
+    );
+    expect(manifest).toContain('<imsss:rollupCondition operator="noOp" condition="completed"/>');
+    expect(manifest).toContain('<imsss:limitConditions attemptLimit="3"/>');
+
+    // Organization-level sequencing follows the items; limits precede objectives
+    expect(manifest.indexOf('imsss:controlMode')).toBeGreaterThan(manifest.lastIndexOf('</item>'));
+    expect(manifest.indexOf('limitConditions')).toBeLessThan(manifest.indexOf('imsss:objectives'));
+  });
+
+  it('locks the assessment until every lesson is complete', () => {
+    const manifest = SCORMPackageGenerator.generateManifestSCORM2004(
+      {
+        ...config,
+        version: SCORMVersion.SCORM_2004,
+        sequencing: { lockAssessmentUntilLessonsComplete: true },
+      },
+      [],
+      scos
+    );
+
+    expect(manifest).toContain('adlseq:objectivesGlobalToSystem="false"');
+
+    // Lessons are grouped under a cluster that writes the global objective
+    const cluster = manifest.slice(
+      manifest.indexOf('<item identifier="ITEM-LESSONS">'),
+      manifest.indexOf('<item identifier="ITEM-ASSESSMENT"')
+    );
+    expect(cluster).toContain('identifierref="RES-LESSON-1"');
+    expect(cluster).toContain('identifierref="RES-LESSON-2"');
+    expect(cluster).toContain('writeSatisfiedStatus="true"');
+
+    // The assessment reads it and is disabled until it is satisfied
+    const assessment = manifest.slice(manifest.indexOf('<item identifier="ITEM-ASSESSMENT"'));
+    expect(assessment).toContain('<imsss:ruleAction action="disabled"/>');
+    expect(assessment).toContain('readSatisfiedStatus="true"');
+  });
+});
+
+describe('SCORMAPIWrapper', () => {
+  const createHarnessAPI = new Function(`${SCORMHarnessRuntime.generate()}; return createHarnessAPI;`)();
+  const matching = {
+    contentId: 'a1b2c3d4',
+    type: 'matching',
+    question: 'Match the capitals',
+    options: ['Paris', 'Rome'],
+    prompts: ['France', 'Italy'],
+    correctAnswer: 'A,B',
+  };
+
+  function launch(version: '1.2' | '2004', wrapper: string) {
+    const errors: string[] = [];
+    const api = createHarnessAPI(version, {
+      onTrace: (entry: { errorCode: string; diagnostic: string }) => {
+        if (entry.errorCode !== '0' && entry.errorCode !== '403') errors.push(entry.diagnostic);
+      },
+    });
+    const win: Record<string, unknown> = { [version === '1.2' ? 'API' : 'API_1484_11']: api, addEventListener: () => {} };
+    win.parent = win;
+
+    const runtime = new Function('window', `${wrapper}; return { initializeSCORM, recordInteraction };`)(win);
+    runtime.initializeSCORM();
+
+    return { api, runtime, errors };
+  }
+
+  it('appends SCORM 1.2 interactions in the 1.2 formats', () => {
+    const { api, runtime, errors } = launch('1.2', SCORMAPIWrapper.generateSCORM12Wrapper());
+
+    expect(runtime.recordInteraction(0, matching, 'B,A', false, { latency: 75000 })).toBe(true);
+    expect(runtime.recordInteraction(0, matching, 'A,B', true, {})).toBe(true);
+
+    expect(errors).toEqual([]);
+    expect(api.LMSGetValue('cmi.interactions._count')).toBe('2');
+    expect(api.LMSGetValue('cmi.interactions.0.correct_responses._count')).toBe('1');
+  });
+
+  it('writes SCORM 2004 interactions with responses, result and timing', () => {
+    const { api, runtime, errors } = launch('2004', SCORMAPIWrapper.generateSCORM2004Wrapper());
+
+    expect(runtime.recordInteraction(0, matching, 'B,A', false, { latency: 75000 })).toBe(true);
+
+    expect(errors).toEqual([]);
+    expect(api.GetValue('cmi.interactions.0.id')).toBe('question-a1b2c3d4');
+    expect(api.GetValue('cmi.interactions.0.type')).toBe('matching');
+    expect(api.GetValue('cmi.interactions.0.learner_response')).toBe('1[.]B[,]2[.]A');
+    expect(api.GetValue('cmi.interactions.0.correct_responses.0.pattern')).toBe('1[.]A[,]2[.]B');
+    expect(api.GetValue('cmi.interactions.0.result')).toBe('incorrect');
+    expect(api.GetValue('cmi.interactions.0.latency')).toBe('PT0H1M15S');
+    expect(api.GetValue('cmi.interactions.0.timestamp')).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+  });
+});
@@ -6,6 +6,13 @@
 
 import AdmZip from 'adm-zip';
 import path from 'path';
+import { PackageAsset } from './scorm-assets.js';
+import { CONTENT_ID_MAX_LENGTH } from '../db/content-id.js';
+import { MAX_FILL_IN_LENGTH } from './quiz.js';
+import { MAX_QUIZ_SEED, QuizDraw, QuizDrawQuestion, QuizDrawRuntime, QuizDrawSettings } from './quiz-draw.js';
+import { QuizRuleQuestion, QuizRulesRuntime } from './quiz-rules.js';
+import { QuizScore, QuizScoring, QuizScoringQuestion, QuizScoringRuntime } from './quiz-scoring.js';
+import { SuspendCodec, SuspendCodecRuntime } from './suspend-codec.js';
 
 /**
  * SCORM Version Enum
@@ -13,16 +20,21 @@ import path from 'path';
 export enum SCORMVersion {
   SCORM_1_2 = '1.2',
   SCORM_2004 = '2004',
+  CMI5 = 'cmi5', // Packaged by CMI5PackageGenerator
 }
 
 /**
- * Minified Suspend Data Structure
+ * Suspend Data Structure
+ * Stored with the compact codec in suspend-codec.ts
  * CRITICAL: Must stay under 4,096 characters for SCORM 1.2
  */
 export interface SuspendData {
   l: number; // Lesson ID (current slide)
   t: number; // Timestamp in seconds
   q: Record<string, string>; // Quiz answers (questionId: answer)
+  r?: string; // Course revision the bookmark was saved in
+  c?: string; // Content id of the current lesson
+  s?: number; // Seed of the assessment attempt (see quiz-draw.ts)
 }
 
 /**
@@ -35,6 +47,59 @@ export interface SCORMConfig {
   passingScore: number; // Percentage (0-100)
   masteryScore: number; // Percentage (0-100)
   maxTimeAllowed?: string; // Format: HH:MM:SS
+  sequencing?: SCORMSequencing; // SCORM 2004 only
+}
+
+/**
+ * SCORM 2004 Sequencing and Navigation settings
+ * Written to the manifest as IMS Simple Sequencing elements.
+ */
+export interface SCORMSequencing {
+  controlMode?: {
+    choice?: boolean; // Learner may pick any item from the table of contents
+    choiceExit?: boolean; // Learner may leave the current item via the table of contents
+    flow?: boolean; // Previous/Continue navigation between items
+    forwardOnly?: boolean; // No going back
+  };
+  rollupRules?: SCORMRollupRule[]; // How the course status is derived from its items
+  attemptLimit?: number; // Attempts allowed on the assessment (or the single item)
+  lockAssessmentUntilLessonsComplete?: boolean; // Multi-SCO only
+}
+
+export type SCORMRollupCondition =
+  | 'satisfied'
+  | 'objectiveStatusKnown'
+  | 'objectiveMeasureKnown'
+  | 'completed'
+  | 'activityProgressKnown'
+  | 'attempted'
+  | 'attemptLimitExceeded';
+
+export interface SCORMRollupRule {
+  childActivitySet: 'all' | 'any' | 'none' | 'atLeastCount' | 'atLeastPercent';
+  minimumCount?: number; // For atLeastCount
+  minimumPercent?: number; // For atLeastPercent (0-1)
+  conditionCombination?: 'all' | 'any';
+  conditions: Array<{ condition: SCORMRollupCondition; not?: boolean }>;
+  action: 'satisfied' | 'notSatisfied' | 'completed' | 'incomplete';
+}
+
+/**
+ * Global objective that lessons write and the assessment reads when the
+ * assessment is locked until every lesson is complete
+ */
+const LESSONS_COMPLETE_OBJECTIVE = 'com.courseforge.lessons-complete';
+
+/**
+ * One SCO in a multi-SCO package
+ * Each becomes an organization item backed by its own resource.
+ */
+export interface SCOPage {
+  identifier: string; // Unique within the package, e.g. LESSON-1
+  title: string;
+  href: string; // HTML file at the package root
+  html: string;
+  assessment: boolean; // Carries the mastery score / primary objective
 }
 
 /**
@@ -78,42 +143,51 @@ export class SessionTimer {
 
 /**
  * Suspend Data Manager
- * Handles minification and validation of bookmark data
+ * Handles encoding and validation of bookmark data
  */
 export class SuspendDataManager {
   private static readonly MAX_LENGTH = 4096;
 
   /**
-   * Serialize suspend data to minified JSON
+   * Encode suspend data in the current compact format
    * @throws Error if data exceeds SCORM 1.2 limit
    */
   static serialize(data: SuspendData): string {
-    const json = JSON.stringify(data);
+    const encoded = SuspendCodec.encode(data, { compress: true });
 
-    if (json.length > this.MAX_LENGTH) {
+    if (encoded.length > this.MAX_LENGTH) {
       throw new Error(
-        `Suspend data exceeds SCORM 1.2 limit: ${json.length} > ${this.MAX_LENGTH} characters`
+        `Suspend data exceeds SCORM 1.2 limit: ${encoded.length} > ${this.MAX_LENGTH} characters`
       );
     }
 
-    return json;
+    return encoded;
   }
 
   /**
-   * Deserialize suspend data from JSON string
+   * Decode suspend data written by any player version (legacy JSON or compact)
    */
-  static deserialize(json: string): SuspendData | null {
-    if (!json || json.trim() === '') {
+  static deserialize(raw: string): SuspendData | null {
+    if (!raw || raw.trim() === '') {
       return null;
     }
 
-    try {
-      const data = JSON.parse(json) as SuspendData;
-      return data;
-    } catch (error) {
-      console.error('Failed to parse suspend data:', error);
-      return null;
+    const data = SuspendCodec.decode(raw);
+
+    if (!data) {
+      console.error('Failed to decode suspend data:', raw.slice(0, 40));
     }
+
+    return data;
+  }
+
+  /**
+   * Re-encode a stored bookmark in the current format
+   * @returns The migrated bookmark, or null if it cannot be read
+   */
+  static migrate(raw: string): string | null {
+    const data = this.deserialize(raw);
+    return data ? SuspendCodec.encode(data, { compress: true }) : null;
   }
 
   /**
@@ -121,18 +195,59 @@ export class SuspendDataManager {
    */
   static validate(data: SuspendData): boolean {
     try {
-      const json = JSON.stringify(data);
-      return json.length <= this.MAX_LENGTH;
+      return this.getSize(data) <= this.MAX_LENGTH;
     } catch {
       return false;
     }
   }
 
   /**
-   * Get current data size in characters
+   * Get encoded data size in characters
    */
   static getSize(data: SuspendData): number {
-    return JSON.stringify(data).length;
+    return SuspendCodec.encode(data, { compress: true }).length;
+  }
+
+  /**
+   * Largest bookmark a course can produce: last slide, every question answered
+   * Answers vary so the answer string cannot be compressed. Pass the questions
+   * (rather than a count of single-choice ones) to size answers by type.
+   */
+  static worstCase(lessonCount: number, questions: number | QuizRuleQuestion[]): SuspendData {
+    const list = typeof questions === 'number' ? Array.from({ length: questions }, () => null) : questions;
+    const q: Record<string, string> = {};
+
+    list.forEach((question, index) => {
+      q[`q${index}`] = question ? this.worstAnswer(question, index) : 'ABCD'[index % 4];
+    });
+
+    return {
+      l: Math.max(lessonCount - 1, 0),
+      t: Math.floor(Date.now() / 1000),
+      q,
+      r: '000000-000000',
+      c: '0'.repeat(CONTENT_ID_MAX_LENGTH),
+      s: MAX_QUIZ_SEED,
+    };
+  }
+
+  /**
+   * Longest answer a learner can give to a question
+   */
+  private static worstAnswer(question: QuizRuleQuestion, index: number): string {
+    const letters = question.options.map((_, option) => String.fromCharCode(65 + option));
+
+    switch (question.type ?? 'single') {
+      case 'multiple':
+      case 'matching':
+        return letters.join(',');
+      case 'ordering':
+        return letters.reverse().join(',');
+      case 'fill-in':
+        return 'x'.repeat(MAX_FILL_IN_LENGTH);
+      default:
+        return 'ABCD'[index % 4];
+    }
   }
 }
 
@@ -155,28 +270,45 @@ export class ScoreCalculator {
   /**
    * Calculate score based on quiz answers
    * @param answers User's answers
-   * @param correctAnswers Correct answers
+   * @param correctAnswers Correct answer letters, or the questions themselves
+   * for types other than single choice or with scoring (see QuizScoring)
    * @returns Score as percentage (0-100)
    */
   static calculateScore(
     answers: Record<string, string>,
-    correctAnswers: Record<string, string>
+    correctAnswers: Record<string, string | QuizScoringQuestion>
   ): number {
-    const totalQuestions = Object.keys(correctAnswers).length;
-
-    if (totalQuestions === 0) {
-      return 0;
-    }
+    const entries = Object.entries(correctAnswers);
 
-    let correctCount = 0;
+    return this.calculateResult(
+      Object.fromEntries(entries.map(([questionId], index) => [`q${index}`, answers[questionId]])),
+      entries.map(([, question]) =>
+        typeof question === 'string' ? { options: [], correctAnswer: question } : question
+      )
+    ).percent;
+  }
 
-    for (const [questionId, correctAnswer] of Object.entries(correctAnswers)) {
-      if (answers[questionId] === correctAnswer) {
-        correctCount++;
-      }
-    }
+  /**
+   * Calculate points, range and percentage as the player reports them
+   * @param answers Answers keyed by question position ("q0", "q1", ...)
+   */
+  static calculateResult(answers: Record<string, string | undefined>, questions: QuizScoringQuestion[]): QuizScore {
+    return QuizScoring.score(questions, answers);
+  }
 
-    return Math.round((correctCount / totalQuestions) * 100);
+  /**
+   * Calculate the score of a drawn attempt
+   * Answers are keyed by the position the question was shown at ("q0") and
+   * use the shown option letters, as the player stores them.
+   * @param seed Seed of the attempt (suspend data "s")
+   */
+  static calculateAttemptScore(
+    answers: Record<string, string>,
+    quiz: Array<QuizDrawQuestion & QuizScoringQuestion>,
+    settings: QuizDrawSettings | null,
+    seed: number
+  ): QuizScore {
+    return this.calculateResult(answers, QuizDraw.draw(quiz, settings, seed));
   }
 
   /**
@@ -206,7 +338,10 @@ export class SCORMAPIWrapper {
    * Generate SCORM 1.2 API wrapper
    */
   static generateSCORM12Wrapper(): string {
-    return `
+    return `${SuspendCodecRuntime.generate()}
+${QuizRulesRuntime.generate()}
+${QuizDrawRuntime.generate()}
+${QuizScoringRuntime.generate()}
 // SCORM 1.2 API Wrapper
 var scormAPI = null;
 var sessionTimer = null;
@@ -255,31 +390,35 @@ function getSuspendData() {
   
   if (!data || data === "") return null;
   
-  try {
-    return JSON.parse(data);
-  } catch (e) {
-    console.error("Failed to parse suspend data:", e);
-    return null;
+  // Reads bookmarks written by earlier versions of the player too
+  var decoded = SuspendCodec.decode(data);
+  
+  if (!decoded) {
+    console.error("Failed to decode suspend data:", data.substring(0, 40));
   }
+  
+  return decoded;
 }
 
 function setSuspendData(data) {
   if (!scormAPI) return false;
   
-  var json = JSON.stringify(data);
+  var encoded = SuspendCodec.encode(data, { compress: true });
   
-  if (json.length > 4096) {
-    console.error("Suspend data exceeds 4096 character limit:", json.length);
+  if (encoded.length > 4096) {
+    console.error("Suspend data exceeds 4096 character limit:", encoded.length);
     return false;
   }
   
-  return scormAPI.LMSSetValue("cmi.suspend_data", json) === "true";
+  return scormAPI.LMSSetValue("cmi.suspend_data", encoded) === "true";
 }
 
+// score is a QuizScoring result. SCORM 1.2 limits raw, min and max to
+// 0-100 and compares raw with the mastery score, so the percentage is reported.
 function setScore(score) {
   if (!scormAPI) return false;
   
-  scormAPI.LMSSetValue("cmi.core.score.raw", score.toString());
+  scormAPI.LMSSetValue("cmi.core.score.raw", String(score.percent));
   scormAPI.LMSSetValue("cmi.core.score.min", "0");
   scormAPI.LMSSetValue("cmi.core.score.max", "100");
   
@@ -301,10 +440,52 @@ function setCompletionStatus(status, score, passingScore) {
   return true;
 }
 
+// Called by the player for each question when the quiz is submitted
+// timing.latency is the time taken to answer (ms), when known
+function recordInteraction(questionIndex, question, response, correct, timing) {
+  if (!scormAPI) return false;
+  
+  // Interactions are a journal: each attempt appends new entries
+  var n = parseInt(scormAPI.LMSGetValue("cmi.interactions._count"), 10) || 0;
+  var prefix = "cmi.interactions." + n + ".";
+  var id = "question-" + (question.contentId || questionIndex + 1);
+  
+  if (scormAPI.LMSSetValue(prefix + "id", id) !== "true") return false;
+  
+  scormAPI.LMSSetValue(prefix + "type", QuizRules.interactionType(question));
+  
+  var patterns = QuizRules.correctPatterns(question, "1.2");
+  for (var i = 0; i < patterns.length; i++) {
+    scormAPI.LMSSetValue(prefix + "correct_responses." + i + ".pattern", patterns[i]);
+  }
+  
+  var learnerResponse = QuizRules.formatResponse(question, response, "1.2");
+  if (learnerResponse !== "") {
+    scormAPI.LMSSetValue(prefix + "student_response", learnerResponse);
+  }
+  
+  scormAPI.LMSSetValue(prefix + "result", correct ? "correct" : "wrong");
+  scormAPI.LMSSetValue(prefix + "weighting", String(QuizScoring.maxPoints(question)));
+  
+  if (timing && timing.latency >= 0) {
+    scormAPI.LMSSetValue(prefix + "latency", formatTimespan(timing.latency / 1000));
+  }
+  
+  var now = new Date();
+  scormAPI.LMSSetValue(prefix + "time", pad(now.getHours()) + ":" + pad(now.getMinutes()) + ":" + pad(now.getSeconds()));
+  
+  return true;
+}
+
 function getSessionTime() {
   if (!sessionTimer) return "00:00:00";
   
-  var elapsed = Math.floor((Date.now() - sessionTimer) / 1000);
+  return formatTimespan((Date.now() - sessionTimer) / 1000);
+}
+
+// CMITimespan: HHHH:MM:SS
+function formatTimespan(totalSeconds) {
+  var elapsed = Math.min(Math.floor(totalSeconds), 9999 * 3600 + 3599);
   var hours = Math.floor(elapsed / 3600);
   var minutes = Math.floor((elapsed % 3600) / 60);
   var seconds = elapsed % 60;
@@ -354,7 +535,10 @@ window.addEventListener("beforeunload", function() {
    * Generate SCORM 2004 API wrapper
    */
   static generateSCORM2004Wrapper(): string {
-    return `
+    return `${SuspendCodecRuntime.generate()}
+${QuizRulesRuntime.generate()}
+${QuizDrawRuntime.generate()}
+${QuizScoringRuntime.generate()}
 // SCORM 2004 API Wrapper
 var scormAPI = null;
 var sessionTimer = null;
@@ -403,34 +587,37 @@ function getSuspendData() {
   
   if (!data || data === "") return null;
   
-  try {
-    return JSON.parse(data);
-  } catch (e) {
-    console.error("Failed to parse suspend data:", e);
-    return null;
+  // Reads bookmarks written by earlier versions of the player too
+  var decoded = SuspendCodec.decode(data);
+  
+  if (!decoded) {
+    console.error("Failed to decode suspend data:", data.substring(0, 40));
   }
+  
+  return decoded;
 }
 
 function setSuspendData(data) {
   if (!scormAPI) return false;
   
-  var json = JSON.stringify(data);
+  var encoded = SuspendCodec.encode(data, { compress: true });
   
-  if (json.length > 4096) {
-    console.error("Suspend data exceeds 4096 character limit:", json.length);
+  if (encoded.length > 64000) {
+    console.error("Suspend data exceeds 64000 character limit:", encoded.length);
     return false;
   }
   
-  return scormAPI.SetValue("cmi.suspend_data", json) === "true";
+  return scormAPI.SetValue("cmi.suspend_data", encoded) === "true";
 }
 
+// score is a QuizScoring result: raw, min and max are in points
 function setScore(score) {
   if (!scormAPI) return false;
   
-  scormAPI.SetValue("cmi.score.raw", score.toString());
-  scormAPI.SetValue("cmi.score.min", "0");
-  scormAPI.SetValue("cmi.score.max", "100");
-  scormAPI.SetValue("cmi.score.scaled", (score / 100).toFixed(2));
+  scormAPI.SetValue("cmi.score.raw", String(score.raw));
+  scormAPI.SetValue("cmi.score.min", String(score.min));
+  scormAPI.SetValue("cmi.score.max", String(score.max));
+  scormAPI.SetValue("cmi.score.scaled", String(score.scaled));
   
   return true;
 }
@@ -451,10 +638,54 @@ function setCompletionStatus(status, score, passingScore) {
   return true;
 }
 
+// Called by the player for each question when the quiz is submitted
+// timing.latency is the time taken to answer (ms), when known
+function recordInteraction(questionIndex, question, response, correct, timing) {
+  if (!scormAPI) return false;
+  
+  // Interactions are a journal: each attempt appends new entries
+  var n = parseInt(scormAPI.GetValue("cmi.interactions._count"), 10) || 0;
+  var prefix = "cmi.interactions." + n + ".";
+  var id = "question-" + (question.contentId || questionIndex + 1);
+  
+  if (scormAPI.SetValue(prefix + "id", id) !== "true") return false;
+  
+  // The type must be set before responses, whose format depends on it
+  scormAPI.SetValue(prefix + "type", QuizRules.interactionType(question));
+  scormAPI.SetValue(prefix + "description", String(question.question || "").substring(0, 250));
+  
+  var patterns = QuizRules.correctPatterns(question, "2004");
+  for (var i = 0; i < patterns.length; i++) {
+    scormAPI.SetValue(prefix + "correct_responses." + i + ".pattern", patterns[i]);
+  }
+  
+  var learnerResponse = QuizRules.formatResponse(question, response, "2004");
+  if (learnerResponse !== "") {
+    scormAPI.SetValue(prefix + "learner_response", learnerResponse);
+  }
+  
+  scormAPI.SetValue(prefix + "result", correct ? "correct" : "incorrect");
+  scormAPI.SetValue(prefix + "weighting", String(QuizScoring.maxPoints(question)));
+  
+  if (timing && timing.latency >= 0) {
+    scormAPI.SetValue(prefix + "latency", formatDuration(timing.latency / 1000));
+  }
+  
+  // Fractions of a second may have at most two digits
+  scormAPI.SetValue(prefix + "timestamp", new Date().toISOString().replace(/\\.\\d+Z$/, "Z"));
+  
+  return true;
+}
+
 function getSessionTime() {
   if (!sessionTimer) return "PT0H0M0S";
   
-  var elapsed = Math.floor((Date.now() - sessionTimer) / 1000);
+  return formatDuration((Date.now() - sessionTimer) / 1000);
+}
+
+// timeinterval (second,10,2): PT#H#M#S
+function formatDuration(totalSeconds) {
+  var elapsed = Math.floor(totalSeconds);
   var hours = Math.floor(elapsed / 3600);
   var minutes = Math.floor((elapsed % 3600) / 60);
   var seconds = elapsed % 60;
@@ -503,8 +734,37 @@ window.addEventListener("beforeunload", function() {
 export class SCORMPackageGenerator {
   /**
    * Generate imsmanifest.xml for SCORM 1.2
+   * Pass SCOs to get one item per SCO instead of a single index.html item.
    */
-  static generateManifestSCORM12(config: SCORMConfig): string {
+  static generateManifestSCORM12(
+    config: SCORMConfig,
+    assetFiles: string[] = [],
+    scos: SCOPage[] = []
+  ): string {
+    const title = this.escapeXml(config.courseTitle);
+
+    const items =
+      scos.length > 0
+        ? scos
+            .map(
+              (sco) => `      <item identifier="ITEM-${sco.identifier}" identifierref="RES-${sco.identifier}">
+        <title>${this.escapeXml(sco.title)}</title>
+${sco.assessment ? `        <adlcp:masteryscore>${config.masteryScore}</adlcp:masteryscore>\n` : ''}      </item>`
+            )
+            .join('\n')
+        : `      <item identifier="ITEM-1" identifierref="RES-1">
+        <title>${title}</title>
+        <adlcp:masteryscore>${config.masteryScore}</adlcp:masteryscore>
+      </item>`;
+
+    const resources =
+      scos.length > 0
+        ? this.multiSCOResources(scos, assetFiles, 'adlcp:scormtype')
+        : `    <resource identifier="RES-1" type="webcontent" adlcp:scormtype="sco" href="index.html">
+      <file href="index.html"/>
+      <file href="scorm.js"/>
+${this.fileEntries(assetFiles)}    </resource>`;
+
     return `<?xml version="1.0" encoding="UTF-8"?>
 <manifest identifier="com.courseforge.${Date.now()}" version="1.0"
           xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
@@ -521,19 +781,13 @@ export class SCORMPackageGenerator {
   
   <organizations default="ORG-1">
     <organization identifier="ORG-1">
-      <title>${this.escapeXml(config.courseTitle)}</title>
-      <item identifier="ITEM-1" identifierref="RES-1">
-        <title>${this.escapeXml(config.courseTitle)}</title>
-        <adlcp:masteryscore>${config.masteryScore}</adlcp:masteryscore>
-      </item>
+      <title>${title}</title>
+${items}
     </organization>
   </organizations>
   
   <resources>
-    <resource identifier="RES-1" type="webcontent" adlcp:scormtype="sco" href="index.html">
-      <file href="index.html"/>
-      <file href="scorm.js"/>
-    </resource>
+${resources}
   </resources>
   
 </manifest>`;
@@ -541,8 +795,41 @@ export class SCORMPackageGenerator {
 
   /**
    * Generate imsmanifest.xml for SCORM 2004
+   * Pass SCOs to get one item per SCO instead of a single index.html item.
+   * Sequencing rules come from config.sequencing.
    */
-  static generateManifestSCORM2004(config: SCORMConfig): string {
+  static generateManifestSCORM2004(
+    config: SCORMConfig,
+    assetFiles: string[] = [],
+    scos: SCOPage[] = []
+  ): string {
+    const title = this.escapeXml(config.courseTitle);
+    const sequencing = config.sequencing ?? {};
+    const locked = scos.length > 0 && !!sequencing.lockAssessmentUntilLessonsComplete;
+
+    const items =
+      scos.length > 0
+        ? this.multiSCOItems2004(config, scos)
+        : [
+            this.item2004('ITEM-1', 'RES-1', config.courseTitle, [
+              ...this.attemptLimit2004(sequencing),
+              this.primaryObjective2004(config),
+            ]),
+          ];
+
+    const organizationSequencing = this.sequencing2004([
+      ...this.controlMode2004(sequencing),
+      ...(sequencing.rollupRules?.length ? [this.rollupRules2004(sequencing.rollupRules)] : []),
+    ]);
+
+    const resources =
+      scos.length > 0
+        ? this.multiSCOResources(scos, assetFiles, 'adlcp:scormType')
+        : `    <resource identifier="RES-1" type="webcontent" adlcp:scormType="sco" href="index.html">
+      <file href="index.html"/>
+      <file href="scorm.js"/>
+${this.fileEntries(assetFiles)}    </resource>`;
+
     return `<?xml version="1.0" encoding="UTF-8"?>
 <manifest identifier="com.courseforge.${Date.now()}" version="1.0"
           xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
@@ -563,31 +850,246 @@ export class SCORMPackageGenerator {
   </metadata>
   
   <organizations default="ORG-1">
-    <organization identifier="ORG-1">
-      <title>${this.escapeXml(config.courseTitle)}</title>
-      <item identifier="ITEM-1" identifierref="RES-1">
-        <title>${this.escapeXml(config.courseTitle)}</title>
-        <imsss:sequencing>
-          <imsss:objectives>
-            <imsss:primaryObjective objectiveID="PRIMARY-OBJ" satisfiedByMeasure="true">
-              <imsss:minNormalizedMeasure>${(config.passingScore / 100).toFixed(2)}</imsss:minNormalizedMeasure>
-            </imsss:primaryObjective>
-          </imsss:objectives>
-        </imsss:sequencing>
-      </item>
-    </organization>
+    <organization identifier="ORG-1"${locked ? ' adlseq:objectivesGlobalToSystem="false"' : ''}>
+      <title>${title}</title>
+${items.map((item) => this.indent(item, 6)).join('\n')}
+${organizationSequencing ? `${this.indent(organizationSequencing, 6)}\n` : ''}    </organization>
   </organizations>
   
   <resources>
-    <resource identifier="RES-1" type="webcontent" adlcp:scormType="sco" href="index.html">
-      <file href="index.html"/>
-      <file href="scorm.js"/>
-    </resource>
+${resources}
   </resources>
   
 </manifest>`;
   }
 
+  /**
+   * Items for a multi-SCO SCORM 2004 package
+   * Lessons never count towards the course score; the assessment does.
+   * When the assessment is locked, lessons are grouped in a cluster that
+   * becomes satisfied once every lesson is completed and publishes that to
+   * a global objective the assessment reads in its precondition.
+   */
+  private static multiSCOItems2004(config: SCORMConfig, scos: SCOPage[]): string[] {
+    const sequencing = config.sequencing ?? {};
+    const lessons = scos.filter((sco) => !sco.assessment);
+    const assessments = scos.filter((sco) => sco.assessment);
+    const locked = !!sequencing.lockAssessmentUntilLessonsComplete && lessons.length > 0;
+
+    const lessonItems = lessons.map((sco) =>
+      this.item2004(`ITEM-${sco.identifier}`, `RES-${sco.identifier}`, sco.title, [
+        locked
+          ? '<imsss:rollupRules objectiveMeasureWeight="0"/>'
+          : '<imsss:rollupRules rollupObjectiveSatisfied="false" objectiveMeasureWeight="0"/>',
+      ])
+    );
+
+    const assessmentItems = assessments.map((sco) =>
+      this.item2004(`ITEM-${sco.identifier}`, `RES-${sco.identifier}`, sco.title, [
+        ...(locked ? [this.lessonsCompletePrecondition2004()] : []),
+        ...this.attemptLimit2004(sequencing),
+        this.primaryObjective2004(
+          config,
+          locked
+            ? [
+                '<imsss:objective objectiveID="LESSONS-COMPLETE">',
+                `  <imsss:mapInfo targetObjectiveID="${LESSONS_COMPLETE_OBJECTIVE}" readSatisfiedStatus="true"/>`,
+                '</imsss:objective>',
+              ]
+            : []
+        ),
+      ])
+    );
+
+    if (!locked) {
+      return [...lessonItems, ...assessmentItems];
+    }
+
+    const cluster = this.item2004(
+      'ITEM-LESSONS',
+      null,
+      'Lessons',
+      [
+        ...this.controlMode2004(sequencing),
+        this.rollupRules2004(
+          [
+            {
+              childActivitySet: 'all',
+              conditions: [{ condition: 'completed' }],
+              action: 'satisfied',
+            },
+          ],
+          'objectiveMeasureWeight="0"'
+        ),
+        [
+          '<imsss:objectives>',
+          '  <imsss:primaryObjective objectiveID="LESSONS-COMPLETE">',
+          `    <imsss:mapInfo targetObjectiveID="${LESSONS_COMPLETE_OBJECTIVE}" readSatisfiedStatus="false" writeSatisfiedStatus="true"/>`,
+          '  </imsss:primaryObjective>',
+          '</imsss:objectives>',
+        ].join('\n'),
+      ],
+      lessonItems
+    );
+
+    return [cluster, ...assessmentItems];
+  }
+
+  /**
+   * <item> with optional child items and sequencing, unindented
+   * @param resourceRef Resource identifier, or null for a cluster
+   */
+  private static item2004(
+    identifier: string,
+    resourceRef: string | null,
+    title: string,
+    sequencingParts: string[],
+    children: string[] = []
+  ): string {
+    const sequencing = this.sequencing2004(sequencingParts);
+
+    return [
+      `<item identifier="${identifier}"${resourceRef ? ` identifierref="${resourceRef}"` : ''}>`,
+      `  <title>${this.escapeXml(title)}</title>`,
+      ...children.map((child) => this.indent(child, 2)),
+      ...(sequencing ? [this.indent(sequencing, 2)] : []),
+      '</item>',
+    ].join('\n');
+  }
+
+  /**
+   * Wrap sequencing elements, or return an empty string if there are none
+   * Parts must already be in imsss schema order.
+   */
+  private static sequencing2004(parts: string[]): string {
+    if (parts.length === 0) {
+      return '';
+    }
+
+    return ['<imsss:sequencing>', ...parts.map((part) => this.indent(part, 2)), '</imsss:sequencing>'].join(
+      '\n'
+    );
+  }
+
+  private static controlMode2004(sequencing: SCORMSequencing): string[] {
+    const mode = sequencing.controlMode;
+
+    if (!mode) {
+      return [];
+    }
+
+    const attributes = (['choice', 'choiceExit', 'flow', 'forwardOnly'] as const)
+      .filter((key) => mode[key] !== undefined)
+      .map((key) => ` ${key}="${mode[key]}"`)
+      .join('');
+
+    return [`<imsss:controlMode${attributes}/>`];
+  }
+
+  private static attemptLimit2004(sequencing: SCORMSequencing): string[] {
+    if (!sequencing.attemptLimit) {
+      return [];
+    }
+
+    return [`<imsss:limitConditions attemptLimit="${sequencing.attemptLimit}"/>`];
+  }
+
+  private static rollupRules2004(rules: SCORMRollupRule[], attributes = ''): string {
+    const ruleXml = rules.map((rule) => {
+      const counts =
+        (rule.childActivitySet === 'atLeastCount' ? ` minimumCount="${rule.minimumCount ?? 0}"` : '') +
+        (rule.childActivitySet === 'atLeastPercent'
+          ? ` minimumPercent="${(rule.minimumPercent ?? 0).toFixed(4)}"`
+          : '');
+
+      return [
+        `<imsss:rollupRule childActivitySet="${rule.childActivitySet}"${counts}>`,
+        `  <imsss:rollupConditions conditionCombination="${rule.conditionCombination ?? 'any'}">`,
+        ...rule.conditions.map(
+          (condition) =>
+            `    <imsss:rollupCondition operator="${condition.not ? 'not' : 'noOp'}" condition="${condition.condition}"/>`
+        ),
+        '  </imsss:rollupConditions>',
+        `  <imsss:rollupAction action="${rule.action}"/>`,
+        '</imsss:rollupRule>',
+      ].join('\n');
+    });
+
+    return [
+      `<imsss:rollupRules${attributes ? ` ${attributes}` : ''}>`,
+      ...ruleXml.map((rule) => this.indent(rule, 2)),
+      '</imsss:rollupRules>',
+    ].join('\n');
+  }
+
+  /**
+   * Disable the assessment until the lessons objective is known and satisfied
+   * "not satisfied" alone would not fire while the status is still unknown.
+   */
+  private static lessonsCompletePrecondition2004(): string {
+    return [
+      '<imsss:sequencingRules>',
+      '  <imsss:preConditionRule>',
+      '    <imsss:ruleConditions conditionCombination="any">',
+      '      <imsss:ruleCondition referencedObjective="LESSONS-COMPLETE" operator="not" condition="objectiveStatusKnown"/>',
+      '      <imsss:ruleCondition referencedObjective="LESSONS-COMPLETE" operator="not" condition="satisfied"/>',
+      '    </imsss:ruleConditions>',
+      '    <imsss:ruleAction action="disabled"/>',
+      '  </imsss:preConditionRule>',
+      '</imsss:sequencingRules>',
+    ].join('\n');
+  }
+
+  private static primaryObjective2004(config: SCORMConfig, extraObjectives: string[] = []): string {
+    return [
+      '<imsss:objectives>',
+      '  <imsss:primaryObjective objectiveID="PRIMARY-OBJ" satisfiedByMeasure="true">',
+      `    <imsss:minNormalizedMeasure>${(config.passingScore / 100).toFixed(2)}</imsss:minNormalizedMeasure>`,
+      '  </imsss:primaryObjective>',
+      ...extraObjectives.map((line) => `  ${line}`),
+      '</imsss:objectives>',
+    ].join('\n');
+  }
+
+  private static indent(text: string, spaces: number): string {
+    const pad = ' '.repeat(spaces);
+    return text
+      .split('\n')
+      .map((line) => (line ? pad + line : line))
+      .join('\n');
+  }
+
+  /**
+   * One SCO resource per page, each depending on a shared asset resource
+   * that holds the API wrapper and bundled images
+   * @param scormTypeAttr adlcp:scormtype (1.2) or adlcp:scormType (2004)
+   */
+  private static multiSCOResources(
+    scos: SCOPage[],
+    assetFiles: string[],
+    scormTypeAttr: string
+  ): string {
+    const scoResources = scos.map(
+      (sco) => `    <resource identifier="RES-${sco.identifier}" type="webcontent" ${scormTypeAttr}="sco" href="${this.escapeXml(sco.href)}">
+      <file href="${this.escapeXml(sco.href)}"/>
+      <dependency identifierref="RES-SHARED"/>
+    </resource>`
+    );
+
+    const shared = `    <resource identifier="RES-SHARED" type="webcontent" ${scormTypeAttr}="asset">
+      <file href="scorm.js"/>
+${this.fileEntries(assetFiles)}    </resource>`;
+
+    return [...scoResources, shared].join('\n');
+  }
+
+  /**
+   * <file> entries for bundled assets, one per line
+   */
+  private static fileEntries(hrefs: string[]): string {
+    return hrefs.map((href) => `      <file href="${this.escapeXml(href)}"/>\n`).join('');
+  }
+
   /**
    * Escape XML special characters
    */
@@ -602,19 +1104,61 @@ export class SCORMPackageGenerator {
 
   /**
    * Create SCORM package ZIP
+   * Bundled assets are stored at their href and listed in the manifest.
    */
   static async createPackage(
     config: SCORMConfig,
     htmlContent: string,
-    outputPath: string
+    outputPath: string,
+    assets: PackageAsset[] = []
   ): Promise<void> {
+    const zip = this.createArchive(config, assets, []);
+    zip.addFile('index.html', Buffer.from(htmlContent, 'utf-8'));
+
+    // Write ZIP file
+    zip.writeZip(outputPath);
+  }
+
+  /**
+   * Create a multi-SCO package ZIP
+   * Every SCO page is written to the package root next to scorm.js.
+   */
+  static async createMultiSCOPackage(
+    config: SCORMConfig,
+    scos: SCOPage[],
+    outputPath: string,
+    assets: PackageAsset[] = []
+  ): Promise<void> {
+    if (scos.length === 0) {
+      throw new Error('A multi-SCO package needs at least one SCO');
+    }
+
+    const zip = this.createArchive(config, assets, scos);
+
+    for (const sco of scos) {
+      zip.addFile(sco.href, Buffer.from(sco.html, 'utf-8'));
+    }
+
+    // Write ZIP file
+    zip.writeZip(outputPath);
+  }
+
+  /**
+   * Start a package with the manifest, API wrapper and assets
+   */
+  private static createArchive(
+    config: SCORMConfig,
+    assets: PackageAsset[],
+    scos: SCOPage[]
+  ): AdmZip {
     const zip = new AdmZip();
+    const assetFiles = assets.map((asset) => asset.href);
 
     // Generate manifest
     const manifest =
       config.version === SCORMVersion.SCORM_1_2
-        ? this.generateManifestSCORM12(config)
-        : this.generateManifestSCORM2004(config);
+        ? this.generateManifestSCORM12(config, assetFiles, scos)
+        : this.generateManifestSCORM2004(config, assetFiles, scos);
 
     // Generate SCORM API wrapper
     const scormJS =
@@ -625,20 +1169,11 @@ export class SCORMPackageGenerator {
     // Add files to ZIP
     zip.addFile('imsmanifest.xml', Buffer.from(manifest, 'utf-8'));
     zip.addFile('scorm.js', Buffer.from(scormJS, 'utf-8'));
-    zip.addFile('index.html', Buffer.from(htmlContent, 'utf-8'));
 
-    // Write ZIP file
-    zip.writeZip(outputPath);
+    for (const asset of assets) {
+      zip.addFile(asset.href, asset.data);
+    }
+
+    return zip;
   }
 }
-
-/**
- * Export all utilities
- */
-export {
-  SessionTimer,
-  SuspendDataManager,
-  ScoreCalculator,
-  SCORMAPIWrapper,
-  SCORMPackageGenerator,
-};
@@ -0,0 +1,111 @@
+/**
+ * SegmentationEngine - Test Suite
+ *
+ * Verifies the offline heuristic provider splits on pauses,
+ * topic shifts and slide length, and is deterministic.
+ */
+
+import { SegmentationEngine, SegmentationProvider } from './segmentation.js';
+import { TranscriptCue } from './transcripts.js';
+
+/**
+ * Build back-to-back 5 second cues starting at `from`
+ */
+function cues(from: number, texts: string[]): TranscriptCue[] {
+  return texts.map((text, index) => ({
+    start: from + index * 5,
+    end: from + index * 5 + 5,
+    text,
+  }));
+}
+
+const scormCues = cues(0, [
+  'SCORM packages are zip files with a manifest.',
+  'The manifest lists every SCORM resource in the package.',
+  'Each SCORM resource points at launchable content.',
+  'The LMS reads the manifest when importing the package.',
+  'Resources can declare dependencies on shared package files.',
+]);
+
+const quizCues = cues(25, [
+  'Quizzes measure learner knowledge with questions.',
+  'Each question offers options and one correct answer.',
+  'Learners receive an explanation after answering questions.',
+  'Question scores roll up into a final percentage.',
+  'Passing requires a minimum quiz percentage.',
+]);
+
+describe('SegmentationEngine', () => {
+  describe('heuristic provider', () => {
+    it('should split on a topic shift', async () => {
+      const drafts = await SegmentationEngine.segment([...scormCues, ...quizCues]);
+
+      expect(drafts.map((draft) => draft.timestampStart)).toEqual(['00:00', '00:25']);
+      expect(drafts[1].visualReasoning).toMatch(/^Topic shift/);
+    });
+
+    it('should split on a long pause', async () => {
+      const afterPause = cues(40, scormCues.map((cue) => cue.text));
+      const drafts = await SegmentationEngine.segment([...scormCues, ...afterPause]);
+
+      expect(drafts.map((draft) => draft.timestampStart)).toEqual(['00:00', '00:40']);
+      expect(drafts[1].visualReasoning).toMatch(/^Pause of 15\.0s/);
+    });
+
+    it('should respect the maximum slide length', async () => {
+      const long = cues(0, Array(40).fill('SCORM manifest resources and packages'));
+      const drafts = await SegmentationEngine.segment(long, { maxSlideSeconds: 60 });
+
+      expect(drafts.map((draft) => draft.timestampStart)).toEqual([
+        '00:00',
+        '01:00',
+        '02:00',
+        '03:00',
+      ]);
+    });
+
+    it('should fill every lesson column from the segment', async () => {
+      const [first] = await SegmentationEngine.segment([...scormCues, ...quizCues]);
+
+      expect(first.sortOrder).toBe(0);
+      expect(first.contentSummary).toContain('SCORM packages are zip files');
+      expect(first.imagePrompt).toContain('scorm');
+    });
+
+    it('should be deterministic', async () => {
+      const input = [...scormCues, ...quizCues];
+
+      expect(await SegmentationEngine.segment(input)).toEqual(
+        await SegmentationEngine.segment(input)
+      );
+    });
+  });
+
+  describe('providers', () => {
+    it('should use a registered provider by name', async () => {
+      const provider: SegmentationProvider = {
+        name: 'test-llm',
+        segment: async (input) => [
+          {
+            timestampStart: '00:00',
+            contentSummary: `${input.length} cues`,
+            imagePrompt: '',
+            visualReasoning: '',
+            sortOrder: 0,
+          },
+        ],
+      };
+
+      SegmentationEngine.register(provider);
+      const drafts = await SegmentationEngine.segment(scormCues, {}, 'test-llm');
+
+      expect(drafts[0].contentSummary).toBe('5 cues');
+    });
+
+    it('should reject unknown providers', async () => {
+      await expect(SegmentationEngine.segment(scormCues, {}, 'missing')).rejects.toThrow(
+        'Unknown segmentation provider: missing'
+      );
+    });
+  });
+});
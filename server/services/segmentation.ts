@@ -0,0 +1,290 @@
+/**
+ * Transcript Segmentation Service
+ * Turns timed transcript cues into draft lessons (slides)
+ *
+ * The built-in heuristic provider runs fully offline and is deterministic:
+ * the same cues and options always produce the same drafts. Other providers
+ * (e.g. an LLM) can be registered under their own name and selected per call.
+ */
+
+import { TranscriptCue, TranscriptParser } from './transcripts.js';
+
+/**
+ * Tuning knobs for segmentation
+ * All durations are in seconds.
+ */
+export interface SegmentationOptions {
+  targetSlideSeconds: number; // Preferred slide length
+  minSlideSeconds: number; // Never cut before this
+  maxSlideSeconds: number; // Always cut after this
+  pauseSeconds: number; // Silence between cues that suggests a boundary
+  topicShiftThreshold: number; // Keyword overlap (0-1) below which topics differ
+  windowCues: number; // Cues compared on each side of a boundary
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  targetSlideSeconds: 60,
+  minSlideSeconds: 20,
+  maxSlideSeconds: 180,
+  pauseSeconds: 2.5,
+  topicShiftThreshold: 0.1,
+  windowCues: 4,
+};
+
+/**
+ * Draft lesson produced by a provider
+ * Matches the editable columns of the lessons table.
+ */
+export interface LessonDraft {
+  timestampStart: string;
+  contentSummary: string;
+  imagePrompt: string;
+  visualReasoning: string;
+  sortOrder: number;
+}
+
+/**
+ * Pluggable segmentation backend
+ */
+export interface SegmentationProvider {
+  readonly name: string;
+  segment(cues: TranscriptCue[], options: SegmentationOptions): Promise<LessonDraft[]>;
+}
+
+const STOPWORDS = new Set(
+  (
+    'a about above after again against all also am an and any are as at be because been before ' +
+    'being below between both but by can could did do does doing down during each few for from ' +
+    'further get got had has have having he her here hers him his how i if in into is it its itself ' +
+    'just let like me more most my no nor not now of off on once only or other our ours out over own ' +
+    'really right same she should so some such than that the their theirs them then there these they ' +
+    'thing things this those through to too under until up us very was way we well were what when ' +
+    'where which while who whom why will with would yeah yes you your yours okay gonna going want know ' +
+    'think see look make one two lot kind sort actually basically must may might shall need'
+  ).split(' ')
+);
+
+const MAX_SUMMARY_LENGTH = 320;
+const PROMPT_KEYWORDS = 4;
+
+export class HeuristicSegmentationProvider implements SegmentationProvider {
+  readonly name = 'heuristic';
+
+  async segment(cues: TranscriptCue[], options: SegmentationOptions): Promise<LessonDraft[]> {
+    if (cues.length === 0) {
+      return [];
+    }
+
+    const cueKeywords = cues.map((cue) => HeuristicSegmentationProvider.keywords(cue.text));
+    const segments: Array<{ from: number; to: number; reason: string }> = [];
+    let segmentStart = 0;
+    let reason = 'Start of transcript';
+
+    for (let i = 1; i < cues.length; i++) {
+      const elapsed = cues[i].start - cues[segmentStart].start;
+
+      if (elapsed < options.minSlideSeconds) {
+        continue;
+      }
+
+      const cutReason = this.boundaryReason(cues, cueKeywords, i, elapsed, options);
+
+      if (cutReason) {
+        segments.push({ from: segmentStart, to: i, reason });
+        segmentStart = i;
+        reason = cutReason;
+      }
+    }
+
+    segments.push({ from: segmentStart, to: cues.length, reason });
+
+    return segments.map((segment, index) =>
+      this.toDraft(cues.slice(segment.from, segment.to), segment.reason, index)
+    );
+  }
+
+  /**
+   * Decide whether a new slide starts at cue i
+   * @returns Why the boundary was placed, or null to keep going
+   */
+  private boundaryReason(
+    cues: TranscriptCue[],
+    cueKeywords: string[][],
+    i: number,
+    elapsed: number,
+    options: SegmentationOptions
+  ): string | null {
+    if (elapsed >= options.maxSlideSeconds) {
+      return `Maximum slide length of ${options.maxSlideSeconds}s reached`;
+    }
+
+    const pause = cues[i].start - cues[i - 1].end;
+    if (pause >= options.pauseSeconds) {
+      return `Pause of ${pause.toFixed(1)}s in narration`;
+    }
+
+    // Windows shorter than half size (near the ends) are too noisy to compare
+    const beforeCues = cueKeywords.slice(Math.max(0, i - options.windowCues), i);
+    const afterCues = cueKeywords.slice(i, i + options.windowCues);
+    const minWindow = Math.ceil(options.windowCues / 2);
+
+    if (beforeCues.length >= minWindow && afterCues.length >= minWindow) {
+      const overlap = HeuristicSegmentationProvider.overlap(beforeCues.flat(), afterCues.flat());
+
+      if (overlap < options.topicShiftThreshold) {
+        return `Topic shift (keyword overlap ${overlap.toFixed(2)})`;
+      }
+    }
+
+    const endsSentence = /[.?!]["')\]]?$/.test(cues[i - 1].text);
+    if (elapsed >= options.targetSlideSeconds && endsSentence) {
+      return `Target slide length of ${options.targetSlideSeconds}s reached`;
+    }
+
+    return null;
+  }
+
+  private toDraft(segmentCues: TranscriptCue[], reason: string, index: number): LessonDraft {
+    const text = TranscriptParser.toPlainText(segmentCues);
+    const ranked = HeuristicSegmentationProvider.rankKeywords(text);
+    const topKeywords = ranked.slice(0, PROMPT_KEYWORDS);
+    const topic = topKeywords.slice(0, 2).join(' and ') || 'the topic';
+
+    return {
+      timestampStart: TranscriptParser.formatTimestamp(segmentCues[0].start),
+      contentSummary: this.summarize(text, ranked),
+      imagePrompt:
+        `Professional 16:9 presentation slide about ${topic}. ` +
+        (topKeywords.length > 0 ? `Key concepts: ${topKeywords.join(', ')}. ` : '') +
+        'Clean, modern corporate style with simple iconography and minimal text.',
+      visualReasoning: `${reason}; covers ${TranscriptParser.formatTimestamp(
+        segmentCues[0].start
+      )}-${TranscriptParser.formatTimestamp(segmentCues[segmentCues.length - 1].end)}`,
+      sortOrder: index,
+    };
+  }
+
+  /**
+   * Extractive summary: the highest scoring sentences, in original order
+   */
+  private summarize(text: string, rankedKeywords: string[]): string {
+    if (text.length <= MAX_SUMMARY_LENGTH) {
+      return text;
+    }
+
+    const weights = new Map(rankedKeywords.map((word, rank) => [word, rankedKeywords.length - rank]));
+    const sentences = text.match(/[^.?!]+[.?!]+["')\]]?|[^.?!]+$/g)?.map((s) => s.trim()) ?? [text];
+
+    const scored = sentences.map((sentence, position) => {
+      const words = HeuristicSegmentationProvider.keywords(sentence);
+      const score = words.reduce((sum, word) => sum + (weights.get(word) ?? 0), 0);
+      return { sentence, position, score: words.length > 0 ? score / Math.sqrt(words.length) : 0 };
+    });
+
+    const chosen: typeof scored = [];
+    let length = 0;
+
+    for (const candidate of [...scored].sort((a, b) => b.score - a.score || a.position - b.position)) {
+      if (length + candidate.sentence.length > MAX_SUMMARY_LENGTH && chosen.length > 0) {
+        continue;
+      }
+      chosen.push(candidate);
+      length += candidate.sentence.length + 1;
+    }
+
+    const summary = chosen
+      .sort((a, b) => a.position - b.position)
+      .map((candidate) => candidate.sentence)
+      .join(' ');
+
+    return summary.length > MAX_SUMMARY_LENGTH
+      ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1).trimEnd()}…`
+      : summary;
+  }
+
+  /**
+   * Content words of a text, lowercased and lightly stemmed
+   */
+  static keywords(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z][a-z0-9'-]*/g) ?? [])
+      .map((word) => word.replace(/'s$/, '').replace(/(?<=[a-z]{3})s$/, ''))
+      .filter((word) => word.length >= 3 && !STOPWORDS.has(word));
+  }
+
+  /**
+   * Keywords ordered by frequency, ties broken by first occurrence
+   */
+  static rankKeywords(text: string): string[] {
+    const counts = new Map<string, number>();
+
+    for (const word of this.keywords(text)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([word]) => word);
+  }
+
+  /**
+   * Jaccard overlap of two keyword bags (0 = disjoint, 1 = identical)
+   */
+  static overlap(a: string[], b: string[]): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    const union = new Set([...setA, ...setB]);
+
+    if (union.size === 0) {
+      return 1;
+    }
+
+    let shared = 0;
+    for (const word of setA) {
+      if (setB.has(word)) {
+        shared++;
+      }
+    }
+
+    return shared / union.size;
+  }
+}
+
+/**
+ * Segmentation Engine
+ * Registry of providers; the heuristic provider is always available.
+ */
+export class SegmentationEngine {
+  private static providers = new Map<string, SegmentationProvider>([
+    ['heuristic', new HeuristicSegmentationProvider()],
+  ]);
+
+  /**
+   * Register (or replace) a provider under its name
+   */
+  static register(provider: SegmentationProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Names of all registered providers
+   */
+  static list(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Segment cues into draft lessons
+   * @throws Error if the provider is not registered
+   */
+  static async segment(
+    cues: TranscriptCue[],
+    options: Partial<SegmentationOptions> = {},
+    providerName = 'heuristic'
+  ): Promise<LessonDraft[]> {
+    const provider = this.providers.get(providerName);
+
+    if (!provider) {
+      throw new Error(`Unknown segmentation provider: ${providerName}`);
+    }
+
+    return provider.segment(cues, { ...DEFAULT_SEGMENTATION_OPTIONS, ...options });
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Snapshot Service - Test Suite
+ *
+ * Verifies the diff between two course documents: added, removed, edited
+ * and reordered slides and questions, matched by content id.
+ */
+
+import { CourseDocument } from './course-document.js';
+import { DEFAULT_QUIZ_ASSESSMENT } from './quiz-assessment.js';
+import { SnapshotService } from './snapshots.js';
+
+type Lesson = CourseDocument['lessons'][number];
+type Question = CourseDocument['quiz'][number];
+
+function lesson(contentId: string, slideId: number, contentSummary: string): Lesson {
+  return {
+    contentId,
+    slideId,
+    timestampStart: '00:00',
+    contentSummary,
+    imagePrompt: 'A diagram',
+    imageUrl: null,
+    visualReasoning: null,
+  };
+}
+
+function question(contentId: string, text: string, correctAnswer = 'A'): Question {
+  return {
+    contentId,
+    type: 'single',
+    bankId: null,
+    sectionId: null,
+    question: text,
+    options: ['A', 'B'],
+    correctAnswer,
+    settings: null,
+    explanation: '',
+  };
+}
+
+function course(overrides: Partial<CourseDocument> = {}): CourseDocument {
+  return {
+    format: 'courseforge.course',
+    version: 1,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    project: { title: 'Safety', description: null, videoUrl: null, thumbnailUrl: null, status: 'draft' },
+    lessons: [lesson('l1', 1, 'Intro'), lesson('l2', 2, 'Hazards')],
+    quiz: [question('q1', 'What is PPE?'), question('q2', 'Who reports?')],
+    assessment: DEFAULT_QUIZ_ASSESSMENT,
+    meta: { learningObjectives: ['Spot hazards'], tags: ['safety'] },
+    transcripts: [],
+    ...overrides,
+  };
+}
+
+describe('SnapshotService.diff', () => {
+  it('reports no changes between identical courses', () => {
+    const diff = SnapshotService.diff(course(), course({ exportedAt: '2026-02-01T00:00:00.000Z' }));
+
+    expect(diff.unchanged).toBe(true);
+    expect(diff.lessons).toEqual({ added: [], removed: [], edited: [], reordered: false });
+  });
+
+  it('lists added, removed and edited slides by content id', () => {
+    const to = course({ lessons: [lesson('l1', 1, 'Welcome'), lesson('l3', 2, 'Equipment')] });
+    const diff = SnapshotService.diff(course(), to);
+
+    expect(diff.lessons.added).toEqual([{ contentId: 'l3', title: 'Equipment' }]);
+    expect(diff.lessons.removed).toEqual([{ contentId: 'l2', title: 'Hazards' }]);
+    expect(diff.lessons.edited).toEqual([{ contentId: 'l1', title: 'Welcome', fields: ['contentSummary'] }]);
+    expect(diff.unchanged).toBe(false);
+  });
+
+  it('lists edited and reordered questions', () => {
+    const to = course({ quiz: [question('q2', 'Who reports?', 'B'), question('q1', 'What is PPE?')] });
+    const diff = SnapshotService.diff(course(), to);
+
+    expect(diff.quiz.edited).toEqual([{ contentId: 'q2', title: 'Who reports?', fields: ['correctAnswer'] }]);
+    expect(diff.quiz.reordered).toBe(true);
+    expect(diff.quiz.added).toEqual([]);
+  });
+
+  it('reports project, assessment and metadata changes', () => {
+    const from = course();
+    const to = course({
+      project: { ...from.project, title: 'Site safety', status: 'published' },
+      assessment: { ...DEFAULT_QUIZ_ASSESSMENT, shuffleQuestions: !DEFAULT_QUIZ_ASSESSMENT.shuffleQuestions },
+      meta: { learningObjectives: ['Spot hazards', 'Report incidents'], tags: [] },
+    });
+    const diff = SnapshotService.diff(from, to);
+
+    expect(diff.project).toEqual([{ field: 'title', from: 'Safety', to: 'Site safety' }]);
+    expect(diff.assessmentChanged).toBe(true);
+    expect(diff.meta).toEqual({
+      objectivesAdded: ['Report incidents'],
+      objectivesRemoved: [],
+      tagsAdded: [],
+      tagsRemoved: ['safety'],
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Snapshot Service
+ * Immutable versions of a course, their differences and restoring them
+ *
+ * A snapshot is a course document (see CourseDocumentService) of the
+ * project's details, lessons, quiz and metadata; transcripts are left out.
+ * Snapshots are taken:
+ * - on publish, so the version learners take is always known
+ * - for every export (reusing the latest one when nothing changed), and
+ *   the package is built from it
+ * - on demand
+ * - before a restore, so a restore can itself be undone
+ *
+ * Snapshots are never changed after they are taken. Lessons and questions
+ * are matched across snapshots by their content id.
+ */
+
+import { createHash } from 'crypto';
+import { and, desc, eq } from 'drizzle-orm';
+import { Database, withTransaction } from '../db/index.js';
+import { parseJsonObject, toJsonColumn } from '../db/json.js';
+import { projectSnapshots, users } from '../db/schema.js';
+import { CourseDocument, CourseDocumentService, courseDocumentSchema } from './course-document.js';
+
+export type SnapshotReason = 'manual' | 'publish' | 'export' | 'restore';
+
+export interface SnapshotSummary {
+  id: number;
+  projectId: number;
+  number: number;
+  reason: SnapshotReason;
+  label: string | null;
+  contentHash: string;
+  createdBy: number | null;
+  createdAt: Date;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  document: CourseDocument;
+}
+
+/**
+ * A lesson or question in a diff
+ */
+export interface DiffItem {
+  contentId: string;
+  title: string;
+}
+
+export interface EditedItem extends DiffItem {
+  fields: string[]; // Names of the fields that differ
+}
+
+export interface ListDiff {
+  added: DiffItem[];
+  removed: DiffItem[];
+  edited: EditedItem[];
+  reordered: boolean; // Items in both snapshots are in a different order
+}
+
+export interface SnapshotDiff {
+  project: Array<{ field: string; from: unknown; to: unknown }>;
+  lessons: ListDiff;
+  quiz: ListDiff;
+  assessmentChanged: boolean; // Banks, sections or randomization
+  meta: {
+    objectivesAdded: string[];
+    objectivesRemoved: string[];
+    tagsAdded: string[];
+    tagsRemoved: string[];
+  };
+  unchanged: boolean;
+}
+
+const PROJECT_FIELDS = ['title', 'description', 'videoUrl', 'thumbnailUrl'] as const;
+
+const LESSON_FIELDS = [
+  'slideId',
+  'timestampStart',
+  'contentSummary',
+  'imagePrompt',
+  'imageUrl',
+  'visualReasoning',
+] as const;
+
+const QUESTION_FIELDS = [
+  'type',
+  'question',
+  'options',
+  'correctAnswer',
+  'settings',
+  'bankId',
+  'sectionId',
+  'explanation',
+] as const;
+
+/**
+ * Item titles in a diff are cut at this length
+ */
+const TITLE_MAX_LENGTH = 80;
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function truncate(text: string): string {
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+}
+
+/**
+ * Compare two lists of items by content id
+ */
+function diffList<T extends { contentId?: string }>(
+  from: T[],
+  to: T[],
+  fields: readonly (keyof T & string)[],
+  titleOf: (item: T) => string
+): ListDiff {
+  const keyOf = (item: T, index: number) => item.contentId ?? `#${index}`;
+  const before = new Map(from.map((item, index) => [keyOf(item, index), item]));
+  const after = new Map(to.map((item, index) => [keyOf(item, index), item]));
+  const itemOf = (contentId: string, item: T): DiffItem => ({ contentId, title: truncate(titleOf(item)) });
+
+  const added = [...after].filter(([key]) => !before.has(key)).map(([key, item]) => itemOf(key, item));
+  const removed = [...before].filter(([key]) => !after.has(key)).map(([key, item]) => itemOf(key, item));
+  const edited: EditedItem[] = [];
+
+  for (const [key, item] of after) {
+    const previous = before.get(key);
+    const changed = previous ? fields.filter((field) => !same(previous[field], item[field])) : [];
+
+    if (changed.length > 0) {
+      edited.push({ ...itemOf(key, item), fields: changed });
+    }
+  }
+
+  const kept = (keys: Map<string, T>, other: Map<string, T>) => [...keys.keys()].filter((key) => other.has(key));
+
+  return {
+    added,
+    removed,
+    edited,
+    reordered: !same(kept(before, after), kept(after, before)),
+  };
+}
+
+function difference(a: string[], b: string[]): string[] {
+  return a.filter((value) => !b.includes(value));
+}
+
+/**
+ * Hash of what a snapshot contains, ignoring row ids, status and when it
+ * was taken
+ */
+function hashContent(document: CourseDocument): string {
+  const content = {
+    project: PROJECT_FIELDS.map((field) => document.project[field]),
+    lessons: document.lessons.map(({ id: _id, ...lesson }) => lesson),
+    quiz: document.quiz.map(({ id: _id, ...question }) => question),
+    assessment: document.assessment,
+    meta: document.meta,
+  };
+
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+function toSummary(row: typeof projectSnapshots.$inferSelect): SnapshotSummary {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    number: row.number,
+    reason: row.reason as SnapshotReason,
+    label: row.label,
+    contentHash: row.contentHash,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+  };
+}
+
+export class SnapshotService {
+  /**
+   * Take a snapshot of a project's current course
+   * For exports the latest snapshot is reused if nothing changed since.
+   * Does not open a transaction, so it can be part of a caller's.
+   */
+  static async create(
+    db: Database,
+    projectId: number,
+    options: { reason: SnapshotReason; label?: string | null; userId?: number | null }
+  ): Promise<SnapshotSummary> {
+    const document: CourseDocument = { ...(await CourseDocumentService.load(db, projectId)), transcripts: [] };
+    const contentHash = hashContent(document);
+
+    const latest = await db
+      .select()
+      .from(projectSnapshots)
+      .where(eq(projectSnapshots.projectId, projectId))
+      .orderBy(desc(projectSnapshots.number))
+      .limit(1);
+
+    if (options.reason === 'export' && latest[0]?.contentHash === contentHash) {
+      return toSummary(latest[0]);
+    }
+
+    const result = await db
+      .insert(projectSnapshots)
+      .values({
+        projectId,
+        number: (latest[0]?.number ?? 0) + 1,
+        reason: options.reason,
+        label: options.label?.trim() || null,
+        document: toJsonColumn(document),
+        contentHash,
+        createdBy: options.userId ?? null,
+      })
+      .returning();
+
+    return toSummary(result[0]);
+  }
+
+  /**
+   * Snapshots of a project without their documents, newest first
+   */
+  static async list(db: Database, projectId: number): Promise<Array<SnapshotSummary & { createdByName: string | null }>> {
+    const rows = await db
+      .select({ snapshot: projectSnapshots, createdByName: users.name })
+      .from(projectSnapshots)
+      .leftJoin(users, eq(users.id, projectSnapshots.createdBy))
+      .where(eq(projectSnapshots.projectId, projectId))
+      .orderBy(desc(projectSnapshots.number));
+
+    return rows.map((row) => ({ ...toSummary(row.snapshot), createdByName: row.createdByName }));
+  }
+
+  /**
+   * A snapshot of a project with its document
+   * @throws Error if the project has no such snapshot
+   */
+  static async get(db: Database, projectId: number, snapshotId: number): Promise<Snapshot> {
+    const result = await db
+      .select()
+      .from(projectSnapshots)
+      .where(and(eq(projectSnapshots.id, snapshotId), eq(projectSnapshots.projectId, projectId)))
+      .limit(1);
+
+    if (!result[0]) {
+      throw new Error(`Snapshot ${snapshotId} not found`);
+    }
+
+    const document = parseJsonObject(result[0].document);
+
+    if (!document) {
+      throw new Error(`Snapshot ${snapshotId} has no course document`);
+    }
+
+    return { ...toSummary(result[0]), document: courseDocumentSchema.parse(document) };
+  }
+
+  /**
+   * Put a project's course back to a snapshot
+   * The current course is snapshotted first, so the restore can be undone.
+   * @returns The snapshot taken before restoring
+   */
+  static async restore(db: Database, projectId: number, snapshotId: number, userId: number): Promise<SnapshotSummary> {
+    return await withTransaction(db, async (tx) => {
+      const snapshot = await this.get(tx, projectId, snapshotId);
+      const backup = await this.create(tx, projectId, {
+        reason: 'restore',
+        label: `Before restoring snapshot ${snapshot.number}`,
+        userId,
+      });
+
+      await CourseDocumentService.replaceContent(tx, projectId, snapshot.document);
+
+      return backup;
+    });
+  }
+
+  /**
+   * What changed from one course document to another
+   */
+  static diff(from: CourseDocument, to: CourseDocument): SnapshotDiff {
+    const project = PROJECT_FIELDS.filter((field) => !same(from.project[field], to.project[field])).map(
+      (field) => ({ field, from: from.project[field], to: to.project[field] })
+    );
+    const lessons = diffList(from.lessons, to.lessons, LESSON_FIELDS, (lesson) => lesson.contentSummary);
+    const quiz = diffList(from.quiz, to.quiz, QUESTION_FIELDS, (question) => question.question);
+    const assessmentChanged = !same(from.assessment, to.assessment);
+
+    const objectivesBefore = from.meta?.learningObjectives ?? [];
+    const objectivesAfter = to.meta?.learningObjectives ?? [];
+    const tagsBefore = from.meta?.tags ?? [];
+    const tagsAfter = to.meta?.tags ?? [];
+    const meta = {
+      objectivesAdded: difference(objectivesAfter, objectivesBefore),
+      objectivesRemoved: difference(objectivesBefore, objectivesAfter),
+      tagsAdded: difference(tagsAfter, tagsBefore),
+      tagsRemoved: difference(tagsBefore, tagsAfter),
+    };
+
+    const listChanged = (list: ListDiff) =>
+      list.added.length > 0 || list.removed.length > 0 || list.edited.length > 0 || list.reordered;
+
+    return {
+      project,
+      lessons,
+      quiz,
+      assessmentChanged,
+      meta,
+      unchanged:
+        project.length === 0 &&
+        !listChanged(lessons) &&
+        !listChanged(quiz) &&
+        !assessmentChanged &&
+        Object.values(meta).every((values) => values.length === 0),
+    };
+  }
+}
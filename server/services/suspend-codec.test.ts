@@ -0,0 +1,82 @@
+/**
+ * Suspend Data Codec - Test Suite
+ *
+ * Verifies round trips of the compact bookmark format, that earlier
+ * bookmarks still decode and are fitted to a republished course, and that
+ * long quizzes fit the SCORM 1.2 limit.
+ */
+
+import { SuspendDataManager } from './scorm.js';
+import { SuspendCodec } from './suspend-codec.js';
+
+describe('SuspendCodec', () => {
+  it('packs answers as an index string with base36 numbers', () => {
+    const data = {
+      l: 40,
+      t: 1760000000,
+      q: { q0: 'B', q2: 'A', q3: 'D' },
+      r: 'a1b2c3-d4e5f6',
+      c: '9f8e7d6c',
+      s: 4294967295,
+    };
+    const encoded = SuspendCodec.encode(data);
+
+    expect(encoded).toBe(`3.14.${(1760000000).toString(36)}.a1b2c3-d4e5f6.9f8e7d6c.1z141z3.1-03`);
+    expect(SuspendCodec.formatOf(encoded)).toBe(3);
+    expect(SuspendCodec.decode(encoded)).toEqual(data);
+  });
+
+  it('compresses runs and keeps answers that are not option letters', () => {
+    const q: Record<string, string> = { q0: 'A', q29: 'C', free: 'two words. with dots' };
+    const encoded = SuspendCodec.encode({ l: 0, t: 0, q }, { compress: true });
+
+    expect(encoded).toBe('3.0.0....~0*-s*2.{"free":"two words. with dots"}');
+    expect(SuspendCodec.decode(encoded)).toEqual({ l: 0, t: 0, q });
+  });
+
+  it('decodes earlier formats and rejects unknown ones', () => {
+    const legacy = JSON.stringify({ l: 3, t: 1700000000, q: { q0: 'C', q1: 'A' } });
+
+    expect(SuspendCodec.formatOf(legacy)).toBe(0);
+    expect(SuspendCodec.decode(legacy)).toEqual({ l: 3, t: 1700000000, q: { q0: 'C', q1: 'A' } });
+    expect(SuspendDataManager.migrate(legacy)).toBe(`3.3.${(1700000000).toString(36)}....20`);
+    expect(SuspendCodec.decode('1.5.0.~0*-s*2')).toEqual({ l: 5, t: 0, q: { q0: 'A', q29: 'C' } });
+    expect(SuspendCodec.decode('2.1.0.aaaaaa-bbbbbb.intro.1')).toEqual({
+      l: 1,
+      t: 0,
+      q: { q0: 'B' },
+      r: 'aaaaaa-bbbbbb',
+      c: 'intro',
+    });
+
+    expect(SuspendCodec.decode('9.0.0...0')).toBeNull();
+    expect(SuspendCodec.decode('3.0.0....?')).toBeNull();
+    expect(SuspendCodec.decode('3.0.0...!.0')).toBeNull();
+    expect(SuspendCodec.decode('{not json')).toBeNull();
+  });
+
+  it('remaps the lesson and resets answers when the course was republished', () => {
+    const course = {
+      revision: 'aaaaaa-bbbbbb',
+      lessons: [{ contentId: 'intro' }, { contentId: 'new' }, { contentId: 'safety' }],
+    };
+    const saved = { l: 1, t: 0, q: { q0: 'A' }, c: 'safety', s: 42 };
+
+    expect(SuspendCodec.restore({ ...saved, r: 'aaaaaa-bbbbbb' }, course)).toMatchObject({ l: 1, q: { q0: 'A' }, s: 42 });
+    expect(SuspendCodec.restore({ ...saved, r: 'cccccc-bbbbbb' }, course)).toMatchObject({ l: 2, q: { q0: 'A' }, s: 42 });
+    expect(SuspendCodec.restore({ ...saved, r: 'aaaaaa-dddddd' }, course)).toMatchObject({ l: 1, q: {}, s: undefined });
+    expect(SuspendCodec.restore({ ...saved, c: 'gone', r: 'cccccc-bbbbbb' }, course)).toMatchObject({ l: 0 });
+
+    // Bookmarks from before revisions are trusted, but never point past the end
+    expect(SuspendCodec.restore({ l: 1, t: 0, q: { q0: 'A' } }, course)).toMatchObject({ l: 1, q: { q0: 'A' } });
+    expect(SuspendCodec.restore({ l: 7, t: 0, q: {} }, course)).toMatchObject({ l: 0 });
+  });
+
+  it('fits a long quiz within the SCORM 1.2 limit', () => {
+    const worstCase = SuspendDataManager.worstCase(120, 2000);
+
+    expect(JSON.stringify(worstCase).length).toBeGreaterThan(4096);
+    expect(SuspendDataManager.getSize(worstCase)).toBeLessThan(2100);
+    expect(SuspendDataManager.deserialize(SuspendDataManager.serialize(worstCase))).toEqual(worstCase);
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Suspend Data Codec
+ * Compact, versioned encoding of the player bookmark (cmi.suspend_data)
+ *
+ * Format 3: "3.<lesson>.<time>.<revision>.<lessonId>.<seed>.<answers>[.<extra>]"
+ * - "3" is the format version; legacy bookmarks are plain JSON ("{...}"),
+ *   format 1 ("1.<lesson>.<time>.<answers>[.<extra>]") has no revision and
+ *   format 2 ("2.<lesson>.<time>.<revision>.<lessonId>.<answers>[.<extra>]")
+ *   no seed
+ * - lesson and time (Unix seconds) are base36 numbers
+ * - revision and lessonId are the course revision and the content id of
+ *   the current lesson, so a republished course can remap or reset
+ * - seed is the base36 seed of the assessment attempt (see quiz-draw.ts),
+ *   empty before the quiz is drawn
+ * - answers holds one character per question: the base36 index of the
+ *   chosen option ("0" = A, "1" = B, ...) or "-" when unanswered
+ * - answers prefixed with "~" are run-length compressed: "*<char><count>*"
+ * - extra is JSON for answers that are not a single option letter
+ *
+ * The runtime is plain ES5 so the same code ships in the SCORM API wrappers
+ * and is evaluated on the server (SuspendDataManager, package validator).
+ */
+
+import type { SuspendData } from './scorm.js';
+
+/**
+ * Current format version (first character of an encoded bookmark)
+ */
+export const SUSPEND_DATA_FORMAT_VERSION = 3;
+
+export interface SuspendCodecOptions {
+  compress?: boolean; // Run-length compress the answer string when that is shorter
+}
+
+/**
+ * What restore() needs to know about the running course
+ */
+export interface SuspendCodecCourse {
+  revision?: string; // "<lessons>-<quiz>", see ScormExportService
+  lessons: Array<{ contentId?: string }>;
+}
+
+export interface SuspendCodecApi {
+  encode(data: SuspendData, options?: SuspendCodecOptions): string;
+  decode(raw: string): SuspendData | null; // Null for empty, corrupt or unknown formats
+  formatOf(raw: string): number | null; // 0 for legacy JSON bookmarks
+  restore(data: SuspendData, course: SuspendCodecCourse): SuspendData; // Bookmark for the course as published now
+}
+
+/**
+ * Codec Runtime Generator
+ */
+export class SuspendCodecRuntime {
+  /**
+   * Generate the codec runtime
+   * Defines SuspendCodec with encode(data, options), decode(raw), formatOf(raw)
+   * and restore(data, course).
+   */
+  static generate(): string {
+    return `
+// Suspend Data Codec
+var SuspendCodec = (function() {
+  var VERSION = "${SUSPEND_DATA_FORMAT_VERSION}";
+  var SEPARATOR = ".";
+  var COMPRESSED = "~";
+  var RUN = "*";
+  var UNANSWERED = "-";
+  var MIN_RUN = 5; // Shorter runs do not get smaller
+  var MAX_QUESTIONS = 10000;
+  var SAFE_ID = /^[A-Za-z0-9_-]*$/;
+  var FIELDS = { 1: 4, 2: 6, 3: 7 }; // Fields up to and including the answers, per format
+
+  function packAnswers(answers) {
+    var index = [];
+    var extra = null;
+
+    for (var key in answers) {
+      if (!Object.prototype.hasOwnProperty.call(answers, key)) continue;
+
+      var match = /^q(\\d+)$/.exec(key);
+      var value = answers[key];
+      var position = match ? parseInt(match[1], 10) : -1;
+
+      if (position >= 0 && position < MAX_QUESTIONS && typeof value === "string" && /^[A-Z]$/.test(value)) {
+        index[position] = (value.charCodeAt(0) - 65).toString(36);
+      } else {
+        extra = extra || {};
+        extra[key] = value;
+      }
+    }
+
+    for (var i = 0; i < index.length; i++) {
+      if (index[i] === undefined) index[i] = UNANSWERED;
+    }
+
+    return { index: index.join(""), extra: extra };
+  }
+
+  function unpackAnswers(index) {
+    var answers = {};
+
+    for (var i = 0; i < index.length; i++) {
+      var c = index.charAt(i);
+      if (c === UNANSWERED) continue;
+
+      var option = parseInt(c, 36);
+      if (isNaN(option) || option > 25) return null;
+
+      answers["q" + i] = String.fromCharCode(65 + option);
+    }
+
+    return answers;
+  }
+
+  function compress(text) {
+    var out = "";
+    var i = 0;
+
+    while (i < text.length) {
+      var j = i;
+      while (j < text.length && text.charAt(j) === text.charAt(i)) j++;
+
+      var run = j - i;
+      out += run >= MIN_RUN ? RUN + text.charAt(i) + run.toString(36) + RUN : text.substring(i, j);
+      i = j;
+    }
+
+    return out;
+  }
+
+  function decompress(text) {
+    return text.replace(/\\*(.)([0-9a-z]+)\\*/g, function(_, c, count) {
+      return new Array(parseInt(count, 36) + 1).join(c);
+    });
+  }
+
+  function toBase36(value) {
+    return Math.max(0, Math.floor(Number(value) || 0)).toString(36);
+  }
+
+  function fromBase36(text) {
+    return /^[0-9a-z]+$/.test(text) ? parseInt(text, 36) : NaN;
+  }
+
+  function encode(data, options) {
+    var packed = packAnswers((data && data.q) || {});
+    var answers = packed.index;
+
+    if (options && options.compress) {
+      var compressed = COMPRESSED + compress(answers);
+      if (compressed.length < answers.length) answers = compressed;
+    }
+
+    var revision = data && SAFE_ID.test(data.r || "") ? data.r || "" : "";
+    var lessonId = data && SAFE_ID.test(data.c || "") ? data.c || "" : "";
+    var seed = data && typeof data.s === "number" ? toBase36(data.s) : "";
+
+    var parts = [VERSION, toBase36(data && data.l), toBase36(data && data.t), revision, lessonId, seed, answers];
+    if (packed.extra) parts.push(JSON.stringify(packed.extra));
+
+    return parts.join(SEPARATOR);
+  }
+
+  function decodeLegacy(raw) {
+    try {
+      var data = JSON.parse(raw);
+      if (!data || typeof data !== "object") return null;
+
+      var decoded = {
+        l: Number(data.l) || 0,
+        t: Number(data.t) || 0,
+        q: data.q && typeof data.q === "object" ? data.q : {}
+      };
+
+      // cmi5 stores the bookmark object as is, revision included
+      if (typeof data.r === "string") decoded.r = data.r;
+      if (typeof data.c === "string") decoded.c = data.c;
+      if (typeof data.s === "number") decoded.s = data.s;
+
+      return decoded;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  function decode(raw) {
+    var format = formatOf(raw);
+
+    if (format === 0) return decodeLegacy(raw);
+    if (!FIELDS[format]) return null;
+
+    var parts = raw.split(SEPARATOR);
+    var fields = FIELDS[format];
+    if (parts.length < fields) return null;
+
+    var l = fromBase36(parts[1]);
+    var t = fromBase36(parts[2]);
+    var packed = parts[fields - 1];
+    var index = packed.charAt(0) === COMPRESSED ? decompress(packed.substring(1)) : packed;
+    var q = unpackAnswers(index);
+
+    if (isNaN(l) || isNaN(t) || !q) return null;
+
+    if (parts.length > fields) {
+      try {
+        var extra = JSON.parse(parts.slice(fields).join(SEPARATOR));
+        for (var key in extra) {
+          if (Object.prototype.hasOwnProperty.call(extra, key)) q[key] = extra[key];
+        }
+      } catch (e) {
+        return null;
+      }
+    }
+
+    var data = { l: l, t: t, q: q };
+    if (format !== 1) {
+      if (parts[3]) data.r = parts[3];
+      if (parts[4]) data.c = parts[4];
+    }
+    if (format >= 3 && parts[5]) {
+      var seed = fromBase36(parts[5]);
+      if (isNaN(seed)) return null;
+      data.s = seed;
+    }
+
+    return data;
+  }
+
+  // Fit a bookmark to the course as published now. Bookmarks without a
+  // revision predate it and are trusted as they are. When lessons changed,
+  // the learner goes back to the lesson they were on (or the start); when
+  // the quiz changed, answers and the attempt's seed are dropped because
+  // their positions and option letters may no longer match.
+  function restore(data, course) {
+    var lessons = (course && course.lessons) || [];
+    var current = String((course && course.revision) || "");
+    var saved = String(data.r || "");
+    var result = { l: data.l, t: data.t, q: data.q || {}, r: data.r, c: data.c, s: data.s };
+
+    if (saved && current && saved !== current) {
+      var savedParts = saved.split("-");
+      var currentParts = current.split("-");
+
+      if (savedParts[0] !== currentParts[0]) {
+        result.l = 0;
+        for (var i = 0; i < lessons.length; i++) {
+          if (data.c && lessons[i].contentId === data.c) result.l = i;
+        }
+      }
+
+      if (savedParts[1] !== currentParts[1]) {
+        result.q = {};
+        result.s = undefined;
+      }
+    }
+
+    if (!(result.l >= 0 && result.l < lessons.length)) result.l = 0;
+
+    return result;
+  }
+
+  function formatOf(raw) {
+    if (typeof raw !== "string" || raw === "") return null;
+    if (raw.charAt(0) === "{") return 0;
+
+    var match = /^(\\d+)\\./.exec(raw);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  return { encode: encode, decode: decode, formatOf: formatOf, restore: restore };
+})();
+`;
+  }
+}
+
+/**
+ * The codec runtime, evaluated for use on the server
+ */
+export const SuspendCodec = new Function(
+  `${SuspendCodecRuntime.generate()}; return SuspendCodec;`
+)() as SuspendCodecApi;
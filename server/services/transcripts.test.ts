@@ -0,0 +1,90 @@
+/**
+ * TranscriptParser - Test Suite
+ *
+ * Verifies that WebVTT, SRT and plain text uploads normalize
+ * into the same timed cue structure.
+ */
+
+import { TranscriptParser } from './transcripts.js';
+
+const VTT = `WEBVTT
+Kind: captions
+
+NOTE This block is ignored
+
+intro
+00:00:01.000 --> 00:00:04.500 align:start
+<v Instructor>Welcome to <b>SCORM</b> basics.
+
+00:00:04.500 --> 00:00:07.000
+Today we cover &amp; compare versions.
+`;
+
+const SRT = `1\r
+00:00:01,000 --> 00:00:04,500\r
+{\\an8}Welcome to <i>SCORM</i> basics.\r
+\r
+2\r
+00:00:04,500 --> 00:00:07,000\r
+Today we cover & compare versions.\r
+`;
+
+describe('TranscriptParser', () => {
+  describe('detectFormat', () => {
+    it('should detect each supported format', () => {
+      expect(TranscriptParser.detectFormat(VTT)).toBe('vtt');
+      expect(TranscriptParser.detectFormat(SRT)).toBe('srt');
+      expect(TranscriptParser.detectFormat('Just some words.')).toBe('text');
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse WebVTT cues and strip markup', () => {
+      const { format, cues } = TranscriptParser.parse(VTT);
+
+      expect(format).toBe('vtt');
+      expect(cues).toEqual([
+        { start: 1, end: 4.5, text: 'Welcome to SCORM basics.' },
+        { start: 4.5, end: 7, text: 'Today we cover & compare versions.' },
+      ]);
+    });
+
+    it('should produce the same cues from SRT', () => {
+      expect(TranscriptParser.parse(SRT).cues).toEqual(TranscriptParser.parse(VTT).cues);
+    });
+
+    it('should collapse repeated rolling captions', () => {
+      const { cues } = TranscriptParser.parse(
+        'WEBVTT\n\n00:00.000 --> 00:02.000\nHello\n\n00:02.000 --> 00:03.000\nHello\n'
+      );
+
+      expect(cues).toEqual([{ start: 0, end: 3, text: 'Hello' }]);
+    });
+
+    it('should estimate timings for plain text paragraphs', () => {
+      const first = Array(150).fill('alpha').join(' ');
+      const second = Array(150).fill('beta').join(' ');
+      const { format, cues } = TranscriptParser.parse(`${first}\n\n${second}`);
+
+      expect(format).toBe('text');
+      expect(cues.map((cue) => [cue.start, cue.end])).toEqual([
+        [0, 60],
+        [60, 120],
+      ]);
+    });
+  });
+
+  describe('timestamps', () => {
+    it('should parse cue and lesson timestamps', () => {
+      expect(TranscriptParser.parseTimestamp('01:02:03.250')).toBe(3723.25);
+      expect(TranscriptParser.parseTimestamp('00:01:02,5')).toBe(62.5);
+      expect(TranscriptParser.parseTimestamp('01:30')).toBe(90);
+      expect(TranscriptParser.parseTimestamp('soon')).toBeNaN();
+    });
+
+    it('should format lesson timestamps', () => {
+      expect(TranscriptParser.formatTimestamp(90.7)).toBe('01:30');
+      expect(TranscriptParser.formatTimestamp(3723)).toBe('01:02:03');
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Transcript Parsing Service
+ * Normalizes WebVTT, SRT and plain text transcripts into timed cues
+ */
+
+/**
+ * Supported transcript formats
+ */
+export type TranscriptFormat = 'vtt' | 'srt' | 'text';
+
+/**
+ * A single timed caption
+ * Times are in seconds from the start of the video
+ */
+export interface TranscriptCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  cues: TranscriptCue[];
+}
+
+/**
+ * Speaking rate used to estimate timings for untimed plain text
+ */
+const WORDS_PER_MINUTE = 150;
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+
+export class TranscriptParser {
+  /**
+   * Guess the format of an uploaded transcript
+   */
+  static detectFormat(content: string): TranscriptFormat {
+    const normalized = this.normalizeLineEndings(content).trimStart();
+
+    if (/^WEBVTT\b/.test(normalized)) {
+      return 'vtt';
+    }
+
+    // SRT: numeric counter followed by a comma-millisecond timing line
+    if (/^\d+\n\d{2}:\d{2}:\d{2},\d{3}\s*-->/.test(normalized)) {
+      return 'srt';
+    }
+
+    return normalized.split('\n').some((line) => TIMING_LINE.test(line)) ? 'vtt' : 'text';
+  }
+
+  /**
+   * Parse a transcript into normalized cues
+   * @param format Explicit format, or auto-detect when omitted
+   */
+  static parse(content: string, format?: TranscriptFormat): ParsedTranscript {
+    const resolvedFormat = format ?? this.detectFormat(content);
+
+    const cues =
+      resolvedFormat === 'text'
+        ? this.parsePlainText(content)
+        : this.parseTimedBlocks(content, resolvedFormat);
+
+    return { format: resolvedFormat, cues: this.normalizeCues(cues) };
+  }
+
+  /**
+   * Parse WebVTT or SRT cue blocks
+   * Both formats are blank-line separated blocks of an optional identifier,
+   * a timing line and one or more text lines.
+   */
+  private static parseTimedBlocks(content: string, format: 'vtt' | 'srt'): TranscriptCue[] {
+    const blocks = this.normalizeLineEndings(content).split(/\n{2,}/);
+    const cues: TranscriptCue[] = [];
+
+    for (const block of blocks) {
+      const lines = block.split('\n').filter((line) => line.trim() !== '');
+      const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+
+      // Skips WEBVTT header, NOTE, STYLE and REGION blocks
+      if (timingIndex === -1) {
+        continue;
+      }
+
+      const match = lines[timingIndex].match(TIMING_LINE)!;
+      const text = lines
+        .slice(timingIndex + 1)
+        .map((line) => this.cleanCueText(line, format))
+        .filter((line) => line !== '')
+        .join(' ');
+
+      cues.push({
+        start: this.parseTimestamp(match[1]),
+        end: this.parseTimestamp(match[2]),
+        text,
+      });
+    }
+
+    return cues;
+  }
+
+  /**
+   * Parse untimed text, one cue per paragraph
+   * Timings are estimated from word count at a typical speaking rate.
+   */
+  private static parsePlainText(content: string): TranscriptCue[] {
+    const paragraphs = this.normalizeLineEndings(content)
+      .split(/\n{2,}/)
+      .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+      .filter((paragraph) => paragraph !== '');
+
+    const cues: TranscriptCue[] = [];
+    let cursor = 0;
+
+    for (const paragraph of paragraphs) {
+      const words = paragraph.split(' ').length;
+      const duration = (words / WORDS_PER_MINUTE) * 60;
+      cues.push({ start: cursor, end: cursor + duration, text: paragraph });
+      cursor += duration;
+    }
+
+    return cues;
+  }
+
+  /**
+   * Strip markup from a cue text line
+   */
+  private static cleanCueText(line: string, format: 'vtt' | 'srt'): string {
+    let text = line;
+
+    if (format === 'srt') {
+      // ASS-style positioning overrides, e.g. {\an8}
+      text = text.replace(/\{\\[^}]*\}/g, '');
+    }
+
+    return text
+      .replace(/<[^>]*>/g, '') // <v Speaker>, <c.yellow>, <b>, inline <00:00:01.000>
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&amp;/g, '&')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Drop empty cues, sort by start time and collapse the repeated
+   * lines produced by rolling auto-captions
+   */
+  private static normalizeCues(cues: TranscriptCue[]): TranscriptCue[] {
+    const sorted = cues
+      .filter((cue) => cue.text !== '' && cue.end >= cue.start)
+      .sort((a, b) => a.start - b.start);
+
+    const result: TranscriptCue[] = [];
+
+    for (const cue of sorted) {
+      const previous = result[result.length - 1];
+
+      if (previous && previous.text === cue.text) {
+        previous.end = Math.max(previous.end, cue.end);
+        continue;
+      }
+
+      result.push({
+        start: this.round(cue.start),
+        end: this.round(cue.end),
+        text: cue.text,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a cue or lesson timestamp into seconds
+   * Accepts HH:MM:SS.mmm, HH:MM:SS,mmm, MM:SS.mmm and MM:SS
+   * @returns Seconds, or NaN if the value is not a timestamp
+   */
+  static parseTimestamp(value: string): number {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+
+    if (!match) {
+      return NaN;
+    }
+
+    const hours = match[1] ? parseInt(match[1], 10) : 0;
+    const minutes = parseInt(match[2], 10);
+    const seconds = parseInt(match[3], 10);
+    const millis = match[4] ? parseInt(match[4].padEnd(3, '0'), 10) : 0;
+
+    return hours * 3600 + minutes * 60 + seconds + millis / 1000;
+  }
+
+  /**
+   * Format seconds as a lesson timestamp (MM:SS, or HH:MM:SS past an hour)
+   */
+  static formatTimestamp(totalSeconds: number): string {
+    const whole = Math.max(0, Math.floor(totalSeconds));
+    const hours = Math.floor(whole / 3600);
+    const minutes = Math.floor((whole % 3600) / 60);
+    const seconds = whole % 60;
+    const pad = (num: number) => num.toString().padStart(2, '0');
+
+    return hours > 0
+      ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+      : `${pad(minutes)}:${pad(seconds)}`;
+  }
+
+  /**
+   * Join cue texts into a single plain-text transcript
+   */
+  static toPlainText(cues: TranscriptCue[]): string {
+    return cues.map((cue) => cue.text).join(' ');
+  }
+
+  private static normalizeLineEndings(content: string): string {
+    return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  }
+
+  private static round(seconds: number): number {
+    return Math.round(seconds * 1000) / 1000;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Project Workflow - Test Suite
+ *
+ * Verifies the allowed status transitions, required rejection comments,
+ * which roles can take each step and that submitters cannot approve.
+ */
+
+import { db } from '../db/index.js';
+import { projects, users } from '../db/schema.js';
+import { ProjectWorkflow } from './workflow.js';
+
+describe('ProjectWorkflow', () => {
+  it('follows draft, review, approval, publication and archive in order', () => {
+    expect(ProjectWorkflow.check('draft', 'submit').to).toBe('in_review');
+    expect(ProjectWorkflow.check('in_review', 'approve').to).toBe('approved');
+    expect(ProjectWorkflow.check('approved', 'publish').to).toBe('published');
+    expect(ProjectWorkflow.check('published', 'archive').to).toBe('archived');
+    expect(ProjectWorkflow.check('archived', 'reopen').to).toBe('draft');
+  });
+
+  it('only publishes approved projects', () => {
+    expect(() => ProjectWorkflow.check('draft', 'publish')).toThrow('Cannot publish a project that is draft');
+    expect(() => ProjectWorkflow.check('in_review', 'publish')).toThrow('Cannot publish a project that is in review');
+    expect(() => ProjectWorkflow.check('draft', 'approve')).toThrow();
+    expect(ProjectWorkflow.actionsFrom('draft')).toEqual(['submit']);
+    expect(ProjectWorkflow.actionsFrom('in_review')).toEqual(['approve', 'reject', 'reopen']);
+  });
+
+  it('requires a comment to reject', () => {
+    expect(() => ProjectWorkflow.check('in_review', 'reject')).toThrow('A comment is required to reject a project');
+    expect(() => ProjectWorkflow.check('in_review', 'reject', '  ')).toThrow();
+    expect(ProjectWorkflow.check('in_review', 'reject', 'Fix slide 3').to).toBe('draft');
+  });
+
+  it('leaves sign-off to reviewers and publication to admins', () => {
+    expect(ProjectWorkflow.allows('author', 'submit')).toBe(true);
+    expect(ProjectWorkflow.allows('author', 'approve')).toBe(false);
+    expect(ProjectWorkflow.allows('reviewer', 'approve')).toBe(true);
+    expect(ProjectWorkflow.allows('reviewer', 'publish')).toBe(false);
+    expect(ProjectWorkflow.allows('admin', 'publish')).toBe(true);
+    expect(ProjectWorkflow.allows('viewer', 'submit')).toBe(false);
+  });
+
+  it('leaves reopening signed-off projects to admins', () => {
+    expect(ProjectWorkflow.allows('author', 'reopen', 'in_review')).toBe(true);
+    expect(ProjectWorkflow.permissionFor('reopen', 'in_review')).toBe('edit');
+
+    for (const status of ['approved', 'published', 'archived']) {
+      expect(ProjectWorkflow.permissionFor('reopen', status)).toBe('publish');
+      expect(ProjectWorkflow.allows('author', 'reopen', status)).toBe(false);
+      expect(ProjectWorkflow.allows('reviewer', 'reopen', status)).toBe(false);
+      expect(ProjectWorkflow.allows('admin', 'reopen', status)).toBe(true);
+    }
+  });
+
+  it('checks the permission from the current status when applying', async () => {
+    const [user] = await db
+      .insert(users)
+      .values({ email: 'workflow@example.com', name: 'Author', passwordHash: '' })
+      .returning();
+    const [project] = await db.insert(projects).values({ title: 'Signed off', status: 'approved' }).returning();
+
+    await expect(
+      ProjectWorkflow.apply(db, project.id, 'reopen', { userId: user.id, role: 'author' })
+    ).rejects.toThrow('The author role cannot reopen a project that is approved (needs the publish permission)');
+
+    const event = await ProjectWorkflow.apply(db, project.id, 'reopen', { userId: user.id, role: 'admin' });
+    expect(event.toStatus).toBe('draft');
+  });
+
+  it('does not let the submitter approve their own project', () => {
+    expect(() => ProjectWorkflow.checkReviewer('approve', 3, 3)).toThrow(
+      'A project cannot be approved by the user who submitted it'
+    );
+    expect(() => ProjectWorkflow.checkReviewer('approve', 4, 3)).not.toThrow();
+    expect(() => ProjectWorkflow.checkReviewer('approve', 4, null)).not.toThrow();
+    expect(() => ProjectWorkflow.checkReviewer('reject', 3, 3)).not.toThrow();
+  });
+});
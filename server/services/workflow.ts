@@ -0,0 +1,236 @@
+/**
+ * Project Workflow
+ * Review and approval lifecycle of a project
+ *
+ *   draft --submit--> in_review --approve--> approved --publish--> published --archive--> archived
+ *     ^                   |
+ *     +------reject-------+         (reject needs a comment)
+ *     +------reopen------- in_review, approved, published, archived
+ *
+ * Content can only be edited while a project is a draft, so what was
+ * approved is what gets published. Each transition is allowed for the
+ * roles with its permission (see ROLE_PERMISSIONS) and is recorded in
+ * workflow_events with who made it, when, and the reviewer's comment.
+ * Authors can take back a project in review, but reopening one that was
+ * approved or published needs the publish permission.
+ * Whoever submitted a project for review cannot approve it themselves.
+ *
+ * Exporting a package does not change the status; publishing is its own
+ * step and snapshots the course (see SnapshotService).
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import { Database, withTransaction } from '../db/index.js';
+import { projects, users, workflowEvents } from '../db/schema.js';
+import { OrganizationService, Permission, Role } from './organizations.js';
+import { SnapshotService } from './snapshots.js';
+
+export const PROJECT_STATUSES = ['draft', 'in_review', 'approved', 'published', 'archived'] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export const WORKFLOW_ACTIONS = ['submit', 'approve', 'reject', 'publish', 'archive', 'reopen'] as const;
+
+export type WorkflowAction = (typeof WORKFLOW_ACTIONS)[number];
+
+export interface WorkflowTransition {
+  from: readonly ProjectStatus[];
+  to: ProjectStatus;
+  permission: Permission;
+  permissionFrom?: Partial<Record<ProjectStatus, Permission>>; // Overrides permission for these statuses
+  commentRequired: boolean;
+}
+
+/**
+ * Allowed transitions by action
+ */
+export const WORKFLOW_TRANSITIONS: Record<WorkflowAction, WorkflowTransition> = {
+  submit: { from: ['draft'], to: 'in_review', permission: 'edit', commentRequired: false },
+  approve: { from: ['in_review'], to: 'approved', permission: 'review', commentRequired: false },
+  reject: { from: ['in_review'], to: 'draft', permission: 'review', commentRequired: true },
+  publish: { from: ['approved'], to: 'published', permission: 'publish', commentRequired: false },
+  archive: { from: ['published'], to: 'archived', permission: 'publish', commentRequired: false },
+  reopen: {
+    from: ['in_review', 'approved', 'published', 'archived'],
+    to: 'draft',
+    permission: 'edit',
+    permissionFrom: { approved: 'publish', published: 'publish', archived: 'publish' },
+    commentRequired: false,
+  },
+};
+
+export interface WorkflowEvent {
+  id: number;
+  action: WorkflowAction;
+  fromStatus: ProjectStatus;
+  toStatus: ProjectStatus;
+  comment: string | null;
+  userId: number | null;
+  userName: string | null;
+  createdAt: Date;
+}
+
+export class ProjectWorkflow {
+  /**
+   * Actions possible from a status
+   */
+  static actionsFrom(status: string): WorkflowAction[] {
+    return WORKFLOW_ACTIONS.filter((action) =>
+      (WORKFLOW_TRANSITIONS[action].from as readonly string[]).includes(status)
+    );
+  }
+
+  /**
+   * Permission an action needs from a status
+   */
+  static permissionFor(action: WorkflowAction, status: string): Permission {
+    const transition = WORKFLOW_TRANSITIONS[action];
+    return transition.permissionFrom?.[status as ProjectStatus] ?? transition.permission;
+  }
+
+  /**
+   * Whether a role may take an action, from a status if given
+   */
+  static allows(role: Role, action: WorkflowAction, status?: string): boolean {
+    const permission = status ? this.permissionFor(action, status) : WORKFLOW_TRANSITIONS[action].permission;
+    return OrganizationService.can(role, permission);
+  }
+
+  /**
+   * Check an action against the project's current status
+   * @throws Error if the transition is not allowed or lacks its comment
+   */
+  static check(status: string, action: WorkflowAction, comment?: string | null): WorkflowTransition {
+    const transition = WORKFLOW_TRANSITIONS[action];
+
+    if (!(transition.from as readonly string[]).includes(status)) {
+      throw new Error(`Cannot ${action} a project that is ${status.replace('_', ' ')}`);
+    }
+    if (transition.commentRequired && !comment?.trim()) {
+      throw new Error(`A comment is required to ${action} a project`);
+    }
+
+    return transition;
+  }
+
+  /**
+   * Check that the actor is not signing off their own submission
+   * @throws Error if the actor approves a project they submitted
+   */
+  static checkReviewer(action: WorkflowAction, userId: number, submittedBy: number | null): void {
+    if (action === 'approve' && submittedBy === userId) {
+      throw new Error('A project cannot be approved by the user who submitted it');
+    }
+  }
+
+  /**
+   * User who last submitted a project for review, if known
+   */
+  static async submitter(db: Database, projectId: number): Promise<number | null> {
+    const result = await db
+      .select({ userId: workflowEvents.userId })
+      .from(workflowEvents)
+      .where(and(eq(workflowEvents.projectId, projectId), eq(workflowEvents.action, 'submit')))
+      .orderBy(desc(workflowEvents.createdAt), desc(workflowEvents.id))
+      .limit(1);
+
+    return result[0]?.userId ?? null;
+  }
+
+  /**
+   * Move a project through the workflow and record who did it
+   * The status is only changed if nobody moved the project in between.
+   * @throws Error if the transition is not allowed, or not for the role
+   */
+  static async apply(
+    db: Database,
+    projectId: number,
+    action: WorkflowAction,
+    actor: { userId: number; role: Role },
+    comment?: string | null
+  ): Promise<WorkflowEvent> {
+    const { userId, role } = actor;
+
+    return await withTransaction(db, async (tx) => {
+      const result = await tx
+        .select({ status: projects.status })
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .limit(1);
+
+      if (!result[0]) {
+        throw new Error('Project not found');
+      }
+
+      const fromStatus = result[0].status;
+      const transition = this.check(fromStatus, action, comment);
+
+      if (!this.allows(role, action, fromStatus)) {
+        throw new Error(
+          `The ${role} role cannot ${action} a project that is ${fromStatus.replace('_', ' ')} ` +
+            `(needs the ${this.permissionFor(action, fromStatus)} permission)`
+        );
+      }
+      if (action === 'approve') {
+        this.checkReviewer(action, userId, await this.submitter(tx, projectId));
+      }
+
+      const updated = await tx
+        .update(projects)
+        .set({ status: transition.to, updatedAt: new Date() })
+        .where(and(eq(projects.id, projectId), eq(projects.status, fromStatus)))
+        .returning({ id: projects.id });
+
+      if (!updated[0]) {
+        throw new Error('Project status changed meanwhile; reload and try again');
+      }
+
+      if (action === 'publish') {
+        await SnapshotService.create(tx, projectId, { reason: 'publish', userId });
+      }
+
+      const event = await tx
+        .insert(workflowEvents)
+        .values({
+          projectId,
+          userId,
+          action,
+          fromStatus,
+          toStatus: transition.to,
+          comment: comment?.trim() || null,
+        })
+        .returning();
+
+      const user = await tx.select({ name: users.name }).from(users).where(eq(users.id, userId)).limit(1);
+
+      return this.toEvent(event[0], user[0]?.name ?? null);
+    });
+  }
+
+  /**
+   * Status changes of a project, newest first
+   */
+  static async history(db: Database, projectId: number): Promise<WorkflowEvent[]> {
+    const rows = await db
+      .select({ event: workflowEvents, userName: users.name })
+      .from(workflowEvents)
+      .leftJoin(users, eq(users.id, workflowEvents.userId))
+      .where(eq(workflowEvents.projectId, projectId))
+      .orderBy(desc(workflowEvents.createdAt), desc(workflowEvents.id));
+
+    return rows.map((row) => this.toEvent(row.event, row.userName));
+  }
+
+  private static toEvent(row: typeof workflowEvents.$inferSelect, userName: string | null): WorkflowEvent {
+    return {
+      id: row.id,
+      action: row.action as WorkflowAction,
+      fromStatus: row.fromStatus as ProjectStatus,
+      toStatus: row.toStatus as ProjectStatus,
+      comment: row.comment,
+      userId: row.userId,
+      userName,
+      createdAt: row.createdAt,
+    };
+  }
+}
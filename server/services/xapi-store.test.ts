@@ -0,0 +1,197 @@
+/**
+ * xAPI Store - Test Suite
+ *
+ * Verifies statement validation, project linking from activity IRIs,
+ * agent matching for state documents and the scope of cmi5 launch tokens.
+ */
+
+import { db } from '../db/index.js';
+import { projects } from '../db/schema.js';
+import { XAPI_ACTIVITY_BASE } from './cmi5.js';
+import {
+  LAUNCH_TOKEN_TTL_MS,
+  XapiDocumentStore,
+  XapiLaunchScope,
+  XapiLaunchTokens,
+  XapiRequestError,
+  XapiStatementStore,
+} from './xapi-store.js';
+
+const statement = {
+  actor: { mbox: 'mailto:learner@example.com' },
+  verb: { id: 'http://adlnet.gov/expapi/verbs/answered' },
+  object: { id: `${XAPI_ACTIVITY_BASE}/courses/12/au/course/questions/1` },
+};
+
+describe('XapiStatementStore', () => {
+  it('rejects statements missing required parts with a 400', () => {
+    expect(() => XapiStatementStore.validate(statement)).not.toThrow();
+
+    for (const invalid of [
+      [],
+      { ...statement, actor: undefined },
+      { ...statement, verb: {} },
+      { ...statement, object: { objectType: 'Activity' } },
+      { ...statement, id: 'not-a-uuid' },
+    ]) {
+      try {
+        XapiStatementStore.validate(invalid);
+        throw new Error('expected validation to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(XapiRequestError);
+        expect((error as XapiRequestError).status).toBe(400);
+      }
+    }
+  });
+
+  it('links statements to projects through course activity IRIs', () => {
+    expect(XapiStatementStore.projectIdFor(statement)).toBe(12);
+
+    // Agents as objects fall back to the context parent
+    expect(
+      XapiStatementStore.projectIdFor({
+        ...statement,
+        object: { objectType: 'Agent', mbox: 'mailto:x@example.com' },
+        context: { contextActivities: { parent: [{ id: `${XAPI_ACTIVITY_BASE}/courses/3` }] } },
+      })
+    ).toBe(3);
+
+    expect(
+      XapiStatementStore.projectIdFor({
+        ...statement,
+        object: { id: `${XAPI_ACTIVITY_BASE}/courses/12abc` },
+      })
+    ).toBeNull();
+    expect(
+      XapiStatementStore.projectIdFor({ ...statement, object: { id: 'https://other.example/courses/4' } })
+    ).toBeNull();
+  });
+});
+
+describe('XapiDocumentStore', () => {
+  it('matches agents on their identifier only', () => {
+    expect(XapiDocumentStore.agentKey('{"mbox":"mailto:Learner@Example.com","name":"L"}')).toBe(
+      XapiDocumentStore.agentKey('{"objectType":"Agent","mbox":"mailto:learner@example.com"}')
+    );
+    expect(
+      XapiDocumentStore.agentKey('{"account":{"homePage":"https://lms.example","name":"42"}}')
+    ).toBe('account:https://lms.example|42');
+    expect(() => XapiDocumentStore.agentKey('{"name":"Nobody"}')).toThrow(XapiRequestError);
+    expect(() => XapiDocumentStore.agentKey('not json')).toThrow(XapiRequestError);
+  });
+});
+
+describe('XapiLaunchTokens', () => {
+  const launch = { projectId: 7, registration: 'b2f4c1a0-3d5e-4f60-9a7b-8c9d0e1f2a3b' };
+
+  it('accepts a launch token as Basic credentials until it expires', () => {
+    const now = Date.now();
+    const token = XapiLaunchTokens.issue(launch, now);
+
+    expect(XapiLaunchTokens.verify(`Basic ${token}`, now)).toEqual(launch);
+    expect(XapiLaunchTokens.verify(`Basic ${token}`, now + LAUNCH_TOKEN_TTL_MS)).toBeNull();
+  });
+
+  it('rejects other credentials', () => {
+    const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+    expect(XapiLaunchTokens.verify(undefined)).toBeNull();
+    expect(XapiLaunchTokens.verify(basic('courseforge:courseforge'))).toBeNull();
+    expect(XapiLaunchTokens.verify(basic('launch:guessed'))).toBeNull();
+  });
+
+  it('only issues tokens for UUID registrations', () => {
+    expect(() => XapiLaunchTokens.issue({ projectId: 7, registration: 'any' })).toThrow(XapiRequestError);
+  });
+});
+
+describe('launch scope', () => {
+  const registration = 'b2f4c1a0-3d5e-4f60-9a7b-8c9d0e1f2a3b';
+  const otherRegistration = 'c3a5d2b1-4e6f-4a71-8b8c-9d0e1f2a3b4c';
+  const authority = { objectType: 'Agent', account: { homePage: 'https://courseforge.app', name: 'test' } };
+
+  let course: number;
+  let otherCourse: number;
+  let launch: XapiLaunchScope;
+
+  const statementFor = (projectId: number, statementRegistration = registration) => ({
+    actor: { mbox: 'mailto:learner@example.com' },
+    verb: { id: 'http://adlnet.gov/expapi/verbs/answered' },
+    object: { id: `${XAPI_ACTIVITY_BASE}/courses/${projectId}/au/course` },
+    context: { registration: statementRegistration },
+  });
+
+  const stateKey = (projectId: number, stateRegistration: string | null = registration) => ({
+    type: 'state' as const,
+    activityId: `${XAPI_ACTIVITY_BASE}/courses/${projectId}/au/course`,
+    agent: XapiDocumentStore.agentKey('{"mbox":"mailto:learner@example.com"}'),
+    registration: stateRegistration,
+    documentId: 'bookmark',
+  });
+
+  const save = (statement: object, scope: XapiLaunchScope | null = launch) =>
+    XapiStatementStore.save(db, [statement], authority, scope);
+
+  async function statusOf(promise: Promise<unknown>) {
+    const error = await promise.then(
+      () => null,
+      (reason: unknown) => reason
+    );
+    expect(error).toBeInstanceOf(XapiRequestError);
+    return (error as XapiRequestError).status;
+  }
+
+  beforeAll(async () => {
+    const created = await db
+      .insert(projects)
+      .values([{ title: 'Course' }, { title: 'Other course' }])
+      .returning();
+
+    course = created[0].id;
+    otherCourse = created[1].id;
+    launch = { projectId: course, registration };
+  });
+
+  it('rejects statements about another course or registration', async () => {
+    const elsewhere = { ...statementFor(course), object: { id: 'https://other.example/activity' } };
+
+    expect(await statusOf(save(statementFor(otherCourse)))).toBe(403);
+    expect(await statusOf(save(statementFor(course, otherRegistration)))).toBe(403);
+    expect(await statusOf(save(elsewhere))).toBe(403);
+
+    const [id] = await save(statementFor(course));
+    expect(await XapiStatementStore.get(db, id, launch)).not.toBeNull();
+  });
+
+  it('only reads statements inside the scope', async () => {
+    const [own] = await save(statementFor(course));
+    const [foreign] = await save(statementFor(otherCourse), null);
+    const [otherLaunch] = await save(statementFor(course, otherRegistration), null);
+
+    expect(await XapiStatementStore.get(db, foreign, launch)).toBeNull();
+    expect(await XapiStatementStore.get(db, otherLaunch, launch)).toBeNull();
+    expect(await XapiStatementStore.get(db, foreign)).not.toBeNull();
+
+    const ids = (await XapiStatementStore.query(db, {}, launch)).map((row) => row.id);
+    expect(ids).toContain(own);
+    expect(ids).not.toContain(foreign);
+    expect(ids).not.toContain(otherLaunch);
+
+    const courseWide = { projectId: course, registration: null };
+    expect((await XapiStatementStore.query(db, {}, courseWide)).map((row) => row.id)).toContain(otherLaunch);
+  });
+
+  it('only reads and writes documents inside the scope', async () => {
+    const json = 'application/json';
+    const profiles = { type: 'activity-profile' as const, activityId: 'https://other.example/a' };
+
+    await XapiDocumentStore.put(db, stateKey(course), '{"slide":2}', json, launch);
+    expect((await XapiDocumentStore.get(db, stateKey(course), launch))?.content).toBe('{"slide":2}');
+
+    expect(await statusOf(XapiDocumentStore.put(db, stateKey(otherCourse), '{}', json, launch))).toBe(403);
+    expect(await statusOf(XapiDocumentStore.get(db, stateKey(course, otherRegistration), launch))).toBe(403);
+    expect(await statusOf(XapiDocumentStore.merge(db, stateKey(course, null), { slide: 1 }, launch))).toBe(403);
+    expect(await statusOf(XapiDocumentStore.listIds(db, profiles, undefined, launch))).toBe(403);
+    expect(await statusOf(XapiDocumentStore.delete(db, stateKey(otherCourse), launch))).toBe(403);
+  });
+});
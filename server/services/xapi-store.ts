@@ -0,0 +1,543 @@
+/**
+ * xAPI Store
+ * Statement and document storage behind the built-in LRS
+ *
+ * Implements the subset of the xAPI 1.0.3 Statement, State and Activity
+ * Profile resources that exported cmi5 packages use. Statements whose
+ * activities live under XAPI_ACTIVITY_BASE/courses/<id> are linked to that
+ * project so they can be listed per course.
+ */
+
+import crypto from 'crypto';
+import { and, asc, desc, eq, gte, inArray, isNull, lte, SQL } from 'drizzle-orm';
+import { Database, withTransaction } from '../db/index.js';
+import { parseJsonObject, toJsonColumn } from '../db/json.js';
+import { projects, xapiDocuments, xapiStatements } from '../db/schema.js';
+import { XAPI_ACTIVITY_BASE } from './cmi5.js';
+
+export const XAPI_VERSION = '1.0.3';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Error carrying the HTTP status the LRS should answer with
+ */
+export class XapiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'XapiRequestError';
+  }
+}
+
+export type XapiStatement = Record<string, unknown>;
+
+/**
+ * A statement whose parts the LRS relies on have been checked by validate
+ */
+type ValidStatement = XapiStatement & {
+  id?: string;
+  actor: XapiStatement;
+  verb: XapiStatement & { id: string };
+  object: XapiStatement;
+  context?: XapiStatement & { registration?: string };
+  timestamp?: string;
+  version?: string;
+};
+
+/**
+ * What a cmi5 launch token may read and write: the statements and
+ * documents of one course, and of one registration when it is set
+ */
+export interface XapiLaunchScope {
+  projectId: number;
+  registration: string | null;
+}
+
+/**
+ * How long a cmi5 launch token is accepted: long enough for one sitting
+ */
+export const LAUNCH_TOKEN_TTL_MS = 4 * 60 * 60 * 1000;
+
+export interface StatementQuery {
+  projectId?: number;
+  verb?: string;
+  activity?: string;
+  registration?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  ascending?: boolean;
+}
+
+export interface DocumentKey {
+  type: 'state' | 'activity-profile';
+  activityId: string;
+  agent?: string | null; // From XapiDocumentStore.agentKey
+  registration?: string | null;
+  documentId: string;
+}
+
+export class XapiStatementStore {
+  /**
+   * Check the parts of a statement the LRS relies on
+   * @throws XapiRequestError (400) if the statement is malformed
+   */
+  static validate(statement: unknown): asserts statement is ValidStatement {
+    const candidate = asRecord(statement);
+
+    if (!candidate) {
+      throw new XapiRequestError('Statement must be a JSON object', 400);
+    }
+    if (
+      candidate.id !== undefined &&
+      (typeof candidate.id !== 'string' || !UUID_PATTERN.test(candidate.id))
+    ) {
+      throw new XapiRequestError(`Statement id is not a UUID: ${candidate.id}`, 400);
+    }
+    if (!asRecord(candidate.actor)) {
+      throw new XapiRequestError('Statement actor is required', 400);
+    }
+    if (typeof asRecord(candidate.verb)?.id !== 'string') {
+      throw new XapiRequestError('Statement verb.id is required', 400);
+    }
+
+    const object = asRecord(candidate.object);
+    if (!object) {
+      throw new XapiRequestError('Statement object is required', 400);
+    }
+
+    const objectType = object.objectType ?? 'Activity';
+    if (objectType === 'Activity' && typeof object.id !== 'string') {
+      throw new XapiRequestError('Statement object.id is required for activities', 400);
+    }
+
+    const context = candidate.context === undefined ? {} : asRecord(candidate.context);
+    if (!context) {
+      throw new XapiRequestError('Statement context must be a JSON object', 400);
+    }
+    if (
+      context.registration !== undefined &&
+      (typeof context.registration !== 'string' || !UUID_PATTERN.test(context.registration))
+    ) {
+      throw new XapiRequestError('context.registration is not a UUID', 400);
+    }
+    if (candidate.timestamp !== undefined && typeof candidate.timestamp !== 'string') {
+      throw new XapiRequestError('Statement timestamp must be an ISO 8601 string', 400);
+    }
+    if (candidate.version !== undefined && typeof candidate.version !== 'string') {
+      throw new XapiRequestError('Statement version must be a string', 400);
+    }
+  }
+
+  /**
+   * Store statements as one batch
+   * Ids, timestamps and authority are filled in the way an LRS does.
+   * With a launch scope every statement must be about the launched course
+   * and, if the scope has one, carry its registration.
+   * @returns Ids of the stored statements, in order
+   * @throws XapiRequestError (403) if a statement is outside the launch scope
+   * @throws XapiRequestError (409) if an id is already stored
+   */
+  static async save(
+    db: Database,
+    input: unknown[],
+    authority: XapiStatement,
+    launch: XapiLaunchScope | null = null
+  ): Promise<string[]> {
+    const stored = new Date().toISOString();
+
+    const statements = input.map((statement): ValidStatement & { id: string } => {
+      this.validate(statement);
+
+      if (launch && this.projectIdFor(statement) !== launch.projectId) {
+        throw new XapiRequestError('Statement activity is outside the launched course', 403);
+      }
+      if (launch?.registration && statement.context?.registration !== launch.registration) {
+        throw new XapiRequestError('Statement registration does not match the launch', 403);
+      }
+
+      return {
+        ...statement,
+        id: (statement.id ?? crypto.randomUUID()).toLowerCase(),
+        timestamp: statement.timestamp ?? stored,
+        stored,
+        authority,
+        version: statement.version ?? '1.0.0',
+      };
+    });
+
+    const ids = statements.map((statement) => statement.id);
+
+    if (new Set(ids).size !== ids.length) {
+      throw new XapiRequestError('Batch contains the same statement id twice', 400);
+    }
+
+    const existing = await db
+      .select({ statementId: xapiStatements.statementId })
+      .from(xapiStatements)
+      .where(inArray(xapiStatements.statementId, ids));
+
+    if (existing.length > 0) {
+      throw new XapiRequestError(`Statement ${existing[0].statementId} already exists`, 409);
+    }
+
+    const projectIds = await this.knownProjectIds(
+      db,
+      statements.map((statement) => this.projectIdFor(statement))
+    );
+
+    await withTransaction(db, async (tx) => {
+      for (const statement of statements) {
+        const projectId = this.projectIdFor(statement);
+        const { objectType = 'Activity', id: objectId } = statement.object;
+
+        await tx.insert(xapiStatements).values({
+          statementId: statement.id,
+          projectId: projectId !== null && projectIds.has(projectId) ? projectId : null,
+          registration: statement.context?.registration ?? null,
+          verb: statement.verb.id,
+          activityId: objectType === 'Activity' && typeof objectId === 'string' ? objectId : null,
+          statement: toJsonColumn(statement),
+        });
+      }
+    });
+
+    return ids;
+  }
+
+  /**
+   * Get one statement by id
+   * With a launch scope, statements outside it are not found.
+   */
+  static async get(
+    db: Database,
+    statementId: string,
+    launch: XapiLaunchScope | null = null
+  ): Promise<XapiStatement | null> {
+    const result = await db
+      .select()
+      .from(xapiStatements)
+      .where(and(eq(xapiStatements.statementId, statementId.toLowerCase()), ...this.launchConditions(launch)))
+      .limit(1);
+
+    return result[0] ? parseJsonObject<XapiStatement>(result[0].statement) : null;
+  }
+
+  /**
+   * Find statements, newest first unless ascending is set
+   * With a launch scope only statements inside it are searched.
+   */
+  static async query(db: Database, filters: StatementQuery = {}, launch: XapiLaunchScope | null = null) {
+    const conditions: SQL[] = this.launchConditions(launch);
+
+    if (filters.projectId !== undefined) conditions.push(eq(xapiStatements.projectId, filters.projectId));
+    if (filters.verb) conditions.push(eq(xapiStatements.verb, filters.verb));
+    if (filters.activity) conditions.push(eq(xapiStatements.activityId, filters.activity));
+    if (filters.registration) conditions.push(eq(xapiStatements.registration, filters.registration));
+    if (filters.since) conditions.push(gte(xapiStatements.storedAt, filters.since));
+    if (filters.until) conditions.push(lte(xapiStatements.storedAt, filters.until));
+
+    const order = filters.ascending
+      ? [asc(xapiStatements.storedAt), asc(xapiStatements.id)]
+      : [desc(xapiStatements.storedAt), desc(xapiStatements.id)];
+
+    const rows = await db
+      .select()
+      .from(xapiStatements)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(...order)
+      .limit(Math.min(filters.limit || 100, 500));
+
+    return rows.map((row) => ({
+      id: row.statementId,
+      projectId: row.projectId,
+      registration: row.registration,
+      verb: row.verb,
+      activityId: row.activityId,
+      storedAt: row.storedAt,
+      statement: parseJsonObject<XapiStatement>(row.statement) ?? {},
+    }));
+  }
+
+  /**
+   * Project a statement belongs to, from the activity IRIs it mentions
+   */
+  static projectIdFor(statement: XapiStatement): number | null {
+    const contextActivities = asRecord(asRecord(statement.context)?.contextActivities) ?? {};
+    const candidates = [
+      asRecord(statement.object)?.id,
+      ...['parent', 'grouping', 'other'].flatMap((key) =>
+        ([] as unknown[]).concat(contextActivities[key] ?? []).map((activity) => asRecord(activity)?.id)
+      ),
+    ];
+
+    for (const candidate of candidates) {
+      const projectId = courseOfActivity(candidate);
+      if (projectId !== null) {
+        return projectId;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Conditions that keep a statement lookup inside a launch scope
+   */
+  private static launchConditions(launch: XapiLaunchScope | null): SQL[] {
+    if (!launch) {
+      return [];
+    }
+
+    return launch.registration
+      ? [eq(xapiStatements.projectId, launch.projectId), eq(xapiStatements.registration, launch.registration)]
+      : [eq(xapiStatements.projectId, launch.projectId)];
+  }
+
+  private static async knownProjectIds(db: Database, ids: Array<number | null>): Promise<Set<number>> {
+    const wanted = [...new Set(ids.filter((id): id is number => id !== null))];
+
+    if (wanted.length === 0) {
+      return new Set();
+    }
+
+    const rows = await db.select({ id: projects.id }).from(projects).where(inArray(projects.id, wanted));
+    return new Set(rows.map((row) => row.id));
+  }
+}
+
+export class XapiDocumentStore {
+  /**
+   * Stable identifier for an agent given as a JSON query parameter
+   * Agents match on their inverse functional identifier only.
+   * @throws XapiRequestError (400) if the agent has no identifier
+   */
+  static agentKey(agentJson: string): string {
+    let agent: XapiStatement | undefined;
+
+    try {
+      agent = asRecord(JSON.parse(agentJson));
+    } catch {
+      agent = undefined;
+    }
+
+    if (!agent) {
+      throw new XapiRequestError('agent must be a JSON object', 400);
+    }
+
+    const account = asRecord(agent.account);
+
+    if (agent.mbox) return `mbox:${String(agent.mbox).replace(/^mailto:/i, '').toLowerCase()}`;
+    if (agent.mbox_sha1sum) return `mbox_sha1sum:${agent.mbox_sha1sum}`;
+    if (agent.openid) return `openid:${agent.openid}`;
+    if (account?.homePage && account?.name) {
+      return `account:${account.homePage}|${account.name}`;
+    }
+
+    throw new XapiRequestError('agent has no identifier (mbox, mbox_sha1sum, openid or account)', 400);
+  }
+
+  /**
+   * Get a document
+   * @throws XapiRequestError (403) if it is outside the launch scope
+   */
+  static async get(db: Database, key: DocumentKey, launch: XapiLaunchScope | null = null) {
+    this.checkLaunch(key, launch);
+
+    const result = await db
+      .select()
+      .from(xapiDocuments)
+      .where(and(this.scope(key), eq(xapiDocuments.documentId, key.documentId)))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Ids of the documents in a scope, optionally only those changed since a time
+   */
+  static async listIds(
+    db: Database,
+    key: Omit<DocumentKey, 'documentId'>,
+    since?: Date,
+    launch: XapiLaunchScope | null = null
+  ) {
+    this.checkLaunch(key, launch);
+
+    const rows = await db
+      .select({ documentId: xapiDocuments.documentId })
+      .from(xapiDocuments)
+      .where(since ? and(this.scope(key), gte(xapiDocuments.updatedAt, since)) : this.scope(key));
+
+    return rows.map((row) => row.documentId);
+  }
+
+  /**
+   * Create or replace a document
+   */
+  static async put(
+    db: Database,
+    key: DocumentKey,
+    content: string,
+    contentType: string,
+    launch: XapiLaunchScope | null = null
+  ) {
+    const existing = await this.get(db, key, launch);
+
+    if (existing) {
+      await db
+        .update(xapiDocuments)
+        .set({ content, contentType, updatedAt: new Date() })
+        .where(eq(xapiDocuments.id, existing.id));
+      return;
+    }
+
+    await db.insert(xapiDocuments).values({
+      type: key.type,
+      activityId: key.activityId,
+      agent: key.agent ?? null,
+      registration: key.registration ?? null,
+      documentId: key.documentId,
+      contentType,
+      content,
+    });
+  }
+
+  /**
+   * Merge a JSON object into a document (xAPI POST semantics)
+   * @throws XapiRequestError (400) if either side is not a JSON object
+   */
+  static async merge(db: Database, key: DocumentKey, patch: unknown, launch: XapiLaunchScope | null = null) {
+    const fields = asRecord(patch);
+
+    if (!fields) {
+      throw new XapiRequestError('Only JSON objects can be merged', 400);
+    }
+
+    const existing = await this.get(db, key, launch);
+    let current: Record<string, unknown> = {};
+
+    if (existing) {
+      const parsed = existing.contentType.startsWith('application/json')
+        ? parseJsonObject(existing.content)
+        : null;
+
+      if (!parsed) {
+        throw new XapiRequestError('Stored document is not a JSON object', 400);
+      }
+      current = parsed;
+    }
+
+    await this.put(db, key, JSON.stringify({ ...current, ...fields }), 'application/json', launch);
+  }
+
+  /**
+   * Delete one document, or every document in the scope when no id is given
+   */
+  static async delete(
+    db: Database,
+    key: Omit<DocumentKey, 'documentId'> & { documentId?: string },
+    launch: XapiLaunchScope | null = null
+  ) {
+    this.checkLaunch(key, launch);
+
+    await db
+      .delete(xapiDocuments)
+      .where(
+        key.documentId
+          ? and(this.scope(key), eq(xapiDocuments.documentId, key.documentId))
+          : this.scope(key)
+      );
+  }
+
+  /**
+   * @throws XapiRequestError (403) if a document is outside the launch scope:
+   * about another course, or state of another registration
+   */
+  private static checkLaunch(key: Omit<DocumentKey, 'documentId'>, launch: XapiLaunchScope | null) {
+    if (!launch) {
+      return;
+    }
+
+    if (courseOfActivity(key.activityId) !== launch.projectId) {
+      throw new XapiRequestError('Activity is outside the launched course', 403);
+    }
+    if (key.type === 'state' && launch.registration && key.registration !== launch.registration) {
+      throw new XapiRequestError('State registration does not match the launch', 403);
+    }
+  }
+
+  private static scope(key: Omit<DocumentKey, 'documentId'>) {
+    return and(
+      eq(xapiDocuments.type, key.type),
+      eq(xapiDocuments.activityId, key.activityId),
+      key.agent ? eq(xapiDocuments.agent, key.agent) : isNull(xapiDocuments.agent),
+      key.registration ? eq(xapiDocuments.registration, key.registration) : isNull(xapiDocuments.registration)
+    );
+  }
+}
+
+/**
+ * Per-launch LRS credentials handed out by the cmi5 fetch URL
+ * Each token is limited to the course (and registration) it was issued
+ * for and expires after LAUNCH_TOKEN_TTL_MS. Tokens are kept in memory,
+ * so a restart ends running launches. A token is Basic auth credentials,
+ * as the player sends it as "Basic <token>".
+ */
+export class XapiLaunchTokens {
+  private static tokens = new Map<string, { launch: XapiLaunchScope; expiresAt: number }>();
+
+  /**
+   * Issue a token for a launch
+   * @throws XapiRequestError (400) if the registration is not a UUID
+   */
+  static issue(launch: XapiLaunchScope, now = Date.now()): string {
+    if (launch.registration !== null && !UUID_PATTERN.test(launch.registration)) {
+      throw new XapiRequestError('registration is not a UUID', 400);
+    }
+
+    for (const [secret, token] of this.tokens) {
+      if (token.expiresAt <= now) this.tokens.delete(secret);
+    }
+
+    const secret = crypto.randomBytes(24).toString('base64url');
+    this.tokens.set(secret, { launch, expiresAt: now + LAUNCH_TOKEN_TTL_MS });
+
+    return Buffer.from(`launch:${secret}`).toString('base64');
+  }
+
+  /**
+   * Scope of the launch token in a Basic Authorization header, or null if
+   * it holds no token or the token expired
+   */
+  static verify(authorization: string | undefined, now = Date.now()): XapiLaunchScope | null {
+    const match = authorization?.match(/^Basic ([A-Za-z0-9+/=]+)$/);
+    const credentials = match ? Buffer.from(match[1], 'base64').toString() : '';
+
+    if (!credentials.startsWith('launch:')) {
+      return null;
+    }
+
+    const token = this.tokens.get(credentials.slice('launch:'.length));
+
+    return token && token.expiresAt > now ? token.launch : null;
+  }
+}
+
+function asRecord(value: unknown): XapiStatement | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as XapiStatement) : undefined;
+}
+
+/**
+ * Project of an activity IRI under XAPI_ACTIVITY_BASE/courses/<id>, or null
+ */
+function courseOfActivity(activityId: unknown): number | null {
+  const base = XAPI_ACTIVITY_BASE.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`^${base}/courses/(\\d+)(?:/|$)`);
+  const match = typeof activityId === 'string' ? activityId.match(pattern) : null;
+
+  return match ? Number(match[1]) : null;
+}
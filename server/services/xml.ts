@@ -0,0 +1,185 @@
+/**
+ * XML Reader
+ * Minimal well-formedness checking parser for package manifests
+ *
+ * Builds an element tree with attributes and text, and rejects documents
+ * that are not well-formed (mismatched tags, bad attributes, undefined
+ * entities, content outside the root). DTDs and namespaces are not
+ * processed; prefixed names are kept as written (e.g. "adlcp:masteryscore").
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated character data directly inside this element
+  line: number;
+}
+
+export class XmlParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+const NAME = /[A-Za-z_:][\w.\-:]*/y;
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Parse a document and return its root element
+ * @throws XmlParseError if the document is not well-formed
+ */
+export function parseXml(source: string): XmlElement {
+  let position = source.charCodeAt(0) === 0xfeff ? 1 : 0;
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const fail = (message: string, at = position): never => {
+    const before = source.slice(0, at).split('\n');
+    throw new XmlParseError(message, before.length, before[before.length - 1].length + 1);
+  };
+
+  const lineAt = (at: number) => source.slice(0, at).split('\n').length;
+
+  const skipUntil = (terminator: string, what: string) => {
+    const end = source.indexOf(terminator, position);
+    if (end === -1) fail(`Unterminated ${what}`);
+    position = end + terminator.length;
+  };
+
+  const readName = (): string => {
+    NAME.lastIndex = position;
+    const match = NAME.exec(source);
+    if (!match) fail('Expected a name');
+    position += match![0].length;
+    return match![0];
+  };
+
+  const skipSpace = () => {
+    while (position < source.length && /\s/.test(source[position])) position++;
+  };
+
+  const decode = (text: string, at: number): string =>
+    text.replace(/&([^;\s&<]*);?/g, (entity, name: string, offset: number) => {
+      if (!entity.endsWith(';')) fail('Unescaped "&"', at + offset);
+      if (name in ENTITIES) return ENTITIES[name];
+
+      const code = /^#x[0-9a-f]+$/i.test(name)
+        ? parseInt(name.slice(2), 16)
+        : /^#\d+$/.test(name)
+          ? parseInt(name.slice(1), 10)
+          : NaN;
+
+      if (Number.isNaN(code) || code > 0x10ffff) fail(`Undefined entity "&${name};"`, at + offset);
+      return String.fromCodePoint(code);
+    });
+
+  while (position < source.length) {
+    const next = source.indexOf('<', position);
+    const textEnd = next === -1 ? source.length : next;
+    const text = source.slice(position, textEnd);
+
+    if (text.trim() !== '') {
+      if (stack.length === 0) fail('Text outside the root element');
+      stack[stack.length - 1].text += decode(text, position);
+    }
+
+    if (next === -1) break;
+    position = next;
+
+    if (source.startsWith('<?', position)) {
+      skipUntil('?>', 'processing instruction');
+    } else if (source.startsWith('<!--', position)) {
+      skipUntil('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', position)) {
+      if (stack.length === 0) fail('CDATA outside the root element');
+      const start = position + 9;
+      skipUntil(']]>', 'CDATA section');
+      stack[stack.length - 1].text += source.slice(start, position - 3);
+    } else if (source.startsWith('<!DOCTYPE', position)) {
+      if (root || stack.length > 0) fail('DOCTYPE after the root element');
+      skipUntil('>', 'DOCTYPE');
+    } else if (source.startsWith('</', position)) {
+      position += 2;
+      const name = readName();
+      skipSpace();
+      if (source[position] !== '>') fail(`Expected ">" to close </${name}`);
+      position++;
+
+      const open = stack.pop();
+      if (!open) fail(`Closing tag </${name}> without an opening tag`);
+      if (open!.name !== name) fail(`Closing tag </${name}> does not match <${open!.name}>`);
+    } else {
+      const start = position;
+      position++;
+      const element: XmlElement = { name: readName(), attributes: {}, children: [], text: '', line: lineAt(start) };
+
+      while (true) {
+        const hadSpace = /\s/.test(source[position] ?? '');
+        skipSpace();
+
+        if (source.startsWith('/>', position) || source[position] === '>') break;
+        if (position >= source.length) fail(`Unterminated tag <${element.name}>`);
+        if (!hadSpace) fail(`Expected whitespace between attributes of <${element.name}>`);
+
+        const attributeAt = position;
+        const attribute = readName();
+        skipSpace();
+        if (source[position] !== '=') fail(`Attribute "${attribute}" has no value`);
+        position++;
+        skipSpace();
+
+        const quote = source[position];
+        if (quote !== '"' && quote !== "'") fail(`Value of "${attribute}" must be quoted`);
+        const end = source.indexOf(quote, position + 1);
+        if (end === -1) fail(`Unterminated value of "${attribute}"`);
+
+        const raw = source.slice(position + 1, end);
+        if (raw.includes('<')) fail(`"<" in the value of "${attribute}"`, position + 1 + raw.indexOf('<'));
+        if (attribute in element.attributes) fail(`Duplicate attribute "${attribute}"`, attributeAt);
+
+        element.attributes[attribute] = decode(raw, position + 1);
+        position = end + 1;
+      }
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail('Document has more than one root element', start);
+      } else {
+        root = element;
+      }
+
+      if (source.startsWith('/>', position)) {
+        position += 2;
+      } else {
+        position++;
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) fail(`Element <${stack[stack.length - 1].name}> is not closed`);
+  if (!root) fail('Document has no root element');
+
+  return root!;
+}
+
+/**
+ * Child elements with a given name
+ */
+export function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => child.name === name);
+}
+
+/**
+ * First child element with a given name
+ */
+export function childNamed(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find((child) => child.name === name);
+}
@@ -0,0 +1,22 @@
+/**
+ * Server Test Setup
+ * Runs before every server test file (see vitest.config.ts)
+ *
+ * Each test file gets its own in-memory SQLite database; this brings it
+ * to the current schema with the same migrations `pnpm db:migrate` runs.
+ * Export packages go to a fresh temporary directory per file.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
+import { db } from './db/index.js';
+
+migrate(db as unknown as BetterSQLite3Database, { migrationsFolder: 'drizzle/migrations' });
+
+const exportsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'courseforge-exports-'));
+process.env.EXPORTS_DIR = exportsDir;
+
+afterAll(() => fs.rmSync(exportsDir, { recursive: true, force: true }));
@@ -0,0 +1,33 @@
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Test runner configuration
+ * Server tests run in Node against an in-memory SQLite database with the
+ * migrations applied (see server/test-setup.ts), so no sqlite.db is
+ * written; client tests run in jsdom.
+ */
+export default defineConfig({
+  test: {
+    globals: true,
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'server',
+          include: ['server/**/*.test.ts'],
+          environment: 'node',
+          env: { DATABASE_URL: ':memory:' },
+          setupFiles: ['server/test-setup.ts'],
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: 'client',
+          include: ['client/src/**/*.test.{ts,tsx}'],
+          environment: 'jsdom',
+        },
+      },
+    ],
+  },
+});